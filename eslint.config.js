@@ -90,12 +90,14 @@ export default [
             'stickyScroll',
             'stickyStart',
             'scrollAcceleration',
+            'onMouseScroll',
             'titleAlignment',
             'onContentChange',
             'onInput',
             'onSubmit',
             'keyBindings',
             'keyAliasMap',
+            'syntaxStyle',
           ],
         },
       ],
@@ -7,38 +7,59 @@ import { AppProvider } from './context/AppContext'
 import { createActionRegistry } from './actions/createActionRegistry'
 import { autoConnectServers } from './utils/autoConnect'
 import { copyToClipboard } from './utils/clipboard'
+import { chordFromKey, loadKeymap } from './utils/keymap'
+import { loadUserThemes } from './utils/themes'
 
 const registry = createActionRegistry()
+registry.setKeymap(loadKeymap(registry.getAll().map((action) => action.id)).keymap)
+// Before the UI state loads, so a saved user theme can be found
+loadUserThemes()
 
 export function App() {
   const renderer = useRenderer()
-  const toggleUserPane = useStore((state) => state.toggleUserPane)
   const ircClient = useStore((state) => state.ircClient)
   const initializeIRC = useStore((state) => state.initializeIRC)
   const loadPersistedServers = useStore((state) => state.loadPersistedServers)
   const migratePasswords = useStore((state) => state.migratePasswords)
   const loadPersistedUIState = useStore((state) => state.loadPersistedUIState)
+  const loadHighlights = useStore((state) => state.loadHighlights)
+  const loadSettings = useStore((state) => state.loadSettings)
   const servers = useStore((state) => state.servers)
   const hasAutoConnected = useRef(false)
   const quitConfirmTimer = useRef<ReturnType<typeof setTimeout> | null>(null)
 
   // Initialize IRC and load persisted servers
   useEffect(() => {
+    // Attached to a daemon: servers, highlights and the IRC client come from it
+    if (globalThis.__ATTACHED__) {
+      loadPersistedUIState()
+      loadSettings()
+      return
+    }
     debugLog?.('App mounted, loading persisted servers and initializing IRC')
     loadPersistedServers()
     migratePasswords()
     loadPersistedUIState()
+    loadSettings()
+    loadHighlights()
     initializeIRC()
     // --setup: open the connect modal so the user can fill in server details
     if (globalThis.__SETUP_MODE__) {
       setTimeout(() => useStore.getState().openModal('connect'), 50)
     }
-  }, [initializeIRC, loadPersistedServers, loadPersistedUIState, migratePasswords])
+  }, [
+    initializeIRC,
+    loadHighlights,
+    loadPersistedServers,
+    loadPersistedUIState,
+    loadSettings,
+    migratePasswords,
+  ])
 
   // Auto-connect to servers after they're loaded and IRC is initialized.
   // Skipped in --setup mode — connection happens after the modal is submitted.
   useEffect(() => {
-    if (globalThis.__SETUP_MODE__) return
+    if (globalThis.__SETUP_MODE__ || globalThis.__ATTACHED__) return
     if (ircClient && servers.length > 0 && !hasAutoConnected.current) {
       hasAutoConnected.current = true
       debugLog?.('Scheduling auto-connect in 1 second...')
@@ -95,82 +116,25 @@ export function App() {
       return
     }
 
-    if (key.ctrl && key.name === 'l') {
-      const { currentChannelId, clearMessages } = useStore.getState()
-      if (currentChannelId) clearMessages(currentChannelId)
-      return
-    }
-
-    if (key.ctrl && key.name === 'g') {
-      toggleUserPane()
-      return
-    }
-
-    if (key.ctrl && key.name === 'k') {
-      useStore.getState().openModal('quickActions')
-      return
-    }
-
-    // Alt+N / Alt+P — next/prev buffer
-    if ((key.meta || key.option) && key.name === 'n') {
-      const context = {
-        store: useStore.getState(),
-        ircClient: ircClient!,
-        currentServer: useStore
-          .getState()
-          .servers.find((s) => s.id === useStore.getState().currentServerId),
-        renderer,
-      }
-      registry.execute('buffer.next', context)
-      return
-    }
-
-    if ((key.meta || key.option) && key.name === 'p') {
-      const context = {
-        store: useStore.getState(),
-        ircClient: ircClient!,
-        currentServer: useStore
-          .getState()
-          .servers.find((s) => s.id === useStore.getState().currentServerId),
-        renderer,
-      }
-      registry.execute('buffer.prev', context)
-      return
-    }
-
-    // Alt+[ / Alt+] — reorder server or channel up/down
-    // These non-alphanumeric Alt combos don't get meta:true from the parser;
-    // detect them by raw sequence (\x1b[ and \x1b]) instead.
-    const isAltBracketOpen =
-      key.sequence === '\x1b[' || ((key.meta || key.option) && key.name === '[')
-    const isAltBracketClose =
-      key.sequence === '\x1b]' || ((key.meta || key.option) && key.name === ']')
-    if (isAltBracketOpen || isAltBracketClose) {
-      const state = useStore.getState()
-      const { currentServerId, currentChannelId } = state
-      if (!currentServerId) return
-      const direction = isAltBracketOpen ? 'up' : 'down'
-      if (currentChannelId) {
-        state.reorderChannel(currentServerId, currentChannelId, direction)
-      } else {
-        state.reorderServer(currentServerId, direction)
-      }
-      return
-    }
-
-    // Alt+1..9,0 — jump to buffer by number
-    if ((key.meta || key.option) && /^[0-9]$/.test(key.name)) {
-      const context = {
-        store: useStore.getState(),
-        ircClient: ircClient!,
-        currentServer: useStore
-          .getState()
-          .servers.find((s) => s.id === useStore.getState().currentServerId),
-        renderer,
-      }
-      registry.execute(`buffer.goto.${key.name}`, context)
-      return
+    // Everything else goes through the keymap (defaults merged with keys.json)
+    const chord = chordFromKey(key)
+    const action = chord ? registry.findByKeybinding(chord) : undefined
+    if (!action) return
+    const state = useStore.getState()
+    const currentServer = state.servers.find((s) => s.id === state.currentServerId)
+    const context = {
+      store: state,
+      ircClient: ircClient!,
+      currentServer,
+      currentChannel: currentServer?.channels.find((c) => c.id === state.currentChannelId),
+      selectedMessage: state.selectedMessage ?? undefined,
+      renderer,
     }
+    // A disabled action leaves the key to the input
+    if (action.isEnabled && !action.isEnabled(context)) return
+    // A bound chord belongs to its action, not to the input's own editing keys
+    key.preventDefault()
+    registry.execute(action.id, context)
   })
 
   return (
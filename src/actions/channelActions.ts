@@ -1,6 +1,7 @@
 import type { ActionContext, Server } from '@/types'
 import type { AppStore } from '@/store'
 import type { ActionRegistry } from '@/actions'
+import { bufferNotifyLevel } from '@/utils/notifications'
 
 interface BufferEntry {
   serverId: string
@@ -32,6 +33,15 @@ function findCurrentBufferIndex(
   )
 }
 
+// Name of the focused channel or private chat, as /notify keys it
+function currentBufferName(ctx: ActionContext<AppStore>): string | undefined {
+  const { currentChannelId } = ctx.store
+  return (
+    ctx.currentChannel?.name ??
+    ctx.currentServer?.privateChats.find((pc) => pc.id === currentChannelId)?.username
+  )
+}
+
 function applyBuffer(state: AppStore, buffer: BufferEntry) {
   state.setCurrentServer(buffer.serverId)
   state.setCurrentChannel(buffer.channelId)
@@ -81,8 +91,8 @@ export function registerChannelActions(registry: ActionRegistry<AppStore>) {
         return
       }
 
-      // Join the channel using IRC client
-      const ircChannel = ircClient.joinChannel(currentServer.id, normalizedChannelName)
+      // Join the channel using IRC client (awaited: attached front ends get it from the daemon)
+      const ircChannel = await ircClient.joinChannel(currentServer.id, normalizedChannelName)
 
       // Map ObsidianIRC Channel to our Channel type
       const channel = {
@@ -287,13 +297,76 @@ export function registerChannelActions(registry: ActionRegistry<AppStore>) {
     })
   }
 
+  // Clear the current buffer's scrollback (the message log is kept)
+  registry.register({
+    id: 'buffer.clear',
+    label: 'Clear Buffer',
+    description: 'Clear the messages shown in the current buffer',
+    category: 'navigation',
+    keybinding: 'ctrl+l',
+    keywords: ['clear', 'buffer', 'messages', 'scrollback'],
+    priority: 60,
+
+    isEnabled: (ctx) => !!ctx.store.currentChannelId,
+    isVisible: (ctx) => !!ctx.store.currentChannelId,
+
+    execute: (ctx: ActionContext<AppStore>) => {
+      const { currentChannelId, clearMessages } = ctx.store
+      if (currentChannelId) clearMessages(currentChannelId)
+    },
+  })
+
+  // Move the current channel (or the server, when on its buffer) up or down the list
+  for (const direction of ['up', 'down'] as const) {
+    const Direction = direction === 'up' ? 'Up' : 'Down'
+    registry.register({
+      id: `buffer.move${Direction}`,
+      label: `Move Buffer ${Direction}`,
+      description: `Move the current server or channel ${direction} the list`,
+      category: 'navigation',
+      keybinding: direction === 'up' ? 'alt+[' : 'alt+]',
+      keywords: ['move', 'reorder', 'buffer', direction],
+      priority: 55,
+
+      isEnabled: (ctx) => !!ctx.store.currentServerId,
+      isVisible: () => false,
+
+      execute: (ctx: ActionContext<AppStore>) => {
+        const { currentServerId, currentChannelId, reorderChannel, reorderServer } = ctx.store
+        if (!currentServerId) return
+        if (currentChannelId) reorderChannel(currentServerId, currentChannelId, direction)
+        else reorderServer(currentServerId, direction)
+      },
+    })
+  }
+
+  // Mute or unmute the focused buffer; /notify sets the other levels
+  registry.register({
+    id: 'buffer.toggleMute',
+    label: 'Mute / Unmute Buffer',
+    description: 'Silence the current channel or private chat, hiding its unread count',
+    category: 'channel',
+    keywords: ['mute', 'unmute', 'notify', 'notifications', 'silence', 'quiet'],
+    priority: 58,
+
+    isEnabled: (ctx) => !!currentBufferName(ctx),
+    isVisible: (ctx) => !!currentBufferName(ctx),
+
+    execute: (ctx: ActionContext<AppStore>) => {
+      const name = currentBufferName(ctx)
+      if (!ctx.currentServer || !name) return
+      const muted = bufferNotifyLevel(ctx.currentServer, name) === 'muted'
+      ctx.store.setNotifyLevel(ctx.currentServer.id, name, muted ? null : 'muted')
+    },
+  })
+
   // Mark channel as read
   registry.register({
     id: 'channel.markAsRead',
     label: 'Mark as Read',
     description: 'Mark the current channel as read',
     category: 'channel',
-    keybinding: 'ctrl+r',
+    keybinding: 'alt+r',
     keywords: ['mark', 'read', 'clear', 'unread'],
     priority: 70,
 
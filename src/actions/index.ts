@@ -2,6 +2,8 @@ import type { Action, ActionContext } from '@/types'
 
 export class ActionRegistry<TStore = unknown> {
   private actions = new Map<string, Action<TStore, unknown[]>>()
+  // chord → action id; until one is set, the bindings declared on actions are used
+  private keymap: Map<string, string> | null = null
 
   register<TParams extends unknown[]>(action: Action<TStore, TParams>): void {
     this.actions.set(action.id, action as Action<TStore, unknown[]>)
@@ -58,7 +60,27 @@ export class ActionRegistry<TStore = unknown> {
       .sort((a, b) => (b.priority || 0) - (a.priority || 0))
   }
 
+  setKeymap(keymap: Map<string, string>): void {
+    this.keymap = keymap
+  }
+
+  /** Every bound chord with its action, in keymap order */
+  getKeymap(): [string, Action<TStore, unknown[]>][] {
+    if (!this.keymap) {
+      return this.getAll()
+        .filter((action) => action.keybinding)
+        .map((action) => [action.keybinding!, action])
+    }
+    return [...this.keymap]
+      .map(([chord, id]): [string, Action<TStore, unknown[]> | undefined] => [chord, this.get(id)])
+      .filter((entry): entry is [string, Action<TStore, unknown[]>] => !!entry[1])
+  }
+
   findByKeybinding(keybinding: string): Action<TStore, unknown[]> | undefined {
+    if (this.keymap) {
+      const id = this.keymap.get(keybinding)
+      return id ? this.get(id) : undefined
+    }
     return this.getAll().find((action) => action.keybinding === keybinding)
   }
 }
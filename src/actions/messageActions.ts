@@ -1,8 +1,32 @@
-import type { ActionContext, Message } from '@/types'
+import type { ActionContext, Message, Server } from '@/types'
 import type { AppStore } from '@/store'
 import type { ActionRegistry } from '@/actions'
 import { v4 as uuidv4 } from 'uuid'
 import { sendSafeMessage, MAX_IRC_MSG_LENGTH } from '@/utils/ircSend'
+import { FORMAT_CODES } from '@/utils/inputFormatting'
+import { insertIntoInput, startHistorySearch } from '@/utils/inputFocus'
+
+// Styles the composer toggles by inserting their code at the cursor
+const FORMAT_STYLES = [
+  { style: 'bold', label: 'Bold', keybinding: 'ctrl+b' },
+  { style: 'italic', label: 'Italic', keybinding: 'ctrl+]' },
+  { style: 'underline', label: 'Underline', keybinding: 'ctrl+_' },
+  { style: 'strikethrough', label: 'Strikethrough', keybinding: 'ctrl+^' },
+] as const
+
+// The server a selected message of ours came from; the Mentions buffer mixes servers
+function ownMessageServer(ctx: ActionContext<AppStore>): Server | undefined {
+  const message = ctx.selectedMessage
+  const server = message && ctx.store.getServer(message.serverId)
+  if (
+    !message ||
+    !server?.nickname ||
+    message.userId.toLowerCase() !== server.nickname.toLowerCase()
+  ) {
+    return undefined
+  }
+  return server
+}
 
 export function registerMessageActions(registry: ActionRegistry<AppStore>) {
   // Send message
@@ -230,14 +254,7 @@ export function registerMessageActions(registry: ActionRegistry<AppStore>) {
 
     isEnabled: (ctx) => {
       // Check if editing is supported and user owns the message
-      const { currentServer, selectedMessage } = ctx
-      const nickname = currentServer?.nickname
-      return (
-        !!selectedMessage &&
-        !!nickname &&
-        selectedMessage.userId === nickname &&
-        !!currentServer?.capabilities?.includes('draft/edit')
-      )
+      return !!ownMessageServer(ctx)?.capabilities?.includes('draft/edit')
     },
 
     isVisible: (ctx) => {
@@ -245,8 +262,8 @@ export function registerMessageActions(registry: ActionRegistry<AppStore>) {
     },
 
     execute: async (ctx: ActionContext<AppStore>, newContent?: string) => {
-      const { store, ircClient, currentServer, currentChannel, selectedMessage } = ctx
-      if (!ircClient || !currentServer || !currentChannel || !selectedMessage) {
+      const { store, ircClient, selectedMessage } = ctx
+      if (!ircClient || !selectedMessage) {
         throw new Error('No message selected to edit')
       }
 
@@ -262,11 +279,60 @@ export function registerMessageActions(registry: ActionRegistry<AppStore>) {
         throw new Error('Cannot edit message without msgid')
       }
 
+      // The message's own server and buffer, which differ from the current ones in Mentions
+      const server = ownMessageServer(ctx)
+      if (!server) {
+        throw new Error('Only your own messages can be edited')
+      }
+      const target =
+        server.channels.find((c) => c.id === selectedMessage.channelId)?.name ??
+        server.privateChats.find((pc) => pc.id === selectedMessage.channelId)?.username
+      if (!target) {
+        throw new Error('No channel selected')
+      }
+
+      const capabilities = server.capabilities ?? []
       const editTag = `+draft/edit=${msgid}`
-      ircClient.sendRaw(
-        currentServer.id,
-        `@${editTag} PRIVMSG ${currentChannel.name} :${newContent}`
-      )
+      const isAction = selectedMessage.type === 'action'
+      const wrap = (text: string) => (isAction ? `\x01ACTION ${text}\x01` : text)
+      let lines = newContent.split('\n').filter(Boolean)
+      if (lines.length > 1 && !capabilities.includes('draft/multiline')) {
+        lines = [lines.join(' ')]
+      }
+
+      if (lines.length > 1) {
+        const batchId = `ml_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`
+        ircClient.sendRaw(server.id, `@${editTag} BATCH +${batchId} draft/multiline ${target}`)
+        for (const [i, line] of lines.entries()) {
+          const text = (isAction && i === 0 ? '\x01ACTION ' : '') + line
+          const end = isAction && i === lines.length - 1 ? '\x01' : ''
+          ircClient.sendRaw(server.id, `@batch=${batchId} PRIVMSG ${target} :${text}${end}`)
+        }
+        ircClient.sendRaw(server.id, `BATCH -${batchId}`)
+      } else {
+        ircClient.sendRaw(server.id, `@${editTag} PRIVMSG ${target} :${wrap(lines[0] ?? '')}`)
+      }
+
+      // Show the edit right away; with echo-message it stays pending until the server
+      // reflects it back (or refuses it), otherwise this is all we'll ever see of it
+      const echoed = capabilities.includes('echo-message')
+      store.updateMessage(selectedMessage.channelId, selectedMessage.id, {
+        content: lines.join('\n'),
+        lines: lines.length > 1 ? lines : undefined,
+        isMultiline: lines.length > 1 ? true : undefined,
+        editedAt: new Date(),
+        originalContent: selectedMessage.originalContent ?? selectedMessage.content,
+        editPending: echoed
+          ? {
+              content: selectedMessage.content,
+              lines: selectedMessage.lines,
+              isMultiline: selectedMessage.isMultiline,
+              editedAt: selectedMessage.editedAt,
+              originalContent: selectedMessage.originalContent,
+            }
+          : undefined,
+      })
+      if (echoed) store.awaitEditEcho(selectedMessage.channelId, selectedMessage.id)
     },
   })
 
@@ -352,6 +418,32 @@ export function registerMessageActions(registry: ActionRegistry<AppStore>) {
     },
   })
 
+  // Enter selection mode on the newest message, or leave it (and any search)
+  registry.register({
+    id: 'message.toggleSelection',
+    label: 'Select Messages',
+    description: 'Enter or leave message selection mode',
+    category: 'message',
+    keybinding: 'ctrl+space',
+    keywords: ['select', 'selection', 'reply', 'react', 'copy'],
+    priority: 75,
+
+    isEnabled: (ctx) => !ctx.store.activeModal,
+    isVisible: () => false,
+
+    execute: (ctx) => {
+      const state = ctx.store
+      if (state.messageSearch !== null || state.selectedMessage) {
+        state.setMessageSearch(null)
+        state.setSelectedMessage(null)
+        return
+      }
+      const msgs = state.messages.get(state.currentChannelId ?? '') ?? []
+      const last = msgs.filter((m) => ['message', 'action'].includes(m.type)).at(-1)
+      if (last) state.setSelectedMessage(last)
+    },
+  })
+
   // Search messages in the current channel buffer
   registry.register({
     id: 'message.search',
@@ -414,4 +506,62 @@ export function registerMessageActions(registry: ActionRegistry<AppStore>) {
       }
     },
   })
+
+  // Formatting composer: the codes are invisible in the input, the preview above it shows them
+  const canFormat = (ctx: ActionContext<AppStore>) =>
+    !ctx.store.selectedMessage && !ctx.store.activeModal
+
+  for (const { style, label, keybinding } of FORMAT_STYLES) {
+    registry.register({
+      id: `format.${style}`,
+      label: `Format: ${label}`,
+      description: `Start or end ${style} text in the input`,
+      category: 'message',
+      keybinding,
+      keywords: ['format', 'style', style],
+      priority: 45,
+
+      isEnabled: canFormat,
+      isVisible: () => false,
+
+      execute: () => {
+        insertIntoInput(FORMAT_CODES[style])
+      },
+    })
+  }
+
+  registry.register({
+    id: 'format.color',
+    label: 'Format: Color',
+    description: 'Pick a text color to insert in the input',
+    category: 'message',
+    keybinding: 'ctrl+c',
+    keywords: ['format', 'color', 'style'],
+    priority: 45,
+
+    isEnabled: canFormat,
+    isVisible: () => false,
+
+    execute: (ctx) => {
+      ctx.store.openModal('colorPicker')
+    },
+  })
+
+  registry.register({
+    id: 'input.historySearch',
+    label: 'Search Input History',
+    description: "Search this buffer's sent lines; again for older matches",
+    category: 'message',
+    keybinding: 'ctrl+r',
+    keywords: ['history', 'search', 'reverse', 'recall'],
+    priority: 45,
+
+    isEnabled: (ctx) =>
+      !ctx.store.selectedMessage && !ctx.store.activeModal && !ctx.store.messageSearch,
+    isVisible: () => false,
+
+    execute: () => {
+      startHistorySearch()
+    },
+  })
 }
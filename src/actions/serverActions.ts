@@ -10,7 +10,8 @@ import {
 } from '@/utils/restrictions'
 import { getDatabase } from '@/services/database'
 import { deterministicChannelId } from '@/utils/bootstrapServer'
-import type { Channel } from '@/types'
+import { usesTLS } from '@/utils/tls'
+import type { Channel, FallbackEncoding } from '@/types'
 
 export function registerServerActions(registry: ActionRegistry<AppStore>) {
   // Connect to server
@@ -53,10 +54,15 @@ export function registerServerActions(registry: ActionRegistry<AppStore>) {
         name: string
         host: string
         port: number
+        ssl?: boolean
+        acceptInvalidCert?: boolean
         nickname: string
         password?: string
         saslUsername?: string
         saslPassword?: string
+        clientCert?: string
+        clientKey?: string
+        fallbackEncoding?: FallbackEncoding
         channels?: string[]
       }
     ) => {
@@ -79,6 +85,7 @@ export function registerServerActions(registry: ActionRegistry<AppStore>) {
       if (nickErr) throw new Error(nickErr)
 
       const serverId = uuidv4()
+      const ssl = usesTLS(params)
 
       // Add server to store (and DB) first
       store.addServer({
@@ -86,10 +93,15 @@ export function registerServerActions(registry: ActionRegistry<AppStore>) {
         name: params.name,
         host: params.host,
         port: params.port,
+        ssl,
+        acceptInvalidCert: params.acceptInvalidCert,
         nickname: params.nickname,
         password: params.password,
         saslUsername: params.saslUsername,
         saslPassword: params.saslPassword,
+        clientCert: params.clientCert,
+        clientKey: params.clientKey,
+        fallbackEncoding: params.fallbackEncoding,
         isConnected: false,
         connectionState: 'connecting',
         channels: [],
@@ -121,7 +133,14 @@ export function registerServerActions(registry: ActionRegistry<AppStore>) {
           params.password,
           params.saslUsername,
           params.saslPassword,
-          serverId
+          serverId,
+          {
+            ssl,
+            acceptInvalidCert: params.acceptInvalidCert,
+            clientCert: params.clientCert,
+            clientKey: params.clientKey,
+            fallbackEncoding: params.fallbackEncoding,
+          }
         )
       } catch (error) {
         // Update server state on error
@@ -134,6 +153,23 @@ export function registerServerActions(registry: ActionRegistry<AppStore>) {
     },
   })
 
+  // Edit the current server's settings (opens the connect modal prefilled)
+  registry.register({
+    id: 'server.edit',
+    label: 'Edit Server',
+    description: 'Change connection, TLS and SASL settings of the current server',
+    category: 'server',
+    keywords: ['edit', 'server', 'settings', 'sasl', 'certificate', 'certfp', 'tls'],
+    priority: 75,
+
+    isEnabled: (ctx) => !!ctx.currentServer,
+    isVisible: (ctx) => !!ctx.currentServer,
+
+    execute: async (ctx: ActionContext<AppStore>) => {
+      ctx.store.openModal('editServer')
+    },
+  })
+
   // Disconnect from server
   registry.register({
     id: 'server.disconnect',
@@ -216,7 +252,8 @@ export function registerServerActions(registry: ActionRegistry<AppStore>) {
           currentServer.password,
           currentServer.saslUsername,
           currentServer.saslPassword,
-          currentServer.id
+          currentServer.id,
+          currentServer
         )
       } catch (error) {
         store.updateServer(currentServer.id, {
@@ -300,4 +337,60 @@ export function registerServerActions(registry: ActionRegistry<AppStore>) {
       store.setCurrentChannel(null)
     },
   })
+
+  // Opt out of certificate verification for servers with self-signed certs.
+  // The first certificate seen afterwards is pinned (see NodeTCPSocket).
+  registry.register({
+    id: 'server.acceptInvalidCert',
+    label: 'Accept Invalid TLS Certificate',
+    description: 'Trust this server even if its certificate fails verification',
+    category: 'server',
+    keywords: ['tls', 'ssl', 'certificate', 'cert', 'self-signed', 'insecure', 'trust'],
+    priority: 40,
+
+    isEnabled: (ctx) => !!ctx.currentServer,
+    isVisible: (ctx) => !!ctx.currentServer?.ssl && !ctx.currentServer.acceptInvalidCert,
+
+    execute: async (ctx: ActionContext<AppStore>) => {
+      const { store, currentServer } = ctx
+      if (!currentServer) return
+      store.updateServer(currentServer.id, { acceptInvalidCert: true })
+    },
+  })
+
+  registry.register({
+    id: 'server.requireValidCert',
+    label: 'Require Valid TLS Certificate',
+    description: 'Verify the server certificate again and drop the pinned fingerprint',
+    category: 'server',
+    keywords: ['tls', 'ssl', 'certificate', 'cert', 'verify', 'secure'],
+    priority: 40,
+
+    isEnabled: (ctx) => !!ctx.currentServer,
+    isVisible: (ctx) => !!ctx.currentServer?.acceptInvalidCert,
+
+    execute: async (ctx: ActionContext<AppStore>) => {
+      const { store, currentServer } = ctx
+      if (!currentServer) return
+      store.updateServer(currentServer.id, { acceptInvalidCert: false, tlsFingerprint: '' })
+    },
+  })
+
+  registry.register({
+    id: 'server.forgetFingerprint',
+    label: 'Forget TLS Fingerprint',
+    description: 'Drop the pinned certificate so the next one is trusted on first use',
+    category: 'server',
+    keywords: ['tls', 'ssl', 'certificate', 'cert', 'fingerprint', 'pin', 'forget'],
+    priority: 40,
+
+    isEnabled: (ctx) => !!ctx.currentServer,
+    isVisible: (ctx) => !!ctx.currentServer?.tlsFingerprint,
+
+    execute: async (ctx: ActionContext<AppStore>) => {
+      const { store, currentServer } = ctx
+      if (!currentServer) return
+      store.updateServer(currentServer.id, { tlsFingerprint: '' })
+    },
+  })
 }
@@ -2,6 +2,39 @@ import type { ActionRegistry } from './index'
 import type { AppStore } from '@/store'
 
 export function registerUIActions(registry: ActionRegistry<AppStore>) {
+  registry.register({
+    id: 'ui.quickActions',
+    label: 'Quick Actions',
+    description: 'Open the quick actions menu',
+    category: 'ui',
+    keybinding: 'ctrl+k',
+    keywords: ['actions', 'menu', 'command', 'palette'],
+    priority: 50,
+
+    isEnabled: () => true,
+    isVisible: () => false,
+
+    execute: (ctx) => {
+      ctx.store.openModal('quickActions')
+    },
+  })
+
+  registry.register({
+    id: 'ui.settings',
+    label: 'Settings',
+    description: 'Change the theme, timestamps and other display settings',
+    category: 'ui',
+    keywords: ['settings', 'preferences', 'options', 'config', 'set', 'theme'],
+    priority: 66,
+
+    isEnabled: () => true,
+    isVisible: () => true,
+
+    execute: (ctx) => {
+      ctx.store.openModal('settings')
+    },
+  })
+
   registry.register({
     id: 'ui.toggleServerPane',
     label: 'Toggle Server List',
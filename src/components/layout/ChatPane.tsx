@@ -1,6 +1,7 @@
-import { useRef, useEffect } from 'react'
+import { Fragment, useRef, useEffect, useMemo } from 'react'
 import type React from 'react'
 import { MacOSScrollAccel } from '@opentui/core'
+import { useRenderer } from '@opentui/react'
 import type { ScrollBoxRenderable } from '@opentui/core'
 import { useStore } from '../../store'
 import { THEME, COLORS } from '../../constants/theme'
@@ -8,7 +9,9 @@ import { renderIrcText, stripIrcFormatting, ircWordWrap } from '../../utils/ircF
 import { getNicknameColor } from '../../utils/nickColors'
 import { copyToClipboard } from '../../utils/clipboard'
 import { focusInput } from '../../utils/inputFocus'
-import type { Message } from '../../types'
+import { compileHighlights, MENTIONS_BUFFER_ID } from '../../utils/highlights'
+import { formatDay, formatTime, isSameDay } from '../../utils/timeFormat'
+import type { Message, Server } from '../../types'
 import { SearchBar } from '../ui/SearchBar'
 import {
   msgLineCount as baseMsgLineCount,
@@ -16,11 +19,25 @@ import {
   hiddenCount as getHiddenCount,
 } from '../../utils/msgLineCount'
 import { computeScrollAdjustment } from '../../utils/scrollAdjustment'
+import { useTheme } from '../../hooks/useTheme'
 
 const SELECTABLE_TYPES: Message['type'][] = ['message', 'action']
 
-// [HH:MM] = 7 chars, space = 1, nick = variable, ' › ' = 3
-const contentOffset = (nick: string) => 11 + nick.length
+// Compact mode right-aligns nicks, and event symbols, in a column this wide
+const NICK_COLUMN_WIDTH = 12
+
+const nickColumn = (label: string) =>
+  label.length > NICK_COLUMN_WIDTH
+    ? label.slice(0, NICK_COLUMN_WIDTH - 1) + '…'
+    : label.padStart(NICK_COLUMN_WIDTH)
+
+// [timestamp] = length + 2 (if shown), space = 1, nick or column = variable, ' › ' = 3
+const contentOffset = (timestamp: string | null, nick: string, compact: boolean) =>
+  (timestamp === null ? 0 : timestamp.length + 2) + 4 + (compact ? NICK_COLUMN_WIDTH : nick.length)
+
+// Trails the last line of an edited message; wrapping leaves room for it
+const editMarker = (msg: Message) =>
+  !msg.editedAt ? '' : msg.editPending ? ' (editing…)' : ' (edited)'
 
 // Split text into lines at word boundaries, never exceeding maxWidth per line.
 function wordWrap(text: string, maxWidth: number): string[] {
@@ -68,6 +85,7 @@ function MultilineMessageView({
   highlightQuery,
   isAuthed,
   showTimestamps,
+  compact,
 }: {
   msg: Message
   username: string
@@ -77,6 +95,7 @@ function MultilineMessageView({
   highlightQuery?: string
   isAuthed?: boolean
   showTimestamps: boolean
+  compact: boolean
 }) {
   const nicknameColor = getNicknameColor(username)
   const vLines = getVisibleLines(msg, isSelected)
@@ -87,13 +106,14 @@ function MultilineMessageView({
     <box flexDirection="column">
       <text>
         {showTimestamps && <span fg={THEME.dimText}>[{timestamp}] </span>}
-        <span fg={nicknameColor}>{username}</span>
+        <span fg={nicknameColor}>{compact ? nickColumn(username) : username}</span>
         <span fg={isAuthed ? THEME.accentGreen : THEME.mutedText}> › </span>
         {highlightQuery ? (
           <InlineHighlight text={firstLine} query={highlightQuery} baseFg={THEME.foreground} />
         ) : (
           <span fg={THEME.foreground}>{firstLine}</span>
         )}
+        {msg.editedAt && <span fg={THEME.dimText}>{editMarker(msg)}</span>}
       </text>
       {vLines.slice(1).map((line, i) => (
         <text key={i}>
@@ -114,6 +134,73 @@ function MultilineMessageView({
   )
 }
 
+// "#channel · server" above a line in the Mentions buffer
+function MentionSource({ msg, servers }: { msg: Message; servers: Server[] }) {
+  const server = servers.find((s) => s.id === msg.serverId)
+  const channel = server?.channels.find((c) => c.id === msg.channelId)
+  const chat = server?.privateChats.find((pc) => pc.id === msg.channelId)
+  const label = channel?.name ?? (chat ? `@${chat.username}` : msg.channelId)
+  return (
+    <text>
+      <span fg={THEME.accentPurple}>{label}</span>
+      <span fg={THEME.mutedText}> · {server?.name ?? 'disconnected server'}</span>
+    </text>
+  )
+}
+
+// Pre-edit text under a selected edited message, cut to one row
+function OriginalContent({
+  content,
+  offset,
+  width,
+}: {
+  content: string
+  offset: number
+  width: number
+}) {
+  const label = '✎ original › '
+  const raw = stripIrcFormatting(content).split('\n')[0] ?? ''
+  const max = Math.max(1, width - label.length)
+  const preview = raw.length > max ? raw.slice(0, max - 1) + '…' : raw
+  return (
+    <box paddingLeft={offset}>
+      <text>
+        <span fg={THEME.dimText}>{label}</span>
+        <span fg={THEME.mutedText}>{preview}</span>
+      </text>
+    </box>
+  )
+}
+
+// What is left of a REDACTed message
+function RedactedMessage({
+  msg,
+  username,
+  timestamp,
+  width,
+  showTimestamps,
+  compact,
+}: {
+  msg: Message
+  username: string
+  timestamp: string
+  width: number
+  showTimestamps: boolean
+  compact: boolean
+}) {
+  const notice = msg.redactReason ? `✖ message deleted: ${msg.redactReason}` : '✖ message deleted'
+  return (
+    <text>
+      {showTimestamps && <span fg={THEME.dimText}>[{timestamp}]</span>}
+      <span fg={getNicknameColor(username)}> {compact ? nickColumn(username) : username}</span>
+      <span fg={THEME.mutedText}> › </span>
+      <span fg={THEME.dimText}>
+        {notice.length > width ? notice.slice(0, width - 1) + '…' : notice}
+      </span>
+    </text>
+  )
+}
+
 function ReplyPreview({ replyMessage, offset }: { replyMessage: Message; offset: number }) {
   const raw = stripIrcFormatting(replyMessage.content).split('\n')[0] ?? ''
   const preview = raw.length > 50 ? raw.slice(0, 50) + '…' : raw
@@ -129,6 +216,15 @@ function ReplyPreview({ replyMessage, offset }: { replyMessage: Message; offset:
   )
 }
 
+// Above the first message of each day
+function DaySeparator({ date }: { date: Date }) {
+  return (
+    <box height={1} paddingLeft={1}>
+      <text fg={THEME.dimText}>— {formatDay(date)} —</text>
+    </box>
+  )
+}
+
 function ReactionsRow({
   reactions,
   paddingLeft,
@@ -161,6 +257,7 @@ interface ChatPaneProps {
 }
 
 export function ChatPane({ width, height, focused }: ChatPaneProps) {
+  useTheme()
   const currentServerId = useStore((state) => state.currentServerId)
   const currentChannelId = useStore((state) => state.currentChannelId)
   const servers = useStore((state) => state.servers)
@@ -169,11 +266,19 @@ export function ChatPane({ width, height, focused }: ChatPaneProps) {
   const setSelectedMessage = useStore((state) => state.setSelectedMessage)
   const setReplyingTo = useStore((state) => state.setReplyingTo)
   const openModal = useStore((state) => state.openModal)
+  const jumpToMessage = useStore((state) => state.jumpToMessage)
   const expandMultilines = useStore((state) => state.expandMultilines)
   const messageSearch = useStore((state) => state.messageSearch)
+  const highlights = useStore((state) => state.highlights)
+  const historyStatus = useStore((state) => state.historyStatus)
+  const fetchOlderHistory = useStore((state) => state.fetchOlderHistory)
 
   const showTimestamps = useStore((state) => state.showTimestamps)
+  const timestampFormat = useStore((state) => state.timestampFormat)
+  const compactMode = useStore((state) => state.compactMode)
   const scrollBoxRef = useRef<ScrollBoxRenderable | null>(null)
+  // Terminals that understand OSC 8 get clickable links
+  const hyperlinks = !!useRenderer().capabilities?.hyperlinks
 
   const currentServer = servers.find((s) => s.id === currentServerId)
   const currentChannel = currentServer?.channels.find((c) => c.id === currentChannelId)
@@ -181,16 +286,20 @@ export function ChatPane({ width, height, focused }: ChatPaneProps) {
 
   const activeView = currentChannel || currentPrivateChat
   const isServerView = !activeView && !!currentServerId
+  const isMentionsView = currentChannelId === MENTIONS_BUFFER_ID
   const allMessages = currentChannelId
     ? (messages.get(currentChannelId) ?? [])
     : isServerView
       ? (messages.get(currentServerId!) ?? [])
       : []
 
-  const channelHeaderHeight = activeView || isServerView ? 2 : 0
+  const channelHeaderHeight = activeView || isServerView || isMentionsView ? 2 : 0
   const topicHeight = currentChannel?.topic ? 2 : 0
   const searchBarHeight = messageSearch !== null ? 1 : 0
-  const messagesHeight = height - channelHeaderHeight - topicHeight - searchBarHeight
+  const historyLoading = !!activeView && historyStatus[activeView.id] === 'loading'
+  const historyBarHeight = historyLoading ? 1 : 0
+  const messagesHeight =
+    height - channelHeaderHeight - topicHeight - searchBarHeight - historyBarHeight
 
   // Keep refs current so the effect doesn't need them in its dep array
   const allMessagesRef = useRef(allMessages)
@@ -203,14 +312,20 @@ export function ChatPane({ width, height, focused }: ChatPaneProps) {
     messagesHeightRef.current = messagesHeight
   }, [messagesHeight])
 
+  const formatTimestamp = (date: Date) => formatTime(date, timestampFormat)
+  const offsetOf = (msg: Message, nick: string) =>
+    contentOffset(showTimestamps ? formatTimestamp(msg.timestamp) : null, nick, compactMode)
+
   // Available content width after prefix and padding (1 scrollbar + 2 box padding)
-  const contentWidth = (nick: string) => Math.max(10, width - 3 - contentOffset(nick))
+  const contentWidth = (msg: Message, nick: string) => Math.max(10, width - 3 - offsetOf(msg, nick))
+  const textWidth = (msg: Message, nick: string) => contentWidth(msg, nick) - editMarker(msg).length
 
-  const formatTimestamp = (date: Date) => {
-    const hours = String(date.getHours()).padStart(2, '0')
-    const minutes = String(date.getMinutes()).padStart(2, '0')
-    return `${hours}:${minutes}`
-  }
+  // Messages that start a new day get a date line above them
+  const dayStarts = new Set<string>()
+  allMessages.forEach((msg, i) => {
+    const previous = allMessages[i - 1]
+    if (!previous || !isSameDay(previous.timestamp, msg.timestamp)) dayStarts.add(msg.id)
+  })
 
   const formatMessage = (msg: Message) => {
     const timestamp = formatTimestamp(msg.timestamp)
@@ -223,13 +338,38 @@ export function ChatPane({ width, height, focused }: ChatPaneProps) {
     return { timestamp, username, msg }
   }
 
+  // The Mentions buffer mixes lines from every server; resolve each line's own context
+  const sourceOf = (msg: Message) => {
+    const server = isMentionsView ? servers.find((s) => s.id === msg.serverId) : currentServer
+    const channel = isMentionsView
+      ? server?.channels.find((c) => c.id === msg.channelId)
+      : currentChannel
+    return { server, channel }
+  }
+
+  // One compiled pattern per scoped channel plus one for everywhere else,
+  // rebuilt only when the rules change
+  const highlightPatterns = useMemo(() => {
+    const patterns = new Map<string, RegExp | null>([['', compileHighlights(highlights)]])
+    for (const rule of highlights) {
+      const name = rule.channel?.toLowerCase()
+      if (name && !patterns.has(name)) patterns.set(name, compileHighlights(highlights, name))
+    }
+    return patterns
+  }, [highlights])
+  const highlightFor = (channelName?: string) =>
+    highlightPatterns.get(channelName?.toLowerCase() ?? '') ?? highlightPatterns.get('')
+
   // Compute rendered line-height of a single message box
   const msgLineCount = (msg: Message, isSelected: boolean) => {
     let h = baseMsgLineCount(msg, isSelected, expandMultilines)
+    // Source line above each entry in the Mentions buffer
+    if (isMentionsView) h += 1
+    if (dayStarts.has(msg.id)) h += 1
     // Account for word-wrapped single-line messages (not part of the base utility)
     if (!msg.isMultiline && (msg.type === 'message' || msg.type === 'action')) {
       const { username } = formatMessage(msg)
-      const wrapped = wordWrap(stripIrcFormatting(msg.content), contentWidth(username))
+      const wrapped = wordWrap(stripIrcFormatting(msg.content), textWidth(msg, username))
       if (wrapped.length > 1) h += wrapped.length - 1
     }
     return h
@@ -289,21 +429,37 @@ export function ChatPane({ width, height, focused }: ChatPaneProps) {
   const renderMessage = (msg: Message, highlightQuery?: string, isAuthed = false) => {
     const { timestamp, username } = formatMessage(msg)
     const nicknameColor = getNicknameColor(username)
+    const source = sourceOf(msg)
+    const ownNick = source.server?.nickname
+    const highlight = highlightFor(source.channel?.name)
+    const edited = msg.editedAt && <span fg={THEME.dimText}>{editMarker(msg)}</span>
+    const stamp = showTimestamps && <span fg={THEME.dimText}>[{timestamp}]</span>
+    const shownNick = compactMode ? nickColumn(username) : username
+    // Actions keep "* nick" together, in the nick column when compact
+    const actionPrefix = compactMode ? ` ${nickColumn(`* ${username}`)}   ` : ` * ${username} `
+    // Event lines lead with a symbol, which fills the nick column in compact mode
+    const eventLine = (symbol: string, color: string, body: React.ReactNode) => (
+      <text>
+        {stamp}
+        <span fg={color}>{compactMode ? ` ${nickColumn(symbol)}   ` : ` ${symbol} `}</span>
+        {body}
+      </text>
+    )
 
     switch (msg.type) {
       case 'message': {
-        const offset = contentOffset(username)
+        const offset = offsetOf(msg, username)
         const plainContent = stripIrcFormatting(msg.content)
-        const lines = wordWrap(plainContent, contentWidth(username))
+        const lines = wordWrap(plainContent, textWidth(msg, username))
         const separatorColor = isAuthed ? THEME.accentGreen : THEME.mutedText
         if (lines.length > 1) {
-          const rawLines = ircWordWrap(msg.content, contentWidth(username))
+          const rawLines = ircWordWrap(msg.content, textWidth(msg, username))
           const firstRawLine = rawLines[0] ?? ''
           return (
             <box flexDirection="column">
               <text>
-                {showTimestamps && <span fg={THEME.dimText}>[{timestamp}]</span>}
-                <span fg={nicknameColor}> {username}</span>
+                {stamp}
+                <span fg={nicknameColor}> {shownNick}</span>
                 <span fg={separatorColor}> › </span>
                 {highlightQuery ? (
                   <InlineHighlight
@@ -316,8 +472,10 @@ export function ChatPane({ width, height, focused }: ChatPaneProps) {
                     {renderIrcText(
                       firstRawLine,
                       `${msg.id}-0`,
-                      currentServer?.nickname,
-                      channelUsernames
+                      ownNick,
+                      channelUsernames,
+                      highlight,
+                      hyperlinks
                     )}
                   </span>
                 )}
@@ -329,10 +487,13 @@ export function ChatPane({ width, height, focused }: ChatPaneProps) {
                     {renderIrcText(
                       rawLine,
                       `${msg.id}-${i + 1}`,
-                      currentServer?.nickname,
-                      channelUsernames
+                      ownNick,
+                      channelUsernames,
+                      highlight,
+                      hyperlinks
                     )}
                   </span>
+                  {i === rawLines.length - 2 && edited}
                 </text>
               ))}
             </box>
@@ -340,8 +501,8 @@ export function ChatPane({ width, height, focused }: ChatPaneProps) {
         }
         return (
           <text>
-            {showTimestamps && <span fg={THEME.dimText}>[{timestamp}]</span>}
-            <span fg={nicknameColor}> {username}</span>
+            {stamp}
+            <span fg={nicknameColor}> {shownNick}</span>
             <span fg={separatorColor}> › </span>
             {highlightQuery ? (
               <InlineHighlight
@@ -351,24 +512,32 @@ export function ChatPane({ width, height, focused }: ChatPaneProps) {
               />
             ) : (
               <span fg={THEME.foreground}>
-                {renderIrcText(msg.content, msg.id, currentServer?.nickname, channelUsernames)}
+                {renderIrcText(
+                  msg.content,
+                  msg.id,
+                  ownNick,
+                  channelUsernames,
+                  highlight,
+                  hyperlinks
+                )}
               </span>
             )}
+            {edited}
           </text>
         )
       }
       case 'action': {
-        const offset = contentOffset(username)
+        const offset = offsetOf(msg, username)
         const plainContent = stripIrcFormatting(msg.content)
-        const lines = wordWrap(plainContent, contentWidth(username))
+        const lines = wordWrap(plainContent, textWidth(msg, username))
         if (lines.length > 1) {
-          const rawLines = ircWordWrap(msg.content, contentWidth(username))
+          const rawLines = ircWordWrap(msg.content, textWidth(msg, username))
           const firstRawLine = rawLines[0] ?? ''
           return (
             <box flexDirection="column">
               <text>
-                {showTimestamps && <span fg={THEME.dimText}>[{timestamp}]</span>}
-                <span fg={COLORS.magenta}> * {username} </span>
+                {stamp}
+                <span fg={COLORS.magenta}>{actionPrefix}</span>
                 {highlightQuery ? (
                   <InlineHighlight
                     text={lines[0] ?? ''}
@@ -380,8 +549,10 @@ export function ChatPane({ width, height, focused }: ChatPaneProps) {
                     {renderIrcText(
                       firstRawLine,
                       `${msg.id}-0`,
-                      currentServer?.nickname,
-                      channelUsernames
+                      ownNick,
+                      channelUsernames,
+                      highlight,
+                      hyperlinks
                     )}
                   </span>
                 )}
@@ -393,10 +564,13 @@ export function ChatPane({ width, height, focused }: ChatPaneProps) {
                     {renderIrcText(
                       rawLine,
                       `${msg.id}-${i + 1}`,
-                      currentServer?.nickname,
-                      channelUsernames
+                      ownNick,
+                      channelUsernames,
+                      highlight,
+                      hyperlinks
                     )}
                   </span>
+                  {i === rawLines.length - 2 && edited}
                 </text>
               ))}
             </box>
@@ -404,114 +578,116 @@ export function ChatPane({ width, height, focused }: ChatPaneProps) {
         }
         return (
           <text>
-            {showTimestamps && <span fg={THEME.dimText}>[{timestamp}]</span>}
-            <span fg={COLORS.magenta}> * {username} </span>
+            {stamp}
+            <span fg={COLORS.magenta}>{actionPrefix}</span>
             {highlightQuery ? (
               <InlineHighlight text={plainContent} query={highlightQuery} baseFg={COLORS.magenta} />
             ) : (
               <span fg={COLORS.magenta}>
-                {renderIrcText(msg.content, msg.id, currentServer?.nickname, channelUsernames)}
+                {renderIrcText(
+                  msg.content,
+                  msg.id,
+                  ownNick,
+                  channelUsernames,
+                  highlight,
+                  hyperlinks
+                )}
               </span>
             )}
+            {edited}
           </text>
         )
       }
       case 'notice':
-        return (
-          <text>
-            {showTimestamps && <span fg={THEME.dimText}>[{timestamp}]</span>}
-            <span fg={COLORS.orange}> -{username}-</span>
-            <span fg={COLORS.orange}> {msg.content}</span>
-          </text>
+        return eventLine(
+          `-${username}-`,
+          COLORS.orange,
+          <span fg={COLORS.orange}>{msg.content}</span>
         )
       case 'join':
-        return (
-          <text>
-            {showTimestamps && <span fg={THEME.dimText}>[{timestamp}]</span>}
-            <span fg={COLORS.green}> → </span>
+        return eventLine(
+          '→',
+          COLORS.green,
+          <>
             <span fg={nicknameColor}>{username}</span>
             <span fg={COLORS.green}> joined</span>
-          </text>
+          </>
         )
       case 'part':
-        return (
-          <text>
-            {showTimestamps && <span fg={THEME.dimText}>[{timestamp}]</span>}
-            <span fg={COLORS.cyan}> ← </span>
+        return eventLine(
+          '←',
+          COLORS.cyan,
+          <>
             <span fg={nicknameColor}>{username}</span>
             <span fg={COLORS.cyan}> left</span>
             {msg.content && <span fg={THEME.mutedText}> ({msg.content})</span>}
-          </text>
+          </>
         )
       case 'quit':
-        return (
-          <text>
-            {showTimestamps && <span fg={THEME.dimText}>[{timestamp}]</span>}
-            <span fg={COLORS.red}> ← </span>
+        return eventLine(
+          '←',
+          COLORS.red,
+          <>
             <span fg={nicknameColor}>{username}</span>
             <span fg={COLORS.red}> quit</span>
             {msg.content && <span fg={THEME.mutedText}> ({msg.content})</span>}
-          </text>
+          </>
         )
       case 'kick':
-        return (
-          <text>
-            {showTimestamps && <span fg={THEME.dimText}>[{timestamp}]</span>}
-            <span fg={COLORS.red}> ⚠ </span>
+        return eventLine(
+          '⚠',
+          COLORS.red,
+          <>
             <span fg={nicknameColor}>{username}</span>
             <span fg={COLORS.red}> was kicked</span>
             {msg.content && <span fg={THEME.mutedText}>: {msg.content}</span>}
-          </text>
+          </>
         )
       case 'nick':
-        return (
-          <text>
-            {showTimestamps && <span fg={THEME.dimText}>[{timestamp}]</span>}
-            <span fg={COLORS.yellow}> ⟲ </span>
+        return eventLine(
+          '⟲',
+          COLORS.yellow,
+          <>
             <span fg={nicknameColor}>{username}</span>
             <span fg={COLORS.yellow}> → </span>
             <span fg={getNicknameColor(msg.content)}>{msg.content}</span>
-          </text>
+          </>
         )
       case 'mode':
-        return (
-          <text>
-            {showTimestamps && <span fg={THEME.dimText}>[{timestamp}]</span>}
-            <span fg={COLORS.blue}> ⚙ Mode: </span>
+        return eventLine(
+          '⚙',
+          COLORS.blue,
+          <>
+            <span fg={COLORS.blue}>Mode: </span>
             <span fg={THEME.foreground}>{msg.content}</span>
-          </text>
+          </>
         )
       case 'whisper':
-        return (
-          <text>
-            {showTimestamps && <span fg={THEME.dimText}>[{timestamp}]</span>}
-            <span fg={COLORS.magenta}> ✉ </span>
+        return eventLine(
+          '✉',
+          COLORS.magenta,
+          <>
             <span fg={getNicknameColor(username)}>{username}</span>
             <span fg={COLORS.magenta}> › </span>
             <span fg={COLORS.magenta}>{msg.content}</span>
-          </text>
+          </>
         )
       case 'invite':
-        return (
-          <text>
-            {showTimestamps && <span fg={THEME.dimText}>[{timestamp}]</span>}
-            <span fg={COLORS.cyan}> ⟶ </span>
+        return eventLine(
+          '⟶',
+          COLORS.cyan,
+          <>
             <span fg={getNicknameColor(username)}>{username}</span>
             <span fg={COLORS.cyan}> invited you to join </span>
             <span fg={THEME.accentCyan}>{msg.content}</span>
-          </text>
+          </>
         )
       case 'system':
-        return (
-          <text>
-            {showTimestamps && <span fg={THEME.dimText}>[{timestamp}]</span>}
-            <span fg={THEME.mutedText}> • {msg.content}</span>
-          </text>
-        )
+        return eventLine('•', THEME.mutedText, <span fg={THEME.mutedText}>{msg.content}</span>)
       default:
         return (
           <text>
-            {showTimestamps && <span fg={THEME.dimText}>[{timestamp}]</span>}
+            {stamp}
             <span fg={THEME.foreground}> {msg.content}</span>
           </text>
         )
@@ -574,6 +750,22 @@ export function ChatPane({ width, height, focused }: ChatPaneProps) {
           </text>
         </box>
       )}
+      {isMentionsView && (
+        <box
+          height={2}
+          paddingLeft={1}
+          paddingTop={1}
+          backgroundColor={THEME.backgroundHighlight}
+          border={['bottom']}
+          borderColor={THEME.borderSubtle}
+        >
+          <text>
+            <span fg={THEME.mention}>★ </span>
+            <span fg={THEME.foreground}>Mentions</span>
+            <span fg={THEME.mutedText}> • highlighted lines from every server</span>
+          </text>
+        </box>
+      )}
       {currentChannel?.topic && (
         <box
           height={2}
@@ -590,6 +782,11 @@ export function ChatPane({ width, height, focused }: ChatPaneProps) {
       )}
 
       {messageSearch !== null && <SearchBar width={width} />}
+      {historyLoading && (
+        <box height={1} paddingLeft={1}>
+          <text fg={THEME.mutedText}>Loading older messages…</text>
+        </box>
+      )}
 
       <scrollbox
         ref={scrollBoxRef as React.RefObject<ScrollBoxRenderable>}
@@ -598,6 +795,13 @@ export function ChatPane({ width, height, focused }: ChatPaneProps) {
         stickyScroll={!selectedMessage}
         stickyStart="bottom"
         scrollAcceleration={chatScrollAccel}
+        onMouseScroll={(event) => {
+          // Wheeling up while already at the top pages in older history
+          if (event.scroll?.direction !== 'up' || !activeView || !currentServerId) return
+          if ((scrollBoxRef.current?.scrollTop ?? 1) <= 0) {
+            fetchOlderHistory(currentServerId, activeView.id)
+          }
+        }}
         style={{
           scrollbarOptions: {
             showArrows: false,
@@ -616,108 +820,151 @@ export function ChatPane({ width, height, focused }: ChatPaneProps) {
             (u) => (u.nickname ?? u.username) === username
           )
           const isAuthed = Boolean(senderUser?.account) || Boolean(msg.tags?.['account'])
-          const offset = contentOffset(username)
+          const offset = offsetOf(msg, username)
           const isSearchMatch = messageSearch?.matchIds.includes(msg.id) ?? false
           const isCurrentMatch =
             messageSearch !== null && messageSearch.matchIds[messageSearch.currentIndex] === msg.id
+          const msgServer = servers.find((s) => s.id === msg.serverId)
+          const canEdit =
+            isSelected &&
+            !!msg.msgid &&
+            !msg.redacted &&
+            !!msgServer &&
+            msg.userId.toLowerCase() === msgServer.nickname.toLowerCase() &&
+            !!msgServer.capabilities?.includes('draft/edit')
           return (
-            <box
-              key={msg.id}
-              paddingLeft={1}
-              paddingRight={1}
-              backgroundColor={
-                isCurrentMatch
-                  ? '#4d3800'
-                  : isSelected
-                    ? THEME.selectedBackground
-                    : isSearchMatch
-                      ? '#2a2000'
-                      : undefined
-              }
-              onMouseDown={isSelectable ? () => setSelectedMessage(msg) : undefined}
-            >
-              {msg.replyMessage && <ReplyPreview replyMessage={msg.replyMessage} offset={offset} />}
-              {msg.isMultiline && msg.lines ? (
-                <MultilineMessageView
-                  msg={msg}
-                  username={username}
-                  timestamp={formatTimestamp(msg.timestamp)}
-                  offset={offset}
-                  isSelected={isSelected || expandMultilines}
-                  highlightQuery={isSearchMatch ? (messageSearch?.query ?? undefined) : undefined}
-                  isAuthed={isAuthed}
-                  showTimestamps={showTimestamps}
-                />
-              ) : (
-                renderMessage(
-                  msg,
-                  isSearchMatch ? (messageSearch?.query ?? undefined) : undefined,
-                  isAuthed
-                )
-              )}
-              {isSelected && (
-                <box paddingLeft={offset} flexDirection="row">
-                  <box onMouseDown={() => openModal('emojiPicker')}>
-                    <text>
-                      <span fg={THEME.accentBlue}>[e]</span>
-                      <span fg={THEME.mutedText}> React </span>
-                    </text>
-                  </box>
-                  <box
-                    onMouseDown={() => {
-                      setReplyingTo(msg)
-                      setSelectedMessage(null)
-                      focusInput()
-                    }}
-                  >
-                    <text>
-                      <span fg={THEME.accentBlue}>[r]</span>
-                      <span fg={THEME.mutedText}> Reply </span>
-                    </text>
-                  </box>
-                  <box
-                    onMouseDown={() => {
-                      copyToClipboard(stripIrcFormatting(msg.content))
-                      setSelectedMessage(null)
-                    }}
-                  >
-                    <text>
-                      <span fg={THEME.accentBlue}>[y]</span>
-                      <span fg={THEME.mutedText}> Copy</span>
-                    </text>
-                  </box>
-                  {/* Always rendered to avoid opentui flex hit-box issues with conditional children */}
-                  <box
-                    paddingLeft={msg.replyMessage ? 2 : 0}
-                    onMouseDown={
-                      msg.replyMessage
-                        ? () => {
-                            const channelMsgs = currentChannelId
-                              ? (messages.get(currentChannelId) ?? [])
-                              : []
-                            const target =
-                              channelMsgs.find((m) => m.id === msg.replyMessage!.id) ??
-                              channelMsgs.find(
-                                (m) => m.msgid && m.msgid === msg.replyMessage!.msgid
-                              )
-                            if (target) setSelectedMessage(target)
-                          }
+            <Fragment key={msg.id}>
+              {dayStarts.has(msg.id) && <DaySeparator date={msg.timestamp} />}
+              <box
+                paddingLeft={1}
+                paddingRight={1}
+                backgroundColor={
+                  isCurrentMatch
+                    ? THEME.searchCurrentBackground
+                    : isSelected
+                      ? THEME.selectedBackground
+                      : isSearchMatch
+                        ? THEME.searchMatchBackground
                         : undefined
-                    }
-                  >
-                    {msg.replyMessage && (
+                }
+                onMouseDown={isSelectable ? () => setSelectedMessage(msg) : undefined}
+              >
+                {isMentionsView && <MentionSource msg={msg} servers={servers} />}
+                {msg.replyMessage && (
+                  <ReplyPreview replyMessage={msg.replyMessage} offset={offset} />
+                )}
+                {msg.redacted ? (
+                  <RedactedMessage
+                    msg={msg}
+                    username={username}
+                    timestamp={formatTimestamp(msg.timestamp)}
+                    width={contentWidth(msg, username)}
+                    showTimestamps={showTimestamps}
+                    compact={compactMode}
+                  />
+                ) : msg.isMultiline && msg.lines ? (
+                  <MultilineMessageView
+                    msg={msg}
+                    username={username}
+                    timestamp={formatTimestamp(msg.timestamp)}
+                    offset={offset}
+                    isSelected={isSelected || expandMultilines}
+                    highlightQuery={isSearchMatch ? (messageSearch?.query ?? undefined) : undefined}
+                    isAuthed={isAuthed}
+                    showTimestamps={showTimestamps}
+                    compact={compactMode}
+                  />
+                ) : (
+                  renderMessage(
+                    msg,
+                    isSearchMatch ? (messageSearch?.query ?? undefined) : undefined,
+                    isAuthed
+                  )
+                )}
+                {isSelected && msg.originalContent !== undefined && (
+                  <OriginalContent
+                    content={msg.originalContent}
+                    offset={offset}
+                    width={contentWidth(msg, username)}
+                  />
+                )}
+                {isSelected && (
+                  <box paddingLeft={offset} flexDirection="row">
+                    <box onMouseDown={() => openModal('emojiPicker')}>
                       <text>
-                        <span fg={THEME.accentBlue}>[↵]</span>
-                        <span fg={THEME.mutedText}> Jump</span>
+                        <span fg={THEME.accentBlue}>[e]</span>
+                        <span fg={THEME.mutedText}> React </span>
                       </text>
-                    )}
+                    </box>
+                    <box
+                      onMouseDown={() => {
+                        setReplyingTo(msg)
+                        setSelectedMessage(null)
+                        focusInput()
+                      }}
+                    >
+                      <text>
+                        <span fg={THEME.accentBlue}>[r]</span>
+                        <span fg={THEME.mutedText}> Reply </span>
+                      </text>
+                    </box>
+                    <box
+                      onMouseDown={() => {
+                        copyToClipboard(stripIrcFormatting(msg.content))
+                        setSelectedMessage(null)
+                      }}
+                    >
+                      <text>
+                        <span fg={THEME.accentBlue}>[y]</span>
+                        <span fg={THEME.mutedText}> Copy</span>
+                      </text>
+                    </box>
+                    <box
+                      paddingLeft={canEdit ? 1 : 0}
+                      onMouseDown={canEdit ? () => openModal('edit-message') : undefined}
+                    >
+                      {canEdit && (
+                        <text>
+                          <span fg={THEME.accentBlue}>[E]</span>
+                          <span fg={THEME.mutedText}> Edit</span>
+                        </text>
+                      )}
+                    </box>
+                    {/* Always rendered to avoid opentui flex hit-box issues with conditional children */}
+                    <box
+                      paddingLeft={msg.replyMessage || isMentionsView ? 2 : 0}
+                      onMouseDown={
+                        isMentionsView
+                          ? () => jumpToMessage(msg)
+                          : msg.replyMessage
+                            ? () => {
+                                const channelMsgs = currentChannelId
+                                  ? (messages.get(currentChannelId) ?? [])
+                                  : []
+                                const target =
+                                  channelMsgs.find((m) => m.id === msg.replyMessage!.id) ??
+                                  channelMsgs.find(
+                                    (m) => m.msgid && m.msgid === msg.replyMessage!.msgid
+                                  )
+                                if (target) setSelectedMessage(target)
+                              }
+                            : undefined
+                      }
+                    >
+                      {(msg.replyMessage || isMentionsView) && (
+                        <text>
+                          <span fg={THEME.accentBlue}>[↵]</span>
+                          <span fg={THEME.mutedText}>{isMentionsView ? ' Go to' : ' Jump'}</span>
+                        </text>
+                      )}
+                    </box>
                   </box>
-                </box>
-              )}
-              {msg.reactions.length > 0 && (
-                <ReactionsRow reactions={msg.reactions} paddingLeft={offset} />
-              )}
-            </box>
+                )}
+                {msg.reactions.length > 0 && (
+                  <ReactionsRow reactions={msg.reactions} paddingLeft={offset} />
+                )}
+              </box>
+            </Fragment>
           )
         })}
         {/* Spacer so the last message's hint row always has room to scroll into view */}
@@ -7,17 +7,25 @@ import { StatusBar } from '../ui/StatusBar'
 import { CommandInput } from '../ui/CommandInput'
 import { TypingIndicator } from '../ui/TypingIndicator'
 import { ReplyBar } from '../ui/ReplyBar'
+import { FormatPreview } from '../ui/FormatPreview'
+import { CompletionPopup } from '../ui/CompletionPopup'
 import { QuickActionsMenu } from '../modals/QuickActionsMenu'
 import { ConnectServerModal } from '../modals/ConnectServerModal'
 import { RemoveServerModal } from '../modals/RemoveServerModal'
 import { EmojiPickerModal } from '../modals/EmojiPickerModal'
 import { SetTopicModal } from '../modals/SetTopicModal'
+import { EditMessageModal } from '../modals/EditMessageModal'
 import { ChannelBrowserModal } from '../modals/ChannelBrowserModal'
+import { SettingsModal } from '../modals/SettingsModal'
+import { UrlsModal } from '../modals/UrlsModal'
+import { ColorPickerModal } from '../modals/ColorPickerModal'
 import { useStore } from '../../store'
 import { useAppContext } from '../../context/AppContext'
 import { THEME } from '../../constants/theme'
+import { useTheme } from '../../hooks/useTheme'
 
 export function MainLayout() {
+  useTheme()
   const { width, height } = useTerminalDimensions()
   const showUserPane = useStore((state) => state.showUserPane)
   const showServerPane = useStore((state) => state.showServerPane)
@@ -25,6 +33,8 @@ export function MainLayout() {
   const activeModal = useStore((state) => state.activeModal)
   const replyingTo = useStore((state) => state.replyingTo)
   const quitWarning = useStore((state) => state.quitWarning)
+  const hasFormatPreview = useStore((state) => state.formatPreview !== null)
+  const hasCompletionPopup = useStore((state) => (state.completion?.choices.length ?? 0) > 1)
   const inputLineCount = useStore((state) => state.inputLineCount)
   const selectedMessage = useStore((state) => state.selectedMessage)
   const setSelectedMessage = useStore((state) => state.setSelectedMessage)
@@ -66,8 +76,17 @@ export function MainLayout() {
     const typingIndicatorHeight = 1
     const statusBarHeight = 1
     const replyBarHeight = replyingTo ? 2 : 0
+    const formatPreviewHeight = hasFormatPreview ? 1 : 0
+    const completionPopupHeight = hasCompletionPopup ? 1 : 0
     const contentHeight =
-      height - 2 - commandInputHeight - typingIndicatorHeight - replyBarHeight - statusBarHeight
+      height -
+      2 -
+      commandInputHeight -
+      typingIndicatorHeight -
+      replyBarHeight -
+      formatPreviewHeight -
+      completionPopupHeight -
+      statusBarHeight
     return {
       innerWidth,
       effectiveServerPaneWidth,
@@ -77,7 +96,17 @@ export function MainLayout() {
       statusBarHeight,
       effectiveShowUserPane,
     }
-  }, [width, height, showUserPane, showServerPane, inputLineCount, quitWarning, replyingTo])
+  }, [
+    width,
+    height,
+    showUserPane,
+    showServerPane,
+    inputLineCount,
+    quitWarning,
+    replyingTo,
+    hasFormatPreview,
+    hasCompletionPopup,
+  ])
 
   const handleEmojiSelect = (emoji: string) => {
     if (!selectedMessage || !currentServer || !currentChannelId || !ircClient) {
@@ -143,6 +172,10 @@ export function MainLayout() {
 
         {replyingTo && <ReplyBar width={innerWidth} />}
 
+        <FormatPreview width={innerWidth} />
+
+        <CompletionPopup width={innerWidth} />
+
         <CommandInput width={innerWidth} />
 
         <StatusBar width={innerWidth} height={statusBarHeight} />
@@ -152,6 +185,8 @@ export function MainLayout() {
 
       {activeModal === 'connect' && <ConnectServerModal width={width} height={height} />}
 
+      {activeModal === 'editServer' && <ConnectServerModal width={width} height={height} edit />}
+
       {activeModal === 'removeServer' && <RemoveServerModal width={width} height={height} />}
 
       {activeModal === 'emojiPicker' && (
@@ -160,7 +195,15 @@ export function MainLayout() {
 
       {activeModal === 'set-topic' && <SetTopicModal width={width} height={height} />}
 
+      {activeModal === 'edit-message' && <EditMessageModal width={width} height={height} />}
+
       {activeModal === 'channel-browser' && <ChannelBrowserModal width={width} height={height} />}
+
+      {activeModal === 'settings' && <SettingsModal width={width} height={height} />}
+
+      {activeModal === 'urls' && <UrlsModal width={width} height={height} />}
+
+      {activeModal === 'colorPicker' && <ColorPickerModal width={width} height={height} />}
     </box>
   )
 }
@@ -1,7 +1,8 @@
 import { useStore } from '../../store'
 import { THEME, NICKNAME_COLORS } from '../../constants/theme'
 import { SplitBorder } from '../../constants/borders'
-import type { User } from '../../types'
+import type { Server, User } from '../../types'
+import { useTheme } from '../../hooks/useTheme'
 
 // Hash function for consistent nickname colors
 const hashString = (str: string): number => {
@@ -18,6 +19,62 @@ const getNicknameColor = (nickname: string): string => {
   return NICKNAME_COLORS[index] ?? THEME.foreground
 }
 
+// Rows given to the Friends list before it scrolls
+const MAX_FRIEND_ROWS = 8
+
+// Height of the Friends section (header + list) for a server, 0 when nobody is monitored
+const friendsHeight = (server?: Server) => {
+  const count = server?.monitors?.length ?? 0
+  return count > 0 ? 2 + Math.min(count, MAX_FRIEND_ROWS) : 0
+}
+
+// MONITOR watch list: online first, then offline, then not yet known
+function FriendsList({ server, focused }: { server: Server; focused: boolean }) {
+  const presence = (nick: string) => server.monitorOnline?.[nick.toLowerCase()]
+  const rank = (nick: string) => {
+    const online = presence(nick)
+    return online ? 0 : online === false ? 1 : 2
+  }
+  const friends = [...(server.monitors ?? [])].sort(
+    (a, b) => rank(a) - rank(b) || a.toLowerCase().localeCompare(b.toLowerCase())
+  )
+  const onlineCount = friends.filter((nick) => presence(nick)).length
+
+  return (
+    <box flexDirection="column">
+      <box
+        height={2}
+        paddingLeft={1}
+        paddingTop={1}
+        backgroundColor={THEME.backgroundHighlight}
+        border={['bottom']}
+        borderColor={THEME.borderSubtle}
+      >
+        <text>
+          <span fg={THEME.mutedText}>
+            Friends ({onlineCount}/{friends.length})
+          </span>
+        </text>
+      </box>
+      <scrollbox focused={focused} height={Math.min(friends.length, MAX_FRIEND_ROWS)}>
+        {friends.map((nick) => {
+          const online = presence(nick)
+          return (
+            <box key={nick} paddingLeft={1} paddingRight={1}>
+              <text>
+                <span fg={online ? THEME.accentGreen : THEME.dimText}>
+                  {online ? '● ' : online === false ? '○ ' : '· '}
+                </span>
+                <span fg={online ? getNicknameColor(nick) : THEME.mutedText}>{nick}</span>
+              </text>
+            </box>
+          )
+        })}
+      </scrollbox>
+    </box>
+  )
+}
+
 interface MemberPaneProps {
   width: number
   height: number
@@ -25,6 +82,7 @@ interface MemberPaneProps {
 }
 
 export function MemberPane({ width, height, focused }: MemberPaneProps) {
+  useTheme()
   const currentServerId = useStore((state) => state.currentServerId)
   const currentChannelId = useStore((state) => state.currentChannelId)
   const servers = useStore((state) => state.servers)
@@ -87,7 +145,11 @@ export function MemberPane({ width, height, focused }: MemberPaneProps) {
         backgroundColor={THEME.backgroundMembers}
         flexDirection="column"
       >
-        <box />
+        {currentServer?.monitors?.length ? (
+          <FriendsList server={currentServer} focused={false} />
+        ) : (
+          <box />
+        )}
       </box>
     )
   }
@@ -115,7 +177,7 @@ export function MemberPane({ width, height, focused }: MemberPaneProps) {
           <span fg={THEME.mutedText}>Members ({sortedUsers.length})</span>
         </text>
       </box>
-      <scrollbox focused={focused} height={height - 4}>
+      <scrollbox focused={focused} height={height - 4 - friendsHeight(currentServer)}>
         {sortedUsers.length === 0 ? (
           <box />
         ) : (
@@ -144,6 +206,9 @@ export function MemberPane({ width, height, focused }: MemberPaneProps) {
           })
         )}
       </scrollbox>
+      {currentServer?.monitors?.length ? (
+        <FriendsList server={currentServer} focused={false} />
+      ) : null}
     </box>
   )
 }
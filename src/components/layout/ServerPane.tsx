@@ -2,6 +2,9 @@ import { useStore } from '../../store'
 import { THEME } from '../../constants/theme'
 import { SplitBorderRight } from '../../constants/borders'
 import type { Server, Channel, PrivateChat } from '../../types'
+import { MENTIONS_BUFFER_ID } from '../../utils/highlights'
+import { bufferNotifyLevel } from '../../utils/notifications'
+import { useTheme } from '../../hooks/useTheme'
 
 interface ServerPaneProps {
   width: number
@@ -17,11 +20,13 @@ function bufferLabel(idx: number): string {
 }
 
 export function ServerPane({ width, height, focused }: ServerPaneProps) {
+  useTheme()
   const servers = useStore((state) => state.servers)
   const currentServerId = useStore((state) => state.currentServerId)
   const currentChannelId = useStore((state) => state.currentChannelId)
   const setCurrentServer = useStore((state) => state.setCurrentServer)
   const setCurrentChannel = useStore((state) => state.setCurrentChannel)
+  const unreadMentions = useStore((state) => state.unreadMentions)
 
   const handleSelectChannel = (serverId: string, channelId: string) => {
     setCurrentServer(serverId)
@@ -67,6 +72,33 @@ export function ServerPane({ width, height, focused }: ServerPaneProps) {
       overflow="scroll"
     >
       <scrollbox focused={focused} height={height - 2}>
+        {servers.length > 0 && (
+          // Virtual buffer — not numbered so Alt+digit shortcuts keep their targets
+          <box
+            flexDirection="row"
+            paddingRight={1}
+            paddingTop={1}
+            backgroundColor={
+              currentChannelId === MENTIONS_BUFFER_ID ? THEME.selectedBackground : undefined
+            }
+            onMouseDown={() => {
+              setCurrentServer(null)
+              setCurrentChannel(MENTIONS_BUFFER_ID)
+            }}
+          >
+            <box width={2} flexShrink={0} />
+            <text>
+              <span fg={unreadMentions > 0 ? THEME.error : THEME.mention}>★</span>
+              <span
+                fg={currentChannelId === MENTIONS_BUFFER_ID ? THEME.accentBlue : THEME.foreground}
+              >
+                {' '}
+                Mentions
+              </span>
+              {unreadMentions > 0 && <span fg={THEME.mutedText}> ({unreadMentions})</span>}
+            </text>
+          </box>
+        )}
         {servers.length === 0 ? (
           <box />
         ) : (
@@ -99,6 +131,7 @@ export function ServerPane({ width, height, focused }: ServerPaneProps) {
 
                 {server.channels.map((channel: Channel) => {
                   const chIdx = bufferIdx++
+                  const muted = bufferNotifyLevel(server, channel.name) === 'muted'
                   return (
                     <box
                       key={channel.id}
@@ -120,7 +153,9 @@ export function ServerPane({ width, height, focused }: ServerPaneProps) {
                                 ? THEME.error
                                 : currentChannelId === channel.id
                                   ? THEME.accentBlue
-                                  : THEME.foreground
+                                  : muted
+                                    ? THEME.dimText
+                                    : THEME.foreground
                             }
                           >
                             {channel.name}
@@ -136,6 +171,7 @@ export function ServerPane({ width, height, focused }: ServerPaneProps) {
 
                 {server.privateChats.map((chat: PrivateChat) => {
                   const pmIdx = bufferIdx++
+                  const muted = bufferNotifyLevel(server, chat.username) === 'muted'
                   return (
                     <box
                       key={chat.id}
@@ -153,7 +189,13 @@ export function ServerPane({ width, height, focused }: ServerPaneProps) {
                         <text>
                           <span fg={THEME.accentPink}>@ </span>
                           <span
-                            fg={currentChannelId === chat.id ? THEME.accentBlue : THEME.foreground}
+                            fg={
+                              currentChannelId === chat.id
+                                ? THEME.accentBlue
+                                : muted
+                                  ? THEME.dimText
+                                  : THEME.foreground
+                            }
                           >
                             {chat.username}
                           </span>
@@ -6,6 +6,7 @@ import { useStore } from '../../store'
 import { useAppContext } from '../../context/AppContext'
 import { THEME } from '../../constants/theme'
 import { ModalShell } from './ModalShell'
+import { useTheme } from '../../hooks/useTheme'
 
 interface ChannelEntry {
   channel: string
@@ -19,11 +20,13 @@ interface ChannelBrowserModalProps {
 }
 
 export function ChannelBrowserModal({ width, height }: ChannelBrowserModalProps) {
+  useTheme()
   const closeModal = useStore((state) => state.closeModal)
   const currentServerId = useStore((state) => state.currentServerId)
   const servers = useStore((state) => state.servers)
   const setCurrentServer = useStore((state) => state.setCurrentServer)
   const setCurrentChannel = useStore((state) => state.setCurrentChannel)
+  const setListedChannels = useStore((state) => state.setListedChannels)
   const { ircClient, registry, renderer } = useAppContext()
 
   const currentServer = servers.find((s) => s.id === currentServerId)
@@ -77,6 +80,12 @@ export function ChannelBrowserModal({ width, height }: ChannelBrowserModalProps)
       if (data.serverId !== currentServerId) return
       setChannels(bufferRef.current.slice())
       setLoading(false)
+      // Kept for /join completion
+      const busiest = [...bufferRef.current].sort((a, b) => b.userCount - a.userCount)
+      setListedChannels(
+        currentServerId,
+        busiest.map((entry) => entry.channel)
+      )
     }
 
     ircClient.on('LIST_CHANNEL', handleChannel)
@@ -87,7 +96,7 @@ export function ChannelBrowserModal({ width, height }: ChannelBrowserModalProps)
       ircClient.deleteHook('LIST_CHANNEL', handleChannel)
       ircClient.deleteHook('LIST_END', handleEnd)
     }
-  }, [ircClient, currentServerId])
+  }, [ircClient, currentServerId, setListedChannels])
 
   const fuse = useMemo(
     () => new Fuse(channels, { keys: ['channel', 'topic'], threshold: 0.35 }),
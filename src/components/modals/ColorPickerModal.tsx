@@ -0,0 +1,79 @@
+import { useState, useMemo } from 'react'
+import { useStore } from '../../store'
+import { colorCode, FORMAT_CODES, IRC_COLOR_NAMES } from '../../utils/inputFormatting'
+import { resolveColor } from '../../utils/ircFormatting'
+import { insertIntoInput } from '../../utils/inputFocus'
+import { ListModal } from './ListModal'
+import type { ListItem } from './ListModal'
+
+interface ColorPickerModalProps {
+  width: number
+  height: number
+}
+
+const colorItems = (): ListItem[] =>
+  IRC_COLOR_NAMES.map((name, index) => ({
+    id: String(index),
+    label: `${String(index).padStart(2, '0')} ${name}`,
+    fg: resolveColor(index),
+  }))
+
+export function ColorPickerModal({ width, height }: ColorPickerModalProps) {
+  const [query, setQuery] = useState('')
+  // Set once a text color is picked with a background still to choose
+  const [foreground, setForeground] = useState<number | null>(null)
+  const closeModal = useStore((state) => state.closeModal)
+
+  const items: ListItem[] = useMemo(
+    () =>
+      foreground === null
+        ? [
+            { id: 'default', label: 'Default', sublabel: 'end coloring' },
+            ...colorItems(),
+            { id: 'plain', label: 'Plain', sublabel: 'end all formatting' },
+          ]
+        : colorItems(),
+    [foreground]
+  )
+
+  const insert = (code: string) => {
+    insertIntoInput(code)
+    closeModal()
+  }
+
+  const handleSelect = (item: ListItem) => {
+    if (item.id === 'default') insert(colorCode())
+    else if (item.id === 'plain') insert(FORMAT_CODES.reset)
+    else if (foreground === null) insert(colorCode(Number(item.id)))
+    else insert(colorCode(foreground, Number(item.id)))
+  }
+
+  const handleBackground = (item: ListItem) => {
+    if (foreground !== null || Number.isNaN(Number(item.id))) return
+    setForeground(Number(item.id))
+    setQuery('')
+  }
+
+  return (
+    <ListModal
+      width={width}
+      height={height}
+      title={
+        foreground === null ? 'Text color' : `Background for ${IRC_COLOR_NAMES[foreground]} text`
+      }
+      items={items}
+      query={query}
+      onQueryChange={setQuery}
+      onSelect={handleSelect}
+      onCancel={closeModal}
+      placeholder="Filter colors..."
+      emptyMessage="No such color"
+      selectLabel="Insert"
+      secondary={
+        foreground === null
+          ? { key: 'b', label: 'Add background', onSelect: handleBackground }
+          : undefined
+      }
+    />
+  )
+}
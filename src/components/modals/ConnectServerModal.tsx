@@ -1,3 +1,4 @@
+import fs from 'fs'
 import { useState } from 'react'
 import { useStore } from '../../store'
 import { useAppContext } from '../../context/AppContext'
@@ -9,30 +10,48 @@ import {
   checkNickRestriction,
   getRestrictions,
 } from '../../utils/restrictions'
+import { usesTLS } from '../../utils/tls'
+import { expandUserPath } from '../../utils/paths'
+import { parseFallbackEncoding } from '../../lib/nodeTcpSocket'
+
+const isYes = (value: string | undefined) => /^(y|yes|true|on|1)$/i.test(value?.trim() ?? '')
+const yesNo = (value: boolean | undefined) => (value ? 'yes' : 'no')
 
 interface ConnectServerModalProps {
   width: number
   height: number
+  /** Edit the current server instead of adding a new one */
+  edit?: boolean
 }
 
-export function ConnectServerModal({ width, height }: ConnectServerModalProps) {
+export function ConnectServerModal({ width, height, edit = false }: ConnectServerModalProps) {
   const { registry, ircClient, renderer } = useAppContext()
   const store = useStore()
   const closeModal = useStore((state) => state.closeModal)
   const [formError, setFormError] = useState('')
 
+  const existing = edit ? store.servers.find((s) => s.id === store.currentServerId) : undefined
+
   // Prefill from --setup CLI args if present
   const prefill = globalThis.__CLI_PREFILL__
   const restrictions = getRestrictions()
-  const defaultPort = String(restrictions.port ?? prefill?.port ?? 6697)
+  const defaultPort = String(restrictions.port ?? existing?.port ?? prefill?.port ?? 6697)
+  const defaultTLS = existing
+    ? usesTLS(existing)
+    : !(prefill && !prefill.ssl && prefill.port === 6667)
 
   const fields: FormField[] = [
-    { key: 'name', label: 'Server Name', placeholder: 'My Server', defaultValue: prefill?.host },
+    {
+      key: 'name',
+      label: 'Server Name',
+      placeholder: 'My Server',
+      defaultValue: existing?.name ?? prefill?.host,
+    },
     {
       key: 'host',
       label: 'Host',
       placeholder: 'irc.example.com',
-      defaultValue: restrictions.server ?? prefill?.host,
+      defaultValue: restrictions.server ?? existing?.host ?? prefill?.host,
       // Lock the field so the user cannot type a different host
       readOnly: !!restrictions.server,
     },
@@ -43,23 +62,63 @@ export function ConnectServerModal({ width, height }: ConnectServerModalProps) {
       defaultValue: defaultPort,
       readOnly: !!restrictions.port,
     },
+    {
+      key: 'tls',
+      label: 'TLS (yes/no)',
+      placeholder: 'yes',
+      defaultValue: yesNo(defaultTLS),
+    },
+    {
+      key: 'acceptInvalidCert',
+      label: 'Accept Invalid Certificate (yes/no)',
+      placeholder: 'no',
+      defaultValue: yesNo(existing?.acceptInvalidCert),
+    },
     {
       key: 'nickname',
       label: 'Nickname',
       placeholder: 'username',
-      defaultValue: restrictions.nick ?? prefill?.nick,
+      defaultValue: restrictions.nick ?? existing?.nickname ?? prefill?.nick,
       // Lock the field so the user cannot type a different nick
       readOnly: !!restrictions.nick,
     },
-    { key: 'password', label: 'Password', placeholder: '(optional)', secret: true },
+    {
+      key: 'password',
+      label: 'Password',
+      placeholder: existing?.password ? '(unchanged)' : '(optional)',
+      secret: true,
+    },
     {
       key: 'saslUsername',
       label: 'SASL Username',
       placeholder: '(optional)',
-      defaultValue: restrictions.nick ?? undefined,
+      defaultValue: restrictions.nick ?? existing?.saslUsername,
       readOnly: !!restrictions.nick,
     },
-    { key: 'saslPassword', label: 'SASL Password', placeholder: '(optional)', secret: true },
+    {
+      key: 'saslPassword',
+      label: 'SASL Password',
+      placeholder: existing?.saslPassword ? '(unchanged)' : '(optional)',
+      secret: true,
+    },
+    {
+      key: 'clientCert',
+      label: 'Client Certificate (SASL EXTERNAL)',
+      placeholder: '~/.irc/client.pem (optional)',
+      defaultValue: existing?.clientCert,
+    },
+    {
+      key: 'clientKey',
+      label: 'Client Key',
+      placeholder: '(optional, defaults to the certificate file)',
+      defaultValue: existing?.clientKey,
+    },
+    {
+      key: 'fallbackEncoding',
+      label: 'Fallback Charset (latin1/cp1252)',
+      placeholder: '(optional, for non-UTF-8 networks)',
+      defaultValue: existing?.fallbackEncoding,
+    },
   ]
 
   const handleSubmit = (values: Record<string, string>) => {
@@ -81,6 +140,17 @@ export function ConnectServerModal({ width, height }: ConnectServerModalProps) {
       setFormError(nickErr)
       return
     }
+    for (const file of [values.clientCert?.trim(), values.clientKey?.trim()]) {
+      if (file && !fs.existsSync(expandUserPath(file))) {
+        setFormError(`File not found: ${file}`)
+        return
+      }
+    }
+    const encoding = values.fallbackEncoding?.trim()
+    if (encoding && !parseFallbackEncoding(encoding)) {
+      setFormError(`Unknown charset: ${encoding} (use latin1 or cp1252)`)
+      return
+    }
     setFormError('')
 
     const context = { store, ircClient, renderer }
@@ -88,13 +158,39 @@ export function ConnectServerModal({ width, height }: ConnectServerModalProps) {
       name: values.name,
       host: values.host,
       port: parseInt(values.port ?? '6697', 10) || 6697,
+      ssl: isYes(values.tls),
+      acceptInvalidCert: isYes(values.acceptInvalidCert),
       nickname: values.nickname,
       password: values.password || undefined,
       saslUsername: values.saslUsername || undefined,
       saslPassword: values.saslPassword || undefined,
+      clientCert: values.clientCert?.trim() || undefined,
+      clientKey: values.clientKey?.trim() || undefined,
+      fallbackEncoding: parseFallbackEncoding(encoding),
       channels: globalThis.__CLI_PREFILL__?.channels,
     }
 
+    if (existing) {
+      // Blank secret fields keep the stored password; '' clears the other optional fields
+      const { channels: _channels, password, saslPassword, ...rest } = params
+      store.updateServer(existing.id, {
+        ...rest,
+        saslUsername: rest.saslUsername ?? '',
+        clientCert: rest.clientCert ?? '',
+        clientKey: rest.clientKey ?? '',
+        ...(password ? { password } : {}),
+        ...(saslPassword ? { saslPassword } : {}),
+        // A pin belongs to one endpoint; a new host or port is trusted afresh
+        ...(rest.host !== existing.host || rest.port !== existing.port
+          ? { tlsFingerprint: '' }
+          : {}),
+      })
+      const updated = useStore.getState().getServer(existing.id)
+      registry.execute('server.reconnect', { ...context, currentServer: updated })
+      closeModal()
+      return
+    }
+
     registry.execute('server.connectWith', context, params)
     closeModal()
   }
@@ -103,11 +199,11 @@ export function ConnectServerModal({ width, height }: ConnectServerModalProps) {
     <FormModal
       width={width}
       height={height}
-      title="Add Server"
+      title={existing ? `Edit Server — ${existing.name}` : 'Add Server'}
       fields={fields}
       onSubmit={handleSubmit}
       onCancel={closeModal}
-      submitLabel="Connect"
+      submitLabel={existing ? 'Save & Reconnect' : 'Connect'}
       error={formError || undefined}
     />
   )
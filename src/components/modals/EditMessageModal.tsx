@@ -0,0 +1,129 @@
+import { useEffect, useRef, useState } from 'react'
+import { useKeyboard } from '@opentui/react'
+import type { TextareaRenderable } from '@opentui/core'
+import { useStore } from '../../store'
+import { useAppContext } from '../../context/AppContext'
+import { THEME } from '../../constants/theme'
+import { ModalShell } from './ModalShell'
+import { useTheme } from '../../hooks/useTheme'
+
+interface EditMessageModalProps {
+  width: number
+  height: number
+}
+
+// Enter saves; Shift+Enter (kitty terminals) or Ctrl+Enter starts a new line, as in the input
+const KEY_BINDINGS = [
+  { name: 'return', action: 'submit' as const },
+  { name: 'return', shift: true, action: 'newline' as const },
+  { name: 'return', ctrl: true, action: 'newline' as const },
+]
+
+export function EditMessageModal({ width, height }: EditMessageModalProps) {
+  useTheme()
+  const { registry, ircClient, renderer } = useAppContext()
+  const closeModal = useStore((state) => state.closeModal)
+  const message = useStore((state) => state.selectedMessage)
+  const textareaRef = useRef<TextareaRenderable | null>(null)
+  const [formError, setFormError] = useState('')
+
+  // Content has ACTION framing stripped; a multiline message keeps its lines
+  const original = message?.content ?? ''
+  const lineCount = original.split('\n').length
+
+  const handleSubmit = () => {
+    if (!message || !ircClient) return
+    const content = (textareaRef.current?.plainText ?? '')
+      .split('\n')
+      .map((line) => line.trim())
+      .filter(Boolean)
+      .join('\n')
+    if (!content) {
+      setFormError('Message cannot be empty — delete it instead')
+      return
+    }
+    if (content === message.content) {
+      closeModal()
+      return
+    }
+
+    const store = useStore.getState()
+    const currentServer = store.servers.find((s) => s.id === store.currentServerId)
+    const context = {
+      store,
+      ircClient,
+      currentServer,
+      currentChannel: currentServer?.channels.find((c) => c.id === store.currentChannelId),
+      selectedMessage: message,
+      renderer,
+    }
+    Promise.resolve(registry.execute('message.edit', context, content)).then(
+      () => closeModal(),
+      (error: Error) => setFormError(error.message)
+    )
+  }
+
+  useEffect(() => {
+    const textarea = textareaRef.current
+    if (!textarea) return
+    textarea.setText(original)
+    textarea.cursorOffset = original.length
+  }, [original])
+
+  useKeyboard((key) => {
+    if (key.name === 'escape') closeModal()
+  })
+
+  const modalWidth = Math.min(70, width - 4)
+  // Room for the text to grow a few lines past the original before it scrolls
+  const textHeight = Math.max(1, Math.min(lineCount + 2, height - 10))
+  const modalHeight = textHeight + 4 + (formError ? 1 : 0)
+
+  const footer = (
+    <box
+      paddingLeft={2}
+      paddingRight={2}
+      height={1}
+      backgroundColor={THEME.backgroundElement}
+      justifyContent="space-between"
+      flexDirection="row"
+    >
+      <text fg={THEME.mutedText}>
+        <span fg={THEME.accent}>Enter</span> Save <span fg={THEME.accent}>Shift+Enter</span> New
+        line
+      </text>
+      <text fg={THEME.mutedText}>
+        <span fg={THEME.accent}>Esc</span> Cancel
+      </text>
+    </box>
+  )
+
+  return (
+    <ModalShell
+      width={width}
+      height={height}
+      modalWidth={modalWidth}
+      modalHeight={modalHeight}
+      title="Edit Message"
+      footer={footer}
+    >
+      <box paddingLeft={2} paddingRight={2} paddingTop={1} height={textHeight + 1}>
+        <textarea
+          ref={textareaRef as React.RefObject<TextareaRenderable>}
+          focused
+          keyBindings={KEY_BINDINGS}
+          onSubmit={handleSubmit}
+          onContentChange={() => setFormError('')}
+          flexGrow={1}
+          backgroundColor={THEME.backgroundElement}
+          focusedBackgroundColor={THEME.backgroundElement}
+        />
+      </box>
+      {formError && (
+        <box paddingLeft={2} paddingRight={2} height={1}>
+          <text fg={THEME.error}>⚠ {formError}</text>
+        </box>
+      )}
+    </ModalShell>
+  )
+}
@@ -7,6 +7,7 @@ import { THEME, COLORS } from '../../constants/theme'
 import { ModalShell } from './ModalShell'
 import { EMOJI_LIST } from '../../utils/emojiData'
 import type { EmojiEntry } from '../../utils/emojiData'
+import { useTheme } from '../../hooks/useTheme'
 
 interface EmojiPickerModalProps {
   width: number
@@ -20,6 +21,7 @@ interface DisplayItem extends EmojiEntry {
 }
 
 export function EmojiPickerModal({ width, height, onEmojiSelect }: EmojiPickerModalProps) {
+  useTheme()
   const [query, setQuery] = useState('')
   const [selectedIndex, setSelectedIndex] = useState(0)
   const programmaticUpdate = useRef(false)
@@ -190,7 +192,7 @@ export function EmojiPickerModal({ width, height, onEmojiSelect }: EmojiPickerMo
                   key={entry.char}
                   paddingLeft={2}
                   paddingRight={2}
-                  backgroundColor={selBg ?? '#2a1515'}
+                  backgroundColor={selBg ?? THEME.reactionMineBackground}
                   flexDirection="row"
                   justifyContent="space-between"
                   onMouseDown={() => handleSelect(entry)}
@@ -211,7 +213,7 @@ export function EmojiPickerModal({ width, height, onEmojiSelect }: EmojiPickerMo
                   key={entry.char}
                   paddingLeft={2}
                   paddingRight={2}
-                  backgroundColor={selBg ?? '#152215'}
+                  backgroundColor={selBg ?? THEME.reactionOthersBackground}
                   flexDirection="row"
                   justifyContent="space-between"
                   onMouseDown={() => handleSelect(entry)}
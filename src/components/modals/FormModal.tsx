@@ -4,6 +4,7 @@ import type { InputRenderable, ScrollBoxRenderable } from '@opentui/core'
 import { ModalShell } from './ModalShell'
 import { THEME } from '../../constants/theme'
 import { updateRealFromMasked, FORM_MASK } from '../../utils/formMasking'
+import { useTheme } from '../../hooks/useTheme'
 
 export interface FormField {
   key: string
@@ -55,6 +56,7 @@ export function FormModal({
   submitLabel = 'Submit',
   error,
 }: FormModalProps) {
+  useTheme()
   const [values, setValues] = useState<Record<string, string>>(() => {
     const initial: Record<string, string> = {}
     for (const field of fields) {
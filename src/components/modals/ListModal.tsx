@@ -4,6 +4,7 @@ import type { ScrollBoxRenderable } from '@opentui/core'
 import Fuse from 'fuse.js'
 import { ModalShell } from './ModalShell'
 import { THEME } from '../../constants/theme'
+import { useTheme } from '../../hooks/useTheme'
 
 export interface ListItem {
   id: string
@@ -24,6 +25,11 @@ interface ListModalProps {
   onCancel: () => void
   placeholder?: string
   emptyMessage?: string
+  /** What Enter does, for the footer */
+  selectLabel?: string
+  /** Something else to do with the highlighted item, on Ctrl+`key` */
+  secondary?: { key: string; label: string; onSelect: (item: ListItem) => void }
+  maxWidth?: number
 }
 
 export function ListModal({
@@ -37,7 +43,11 @@ export function ListModal({
   onCancel,
   placeholder = 'Search...',
   emptyMessage = 'No results',
+  selectLabel = 'Select',
+  secondary,
+  maxWidth = 60,
 }: ListModalProps) {
+  useTheme()
   const [selectedIndex, setSelectedIndex] = useState(0)
   const scrollBoxRef = useRef<ScrollBoxRenderable | null>(null)
 
@@ -52,7 +62,7 @@ export function ListModal({
     }
   }, [selectedIndex])
 
-  const modalWidth = Math.min(60, width - 4)
+  const modalWidth = Math.min(maxWidth, width - 4)
   const modalHeight = Math.min(20, height - 4)
 
   const fuse = useMemo(
@@ -100,6 +110,14 @@ export function ListModal({
       return
     }
 
+    if (secondary && key.ctrl && key.name === secondary.key) {
+      const item = visibleItems[selectedIndex]
+      if (item) {
+        secondary.onSelect(item)
+      }
+      return
+    }
+
     if (key.name === 'backspace') {
       onQueryChange(query.slice(0, -1))
       setSelectedIndex(0)
@@ -128,7 +146,14 @@ export function ListModal({
       flexDirection="row"
     >
       <text fg={THEME.mutedText}>
-        <span fg={THEME.accent}>↑↓</span> Navigate <span fg={THEME.accent}>Enter</span> Select
+        <span fg={THEME.accent}>↑↓</span> Navigate <span fg={THEME.accent}>Enter</span>{' '}
+        {selectLabel}
+        {secondary && (
+          <>
+            {' '}
+            <span fg={THEME.accent}>Ctrl+{secondary.key.toUpperCase()}</span> {secondary.label}
+          </>
+        )}
       </text>
       <text fg={THEME.mutedText}>
         <span fg={THEME.accent}>Esc</span> Close
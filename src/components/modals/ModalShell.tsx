@@ -1,5 +1,6 @@
 import type { ReactNode } from 'react'
 import { THEME } from '../../constants/theme'
+import { useTheme } from '../../hooks/useTheme'
 
 interface ModalShellProps {
   width: number
@@ -20,6 +21,7 @@ export function ModalShell({
   footer,
   children,
 }: ModalShellProps) {
+  useTheme()
   const mw = modalWidth ?? Math.min(60, width - 4)
   const mh = modalHeight ?? Math.min(20, height - 4)
   const mx = Math.floor((width - mw) / 2)
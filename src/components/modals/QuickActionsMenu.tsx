@@ -9,6 +9,8 @@ import { THEME } from '../../constants/theme'
 import { ModalShell } from './ModalShell'
 import type { Action } from '../../types'
 import type { AppStore } from '../../store'
+import { bufferNotifyLevel } from '../../utils/notifications'
+import { useTheme } from '../../hooks/useTheme'
 
 interface QuickActionsMenuProps {
   width: number
@@ -28,6 +30,7 @@ interface QuickItem {
 }
 
 export function QuickActionsMenu({ width, height }: QuickActionsMenuProps) {
+  useTheme()
   const [query, setQuery] = useState('')
   const [selectedIndex, setSelectedIndex] = useState(0)
   const programmaticUpdate = useRef(false)
@@ -69,6 +72,7 @@ export function QuickActionsMenu({ width, height }: QuickActionsMenuProps) {
       channelName: string
       unreadCount: number
       isMentioned: boolean
+      isMuted: boolean
     }[] = []
     for (const server of store.servers) {
       for (const channel of server.channels) {
@@ -79,6 +83,7 @@ export function QuickActionsMenu({ width, height }: QuickActionsMenuProps) {
           channelName: channel.name,
           unreadCount: channel.unreadCount,
           isMentioned: channel.isMentioned,
+          isMuted: bufferNotifyLevel(server, channel.name) === 'muted',
         })
       }
     }
@@ -95,7 +100,10 @@ export function QuickActionsMenu({ width, height }: QuickActionsMenuProps) {
   const buildDefaultItems = useCallback((): QuickItem[] => {
     const items: QuickItem[] = []
 
-    for (const ch of allChannels) {
+    // Muted channels stay out of the mention and unread sections
+    const unmuted = allChannels.filter((ch) => !ch.isMuted)
+
+    for (const ch of unmuted) {
       if (ch.isMentioned) {
         items.push({
           id: `mention-${ch.channelId}`,
@@ -109,7 +117,7 @@ export function QuickActionsMenu({ width, height }: QuickActionsMenuProps) {
       }
     }
 
-    for (const ch of allChannels) {
+    for (const ch of unmuted) {
       if (ch.unreadCount > 0 && !ch.isMentioned) {
         items.push({
           id: `unread-${ch.channelId}`,
@@ -4,6 +4,7 @@ import { useStore } from '../../store'
 import { useAppContext } from '../../context/AppContext'
 import { THEME } from '../../constants/theme'
 import { ModalShell } from './ModalShell'
+import { useTheme } from '../../hooks/useTheme'
 
 interface SetTopicModalProps {
   width: number
@@ -11,6 +12,7 @@ interface SetTopicModalProps {
 }
 
 export function SetTopicModal({ width, height }: SetTopicModalProps) {
+  useTheme()
   const closeModal = useStore((state) => state.closeModal)
   const setModalError = useStore((state) => state.setModalError)
   const modalError = useStore((state) => state.modalError)
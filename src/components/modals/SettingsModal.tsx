@@ -0,0 +1,171 @@
+import { useEffect, useRef, useState } from 'react'
+import { useKeyboard } from '@opentui/react'
+import type { ScrollBoxRenderable } from '@opentui/core'
+import { useShallow } from 'zustand/react/shallow'
+import { useStore } from '../../store'
+import { THEME } from '../../constants/theme'
+import { nextChoice, SETTINGS } from '../../utils/settings'
+import { ModalShell } from './ModalShell'
+import { useTheme } from '../../hooks/useTheme'
+
+const SETTING_HEIGHT = 2
+
+interface SettingsModalProps {
+  width: number
+  height: number
+}
+
+export function SettingsModal({ width, height }: SettingsModalProps) {
+  useTheme()
+  // Only the shown values; the rest of the store changing doesn't concern this dialog
+  const values = useStore(useShallow((state) => SETTINGS.map((spec) => spec.get(state))))
+  const closeModal = useStore((state) => state.closeModal)
+  const [selectedIndex, setSelectedIndex] = useState(0)
+  // Text being typed for a free-text setting; null while browsing
+  const [draft, setDraft] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const scrollBoxRef = useRef<ScrollBoxRenderable | null>(null)
+
+  const selected = SETTINGS[selectedIndex]!
+
+  // Scroll the selected setting into view
+  useEffect(() => {
+    const box = scrollBoxRef.current
+    if (!box) return
+    // Each setting: key and value (1) + description (1); paddingTop = 1
+    const top = 1 + selectedIndex * SETTING_HEIGHT
+    const bottom = top + SETTING_HEIGHT - 1
+    const viewportHeight = box.height ?? 0
+    if (top < box.scrollTop) {
+      box.scrollTop = top
+    } else if (bottom >= box.scrollTop + viewportHeight) {
+      box.scrollTop = bottom - viewportHeight + 1
+    }
+  }, [selectedIndex])
+
+  const apply = (value: string) => {
+    const problem = selected.set(useStore.getState(), value)
+    setError(problem)
+    return !problem
+  }
+
+  useKeyboard((key) => {
+    if (draft !== null) {
+      // The input handles everything else while editing
+      if (key.name === 'escape') {
+        setDraft(null)
+        setError(null)
+      }
+      return
+    }
+
+    if (key.name === 'escape') {
+      closeModal()
+      return
+    }
+    if (key.name === 'up' || (key.name === 'tab' && key.shift)) {
+      setSelectedIndex((prev) => Math.max(0, prev - 1))
+      setError(null)
+      return
+    }
+    if (key.name === 'down' || key.name === 'tab') {
+      setSelectedIndex((prev) => Math.min(SETTINGS.length - 1, prev + 1))
+      setError(null)
+      return
+    }
+    if (key.name === 'return' || key.name === 'space' || key.name === ' ') {
+      const next = nextChoice(selected, selected.get(useStore.getState()))
+      if (next !== null) apply(next)
+      else setDraft(selected.get(useStore.getState()))
+      return
+    }
+    if (key.name === 'r') {
+      selected.reset(useStore.getState())
+      setError(null)
+    }
+  })
+
+  const modalWidth = Math.min(70, width - 4)
+  const errorOffset = error ? 1 : 0
+  const modalHeight = Math.min(SETTINGS.length * SETTING_HEIGHT + 4 + errorOffset, height - 4)
+
+  const footer = (
+    <box
+      paddingLeft={2}
+      paddingRight={2}
+      height={1}
+      backgroundColor={THEME.backgroundElement}
+      justifyContent="space-between"
+      flexDirection="row"
+    >
+      <text fg={THEME.mutedText}>
+        <span fg={THEME.accent}>↑↓</span> Navigate <span fg={THEME.accent}>Enter</span>{' '}
+        {draft !== null ? 'Save' : 'Change'} <span fg={THEME.accent}>R</span> Default
+      </text>
+      <text fg={THEME.mutedText}>
+        <span fg={THEME.accent}>Esc</span> {draft !== null ? 'Cancel' : 'Close'}
+      </text>
+    </box>
+  )
+
+  return (
+    <ModalShell
+      width={width}
+      height={height}
+      modalWidth={modalWidth}
+      modalHeight={modalHeight}
+      title="Settings"
+      footer={footer}
+    >
+      <scrollbox
+        ref={scrollBoxRef as React.RefObject<ScrollBoxRenderable>}
+        height={modalHeight - 3 - errorOffset}
+      >
+        <box flexDirection="column" paddingTop={1}>
+          {SETTINGS.map((spec, index) => {
+            const isSelected = index === selectedIndex
+            return (
+              <box
+                key={spec.key}
+                flexDirection="column"
+                paddingLeft={2}
+                paddingRight={2}
+                backgroundColor={isSelected ? THEME.selectedBackground : undefined}
+                onMouseDown={() => setSelectedIndex(index)}
+              >
+                <box flexDirection="row" justifyContent="space-between">
+                  <text fg={isSelected ? THEME.accent : THEME.foreground}>{spec.key}</text>
+                  {isSelected && draft !== null ? (
+                    <input
+                      focused
+                      value={draft}
+                      onInput={(v) => {
+                        setDraft(v)
+                        setError(null)
+                      }}
+                      onSubmit={() => {
+                        if (apply(draft)) setDraft(null)
+                      }}
+                      width={Math.max(10, Math.floor(modalWidth / 2))}
+                      backgroundColor={THEME.backgroundElement}
+                      focusedBackgroundColor={THEME.backgroundElement}
+                    />
+                  ) : (
+                    <text fg={THEME.accentBlue}>{values[index]}</text>
+                  )}
+                </box>
+                <text fg={THEME.dimText}>{spec.description}</text>
+              </box>
+            )
+          })}
+        </box>
+      </scrollbox>
+      {error && (
+        <box paddingLeft={2} paddingRight={2} height={1}>
+          <text fg={THEME.error}>⚠ {error}</text>
+        </box>
+      )}
+    </ModalShell>
+  )
+}
@@ -0,0 +1,65 @@
+import { useState, useMemo } from 'react'
+import { useStore } from '../../store'
+import { collectUrls, openUrl } from '../../utils/urls'
+import { copyToClipboard } from '../../utils/clipboard'
+import { formatTime } from '../../utils/timeFormat'
+import { ListModal } from './ListModal'
+import type { ListItem } from './ListModal'
+
+interface UrlsModalProps {
+  width: number
+  height: number
+}
+
+export function UrlsModal({ width, height }: UrlsModalProps) {
+  const [query, setQuery] = useState('')
+  const closeModal = useStore((state) => state.closeModal)
+  const currentServerId = useStore((state) => state.currentServerId)
+  const currentChannelId = useStore((state) => state.currentChannelId)
+  const messages = useStore((state) => state.messages)
+  const timestampFormat = useStore((state) => state.timestampFormat)
+
+  const bufferId = currentChannelId ?? currentServerId
+  const urls = useMemo(
+    () => collectUrls((bufferId && messages.get(bufferId)) || []),
+    [bufferId, messages]
+  )
+
+  const items: ListItem[] = useMemo(
+    () =>
+      urls.map((caught, index) => ({
+        id: String(index),
+        label: caught.url,
+        sublabel: `${caught.nick} ${formatTime(caught.timestamp, timestampFormat)}`,
+      })),
+    [urls, timestampFormat]
+  )
+
+  const handleOpen = (item: ListItem) => {
+    openUrl(item.label)
+    closeModal()
+  }
+
+  const handleCopy = (item: ListItem) => {
+    copyToClipboard(item.label)
+    closeModal()
+  }
+
+  return (
+    <ListModal
+      width={width}
+      height={height}
+      title="Links"
+      items={items}
+      query={query}
+      onQueryChange={setQuery}
+      onSelect={handleOpen}
+      onCancel={closeModal}
+      placeholder="Filter links..."
+      emptyMessage="No links in this buffer"
+      selectLabel="Open"
+      secondary={{ key: 'y', label: 'Copy', onSelect: handleCopy }}
+      maxWidth={100}
+    />
+  )
+}
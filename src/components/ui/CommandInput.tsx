@@ -1,5 +1,6 @@
-import { useState, useMemo, useEffect, useRef } from 'react'
+import { useState, useMemo, useEffect, useRef, useCallback } from 'react'
 import { useKeyboard } from '@opentui/react'
+import { RGBA, SyntaxStyle } from '@opentui/core'
 import type { TextareaRenderable } from '@opentui/core'
 import { useAppContext } from '../../context/AppContext'
 import { useStore } from '../../store'
@@ -8,59 +9,134 @@ import { useTypingIndicator } from '../../hooks/useTypingIndicator'
 import { useTabCompletion } from '../../hooks/useTabCompletion'
 import { copyToClipboard } from '../../utils/clipboard'
 import { stripIrcFormatting } from '../../utils/ircFormatting'
-import { registerInputRef, focusInput } from '../../utils/inputFocus'
+import { registerInputRef, registerHistorySearch, focusInput } from '../../utils/inputFocus'
+import { MENTIONS_BUFFER_ID } from '../../utils/highlights'
+import { historyKey, searchHistory } from '../../utils/inputHistory'
+import { hasFormatting, markdownToIrc, outgoingText } from '../../utils/inputFormatting'
+import { chordFromKey } from '../../utils/keymap'
+import {
+  findMisspellings,
+  loadSpellChecker,
+  spellingCandidates,
+  type SpellChecker,
+} from '../../utils/spellcheck'
+import { recentSpeakers } from '../../utils/tabCompletionCore'
+import { findEmoji } from '../../utils/emojiData'
 import { THEME, COLORS } from '../../constants/theme'
 import type { Message } from '../../types'
+import { useTheme } from '../../hooks/useTheme'
 
 interface CommandInputProps {
   width: number
 }
 
 const SELECTABLE_TYPES: Message['type'][] = ['message', 'action']
+const NO_HISTORY: string[] = []
+// Tags the spelling underlines so they can be cleared without touching others
+const SPELL_HIGHLIGHT_REF = 1
+
+/** Ctrl+R state: the query, the history index of the match, and the text from before */
+interface HistorySearch {
+  query: string
+  index: number
+  original: string
+  failed: boolean
+}
 
 export function CommandInput({ width }: CommandInputProps) {
+  useTheme()
   const textareaRef = useRef<TextareaRenderable | null>(null)
   const [inputLineCount, setInputLineCount] = useState(1)
   // Tracks textarea text for typing indicator (read from ref on content change)
   const [inputText, setInputText] = useState('')
-  const [commandHistory, setCommandHistory] = useState<string[]>([])
   const [historyIndex, setHistoryIndex] = useState(-1)
+  const [historySearch, setHistorySearch] = useState<HistorySearch | null>(null)
   const [errorMessage, setErrorMessage] = useState('')
 
-  const getText = () => textareaRef.current?.plainText ?? ''
+  const getText = useCallback(() => textareaRef.current?.plainText ?? '', [])
   const clearText = () => {
     textareaRef.current?.setText('')
     setInputLineCount(1)
     setInputText('')
     useStore.getState().setInputLineCount(1)
+    useStore.getState().setFormatPreview(null)
+    useStore.getState().setCompletion(null)
   }
-  const loadText = (t: string) => {
+  const loadText = useCallback((t: string) => {
     textareaRef.current?.setText(t)
     if (textareaRef.current) textareaRef.current.cursorOffset = t.length
-  }
+  }, [])
+  const syncText = useCallback(() => {
+    const lc = textareaRef.current?.lineCount ?? 1
+    const text = getText()
+    setInputLineCount(lc)
+    setInputText(text)
+    useStore.getState().setInputLineCount(lc)
+    const outgoing = outgoingText(text, useStore.getState().markdownInput)
+    useStore.getState().setFormatPreview(hasFormatting(outgoing) ? outgoing : null)
+    // Typing ends a round of Tab completion
+    useStore.getState().setCompletion(null)
+  }, [getText])
 
   const { registry, ircClient, renderer } = useAppContext()
   const activeModal = useStore((state) => state.activeModal)
-  const toggleExpandMultilines = useStore((state) => state.toggleExpandMultilines)
   const currentServerId = useStore((state) => state.currentServerId)
   const currentChannelId = useStore((state) => state.currentChannelId)
   const servers = useStore((state) => state.servers)
   const messages = useStore((state) => state.messages)
   const selectedMessage = useStore((state) => state.selectedMessage)
   const setSelectedMessage = useStore((state) => state.setSelectedMessage)
+  const jumpToMessage = useStore((state) => state.jumpToMessage)
+  const fetchOlderHistory = useStore((state) => state.fetchOlderHistory)
   const replyingTo = useStore((state) => state.replyingTo)
   const setReplyingTo = useStore((state) => state.setReplyingTo)
   const openModal = useStore((state) => state.openModal)
   const quitWarning = useStore((state) => state.quitWarning)
   const messageSearch = useStore((state) => state.messageSearch)
   const setMessageSearch = useStore((state) => state.setMessageSearch)
+  const addInputHistory = useStore((state) => state.addInputHistory)
+  const spellCheck = useStore((state) => state.spellCheck)
+  const spellLanguage = useStore((state) => state.spellLanguage)
 
   const currentServer = servers.find((s) => s.id === currentServerId)
   const currentChannel = currentServer?.channels.find((c) => c.id === currentChannelId)
   const currentPrivateChat = currentServer?.privateChats.find((pc) => pc.id === currentChannelId)
+  const bufferName = currentChannel?.name ?? currentPrivateChat?.username
+  const commandHistory =
+    useStore((state) => state.inputHistory.get(historyKey(currentServerId ?? '', bufferName))) ??
+    NO_HISTORY
 
   const commandParser = useMemo(() => new CommandParser(registry), [registry])
 
+  const [spellChecker, setSpellChecker] = useState<SpellChecker | null>(null)
+  // The dictionary is read in the background the first time it's wanted
+  useEffect(() => {
+    let current = true
+    const checker = spellCheck ? loadSpellChecker(spellLanguage) : Promise.resolve(null)
+    checker.then((loaded) => current && setSpellChecker(loaded))
+    return () => {
+      current = false
+    }
+  }, [spellCheck, spellLanguage])
+  // Nicks and channel names are never misspelled
+  const spellIgnore = useMemo(
+    () =>
+      new Set(
+        [
+          currentServer?.nickname ?? '',
+          currentPrivateChat?.username ?? '',
+          ...(currentChannel?.users ?? []).map((u) => u.username),
+          ...(currentServer?.channels ?? []).map((c) => c.name),
+        ].map((name) => name.toLowerCase())
+      ),
+    [currentServer, currentChannel, currentPrivateChat]
+  )
+  const errorColor = THEME.error
+  const spellStyle = useMemo(
+    () => SyntaxStyle.fromStyles({ misspelled: { fg: RGBA.fromHex(errorColor), underline: true } }),
+    [errorColor]
+  )
+
   useEffect(() => {
     registerInputRef(textareaRef.current)
     return () => registerInputRef(null)
@@ -70,6 +146,79 @@ export function CommandInput({ width }: CommandInputProps) {
 
   const { handleTabCompletion, resetCompletion } = useTabCompletion()
 
+  useEffect(() => {
+    useStore.getState().loadInputHistory(currentServerId ?? '', bufferName)
+  }, [currentServerId, bufferName])
+
+  // Each buffer keeps its own unsent text and reply target
+  useEffect(
+    () =>
+      useStore.subscribe((state, prev) => {
+        const bufferId = state.currentChannelId ?? state.currentServerId
+        const previous = prev.currentChannelId ?? prev.currentServerId
+        if (bufferId === previous) return
+        if (previous) state.saveDraft(previous, { text: getText(), replyingTo: state.replyingTo })
+        const draft = bufferId ? state.takeDraft(bufferId) : undefined
+        loadText(draft?.text ?? '')
+        syncText()
+        state.setReplyingTo(draft?.replyingTo ?? null)
+        setHistoryIndex(-1)
+        setHistorySearch(null)
+        resetCompletion()
+      }),
+    [getText, loadText, syncText, resetCompletion]
+  )
+
+  // Underline misspelled words, leaving the one still being typed at the end
+  useEffect(() => {
+    const textarea = textareaRef.current
+    if (!textarea) return
+    textarea.removeHighlightsByRef(SPELL_HIGHLIGHT_REF)
+    const styleId = spellStyle.getStyleId('misspelled')
+    if (!spellChecker || styleId === null) return
+    const lines = inputText.split('\n')
+    lines.forEach((line, lineIdx) => {
+      for (const { start, end } of findMisspellings(line, spellChecker, spellIgnore)) {
+        if (lineIdx === lines.length - 1 && end === line.length) continue
+        textarea.addHighlight(lineIdx, {
+          start: Bun.stringWidth(line.slice(0, start)),
+          end: Bun.stringWidth(line.slice(0, end)),
+          styleId,
+          hlRef: SPELL_HIGHLIGHT_REF,
+        })
+      }
+    })
+  }, [inputText, spellChecker, spellIgnore, spellStyle])
+
+  // Moves the search to the newest match before `before`, showing it in the input
+  const searchInputHistory = (search: HistorySearch, query: string, before?: number) => {
+    const index = searchHistory(commandHistory, query, before)
+    if (index === -1) {
+      setHistorySearch({ ...search, query, failed: true })
+      return
+    }
+    loadText(commandHistory[index]!)
+    syncText()
+    setHistorySearch({ ...search, query, index, failed: false })
+  }
+
+  // The input.historySearch key starts a search, or steps to an older match during one
+  useEffect(() => {
+    registerHistorySearch(() => {
+      if (historySearch) {
+        searchInputHistory(historySearch, historySearch.query, historySearch.index)
+        return
+      }
+      setHistorySearch({
+        query: '',
+        index: commandHistory.length,
+        original: getText(),
+        failed: false,
+      })
+    })
+    return () => registerHistorySearch(null)
+  })
+
   const channelMessages = useMemo(
     () => (currentChannelId ? (messages.get(currentChannelId) ?? []) : []),
     [messages, currentChannelId]
@@ -81,6 +230,7 @@ export function CommandInput({ width }: CommandInputProps) {
   )
 
   const nick = currentServer?.nickname ?? ''
+  const speakers = useMemo(() => recentSpeakers(channelMessages, nick), [channelMessages, nick])
 
   const handleSubmit = async (rawText: string) => {
     const text = rawText.trim()
@@ -94,12 +244,13 @@ export function CommandInput({ width }: CommandInputProps) {
     const hasNewlines = text.includes('\n')
 
     if (!isCommand && hasNewlines && currentServer) {
-      const lines = text.split('\n').filter(Boolean)
+      let lines = text.split('\n').filter(Boolean)
       const target = currentChannel?.name ?? currentPrivateChat?.username
       const supportsMultiline = currentServer.capabilities?.includes('draft/multiline') ?? false
 
       if (target) {
         if (supportsMultiline) {
+          if (useStore.getState().markdownInput) lines = lines.map(markdownToIrc)
           const batchId = `ml_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`
           const replyPrefix = replyingTo?.msgid ? `@+draft/reply=${replyingTo.msgid} ` : ''
           ircClient!.sendRaw(
@@ -145,7 +296,7 @@ export function CommandInput({ width }: CommandInputProps) {
       }
 
       clearText()
-      setCommandHistory((prev) => [...prev, text])
+      addInputHistory(currentServerId ?? '', bufferName, text)
       setHistoryIndex(-1)
       setReplyingTo(null)
       setSelectedMessage(null)
@@ -169,7 +320,7 @@ export function CommandInput({ width }: CommandInputProps) {
         return
       }
 
-      setCommandHistory((prev) => [...prev, text])
+      addInputHistory(currentServerId ?? '', bufferName, text)
       setHistoryIndex(-1)
       clearText()
       setReplyingTo(null)
@@ -180,6 +331,57 @@ export function CommandInput({ width }: CommandInputProps) {
   }
 
   useKeyboard((key) => {
+    // Chords in the keymap (selection toggle, Ctrl+O, ...) are dispatched by App; one whose
+    // action is disabled right now is left to the input, as App does
+    const chord = chordFromKey(key)
+    const bound = chord ? registry.findByKeybinding(chord) : undefined
+    if (bound) {
+      const state = useStore.getState()
+      const server = state.servers.find((s) => s.id === state.currentServerId)
+      const enabled =
+        !bound.isEnabled ||
+        bound.isEnabled({
+          store: state,
+          ircClient: ircClient!,
+          currentServer: server,
+          currentChannel: server?.channels.find((c) => c.id === state.currentChannelId),
+          selectedMessage: state.selectedMessage ?? undefined,
+          renderer,
+        })
+      if (enabled) return
+    }
+
+    // Reverse history search (input.historySearch): typing narrows it, the key again steps to older matches,
+    // Enter keeps the match for editing, Esc puts the old text back.
+    // Any other key keeps the match and then acts as usual.
+    if (historySearch && !activeModal) {
+      if (key.name === 'escape') {
+        key.preventDefault()
+        loadText(historySearch.original)
+        syncText()
+        setHistorySearch(null)
+        return
+      }
+      if (key.name === 'return') {
+        key.preventDefault()
+        setHistorySearch(null)
+        return
+      }
+      if (key.name === 'backspace') {
+        key.preventDefault()
+        searchInputHistory(historySearch, historySearch.query.slice(0, -1))
+        return
+      }
+      const char = key.sequence
+      if (!key.ctrl && !key.meta && char?.length === 1 && char >= ' ') {
+        key.preventDefault()
+        // The current match stays while it still contains the query
+        searchInputHistory(historySearch, historySearch.query + char, historySearch.index + 1)
+        return
+      }
+      setHistorySearch(null)
+    }
+
     // Enter submits; Shift+Enter inserts newline (kitty terminals) or use Ctrl+Enter on others
     if (key.name === 'return' && !activeModal && !selectedMessage) {
       if (key.shift || key.ctrl) {
@@ -192,30 +394,6 @@ export function CommandInput({ width }: CommandInputProps) {
       return
     }
 
-    // Ctrl+Space / Alt+Up / Shift+Up / Alt+K toggles selection mode; also closes search if open
-    // key.name is 'space' via legacy/tmux (NUL byte) or ' ' via Kitty keyboard protocol (\x1b[32;5u)
-    const isToggleSelection =
-      (key.ctrl && (key.name === 'space' || key.name === ' ')) ||
-      ((key.meta || key.option) && key.name === 'up') ||
-      (key.shift && key.name === 'up') ||
-      ((key.meta || key.option) && key.name === 'k')
-    if (isToggleSelection && !activeModal) {
-      if (messageSearch !== null) {
-        setMessageSearch(null)
-        setSelectedMessage(null)
-        return
-      }
-      if (selectedMessage) {
-        setSelectedMessage(null)
-        return
-      }
-      const last = selectableMessages[selectableMessages.length - 1]
-      if (last) {
-        setSelectedMessage(last)
-        return
-      }
-    }
-
     // Search mode: Esc always exits. Enter unfocuses the input (typing → false).
     // n/p/shortcuts only work when input is not focused (!typing).
     // When typing, all other keys fall through to SearchBar's focused <input>.
@@ -280,6 +458,9 @@ export function CommandInput({ width }: CommandInputProps) {
         key.preventDefault()
         const prev = selectableMessages[idx - 1]
         if (prev) setSelectedMessage(prev)
+        // Moving up past the oldest message pages in older history
+        else if (currentServer && currentChannelId)
+          fetchOlderHistory(currentServer.id, currentChannelId)
         return
       }
 
@@ -317,6 +498,22 @@ export function CommandInput({ width }: CommandInputProps) {
         return
       }
 
+      if (key.name === 'e' && key.shift) {
+        key.preventDefault()
+        // Opens the edit modal when the message is ours and the server supports edits
+        if (ircClient) {
+          registry.execute('message.edit', {
+            store: useStore.getState(),
+            ircClient,
+            currentServer,
+            currentChannel,
+            selectedMessage,
+            renderer,
+          })
+        }
+        return
+      }
+
       if (key.name === 'e') {
         key.preventDefault()
         openModal('emojiPicker')
@@ -342,6 +539,12 @@ export function CommandInput({ width }: CommandInputProps) {
         return
       }
 
+      if (key.name === 'return' && currentChannelId === MENTIONS_BUFFER_ID) {
+        key.preventDefault()
+        jumpToMessage(selectedMessage)
+        return
+      }
+
       if (key.name === 'return' && selectedMessage.replyMessage) {
         key.preventDefault()
         const replyTarget = selectedMessage.replyMessage
@@ -374,6 +577,18 @@ export function CommandInput({ width }: CommandInputProps) {
         users,
         channels,
         commands: commandParser.getCommandNames(),
+        commandArguments: (command, args) =>
+          commandParser.getArgumentCompletions(command, args, {
+            store: useStore.getState(),
+            server: currentServer,
+            channel: currentChannel,
+          }),
+        recentSpeakers: speakers,
+        emoji: findEmoji,
+        spelling: spellChecker
+          ? (word) =>
+              spellIgnore.has(word.toLowerCase()) ? [] : spellingCandidates(word, spellChecker)
+          : undefined,
       })
       if (result) {
         loadText(result.newText)
@@ -384,6 +599,9 @@ export function CommandInput({ width }: CommandInputProps) {
           textareaRef.current.cursorOffset = result.newCursorPosition
         }
       }
+      useStore
+        .getState()
+        .setCompletion(result ? { choices: result.choices, index: result.index } : null)
       return
     }
 
@@ -426,11 +644,6 @@ export function CommandInput({ width }: CommandInputProps) {
       resetCompletion()
       return
     }
-
-    if (key.ctrl && key.name === 'o' && !activeModal) {
-      toggleExpandMultilines()
-      return
-    }
   })
 
   useEffect(() => {
@@ -440,8 +653,11 @@ export function CommandInput({ width }: CommandInputProps) {
     }
   }, [errorMessage])
 
+  const searchPrompt = historySearch
+    ? `(${historySearch.failed ? 'failed ' : ''}reverse-i-search)'${historySearch.query}': `
+    : ''
   // <nick>·  = nick.length + 3 chars; fallback ">·" = 2 chars
-  const promptWidth = nick ? nick.length + 3 : 2
+  const promptWidth = historySearch ? searchPrompt.length : nick ? nick.length + 3 : 2
   // 2 outer padding each side + 2 border chars + 1 inner paddingLeft = 7 fixed overhead
   const textareaWidth = Math.max(10, width - 7 - promptWidth)
   const visibleLines = Math.min(inputLineCount, 5)
@@ -467,7 +683,11 @@ export function CommandInput({ width }: CommandInputProps) {
         onMouseDown={selectedMessage ? () => setSelectedMessage(null) : undefined}
       >
         <box width={promptWidth} flexShrink={0} height={1}>
-          {nick ? (
+          {historySearch ? (
+            <text>
+              <span fg={historySearch.failed ? THEME.error : THEME.dimText}>{searchPrompt}</span>
+            </text>
+          ) : nick ? (
             <text>
               <span fg={THEME.dimText}>{'<'}</span>
               <span fg={THEME.accent}>{nick}</span>
@@ -487,13 +707,8 @@ export function CommandInput({ width }: CommandInputProps) {
           backgroundColor={THEME.backgroundElement}
           focusedBackgroundColor={THEME.backgroundElement}
           placeholder="Type a message or /command..."
-          onContentChange={() => {
-            const lc = textareaRef.current?.lineCount ?? 1
-            const txt = getText()
-            setInputLineCount(lc)
-            setInputText(txt)
-            useStore.getState().setInputLineCount(lc)
-          }}
+          syntaxStyle={spellStyle}
+          onContentChange={syncText}
         />
       </box>
       {errorMessage && (
@@ -0,0 +1,57 @@
+import { TextAttributes } from '@opentui/core'
+import { useStore } from '../../store'
+import { THEME } from '../../constants/theme'
+import { useTheme } from '../../hooks/useTheme'
+
+interface CompletionPopupProps {
+  width: number
+}
+
+const LABEL = 'Tab › '
+const GAP = 2
+
+// The run of choices that fits in `room` columns, starting early enough to show the current one
+function visibleChoices(choices: string[], index: number, room: number) {
+  let first = index
+  let used = Bun.stringWidth(choices[index]!)
+  while (first > 0 && used + GAP + Bun.stringWidth(choices[first - 1]!) <= room / 2) {
+    first--
+    used += GAP + Bun.stringWidth(choices[first]!)
+  }
+  let last = index
+  while (last < choices.length - 1 && used + GAP + Bun.stringWidth(choices[last + 1]!) <= room) {
+    last++
+    used += GAP + Bun.stringWidth(choices[last]!)
+  }
+  return { first, last }
+}
+
+export function CompletionPopup({ width }: CompletionPopupProps) {
+  useTheme()
+  const completion = useStore((state) => state.completion)
+
+  if (!completion || completion.choices.length < 2) return null
+
+  const { choices, index } = completion
+  const count = ` ${index + 1}/${choices.length}`
+  const { first, last } = visibleChoices(choices, index, width - 4 - LABEL.length - count.length)
+
+  return (
+    <box width={width} height={1} paddingLeft={2} backgroundColor={THEME.backgroundInput}>
+      <text>
+        <span fg={THEME.dimText}>{first > 0 ? '‹ ' : LABEL}</span>
+        {choices.slice(first, last + 1).map((choice, i) => (
+          <span
+            key={first + i}
+            fg={first + i === index ? THEME.accent : THEME.foreground}
+            attributes={first + i === index ? TextAttributes.BOLD : TextAttributes.NONE}
+          >
+            {i > 0 ? ' '.repeat(GAP) : ''}
+            {choice}
+          </span>
+        ))}
+        <span fg={THEME.dimText}>{last < choices.length - 1 ? ` ›${count}` : count}</span>
+      </text>
+    </box>
+  )
+}
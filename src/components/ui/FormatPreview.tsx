@@ -0,0 +1,55 @@
+import { TextAttributes } from '@opentui/core'
+import { useStore } from '../../store'
+import { THEME } from '../../constants/theme'
+import { parseIrcFormatting } from '../../utils/ircFormatting'
+import { useTheme } from '../../hooks/useTheme'
+
+interface FormatPreviewProps {
+  width: number
+}
+
+const LABEL = 'Preview › '
+
+// Keep the end of a long line in view; that's where the typing happens
+function lastColumns(segments: ReturnType<typeof parseIrcFormatting>, room: number) {
+  const kept: typeof segments = []
+  for (let i = segments.length - 1; i >= 0 && room > 0; i--) {
+    const seg = segments[i]!
+    const text = seg.text.slice(-room)
+    kept.unshift({ ...seg, text })
+    room -= text.length
+  }
+  return kept
+}
+
+export function FormatPreview({ width }: FormatPreviewProps) {
+  useTheme()
+  const formatPreview = useStore((state) => state.formatPreview)
+
+  if (formatPreview === null) return null
+
+  const segments = lastColumns(
+    parseIrcFormatting(formatPreview.replace(/\n/g, ' ')),
+    width - 4 - LABEL.length
+  )
+
+  return (
+    <box width={width} height={1} paddingLeft={2} backgroundColor={THEME.backgroundInput}>
+      <text>
+        <span fg={THEME.dimText}>{LABEL}</span>
+        {segments.map((seg, i) => {
+          let attrs = TextAttributes.NONE
+          if (seg.bold) attrs |= TextAttributes.BOLD
+          if (seg.italic) attrs |= TextAttributes.ITALIC
+          if (seg.underline) attrs |= TextAttributes.UNDERLINE
+          if (seg.strikethrough) attrs |= TextAttributes.STRIKETHROUGH
+          return (
+            <span key={i} fg={seg.fg ?? THEME.foreground} bg={seg.bg} attributes={attrs}>
+              {seg.text}
+            </span>
+          )
+        })}
+      </text>
+    </box>
+  )
+}
@@ -2,12 +2,14 @@ import { useKeyboard } from '@opentui/react'
 import { useStore } from '../../store'
 import { THEME } from '../../constants/theme'
 import { stripIrcFormatting } from '../../utils/ircFormatting'
+import { useTheme } from '../../hooks/useTheme'
 
 interface ReplyBarProps {
   width: number
 }
 
 export function ReplyBar({ width }: ReplyBarProps) {
+  useTheme()
   const replyingTo = useStore((state) => state.replyingTo)
   const setReplyingTo = useStore((state) => state.setReplyingTo)
 
@@ -2,6 +2,7 @@ import { useStore } from '../../store'
 import { THEME } from '../../constants/theme'
 import { stripIrcFormatting } from '../../utils/ircFormatting'
 import type { Message } from '../../types'
+import { useTheme } from '../../hooks/useTheme'
 
 const SELECTABLE_TYPES: Message['type'][] = ['message', 'action']
 
@@ -10,6 +11,7 @@ interface SearchBarProps {
 }
 
 export function SearchBar({ width }: SearchBarProps) {
+  useTheme()
   const messageSearch = useStore((s) => s.messageSearch)
   const setMessageSearch = useStore((s) => s.setMessageSearch)
   const setSelectedMessage = useStore((s) => s.setSelectedMessage)
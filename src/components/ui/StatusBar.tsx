@@ -1,5 +1,15 @@
+import { Fragment } from 'react'
 import { useStore } from '../../store'
+import { useAppContext } from '../../context/AppContext'
+import { formatChord, getKeymapWarnings } from '../../utils/keymap'
 import { THEME } from '../../constants/theme'
+import { useTheme } from '../../hooks/useTheme'
+
+const HINTS = [
+  { actionId: 'message.toggleSelection', label: 'select' },
+  { actionId: 'ui.quickActions', label: 'actions' },
+  { actionId: 'ui.toggleExpandMultilines', label: 'multiline' },
+]
 
 interface StatusBarProps {
   width: number
@@ -7,12 +17,22 @@ interface StatusBarProps {
 }
 
 export function StatusBar({ width }: StatusBarProps) {
+  useTheme()
   const currentServerId = useStore((state) => state.currentServerId)
   const servers = useStore((state) => state.servers)
   const expandMultilines = useStore((state) => state.expandMultilines)
   const messageSearch = useStore((state) => state.messageSearch)
 
+  const { registry } = useAppContext()
+
   const currentServer = servers.find((s) => s.id === currentServerId)
+  // Hints follow the keymap: the first chord bound to each action, skipped when unbound
+  const keymap = registry.getKeymap()
+  const hints = HINTS.flatMap(({ actionId, label }) => {
+    const entry = keymap.find(([, action]) => action.id === actionId)
+    return entry ? [{ chord: formatChord(entry[0]), label }] : []
+  })
+
   const getConnectionStatus = () => {
     if (!currentServer) return ''
 
@@ -63,6 +83,11 @@ export function StatusBar({ width }: StatusBarProps) {
         )}
       </box>
       <box flexDirection="row" gap={2}>
+        {getKeymapWarnings().length > 0 && (
+          <text>
+            <span fg={THEME.warning}>⚠ keys</span>
+          </text>
+        )}
         {globalThis.__ENCRYPTION_WARNING__ && (
           <text>
             <span fg={THEME.warning}>⚠ no enc</span>
@@ -81,14 +106,13 @@ export function StatusBar({ width }: StatusBarProps) {
           </text>
         )}
         <text>
-          <span fg={THEME.accentCyan}>Ctrl+Space</span>
-          <span fg={THEME.mutedText}> select </span>
-          <span fg={THEME.borderSubtle}>│</span>
-          <span fg={THEME.accentCyan}> Ctrl+K</span>
-          <span fg={THEME.mutedText}> actions </span>
-          <span fg={THEME.borderSubtle}>│</span>
-          <span fg={THEME.accentCyan}> Ctrl+O</span>
-          <span fg={THEME.mutedText}> multiline</span>
+          {hints.map((hint, i) => (
+            <Fragment key={hint.label}>
+              {i > 0 && <span fg={THEME.borderSubtle}> │ </span>}
+              <span fg={THEME.accentCyan}>{hint.chord}</span>
+              <span fg={THEME.mutedText}> {hint.label}</span>
+            </Fragment>
+          ))}
         </text>
       </box>
     </box>
@@ -1,11 +1,13 @@
 import { useStore } from '../../store'
 import { THEME } from '../../constants/theme'
+import { useTheme } from '../../hooks/useTheme'
 
 interface TypingIndicatorProps {
   width: number
 }
 
 export function TypingIndicator({ width }: TypingIndicatorProps) {
+  useTheme()
   const typingUsers = useStore((state) => state.typingUsers)
   const currentChannelId = useStore((state) => state.currentChannelId)
 
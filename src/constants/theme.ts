@@ -1,5 +1,5 @@
 // OpenCode-inspired theme with rich, vibrant colors
-export const THEME = {
+export const DARK_THEME = {
   // Base backgrounds - rich gradients
   background: '#0d1117', // Deep blue-black
   backgroundPanel: '#161b22', // Slightly lighter panel
@@ -44,15 +44,19 @@ export const THEME = {
   highlight: '#1f2937',
   highlightBackground: '#2d333b',
   selectedBackground: '#1f6feb22', // Blue tint
+  searchMatchBackground: '#2a2000', // Other search hits
+  searchCurrentBackground: '#4d3800', // The hit being shown
+  reactionMineBackground: '#2a1515', // Emoji picker: reactions you'd remove
+  reactionOthersBackground: '#152215', // Emoji picker: reactions you'd join
 
   // IRC specific
   mention: '#f85149',
   active: '#ff7b72',
   inactive: '#30363d',
-} as const
+}
 
 // IRC-specific semantic colors - vibrant palette
-export const COLORS = {
+export const DARK_COLORS = {
   gray: '#7d8590',
   lightGray: '#e6edf3',
   blue: '#58a6ff',
@@ -69,10 +73,10 @@ export const COLORS = {
   lavender: '#c69cff',
   mint: '#7ee787',
   gold: '#f0cf65',
-} as const
+}
 
 // Nickname color palette - 16 distinct colors for username variety
-export const NICKNAME_COLORS = [
+export const DARK_NICKNAME_COLORS = [
   '#58a6ff', // Blue
   '#3fb950', // Green
   '#d29922', // Gold
@@ -89,4 +93,291 @@ export const NICKNAME_COLORS = [
   '#a0d0ff', // Sky blue
   '#ff8f96', // Rose
   '#96d0ff', // Ice blue
-] as const
+]
+
+export type ThemeColors = Record<keyof typeof DARK_THEME, string>
+export type IrcColors = Record<keyof typeof DARK_COLORS, string>
+
+// GitHub-light-inspired palette for light terminal backgrounds
+export const LIGHT_THEME: ThemeColors = {
+  background: '#ffffff',
+  backgroundPanel: '#f6f8fa',
+  backgroundElement: '#eaeef2',
+  backgroundInput: '#f6f8fa',
+
+  backgroundServer: '#f6f8fa',
+  backgroundChat: '#ffffff',
+  backgroundMembers: '#f6f8fa',
+  backgroundHighlight: '#eaeef2',
+  backgroundMention: '#ffebe9', // Pale red
+
+  foreground: '#1f2328', // Near-black text
+  mutedText: '#59636e',
+  dimText: '#818b98',
+
+  border: '#d1d9e0',
+  borderActive: '#0969da',
+  borderFocus: '#0969da',
+  borderSubtle: '#e5e8eb',
+
+  // Accents are darkened so they stay readable on white
+  accent: '#cf222e',
+  accentHover: '#a40e26',
+  accentBlue: '#0969da',
+  accentPurple: '#8250df',
+  accentGreen: '#1a7f37',
+  accentYellow: '#9a6700',
+  accentPink: '#bf3989',
+  accentCyan: '#1b7c83',
+
+  error: '#d1242f',
+  success: '#1a7f37',
+  warning: '#9a6700',
+  info: '#0969da',
+
+  highlight: '#eaeef2',
+  highlightBackground: '#dde3e9',
+  selectedBackground: '#0969da22',
+  searchMatchBackground: '#fff8c5',
+  searchCurrentBackground: '#f5d770',
+  reactionMineBackground: '#ffebe9',
+  reactionOthersBackground: '#dafbe1',
+
+  mention: '#d1242f',
+  active: '#cf222e',
+  inactive: '#d1d9e0',
+}
+
+export const LIGHT_COLORS: IrcColors = {
+  gray: '#59636e',
+  lightGray: '#1f2328',
+  blue: '#0969da',
+  cyan: '#1b7c83',
+  green: '#1a7f37',
+  yellow: '#9a6700',
+  orange: '#bc4c00',
+  red: '#d1242f',
+  magenta: '#8250df',
+  purple: '#6639ba',
+  pink: '#bf3989',
+  white: '#ffffff',
+  coral: '#cf222e',
+  lavender: '#8250df',
+  mint: '#1a7f37',
+  gold: '#9a6700',
+}
+
+export const LIGHT_NICKNAME_COLORS = [
+  '#0969da', // Blue
+  '#1a7f37', // Green
+  '#9a6700', // Gold
+  '#cf222e', // Red
+  '#8250df', // Purple
+  '#bf3989', // Pink
+  '#1b7c83', // Teal
+  '#bc4c00', // Orange
+  '#4d7c0f', // Olive
+  '#6639ba', // Violet
+  '#a40e26', // Crimson
+  '#116329', // Forest
+  '#7d4e00', // Brown
+  '#0550ae', // Navy
+  '#99286e', // Plum
+  '#0e7490', // Petrol
+]
+
+// Pure black and white with saturated accents, for low-vision use and washed-out displays
+export const HIGH_CONTRAST_THEME: ThemeColors = {
+  background: '#000000',
+  backgroundPanel: '#000000',
+  backgroundElement: '#1a1a1a',
+  backgroundInput: '#000000',
+
+  backgroundServer: '#000000',
+  backgroundChat: '#000000',
+  backgroundMembers: '#000000',
+  backgroundHighlight: '#303030',
+  backgroundMention: '#5f0000',
+
+  foreground: '#ffffff',
+  mutedText: '#d0d0d0',
+  dimText: '#b0b0b0',
+
+  border: '#ffffff',
+  borderActive: '#ffff00',
+  borderFocus: '#ffff00',
+  borderSubtle: '#808080',
+
+  accent: '#ffff00',
+  accentHover: '#ffff87',
+  accentBlue: '#5fd7ff',
+  accentPurple: '#d787ff',
+  accentGreen: '#5fff5f',
+  accentYellow: '#ffff00',
+  accentPink: '#ff87d7',
+  accentCyan: '#00ffff',
+
+  error: '#ff5f5f',
+  success: '#5fff5f',
+  warning: '#ffd700',
+  info: '#5fd7ff',
+
+  highlight: '#303030',
+  highlightBackground: '#444444',
+  selectedBackground: '#005f87',
+  searchMatchBackground: '#5f5f00',
+  searchCurrentBackground: '#878700',
+  reactionMineBackground: '#5f0000',
+  reactionOthersBackground: '#005f00',
+
+  mention: '#ff5f5f',
+  active: '#ffff00',
+  inactive: '#808080',
+}
+
+export const HIGH_CONTRAST_COLORS: IrcColors = {
+  gray: '#d0d0d0',
+  lightGray: '#ffffff',
+  blue: '#5fd7ff',
+  cyan: '#00ffff',
+  green: '#5fff5f',
+  yellow: '#ffff00',
+  orange: '#ffaf00',
+  red: '#ff5f5f',
+  magenta: '#ff87ff',
+  purple: '#d787ff',
+  pink: '#ff87d7',
+  white: '#ffffff',
+  coral: '#ff8787',
+  lavender: '#d7afff',
+  mint: '#87ffaf',
+  gold: '#ffd700',
+}
+
+export const HIGH_CONTRAST_NICKNAME_COLORS = [
+  '#5fd7ff', // Sky
+  '#5fff5f', // Green
+  '#ffff00', // Yellow
+  '#ff5f5f', // Red
+  '#d787ff', // Purple
+  '#ff87d7', // Pink
+  '#00ffff', // Cyan
+  '#ffaf00', // Orange
+  '#afff00', // Lime
+  '#d7afff', // Lavender
+  '#ff8787', // Coral
+  '#87ffaf', // Mint
+  '#ffd700', // Gold
+  '#87d7ff', // Light blue
+  '#ff5fd7', // Magenta
+  '#ffffff', // White
+]
+
+// The 16 standard ANSI colors (xterm values), for terminals without
+// truecolor, where anything else gets approximated unpredictably
+const ANSI = {
+  black: '#000000',
+  red: '#cd0000',
+  green: '#00cd00',
+  yellow: '#cdcd00',
+  blue: '#0000ee',
+  magenta: '#cd00cd',
+  cyan: '#00cdcd',
+  white: '#e5e5e5',
+  brightBlack: '#7f7f7f',
+  brightRed: '#ff0000',
+  brightGreen: '#00ff00',
+  brightYellow: '#ffff00',
+  brightBlue: '#5c5cff',
+  brightMagenta: '#ff00ff',
+  brightCyan: '#00ffff',
+  brightWhite: '#ffffff',
+}
+
+export const ANSI16_THEME: ThemeColors = {
+  background: ANSI.black,
+  backgroundPanel: ANSI.black,
+  backgroundElement: ANSI.black,
+  backgroundInput: ANSI.black,
+
+  backgroundServer: ANSI.black,
+  backgroundChat: ANSI.black,
+  backgroundMembers: ANSI.black,
+  backgroundHighlight: ANSI.blue,
+  backgroundMention: ANSI.red,
+
+  foreground: ANSI.white,
+  mutedText: ANSI.brightBlack,
+  dimText: ANSI.brightBlack,
+
+  border: ANSI.brightBlack,
+  borderActive: ANSI.brightBlue,
+  borderFocus: ANSI.brightBlue,
+  borderSubtle: ANSI.brightBlack,
+
+  accent: ANSI.brightRed,
+  accentHover: ANSI.red,
+  accentBlue: ANSI.brightBlue,
+  accentPurple: ANSI.brightMagenta,
+  accentGreen: ANSI.brightGreen,
+  accentYellow: ANSI.yellow,
+  accentPink: ANSI.magenta,
+  accentCyan: ANSI.brightCyan,
+
+  error: ANSI.brightRed,
+  success: ANSI.green,
+  warning: ANSI.yellow,
+  info: ANSI.brightBlue,
+
+  highlight: ANSI.blue,
+  highlightBackground: ANSI.blue,
+  selectedBackground: ANSI.blue,
+  searchMatchBackground: ANSI.brightBlack,
+  searchCurrentBackground: ANSI.yellow,
+  reactionMineBackground: ANSI.red,
+  reactionOthersBackground: ANSI.green,
+
+  mention: ANSI.brightRed,
+  active: ANSI.brightRed,
+  inactive: ANSI.brightBlack,
+}
+
+export const ANSI16_COLORS: IrcColors = {
+  gray: ANSI.brightBlack,
+  lightGray: ANSI.white,
+  blue: ANSI.brightBlue,
+  cyan: ANSI.cyan,
+  green: ANSI.green,
+  yellow: ANSI.yellow,
+  orange: ANSI.brightYellow,
+  red: ANSI.red,
+  magenta: ANSI.magenta,
+  purple: ANSI.brightMagenta,
+  pink: ANSI.brightMagenta,
+  white: ANSI.brightWhite,
+  coral: ANSI.brightRed,
+  lavender: ANSI.brightMagenta,
+  mint: ANSI.brightGreen,
+  gold: ANSI.brightYellow,
+}
+
+export const ANSI16_NICKNAME_COLORS = [
+  ANSI.red,
+  ANSI.green,
+  ANSI.yellow,
+  ANSI.blue,
+  ANSI.magenta,
+  ANSI.cyan,
+  ANSI.brightRed,
+  ANSI.brightGreen,
+  ANSI.brightYellow,
+  ANSI.brightBlue,
+  ANSI.brightMagenta,
+  ANSI.brightCyan,
+]
+
+// The active palettes. Components read them while rendering, so switching
+// theme (utils/themes) overwrites them in place and re-renders the tree.
+export const THEME: ThemeColors = { ...DARK_THEME }
+export const COLORS: IrcColors = { ...DARK_COLORS }
+export const NICKNAME_COLORS: string[] = [...DARK_NICKNAME_COLORS]
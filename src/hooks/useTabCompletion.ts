@@ -21,7 +21,13 @@ export function useTabCompletion() {
     (
       currentText: string,
       opts: TabCompletionOptions
-    ): { newText: string; newCursorPosition: number } | null => {
+    ): {
+      newText: string
+      newCursorPosition: number
+      /** Every candidate as the popup shows it, and which one was inserted */
+      choices: string[]
+      index: number
+    } | null => {
       // Use the ref for external-edit detection — more reliable than deriving
       // from state since setState is batched but the ref is always synchronous.
       if (state.isActive && currentText !== lastProducedRef.current) {
@@ -39,7 +45,12 @@ export function useTabCompletion() {
 
       setState(newState)
       lastProducedRef.current = newText
-      return { newText, newCursorPosition }
+      return {
+        newText,
+        newCursorPosition,
+        choices: newState.labels ?? newState.matches.map((m) => m.trimEnd()),
+        index: newState.currentIndex,
+      }
     },
     [state]
   )
@@ -0,0 +1,9 @@
+import { useStore } from '../store'
+
+/**
+ * The active theme's name. applyTheme swaps THEME, COLORS and NICKNAME_COLORS in place,
+ * so every component that reads them calls this to re-render when another theme is picked
+ */
+export function useTheme() {
+  return useStore((state) => state.theme)
+}
@@ -1,11 +1,11 @@
-import { createCliRenderer } from '@opentui/core'
+import { createCliRenderer, type CliRenderer } from '@opentui/core'
 import { createRoot } from '@opentui/react'
 import { App } from './App'
 import fs from 'node:fs'
 import os from 'node:os'
 import tty from 'node:tty'
 import { createInterface } from 'node:readline'
-import { resolveDatabasePath } from './utils/paths'
+import { expandUserPath, getDaemonSocketPath, resolveDatabasePath } from './utils/paths'
 import { setDatabasePath } from './services/database'
 import { keyManager } from './services/keyManager'
 import { bootstrapServer } from './utils/bootstrapServer'
@@ -27,6 +27,8 @@ declare global {
   var __CLI_PREFILL__:
     | { host?: string; port?: number; nick?: string; ssl?: boolean; channels?: string[] }
     | undefined
+  // Set when --attach is given; connections and buffers live in a --daemon process.
+  var __ATTACHED__: boolean | undefined
   // OAuth bearer token optionally injected via OAUTH_BEARER_TOKEN env var.
   var __OAUTH_BEARER_TOKEN__: string | undefined
 }
@@ -151,6 +153,14 @@ Options:
                      Passwords are held in memory only for the current session.
                      NickServ will prompt for identification on each launch.
 
+  --daemon           Run headless: keep the IRC connections open without a UI
+                     and serve them on a local Unix socket. Survives closing
+                     the terminal when started under nohup, tmux or systemd.
+  --attach           Open the UI against a running --daemon instead of
+                     connecting to IRC directly. Quitting only detaches.
+  --socket <path>    Socket used by --daemon / --attach (default: tobby.sock
+                     in the data directory).
+
   --debug            Write a debug log to tobby-debug.log.
   --version, -v      Print version and exit.
   --help, -h         Show this help and exit.
@@ -162,6 +172,7 @@ Examples:
   tobby --server irc.libera.chat --nick mynick --ssl
   tobby --server irc.libera.chat --port 6697 --ssl --nick mynick
   tobby --server irc.libera.chat --nick me --channel '#linux' --channel '#bots'
+  tobby --daemon &  then, from any terminal:  tobby --attach
 `.trimStart()
   )
   process.exit(0)
@@ -202,6 +213,9 @@ interface ParsedArgs {
   restrictUser?: string
   stdinEncKey: boolean
   doNotStorePassword: boolean
+  daemon: boolean
+  attach: boolean
+  socket?: string
 }
 
 function parseArgs(args: string[]): ParsedArgs {
@@ -213,6 +227,8 @@ function parseArgs(args: string[]): ParsedArgs {
     setupIfNotConfigured: false,
     stdinEncKey: false,
     doNotStorePassword: false,
+    daemon: false,
+    attach: false,
   }
   for (let i = 0; i < args.length; i++) {
     switch (args[i]) {
@@ -258,6 +274,15 @@ function parseArgs(args: string[]): ParsedArgs {
       case '--do-not-store-password':
         result.doNotStorePassword = true
         break
+      case '--daemon':
+        result.daemon = true
+        break
+      case '--attach':
+        result.attach = true
+        break
+      case '--socket':
+        result.socket = args[++i]
+        break
     }
   }
   return result
@@ -360,26 +385,59 @@ if (parsed.server && !wantsSetup) {
   })
 }
 
-// ── Launch app ────────────────────────────────────────────────────────────────
+// ── Daemon / attach ───────────────────────────────────────────────────────────
+
+const socketPath = parsed.socket ? expandUserPath(parsed.socket) : getDaemonSocketPath()
 
-// When the passphrase was piped in via stdin, that fd is now at EOF and is no
-// longer a TTY. opentui checks `inp.isTTY` before enabling raw mode and palette
-// detection; if the check fails the TUI is completely broken. Reopen the
-// controlling terminal so opentui gets a real keyboard stream.
-let rendererStdin: tty.ReadStream | typeof process.stdin = process.stdin
-if (parsed.stdinEncKey && !process.stdin.isTTY) {
-  // stdin was consumed reading the passphrase; reopen the controlling terminal
-  // so opentui gets a real keyboard stream.
+if (parsed.daemon) {
+  // Headless: no renderer at all; the socket and IRC connections keep the process alive.
+  const { runDaemon } = await import('./services/daemon')
   try {
-    rendererStdin = new tty.ReadStream(fs.openSync('/dev/tty', 'r+'))
-  } catch {
-    // No controlling terminal — TUI will degrade gracefully (opentui's own path).
+    await runDaemon(socketPath)
+  } catch (error) {
+    console.error(`tobby: ${(error as Error).message}`)
+    process.exit(1)
   }
-}
+} else {
+  // Not created until attached; the daemon connection may drop before that
+  let renderer: CliRenderer | undefined
 
-const renderer = await createCliRenderer({
-  exitOnCtrlC: false,
-  stdin: rendererStdin,
-})
+  if (parsed.attach) {
+    globalThis.__ATTACHED__ = true
+    const { attachToDaemon } = await import('./services/daemonClient')
+    try {
+      await attachToDaemon(socketPath, () => {
+        renderer?.destroy()
+        console.error('tobby: lost connection to the daemon')
+        process.exit(1)
+      })
+    } catch (error) {
+      console.error(`tobby: ${(error as Error).message}`)
+      process.exit(1)
+    }
+  }
+
+  // ── Launch app ──────────────────────────────────────────────────────────────
+
+  // When the passphrase was piped in via stdin, that fd is now at EOF and is no
+  // longer a TTY. opentui checks `inp.isTTY` before enabling raw mode and palette
+  // detection; if the check fails the TUI is completely broken. Reopen the
+  // controlling terminal so opentui gets a real keyboard stream.
+  let rendererStdin: tty.ReadStream | typeof process.stdin = process.stdin
+  if (parsed.stdinEncKey && !process.stdin.isTTY) {
+    // stdin was consumed reading the passphrase; reopen the controlling terminal
+    // so opentui gets a real keyboard stream.
+    try {
+      rendererStdin = new tty.ReadStream(fs.openSync('/dev/tty', 'r+'))
+    } catch {
+      // No controlling terminal — TUI will degrade gracefully (opentui's own path).
+    }
+  }
 
-createRoot(renderer).render(<App />)
+  renderer = await createCliRenderer({
+    exitOnCtrlC: false,
+    stdin: rendererStdin,
+  })
+
+  createRoot(renderer).render(<App />)
+}
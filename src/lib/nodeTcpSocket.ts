@@ -1,5 +1,91 @@
 import net from 'net'
 import tls from 'tls'
+import { TextDecoder } from 'util'
+import type { FallbackEncoding } from '../types'
+
+// Longest line accepted from the server: 8191 bytes of message tags + the 512-byte message.
+// Anything longer without a line ending is discarded rather than buffered forever.
+export const MAX_LINE_BYTES = 8191 + 512
+
+// cp1252 differs from latin1 only in 0x80–0x9F, where latin1 has C1 control codes
+const CP1252_HIGH =
+  '\u20ac\u0081\u201a\u0192\u201e\u2026\u2020\u2021\u02c6\u2030\u0160\u2039\u0152\u008d\u017d\u008f' +
+  '\u0090\u2018\u2019\u201c\u201d\u2022\u2013\u2014\u02dc\u2122\u0161\u203a\u0153\u009d\u017e\u0178'
+
+const utf8 = new TextDecoder('utf-8', { fatal: true })
+const utf8Lossy = new TextDecoder('utf-8')
+
+const ENCODING_ALIASES: Record<string, FallbackEncoding> = {
+  latin1: 'latin1',
+  'iso-8859-1': 'latin1',
+  'iso8859-1': 'latin1',
+  cp1252: 'cp1252',
+  'windows-1252': 'cp1252',
+}
+
+/** Normalise a user-entered charset name; unknown or empty names mean "no fallback" */
+export function parseFallbackEncoding(
+  name: string | null | undefined
+): FallbackEncoding | undefined {
+  return name ? ENCODING_ALIASES[name.trim().toLowerCase()] : undefined
+}
+
+/**
+ * Decode one IRC line. UTF-8 is tried first; bytes that aren't valid UTF-8 are decoded
+ * with the server's fallback charset, or with U+FFFD replacements when none is set.
+ */
+export function decodeLine(bytes: Buffer, fallback?: FallbackEncoding): string {
+  try {
+    return utf8.decode(bytes)
+  } catch {
+    if (!fallback) return utf8Lossy.decode(bytes)
+    const latin1 = bytes.toString('latin1')
+    if (fallback === 'latin1') return latin1
+    return latin1.replace(/[\x80-\x9f]/g, (c) => CP1252_HIGH[c.charCodeAt(0) - 0x80]!)
+  }
+}
+
+// OpenSSL / Node verification failures — retrying won't help until the user intervenes
+const CERT_ERROR_CODES = new Set([
+  'DEPTH_ZERO_SELF_SIGNED_CERT',
+  'SELF_SIGNED_CERT_IN_CHAIN',
+  'CERT_HAS_EXPIRED',
+  'CERT_NOT_YET_VALID',
+  'CERT_REVOKED',
+  'CERT_UNTRUSTED',
+  'UNABLE_TO_GET_ISSUER_CERT',
+  'UNABLE_TO_GET_ISSUER_CERT_LOCALLY',
+  'UNABLE_TO_VERIFY_LEAF_SIGNATURE',
+  'ERR_TLS_CERT_ALTNAME_INVALID',
+])
+
+/**
+ * Raised when the server certificate fails verification or no longer matches
+ * the fingerprint pinned on first use.
+ */
+export class TLSCertificateError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string
+  ) {
+    super(message)
+    this.name = 'TLSCertificateError'
+  }
+}
+
+export interface NodeTCPSocketOptions {
+  /** Skip CA and hostname verification (self-signed or expired certificates) */
+  acceptInvalidCert?: boolean
+  /** SHA-256 fingerprint pinned on an earlier connection */
+  fingerprint?: string
+  /** Called with the peer's fingerprint when an unverified certificate is seen for the first time */
+  onFingerprint?: (fingerprint: string) => void
+  /** PEM client certificate and key presented during the handshake (CertFP) */
+  cert?: string | Buffer
+  key?: string | Buffer
+  /** Charset for lines that aren't valid UTF-8 (legacy networks) */
+  encoding?: FallbackEncoding
+}
 
 interface ISocket {
   onopen: (() => void) | null
@@ -15,13 +101,17 @@ interface ISocket {
 export class NodeTCPSocket implements ISocket {
   private socket: net.Socket | tls.TLSSocket
   private _readyState = 0
+  // Bytes of an incomplete line carried over to the next data chunk
+  private pending: Buffer = Buffer.alloc(0)
+  // Set while skipping the rest of an over-long line
+  private discarding = false
 
   public onopen: (() => void) | null = null
   public onmessage: ((event: { data: string }) => void) | null = null
   public onerror: ((error: Error) => void) | null = null
   public onclose: (() => void) | null = null
 
-  constructor(url: string) {
+  constructor(url: string, options: NodeTCPSocketOptions = {}) {
     const parsed = new URL(url)
     const host = parsed.hostname
     const port = Number(parsed.port) || (parsed.protocol === 'ircs:' ? 6697 : 6667)
@@ -30,17 +120,34 @@ export class NodeTCPSocket implements ISocket {
     this._readyState = 0
 
     if (useTLS) {
-      this.socket = tls.connect({
+      const tlsSocket = tls.connect({
         host,
         port,
-        rejectUnauthorized: false,
+        rejectUnauthorized: !options.acceptInvalidCert,
+        cert: options.cert,
+        key: options.key,
       })
+      this.socket = tlsSocket
       // For TLS, wait for handshake to complete before signaling open
-      ;(this.socket as tls.TLSSocket).on('secureConnect', () => {
-        if (this._readyState === 0) {
-          this._readyState = 1
-          this.onopen?.()
+      tlsSocket.on('secureConnect', () => {
+        if (this._readyState !== 0) return
+        // A CA-verified certificate needs no pin (and rotates too often to keep one);
+        // an accepted invalid one is trusted on first use and must match from then on.
+        if (!tlsSocket.authorized) {
+          const fingerprint = tlsSocket.getPeerCertificate().fingerprint256
+          if (options.fingerprint && options.fingerprint !== fingerprint) {
+            this.fail(
+              new TLSCertificateError(
+                `TLS certificate for ${host} changed: pinned ${options.fingerprint}, got ${fingerprint}`,
+                'FINGERPRINT_MISMATCH'
+              )
+            )
+            return
+          }
+          if (!options.fingerprint) options.onFingerprint?.(fingerprint)
         }
+        this._readyState = 1
+        this.onopen?.()
       })
     } else {
       this.socket = net.connect({ host, port })
@@ -51,12 +158,20 @@ export class NodeTCPSocket implements ISocket {
     }
 
     this.socket.on('data', (data: Buffer) => {
-      const text = data.toString('utf-8')
-      globalThis.debugLog?.(`[Socket] data from ${host}: ${text.substring(0, 500)}`)
-      this.onmessage?.({ data: text })
+      globalThis.debugLog?.(`[Socket] data from ${host}: ${data.toString('latin1', 0, 500)}`)
+      this.receive(data, options.encoding)
     })
 
-    this.socket.on('error', (err: Error) => {
+    this.socket.on('error', (err: Error & { code?: string }) => {
+      if (useTLS && err.code && CERT_ERROR_CODES.has(err.code)) {
+        this.fail(
+          new TLSCertificateError(
+            `TLS certificate for ${host} could not be verified: ${err.message}`,
+            err.code
+          )
+        )
+        return
+      }
       this._readyState = 3
       this.onerror?.(err)
     })
@@ -72,6 +187,40 @@ export class NodeTCPSocket implements ISocket {
     })
   }
 
+  // Split the byte stream into lines (CRLF, tolerating bare LF) and emit one event per line
+  private receive(data: Buffer, encoding?: FallbackEncoding): void {
+    let buffer = this.pending.length > 0 ? Buffer.concat([this.pending, data]) : data
+    let newline: number
+    while ((newline = buffer.indexOf(0x0a)) !== -1) {
+      const end = newline > 0 && buffer[newline - 1] === 0x0d ? newline - 1 : newline
+      const line = buffer.subarray(0, end)
+      buffer = buffer.subarray(newline + 1)
+      if (this.discarding) {
+        this.discarding = false
+        continue
+      }
+      // A complete line can arrive in one chunk without ever being held as the tail
+      if (line.length > MAX_LINE_BYTES) {
+        globalThis.debugLog?.(`[Socket] dropping over-long line (${line.length} bytes)`)
+        continue
+      }
+      if (line.length > 0) this.onmessage?.({ data: decodeLine(line, encoding) + '\r\n' })
+    }
+    if (buffer.length > MAX_LINE_BYTES) {
+      globalThis.debugLog?.(`[Socket] dropping over-long line (${buffer.length} bytes)`)
+      this.discarding = true
+      buffer = Buffer.alloc(0)
+    }
+    // Copy so the retained tail doesn't pin the whole chunk in memory
+    this.pending = Buffer.from(buffer)
+  }
+
+  private fail(err: Error): void {
+    this._readyState = 3
+    this.onerror?.(err)
+    this.socket.destroy()
+  }
+
   get readyState(): number {
     return this._readyState
   }
@@ -5,8 +5,33 @@ import {
   checkNickRestriction,
 } from '@/utils/restrictions'
 import { createMessage } from '@/utils/messageFactory'
+import { formatHighlightRule, validateHighlightPattern } from '@/utils/highlights'
+import {
+  formatIgnoreRule,
+  IGNORE_TYPES,
+  normalizeIgnoreMask,
+  parseIgnoreTypes,
+} from '@/utils/ignore'
+import { getKeymapWarnings } from '@/utils/keymap'
+import {
+  getDictionariesDir,
+  getKeymapPath,
+  getPersonalDictionaryPath,
+  getThemesDir,
+} from '@/utils/paths'
+import { getThemeWarnings, listThemes, loadUserThemes } from '@/utils/themes'
+import { getSettingSpec, SETTINGS } from '@/utils/settings'
+import { BUFFER_NOTIFY_LEVELS, bufferNotifyLevel } from '@/utils/notifications'
+import { markdownToIrc } from '@/utils/inputFormatting'
+import {
+  addPersonalWord,
+  defaultSpellLanguage,
+  getDictionaryPath,
+  loadSpellChecker,
+} from '@/utils/spellcheck'
+import { recentSpeakers } from '@/utils/tabCompletionCore'
 import type { ActionRegistry } from '@/actions'
-import type { ActionContext } from '@/types'
+import type { ActionContext, BufferNotifyLevel, Channel, Server } from '@/types'
 import type { AppStore } from '@/store'
 
 interface CommandResult {
@@ -21,9 +46,64 @@ interface IRCCommand {
   usage: string
   minArgs: number
   maxArgs?: number
+  /** Tab-completion candidates for the next argument, given the ones before it */
+  complete?: (args: string[], context: CompletionContext) => string[]
   execute: (args: string[], context: ActionContext<AppStore>) => Promise<CommandResult>
 }
 
+/** The buffer an argument is being completed in */
+export interface CompletionContext {
+  store: AppStore
+  server?: Server
+  channel?: Channel
+}
+
+// Channel mode changes offered by /mode; the nick-taking ones complete members after
+const MODE_CHANGES = ['o', 'v', 'h', 'b', 'e', 'I', 'i', 'k', 'l', 'm', 'n', 's', 't'].flatMap(
+  (mode) => [`+${mode}`, `-${mode}`]
+)
+
+const isChannelName = (name: string) => name.startsWith('#') || name.startsWith('&')
+
+// First spelling of each name, case-insensitively
+function uniqueNames(names: string[]): string[] {
+  const seen = new Set<string>()
+  return names.filter((name) => {
+    const key = name.toLowerCase()
+    if (seen.has(key)) return false
+    seen.add(key)
+    return true
+  })
+}
+
+// Joined channels, the one being looked at first
+function joinedChannels({ server, channel }: CompletionContext): string[] {
+  const names = (server?.channels ?? []).map((c) => c.name)
+  return uniqueNames(channel ? [channel.name, ...names] : names)
+}
+
+// Members of a channel, whoever spoke last first
+function channelMembers({ store, server }: CompletionContext, channel?: Channel): string[] {
+  if (!channel) return []
+  const recent = recentSpeakers(store.messages.get(channel.id) ?? [], server?.nickname ?? '')
+  const members = channel.users.map((u) => u.username)
+  const present = new Set(members.map((nick) => nick.toLowerCase()))
+  return uniqueNames([...recent.filter((nick) => present.has(nick.toLowerCase())), ...members])
+}
+
+// Private chats, the latest message first
+function recentPrivateChats({ store, server }: CompletionContext): string[] {
+  const last = (id: string) => store.messages.get(id)?.at(-1)?.timestamp.getTime() ?? 0
+  return [...(server?.privateChats ?? [])]
+    .sort((a, b) => last(b.id) - last(a.id))
+    .map((chat) => chat.username)
+}
+
+// Plain messages and actions have their *markdown* sent as IRC formatting, unless turned off
+function withMarkdown(text: string, store: AppStore): string {
+  return store.markdownInput ? markdownToIrc(text) : text
+}
+
 export class CommandParser {
   private commands = new Map<string, IRCCommand>()
   private registry: ActionRegistry<AppStore>
@@ -38,7 +118,7 @@ export class CommandParser {
       name: 'help',
       aliases: ['h', '?'],
       description: 'Show help information',
-      usage: '/help [command]',
+      usage: '/help [command|keys]',
       minArgs: 0,
       maxArgs: 1,
       execute: async (args, ctx) => {
@@ -58,6 +138,15 @@ export class CommandParser {
           }
         }
 
+        if (args[0]?.toLowerCase() === 'keys') {
+          addLine(`KEY BINDINGS (change them in ${getKeymapPath()}):`)
+          for (const [chord, action] of this.registry.getKeymap()) {
+            addLine(`  • ${chord.padEnd(12)} ${action.label}  [${action.id}]`)
+          }
+          for (const warning of getKeymapWarnings()) addLine(`  ⚠ ${warning}`)
+          return { success: true }
+        }
+
         if (args[0]) {
           const name = args[0].replace(/^\//, '').toLowerCase()
           const cmd = this.commands.get(name)
@@ -78,13 +167,13 @@ export class CommandParser {
           '',
           'INPUT:',
           '  • Paste: Cmd+V (Mac) or Ctrl+Shift+V (Linux)',
-          '  • Tab         Complete /commands',
+          '  • Tab         Complete nicks, #channels, /commands, their arguments and :emoji:',
           '  • Ctrl+Enter / Shift+Enter  Add line (multiline message)',
           '  • Up/Down     History nav (1 line) / cursor nav (multiline)',
           '',
           'EMACS KEYBINDINGS (built-in):',
           '  • Ctrl+A / Ctrl+E    Move to start/end of line',
-          '  • Ctrl+F / Ctrl+B    Move forward/backward one char',
+          '  • Ctrl+F             Move forward one char',
           '  • Ctrl+U / Ctrl+K    Delete to start/end of line',
           '  • Ctrl+W             Delete word backward',
           '  • Alt+← / Alt+→      Move by word',
@@ -113,10 +202,30 @@ export class CommandParser {
           '  • /voice <nick> [nick ...]       Give voice',
           '  • /devoice <nick> [nick ...]     Remove voice',
           '  • /quote <raw line>              Send raw IRC line to server',
+          '  • /highlight add|remove|list     Manage highlight words (-re, -channel #chan)',
+          '  • /ignore [mask [types]]         Ignore nick/mask/$a:account (no args lists)',
+          '  • /unignore <mask>               Stop ignoring a mask',
+          '  • /monitor add|del|list [nick]   Watch nicks coming online (Friends list)',
+          '  • /ctcp <nick> <cmd> [args]      Send a CTCP request (VERSION, TIME, ...)',
+          '  • /ping <nick>                   Measure round-trip latency to a nick',
+          '  • /theme [name]                  List color themes or switch live',
+          '  • /set [setting] [value]         Show or change settings (Tab completes)',
+          '  • /unset <setting>               Reset a setting to its default',
+          '  • /notify [level] [buffer]       Notify level: all, mentions, none, muted',
+          '  • /urls                          Pick a link from this buffer to open or copy',
+          '  • /plain <text>                  Send text as typed, without markdown formatting',
+          '',
+          'FORMATTING:',
+          '  • Ctrl+B / Ctrl+] / Ctrl+_ / Ctrl+^  Bold / italic / underline / strikethrough',
+          '  • Ctrl+C                        Pick a color (Ctrl+B in the picker adds a background)',
+          '  • *bold* _italic_ `code`        Sent as formatting (/set markdown_input off to stop)',
+          '  • /spell [word | add <word>]     Spell checker status, check a word or learn it',
           '',
           'SHORTCUTS:',
           '  • Ctrl+K    Quick actions menu',
           '  • Ctrl+L    Clear current buffer',
+          '  • Ctrl+R    Search input history (again for older matches)',
+          '  • Alt+R     Mark current channel as read',
           '  • Ctrl+G    Toggle member pane',
           '  • Ctrl+O    Toggle multiline expand',
           '  • Ctrl+M    Toggle multiline always-on',
@@ -125,13 +234,16 @@ export class CommandParser {
           '  • Alt+1..9  Jump to buffer by number',
           '  • Alt+[     Move current server/channel up',
           '  • Alt+]     Move current server/channel down',
+          '  • /help keys  List key bindings and how to change them',
           '',
           'MESSAGE SELECTION (Ctrl+Space to toggle):',
           '  • ↑/↓ or J/K  Navigate one message',
           '  • Ctrl+U      Jump 10 messages up',
           '  • R           Reply to selected message',
           '  • E           React with emoji',
+          '  • Shift+E     Edit your own message',
           '  • Y           Copy message text',
+          '  • Enter       Jump to replied message / open a mention in context',
           '  • Esc         Exit selection mode',
           '══════════════════════════════════════════════════════════',
         ]
@@ -182,6 +294,13 @@ export class CommandParser {
       usage: '/join <#channel>',
       minArgs: 0,
       maxArgs: 1,
+      complete: (args, ctx) =>
+        args.length === 0
+          ? uniqueNames([
+              ...((ctx.server && ctx.store.listedChannels[ctx.server.id]) ?? []),
+              ...joinedChannels(ctx),
+            ])
+          : [],
       execute: async (args, ctx) => {
         const [channel] = args
         await this.registry.execute('channel.join', ctx, channel)
@@ -195,6 +314,7 @@ export class CommandParser {
       description: 'Leave a channel',
       usage: '/part [#channel] [reason]',
       minArgs: 0,
+      complete: (args, ctx) => (args.length === 0 ? joinedChannels(ctx) : []),
       execute: async (args, ctx) => {
         const [channel, ...reasonParts] = args
         const reason = reasonParts.join(' ')
@@ -215,6 +335,14 @@ export class CommandParser {
       description: 'Send a message to a nick or channel',
       usage: '/msg <target> <message>',
       minArgs: 2,
+      complete: (args, ctx) =>
+        args.length === 0
+          ? uniqueNames([
+              ...recentPrivateChats(ctx),
+              ...channelMembers(ctx, ctx.channel),
+              ...joinedChannels(ctx),
+            ])
+          : [],
       execute: async (args, ctx) => {
         const target = args[0]!
         const message = args.slice(1).join(' ')
@@ -272,6 +400,10 @@ export class CommandParser {
       description: 'Open a private chat window with a user',
       usage: '/query <nick> [message]',
       minArgs: 1,
+      complete: (args, ctx) =>
+        args.length === 0
+          ? uniqueNames([...recentPrivateChats(ctx), ...channelMembers(ctx, ctx.channel)])
+          : [],
       execute: async (args, ctx) => {
         const nick = args[0]!
         const messageParts = args.slice(1)
@@ -326,6 +458,41 @@ export class CommandParser {
       },
     })
 
+    this.register({
+      name: 'ctcp',
+      aliases: [],
+      description: 'Send a CTCP request to a nick',
+      usage: '/ctcp <nick> <command> [args]',
+      minArgs: 2,
+      execute: async (args, ctx) => {
+        const [target, command, ...params] = args
+        const { ircClient, currentServer } = ctx
+        if (!ircClient || !currentServer) {
+          return { success: false, message: 'Not connected to a server' }
+        }
+        ctx.store.sendCtcp(currentServer.id, target!, command!, params.join(' ') || undefined)
+        return { success: true, message: `CTCP ${command!.toUpperCase()} sent to ${target}` }
+      },
+    })
+
+    this.register({
+      name: 'ping',
+      aliases: [],
+      description: 'Measure the round-trip time to a nick with CTCP PING',
+      usage: '/ping <nick>',
+      minArgs: 1,
+      maxArgs: 1,
+      execute: async (args, ctx) => {
+        const [nick] = args
+        const { ircClient, currentServer } = ctx
+        if (!ircClient || !currentServer) {
+          return { success: false, message: 'Not connected to a server' }
+        }
+        ctx.store.sendCtcp(currentServer.id, nick!, 'PING')
+        return { success: true, message: `Pinging ${nick}...` }
+      },
+    })
+
     this.register({
       name: 'me',
       aliases: ['action'],
@@ -333,7 +500,7 @@ export class CommandParser {
       usage: '/me <action>',
       minArgs: 1,
       execute: async (args, ctx) => {
-        const action = args.join(' ')
+        const action = withMarkdown(args.join(' '), ctx.store)
         const { ircClient, currentServer, currentChannel } = ctx
         if (!ircClient || !currentServer) {
           return { success: false, message: 'Not connected to a server' }
@@ -385,6 +552,21 @@ export class CommandParser {
       },
     })
 
+    this.register({
+      name: 'plain',
+      aliases: [],
+      description: 'Send a message as typed, without turning markdown into formatting',
+      usage: '/plain <message>',
+      minArgs: 1,
+      execute: async (args, ctx) => {
+        if (!ctx.currentServer) {
+          return { success: false, message: 'No server connected' }
+        }
+        await this.registry.execute('message.send', ctx, args.join(' '))
+        return { success: true }
+      },
+    })
+
     this.register({
       name: 'topic',
       aliases: [],
@@ -429,7 +611,11 @@ export class CommandParser {
       minArgs: 0,
       execute: async (args, ctx) => {
         const reason = args.join(' ') || 'Leaving'
-        if (ctx.currentServer && ctx.ircClient) {
+        if (globalThis.__ATTACHED__) {
+          // Only this front end goes away; the daemon stays on IRC
+          const { detachFromDaemon } = await import('./daemonClient')
+          detachFromDaemon()
+        } else if (ctx.currentServer && ctx.ircClient) {
           ctx.ircClient.sendRaw(ctx.currentServer.id, `QUIT :${reason}`)
         }
         ctx.renderer.destroy()
@@ -550,6 +736,16 @@ export class CommandParser {
       description: 'Set or query channel/user modes',
       usage: '/mode [#channel] [+/-modes] [args...]',
       minArgs: 0,
+      complete: (args, ctx) => {
+        const [first = ''] = args
+        const explicit = isChannelName(first)
+        if (args.length === 0) return [...joinedChannels(ctx), ...MODE_CHANGES]
+        if (explicit && args.length === 1) return MODE_CHANGES
+        const channel = explicit
+          ? ctx.server?.channels.find((c) => c.name.toLowerCase() === first.toLowerCase())
+          : ctx.channel
+        return channelMembers(ctx, channel)
+      },
       execute: async (args, ctx) => {
         if (!ctx.currentServer || !ctx.ircClient) {
           return { success: false, message: 'Not connected to a server' }
@@ -812,6 +1008,457 @@ export class CommandParser {
       },
     })
 
+    this.register({
+      name: 'theme',
+      aliases: [],
+      description: 'List color themes or switch to one',
+      usage: '/theme [name]',
+      minArgs: 0,
+      maxArgs: 1,
+      complete: (args) => (args.length === 0 ? listThemes().map((theme) => theme.name) : []),
+      execute: async (args, ctx) => {
+        // Rescan so new or edited theme files apply without a restart
+        loadUserThemes()
+
+        if (args[0]) {
+          if (!ctx.store.setTheme(args[0])) {
+            return { success: false, message: `Unknown theme: ${args[0]} (see /theme)` }
+          }
+          return { success: true, message: `Theme: ${ctx.store.theme}` }
+        }
+
+        const { currentChannelId, servers = [] } = ctx.store
+        const server = servers.find((s) => s.id === ctx.currentServer?.id)
+        const bufferId =
+          ctx.currentChannel?.id ??
+          server?.privateChats.find((pc) => pc.id === currentChannelId)?.id ??
+          server?.id
+        const addLine = (line: string) => {
+          if (bufferId && server) {
+            ctx.store.addMessage(
+              bufferId,
+              createMessage('system', line, 'system', bufferId, server.id)
+            )
+          }
+        }
+
+        addLine(`Themes (add your own as JSON files in ${getThemesDir()}):`)
+        for (const theme of listThemes()) {
+          const marker = theme.name === ctx.store.theme ? '▸' : '•'
+          addLine(`  ${marker} ${theme.name.padEnd(14)} ${theme.description}`)
+        }
+        for (const warning of getThemeWarnings()) addLine(`  ⚠ ${warning}`)
+        return { success: true }
+      },
+    })
+
+    this.register({
+      name: 'spell',
+      aliases: [],
+      description: 'Show the spell checker, check a word, or add one to your dictionary',
+      usage: '/spell [word | add <word>]',
+      minArgs: 0,
+      maxArgs: 2,
+      complete: (args) => (args.length === 0 ? ['add'] : []),
+      execute: async (args, ctx) => {
+        const server = ctx.store.servers.find((s) => s.id === ctx.currentServer?.id)
+        if (!server) {
+          return { success: false, message: 'No server selected' }
+        }
+        const bufferId =
+          ctx.currentChannel?.id ??
+          server.privateChats.find((pc) => pc.id === ctx.store.currentChannelId)?.id ??
+          server.id
+        const addLine = (line: string) =>
+          ctx.store.addMessage(
+            bufferId,
+            createMessage('system', line, 'system', bufferId, server.id)
+          )
+
+        const [word, extra] = args
+        if (word === 'add') {
+          if (!extra) return { success: false, message: 'Usage: /spell add <word>' }
+          const error = await addPersonalWord(extra)
+          if (error) return { success: false, message: error }
+          addLine(`Added ${extra} to ${getPersonalDictionaryPath()}`)
+          return { success: true }
+        }
+        if (extra) return { success: false, message: 'Usage: /spell [word | add <word>]' }
+
+        const language = ctx.store.spellLanguage || defaultSpellLanguage()
+        const checker = await loadSpellChecker(ctx.store.spellLanguage)
+        if (!checker) {
+          return {
+            success: false,
+            message: `No dictionary for ${language}: add ${language}.aff and ${language}.dic to ${getDictionariesDir()}`,
+          }
+        }
+
+        if (word) {
+          if (checker.check(word)) {
+            addLine(`${word} is spelled right`)
+            return { success: true }
+          }
+          const suggestions = checker.suggest(word)
+          addLine(
+            suggestions.length > 0
+              ? `${word}: maybe ${suggestions.join(', ')}`
+              : `${word}: not in the dictionary, no suggestions`
+          )
+          return { success: true }
+        }
+
+        addLine(
+          `Spell checking is ${ctx.store.spellCheck ? 'on' : 'off (/set spell_check on)'}, ` +
+            `with ${getDictionaryPath(ctx.store.spellLanguage)}`
+        )
+        addLine(`Your own words (/spell add <word>) are kept in ${getPersonalDictionaryPath()}`)
+        return { success: true }
+      },
+    })
+
+    this.register({
+      name: 'set',
+      aliases: [],
+      description: 'Show or change settings',
+      usage: '/set [setting] [value]',
+      minArgs: 0,
+      complete: (args) => {
+        if (args.length === 0) return SETTINGS.map((spec) => spec.key)
+        if (args.length === 1) return getSettingSpec(args[0]!)?.choices?.() ?? []
+        return []
+      },
+      execute: async (args, ctx) => {
+        const [key, ...rest] = args
+        const value = rest.join(' ')
+
+        if (key && value) {
+          const spec = getSettingSpec(key)
+          if (!spec) return { success: false, message: `Unknown setting: ${key} (see /set)` }
+          const error = spec.set(ctx.store, value)
+          if (error) return { success: false, message: error }
+          return { success: true, message: `${spec.key} = ${spec.get(ctx.store)}` }
+        }
+
+        if (key) {
+          const spec = getSettingSpec(key)
+          if (!spec) return { success: false, message: `Unknown setting: ${key} (see /set)` }
+          return { success: true, message: `${spec.key} = ${spec.get(ctx.store)}` }
+        }
+
+        const { currentChannelId, servers = [] } = ctx.store
+        const server = servers.find((s) => s.id === ctx.currentServer?.id)
+        const bufferId =
+          ctx.currentChannel?.id ??
+          server?.privateChats.find((pc) => pc.id === currentChannelId)?.id ??
+          server?.id
+        const addLine = (line: string) => {
+          if (bufferId && server) {
+            ctx.store.addMessage(
+              bufferId,
+              createMessage('system', line, 'system', bufferId, server.id)
+            )
+          }
+        }
+
+        addLine('Settings (/set <setting> <value>, /unset <setting> for the default):')
+        for (const spec of SETTINGS) {
+          addLine(`  • ${`${spec.key} = ${spec.get(ctx.store)}`.padEnd(30)} ${spec.description}`)
+        }
+        return { success: true }
+      },
+    })
+
+    this.register({
+      name: 'unset',
+      aliases: [],
+      description: 'Reset a setting to its default',
+      usage: '/unset <setting>',
+      minArgs: 1,
+      maxArgs: 1,
+      complete: (args) => (args.length === 0 ? SETTINGS.map((spec) => spec.key) : []),
+      execute: async (args, ctx) => {
+        const spec = getSettingSpec(args[0]!)
+        if (!spec) return { success: false, message: `Unknown setting: ${args[0]} (see /set)` }
+        spec.reset(ctx.store)
+        return { success: true, message: `${spec.key} = ${spec.get(ctx.store)}` }
+      },
+    })
+
+    this.register({
+      name: 'notify',
+      aliases: [],
+      description: 'Show or set how a channel or private chat notifies (muted hides unreads too)',
+      usage: `/notify [${BUFFER_NOTIFY_LEVELS.join('|')}|default] [#channel|nick]`,
+      minArgs: 0,
+      maxArgs: 2,
+      complete: (args) => (args.length === 0 ? [...BUFFER_NOTIFY_LEVELS, 'default'] : []),
+      execute: async (args, ctx) => {
+        const server = ctx.store.servers.find((s) => s.id === ctx.currentServer?.id)
+        if (!server) {
+          return { success: false, message: 'No server selected' }
+        }
+        const chat = server.privateChats.find((pc) => pc.id === ctx.store.currentChannelId)
+        const bufferId = ctx.currentChannel?.id ?? chat?.id ?? server.id
+        const addLine = (line: string) =>
+          ctx.store.addMessage(
+            bufferId,
+            createMessage('system', line, 'system', bufferId, server.id)
+          )
+        const describe = (
+          name: string,
+          level: BufferNotifyLevel | null | undefined = bufferNotifyLevel(server, name)
+        ) => {
+          const fallback = name.startsWith('#') ? ctx.store.notifyChannels : ctx.store.notifyPrivate
+          return `${name}: ${level ?? `default (${fallback})`}`
+        }
+
+        const [word, target = ctx.currentChannel?.name ?? chat?.username] = args
+        if (!word) {
+          if (target) addLine(describe(target))
+          const levels = Object.entries(server.notifyLevels ?? {})
+          if (levels.length > 0) {
+            addLine(`Notify levels on ${server.name}:`)
+            for (const [name, level] of levels) addLine(`  • ${name.padEnd(20)} ${level}`)
+          }
+          return { success: true }
+        }
+
+        const wanted = word.toLowerCase()
+        const level = BUFFER_NOTIFY_LEVELS.find((l) => l === wanted)
+        if (!level && wanted !== 'default') {
+          return {
+            success: false,
+            message: `Unknown level. Use: ${BUFFER_NOTIFY_LEVELS.join(', ')} or default`,
+          }
+        }
+        if (!target) {
+          return { success: false, message: 'Not in a channel or private chat; name one' }
+        }
+        ctx.store.setNotifyLevel(server.id, target, level ?? null)
+        return { success: true, message: describe(target, level ?? null) }
+      },
+    })
+
+    this.register({
+      name: 'urls',
+      aliases: ['links'],
+      description: 'List the links posted in this buffer to open or copy one',
+      usage: '/urls',
+      minArgs: 0,
+      maxArgs: 0,
+      execute: async (_, ctx) => {
+        if (!ctx.store.currentChannelId && !ctx.store.currentServerId) {
+          return { success: false, message: 'No buffer selected' }
+        }
+        ctx.store.openModal('urls')
+        return { success: true }
+      },
+    })
+
+    this.register({
+      name: 'highlight',
+      aliases: ['hl'],
+      description: 'Manage highlight words (plain or regex, optionally per channel)',
+      usage: '/highlight add|remove [-re] [-channel #chan] <term> | /highlight list',
+      minArgs: 1,
+      execute: async (args, ctx) => {
+        const { currentChannelId, servers = [] } = ctx.store
+        const server = servers.find((s) => s.id === ctx.currentServer?.id)
+        const bufferId =
+          ctx.currentChannel?.id ??
+          server?.privateChats.find((pc) => pc.id === currentChannelId)?.id ??
+          server?.id
+        const addLine = (line: string) => {
+          if (bufferId && server) {
+            ctx.store.addMessage(
+              bufferId,
+              createMessage('system', line, 'system', bufferId, server.id)
+            )
+          }
+        }
+
+        const [sub, ...rest] = args
+        if (sub === 'list') {
+          const rules = ctx.store.highlights
+          if (rules.length === 0) {
+            addLine('No highlight words set (your nickname always highlights)')
+          } else {
+            addLine(`Highlight words (${rules.length}):`)
+            for (const rule of rules) addLine(`  • ${formatHighlightRule(rule)}`)
+          }
+          return { success: true }
+        }
+        if (sub !== 'add' && sub !== 'remove') {
+          return { success: false, message: `Usage: ${this.commands.get('highlight')!.usage}` }
+        }
+
+        let regex = false
+        let channel: string | undefined
+        while (rest[0]?.startsWith('-')) {
+          const flag = rest.shift()
+          if (flag === '-re' || flag === '-regex') regex = true
+          else if (flag === '-channel' && rest[0]) channel = rest.shift()
+          else return { success: false, message: `Unknown option: ${flag}` }
+        }
+        const pattern = rest.join(' ')
+
+        if (sub === 'remove') {
+          if (!ctx.store.removeHighlight(pattern, channel)) {
+            return { success: false, message: `No highlight for "${pattern}"` }
+          }
+          addLine(`Removed highlight: ${pattern}`)
+          return { success: true }
+        }
+
+        const error = validateHighlightPattern(pattern, regex)
+        if (error) return { success: false, message: error }
+        const rule = { pattern, regex, channel }
+        ctx.store.addHighlight(rule)
+        addLine(`Added highlight: ${formatHighlightRule(rule)}`)
+        return { success: true }
+      },
+    })
+
+    this.register({
+      name: 'ignore',
+      aliases: [],
+      description: 'Ignore a nick, nick!user@host mask or $a:account on this server',
+      usage: `/ignore [<mask> [${IGNORE_TYPES.join('|')}|all ...]]`,
+      minArgs: 0,
+      execute: async (args, ctx) => {
+        const server = ctx.store.servers.find((s) => s.id === ctx.currentServer?.id)
+        if (!server) {
+          return { success: false, message: 'No server selected' }
+        }
+        const bufferId =
+          ctx.currentChannel?.id ??
+          server.privateChats.find((pc) => pc.id === ctx.store.currentChannelId)?.id ??
+          server.id
+        const addLine = (line: string) =>
+          ctx.store.addMessage(
+            bufferId,
+            createMessage('system', line, 'system', bufferId, server.id)
+          )
+
+        const [mask, ...typeWords] = args
+        if (!mask) {
+          const rules = server.ignores ?? []
+          if (rules.length === 0) {
+            addLine(`Nobody is ignored on ${server.name}`)
+          } else {
+            addLine(`Ignored on ${server.name} (${rules.length}):`)
+            for (const rule of rules) addLine(`  • ${formatIgnoreRule(rule)}`)
+          }
+          return { success: true }
+        }
+
+        const types = parseIgnoreTypes(typeWords)
+        if (!types) {
+          return {
+            success: false,
+            message: `Unknown type. Use: ${IGNORE_TYPES.join(', ')} or all`,
+          }
+        }
+        const rule = { mask: normalizeIgnoreMask(mask), types }
+        ctx.store.addIgnore(server.id, rule)
+        addLine(`Ignoring ${formatIgnoreRule(rule)}`)
+        return { success: true }
+      },
+    })
+
+    this.register({
+      name: 'unignore',
+      aliases: [],
+      description: 'Remove a mask from the ignore list of this server',
+      usage: '/unignore <mask>',
+      minArgs: 1,
+      maxArgs: 1,
+      execute: async (args, ctx) => {
+        const server = ctx.currentServer
+        if (!server) {
+          return { success: false, message: 'No server selected' }
+        }
+        const mask = normalizeIgnoreMask(args[0]!)
+        if (!ctx.store.removeIgnore(server.id, mask)) {
+          return { success: false, message: `${mask} is not ignored` }
+        }
+        const bufferId = ctx.currentChannel?.id ?? server.id
+        ctx.store.addMessage(
+          bufferId,
+          createMessage('system', `No longer ignoring ${mask}`, 'system', bufferId, server.id)
+        )
+        return { success: true }
+      },
+    })
+
+    this.register({
+      name: 'monitor',
+      aliases: ['friends'],
+      description: 'Watch nicks and get told when they come online or leave',
+      usage: '/monitor add|del <nick>[,<nick>...] | /monitor list',
+      minArgs: 0,
+      execute: async (args, ctx) => {
+        const server = ctx.store.servers.find((s) => s.id === ctx.currentServer?.id)
+        if (!server) {
+          return { success: false, message: 'No server selected' }
+        }
+        const bufferId =
+          ctx.currentChannel?.id ??
+          server.privateChats.find((pc) => pc.id === ctx.store.currentChannelId)?.id ??
+          server.id
+        const addLine = (line: string) =>
+          ctx.store.addMessage(
+            bufferId,
+            createMessage('system', line, 'system', bufferId, server.id)
+          )
+
+        const [sub = 'list', ...rest] = args
+        const nicks = rest.flatMap((arg) => arg.split(',')).filter(Boolean)
+        switch (sub.toLowerCase()) {
+          case 'list': {
+            const watched = server.monitors ?? []
+            if (watched.length === 0) {
+              addLine(`Nobody is monitored on ${server.name}`)
+              break
+            }
+            addLine(`Monitored on ${server.name} (${watched.length}):`)
+            for (const nick of watched) {
+              const online = server.monitorOnline?.[nick.toLowerCase()]
+              const state = online === undefined ? 'unknown' : online ? 'online' : 'offline'
+              addLine(`  • ${nick} (${state})`)
+            }
+            break
+          }
+          case 'add': {
+            if (nicks.length === 0) return { success: false, message: 'Usage: /monitor add <nick>' }
+            const added = nicks.filter((nick) => ctx.store.addMonitor(server.id, nick))
+            ctx.store.monitorNicks(server.id, '+', added)
+            addLine(
+              added.length > 0
+                ? `Monitoring ${added.join(', ')}`
+                : `Already monitoring ${nicks.join(', ')}`
+            )
+            break
+          }
+          case 'del':
+          case 'remove': {
+            if (nicks.length === 0) return { success: false, message: 'Usage: /monitor del <nick>' }
+            const removed = nicks.filter((nick) => ctx.store.removeMonitor(server.id, nick))
+            if (removed.length === 0) {
+              return { success: false, message: `Not monitoring ${nicks.join(', ')}` }
+            }
+            ctx.store.monitorNicks(server.id, '-', removed)
+            addLine(`No longer monitoring ${removed.join(', ')}`)
+            break
+          }
+          default:
+            return { success: false, message: 'Usage: /monitor add|del <nick> | /monitor list' }
+        }
+        return { success: true }
+      },
+    })
+
     this.register({
       name: 'whisper',
       aliases: ['w'],
@@ -868,7 +1515,7 @@ export class CommandParser {
       if (!context.currentServer) {
         return { success: false, message: 'No server connected' }
       }
-      await this.registry.execute('message.send', context, trimmed)
+      await this.registry.execute('message.send', context, withMarkdown(trimmed, context.store))
       return { success: true }
     }
 
@@ -930,4 +1577,8 @@ export class CommandParser {
   getCommandNames(): string[] {
     return Array.from(this.commands.keys())
   }
+
+  getArgumentCompletions(command: string, args: string[], context: CompletionContext): string[] {
+    return this.commands.get(command.toLowerCase())?.complete?.(args, context) ?? []
+  }
 }
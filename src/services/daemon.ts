@@ -0,0 +1,164 @@
+import fs from 'node:fs'
+import net from 'node:net'
+import { useStore, type AppStore } from '@/store'
+import { noAutoReconnectServers } from '@/store/slices/ircSlice'
+import { autoConnectServers } from '@/utils/autoConnect'
+import { setTerminalNotifier } from '@/utils/notifications'
+import {
+  createFrameReader,
+  diffState,
+  encodeFrame,
+  MIRRORED_ACTIONS,
+  pickSynced,
+  REMOTE_ACTIONS,
+  type ClientFrame,
+  type DaemonFrame,
+  type SyncedState,
+} from '@/utils/daemonProtocol'
+
+// Coalesce bursts of store updates (joins, history batches) into one frame
+const BROADCAST_DELAY_MS = 50
+
+const CALLABLE_ACTIONS = new Set<string>([...REMOTE_ACTIONS, ...MIRRORED_ACTIONS])
+
+/**
+ * Make sure nobody is serving on the socket path. A leftover file from a
+ * daemon that died is removed; a live daemon is an error.
+ */
+async function claimSocketPath(socketPath: string): Promise<void> {
+  if (!fs.existsSync(socketPath)) return
+  const alive = await new Promise<boolean>((resolve) => {
+    const probe = net.createConnection(socketPath)
+    probe.once('connect', () => {
+      probe.destroy()
+      resolve(true)
+    })
+    probe.once('error', () => resolve(false))
+  })
+  if (alive) throw new Error(`A tobby daemon is already running on ${socketPath}`)
+  fs.unlinkSync(socketPath)
+}
+
+/**
+ * Run the IRC client and store without a renderer and serve attached front
+ * ends on a Unix socket. Resolves once listening; the process then stays up
+ * until SIGINT/SIGTERM.
+ */
+export async function runDaemon(socketPath: string): Promise<void> {
+  await claimSocketPath(socketPath)
+
+  const store = useStore.getState()
+  store.loadPersistedServers()
+  store.migratePasswords()
+  store.loadHighlights()
+  store.initializeIRC()
+  // Loading focuses the first buffer; with no UI attached nothing is being read
+  store.setCurrentServer(null)
+  store.setCurrentChannel(null)
+  const ircClient = useStore.getState().ircClient!
+  setTimeout(() => autoConnectServers(ircClient), 1000)
+
+  const clients = new Set<net.Socket>()
+  let lastSent: SyncedState = pickSynced(useStore.getState())
+  let broadcastTimer: ReturnType<typeof setTimeout> | null = null
+
+  const send = (socket: net.Socket, frame: DaemonFrame) => {
+    if (!socket.destroyed) socket.write(encodeFrame(frame))
+  }
+
+  // The daemon's stdout is a log; the escapes belong on the attached terminals
+  setTerminalNotifier((event) => {
+    for (const socket of clients) send(socket, { type: 'notify', event })
+  })
+
+  useStore.subscribe(() => {
+    if (broadcastTimer) return
+    broadcastTimer = setTimeout(() => {
+      broadcastTimer = null
+      const next = pickSynced(useStore.getState())
+      const frame = diffState(lastSent, next)
+      lastSent = next
+      if (frame) for (const socket of clients) send(socket, frame)
+    }, BROADCAST_DELAY_MS)
+  })
+
+  const handleCall = async (frame: Extract<ClientFrame, { type: 'call' }>) => {
+    if (frame.target === 'store') {
+      if (!CALLABLE_ACTIONS.has(frame.method)) throw new Error(`Unknown action ${frame.method}`)
+      const action = useStore.getState()[frame.method as keyof AppStore] as (
+        ...args: unknown[]
+      ) => unknown
+      return await action(...frame.args)
+    }
+    const method = (ircClient as unknown as Record<string, unknown>)[frame.method]
+    if (typeof method !== 'function') throw new Error(`Unknown IRC method ${frame.method}`)
+    // Front ends mark deliberate disconnects in their own copy of this set
+    if (frame.method === 'disconnect') noAutoReconnectServers.add(frame.args[0] as string)
+    return await method.apply(ircClient, frame.args)
+  }
+
+  const server = net.createServer((socket) => {
+    clients.add(socket)
+    // Unhooks for the IRC events this client subscribed to, by event name
+    const hooks = new Map<string, () => void>()
+    debugLog?.(`[daemon] client attached (${clients.size} total)`)
+
+    socket.on(
+      'data',
+      createFrameReader<ClientFrame>(
+        (frame) => {
+          if (frame.type === 'subscribe') {
+            if (hooks.has(frame.event)) return
+            const forward = (data: unknown) =>
+              send(socket, { type: 'event', event: frame.event, data })
+            hooks.set(frame.event, ircClient.relayEvent(frame.event, forward))
+            return
+          }
+          handleCall(frame).then(
+            (value) => send(socket, { type: 'result', id: frame.id, value }),
+            (error: Error) => send(socket, { type: 'result', id: frame.id, error: error.message })
+          )
+        },
+        (error) => debugLog?.('[daemon] dropped malformed frame:', error.message)
+      )
+    )
+
+    socket.on('error', (error) => debugLog?.('[daemon] client socket error:', error))
+    socket.on('close', () => {
+      clients.delete(socket)
+      for (const unhook of hooks.values()) unhook()
+      debugLog?.(`[daemon] client detached (${clients.size} left)`)
+      // Nobody is looking at any buffer any more; count everything as unread
+      if (clients.size === 0) {
+        useStore.getState().setCurrentServer(null)
+        useStore.getState().setCurrentChannel(null)
+      }
+    })
+
+    // What the others were last sent, so the next broadcast patches it for this one too
+    send(socket, diffState(null, lastSent)!)
+  })
+
+  // The socket hands out full control of every connection; create it private
+  // rather than narrowing its mode after others could already have connected
+  const umask = process.umask(0o077)
+  try {
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject)
+      server.listen(socketPath, () => resolve())
+    })
+  } finally {
+    process.umask(umask)
+  }
+
+  const shutdown = () => {
+    for (const socket of clients) socket.destroy()
+    server.close()
+    fs.rmSync(socketPath, { force: true })
+    process.exit(0)
+  }
+  process.on('SIGINT', shutdown)
+  process.on('SIGTERM', shutdown)
+
+  console.log(`tobby daemon listening on ${socketPath}`)
+}
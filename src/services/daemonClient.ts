@@ -0,0 +1,178 @@
+import net from 'node:net'
+import { useStore, type AppStore } from '@/store'
+import type { IRCClient } from '@/utils/ircClient'
+import { showTerminalNotification } from '@/utils/notifications'
+import {
+  applyStateFrame,
+  createFrameReader,
+  encodeFrame,
+  MIRRORED_ACTIONS,
+  REMOTE_ACTIONS,
+  type ClientFrame,
+  type DaemonFrame,
+} from '@/utils/daemonProtocol'
+
+type Listener = (data: unknown) => void
+
+type RemoteStoreAction = (typeof REMOTE_ACTIONS)[number]
+type ActionArgs<K extends RemoteStoreAction> = AppStore[K] extends (...args: infer P) => unknown
+  ? P
+  : never
+type LocalAnswer = (state: AppStore, ...args: unknown[]) => boolean
+
+const sameMask = (a: string, b: string) => a.toLowerCase() === b.toLowerCase()
+
+// Callers act on these actions' boolean answer right away, so it's worked out
+// from the mirrored state instead of waiting for the daemon
+const localAnswers: {
+  [K in RemoteStoreAction]?: (state: AppStore, ...args: ActionArgs<K>) => boolean
+} = {
+  removeIgnore: (state, serverId, mask) =>
+    !!state.getServer(serverId)?.ignores?.some((r) => sameMask(r.mask, mask)),
+  addMonitor: (state, serverId, nick) => {
+    const server = state.getServer(serverId)
+    return !!server && !server.monitors?.some((m) => sameMask(m, nick))
+  },
+  removeMonitor: (state, serverId, nick) =>
+    !!state.getServer(serverId)?.monitors?.some((m) => sameMask(m, nick)),
+  removeHighlight: (state, pattern, channel) =>
+    state.highlights.some((h) => h.pattern === pattern && (h.channel ?? '') === (channel ?? '')),
+}
+
+// This front end's connection, once attached
+let attachedSocket: net.Socket | null = null
+
+/** Close this front end's connection and leave the daemon and its IRC connections running */
+export function detachFromDaemon(): void {
+  attachedSocket?.removeAllListeners('close')
+  attachedSocket?.end()
+  attachedSocket = null
+}
+
+/**
+ * Connect to a running daemon and turn this process's store into a mirror of
+ * it: synced state arrives from the daemon, and store actions and IRC client
+ * calls that change it are forwarded there. Resolves after the first snapshot.
+ */
+export async function attachToDaemon(socketPath: string, onClose: () => void): Promise<void> {
+  const socket = await new Promise<net.Socket>((resolve, reject) => {
+    const conn = net.createConnection(socketPath)
+    conn.once('connect', () => resolve(conn))
+    conn.once('error', (error: Error & { code?: string }) =>
+      reject(
+        error.code === 'ENOENT' || error.code === 'ECONNREFUSED'
+          ? new Error(`No tobby daemon is running on ${socketPath} (start one with --daemon)`)
+          : error
+      )
+    )
+  })
+
+  attachedSocket = socket
+
+  let nextCallId = 1
+  const pendingCalls = new Map<
+    number,
+    { resolve: (value: unknown) => void; reject: (e: Error) => void }
+  >()
+  const listeners = new Map<string, Set<Listener>>()
+
+  const call = (target: 'store' | 'irc', method: string, args: unknown[]) =>
+    new Promise<unknown>((resolve, reject) => {
+      const id = nextCallId++
+      pendingCalls.set(id, { resolve, reject })
+      socket.write(encodeFrame({ type: 'call', id, target, method, args } satisfies ClientFrame))
+    }).catch((error: Error) => {
+      debugLog?.(`[attach] ${target}.${method} failed:`, error.message)
+      throw error
+    })
+
+  let firstSnapshot: () => void
+  const snapshotReceived = new Promise<void>((resolve) => (firstSnapshot = resolve))
+
+  socket.on(
+    'data',
+    createFrameReader<DaemonFrame>(
+      (frame) => {
+        switch (frame.type) {
+          case 'state':
+            useStore.setState((state) => applyStateFrame(state, frame))
+            firstSnapshot()
+            break
+          case 'result': {
+            const pending = pendingCalls.get(frame.id)
+            pendingCalls.delete(frame.id)
+            if (frame.error) pending?.reject(new Error(frame.error))
+            else pending?.resolve(frame.value)
+            break
+          }
+          case 'event':
+            for (const listener of listeners.get(frame.event) ?? []) listener(frame.data)
+            break
+          case 'notify':
+            showTerminalNotification(frame.event, useStore.getState())
+            break
+        }
+      },
+      (error) => debugLog?.('[attach] dropped malformed frame:', error.message)
+    )
+  )
+  socket.on('close', onClose)
+
+  // Stands in for the real client: event hooks are relayed, everything else runs remotely
+  const ircClient = new Proxy({} as Record<string, unknown>, {
+    get: (_target, method) => {
+      if (typeof method !== 'string') return undefined
+      if (method === 'on') {
+        return (event: string, listener: Listener) => {
+          if (!listeners.has(event)) {
+            listeners.set(event, new Set())
+            socket.write(encodeFrame({ type: 'subscribe', event }))
+          }
+          listeners.get(event)!.add(listener)
+        }
+      }
+      if (method === 'deleteHook') {
+        return (event: string, listener: Listener) => listeners.get(event)?.delete(listener)
+      }
+      // Keep the proxy from looking like a thenable to `await`
+      if (method === 'then') return undefined
+      // Resolves with the daemon's return value; callers that need it must await
+      return (...args: unknown[]) => {
+        const pending = call('irc', method, args)
+        // Most calls are fire-and-forget; failures are already in the debug log
+        pending.catch(() => {})
+        return pending
+      }
+    },
+  }) as unknown as IRCClient
+
+  const overrides: Partial<Record<string, (...args: unknown[]) => unknown>> = {}
+  for (const action of REMOTE_ACTIONS) {
+    overrides[action] = (...args: unknown[]) => {
+      const answer = (localAnswers[action] as LocalAnswer | undefined)?.(
+        useStore.getState(),
+        ...args
+      )
+      call('store', action, args).catch(() => {})
+      return answer
+    }
+  }
+  for (const action of MIRRORED_ACTIONS) {
+    const local = useStore.getState()[action] as (...args: unknown[]) => void
+    overrides[action] = (...args: unknown[]) => {
+      local(...args)
+      call('store', action, args).catch(() => {})
+    }
+  }
+  useStore.setState({ ...(overrides as Partial<AppStore>), ircClient })
+
+  await snapshotReceived
+
+  // Land on the first buffer, as loadPersistedServers does on a normal start
+  const { servers, setCurrentServer, setCurrentChannel } = useStore.getState()
+  const first = servers[0]
+  if (first) {
+    setCurrentServer(first.id)
+    if (first.channels.length > 0) setCurrentChannel(first.channels[0]!.id)
+  }
+}
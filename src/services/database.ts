@@ -1,6 +1,14 @@
 import { Database } from 'bun:sqlite'
 import { getDatabasePath } from '../utils/paths'
-import type { Server, Channel } from '../types'
+import type {
+  Server,
+  Channel,
+  Message,
+  BufferNotifyLevel,
+  HighlightRule,
+  IgnoreRule,
+  IgnoreType,
+} from '../types'
 
 interface PersistedServer {
   id: string
@@ -8,6 +16,11 @@ interface PersistedServer {
   host: string
   port: number
   ssl: boolean
+  accept_invalid_cert: boolean
+  tls_fingerprint?: string
+  client_cert?: string
+  client_key?: string
+  fallback_encoding?: string
   nickname: string
   username?: string
   realname?: string
@@ -25,12 +38,49 @@ interface PersistedChannel {
   name: string
   auto_join: boolean
   created_at: number
+  notify_level: BufferNotifyLevel | null
+}
+
+export interface PersistedMessage {
+  id: string
+  server_id: string
+  buffer_id: string
+  msgid: string | null
+  type: Message['type']
+  sender: string
+  content: string
+  server_time: number
+  tags: string | null
+  reactions: string
+  reply_to_id: string | null
+  reply_msgid: string | null
+  lines: string | null
+  multiline_ids: string | null
+  original_content: string | null
+  edited_at: number | null
+  redacted: number
+  redact_reason: string | null
+}
+
+interface PersistedHighlight {
+  pattern: string
+  is_regex: number
+  channel: string
+  created_at: number
+}
+
+interface PersistedIgnore {
+  server_id: string
+  mask: string
+  types: string
+  created_at: number
 }
 
 interface PersistedUIState {
   showServerPane: boolean
   showUserPane: boolean
   showTimestamps: boolean
+  theme: string | null
 }
 
 let _customDbPath: string | null = null
@@ -61,7 +111,7 @@ class DatabaseService {
     // Major version bumps are BREAKING — an old app cannot correctly read
     //   a DB created by a newer major version and must refuse to open it.
     // ─────────────────────────────────────────────────────────────────────────
-    const SCHEMA_VERSION = 102 // v1.2
+    const SCHEMA_VERSION = 114 // v1.14
 
     const rawVersion = this.db.query('PRAGMA user_version').get() as { user_version: number }
     // treat 0 as v1.0 baseline (pre-versioning databases)
@@ -148,6 +198,18 @@ class DatabaseService {
     const migrations: Array<[number, () => void]> = [
       [101, () => this.migrate_101()],
       [102, () => this.migrate_102()],
+      [103, () => this.migrate_103()],
+      [104, () => this.migrate_104()],
+      [105, () => this.migrate_105()],
+      [106, () => this.migrate_106()],
+      [107, () => this.migrate_107()],
+      [108, () => this.migrate_108()],
+      [109, () => this.migrate_109()],
+      [110, () => this.migrate_110()],
+      [111, () => this.migrate_111()],
+      [112, () => this.migrate_112()],
+      [113, () => this.migrate_113()],
+      [114, () => this.migrate_114()],
     ]
     for (const [version, run] of migrations) {
       if (from < version && version <= to) {
@@ -174,6 +236,141 @@ class DatabaseService {
     // No schema changes; version bump documents encrypted credential support
   }
 
+  // v1.3 — adds the messages log so buffers survive a restart (MINOR: backwards-compatible)
+  private migrate_103() {
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS messages (
+        id TEXT PRIMARY KEY,
+        server_id TEXT NOT NULL,
+        buffer_id TEXT NOT NULL,
+        msgid TEXT,
+        type TEXT NOT NULL,
+        sender TEXT NOT NULL,
+        content TEXT NOT NULL,
+        server_time INTEGER NOT NULL,
+        tags TEXT,
+        reactions TEXT NOT NULL DEFAULT '[]',
+        reply_to_id TEXT,
+        reply_msgid TEXT,
+        lines TEXT,
+        multiline_ids TEXT,
+        FOREIGN KEY (server_id) REFERENCES servers(id) ON DELETE CASCADE
+      )
+    `)
+    this.db.run(`
+      CREATE INDEX IF NOT EXISTS idx_messages_buffer_time
+      ON messages(buffer_id, server_time)
+    `)
+    // The same msgid replayed by CHATHISTORY must not be logged twice
+    this.db.run(`
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_messages_buffer_msgid
+      ON messages(buffer_id, msgid) WHERE msgid IS NOT NULL
+    `)
+  }
+
+  // v1.4 — TLS verification opt-out and fingerprint pinning (MINOR: backwards-compatible)
+  private migrate_104() {
+    this.db.run('ALTER TABLE servers ADD COLUMN accept_invalid_cert INTEGER NOT NULL DEFAULT 0')
+    this.db.run('ALTER TABLE servers ADD COLUMN tls_fingerprint TEXT')
+    // The ssl column used to be ignored in favour of the port; keep those servers on TLS
+    this.db.run('UPDATE servers SET ssl = 1 WHERE port IN (6697, 6679)')
+  }
+
+  // v1.5 — client certificate paths for SASL EXTERNAL (MINOR: backwards-compatible)
+  private migrate_105() {
+    this.db.run('ALTER TABLE servers ADD COLUMN client_cert TEXT')
+    this.db.run('ALTER TABLE servers ADD COLUMN client_key TEXT')
+  }
+
+  // v1.6 — per-server fallback charset for non-UTF-8 networks (MINOR: backwards-compatible)
+  private migrate_106() {
+    this.db.run('ALTER TABLE servers ADD COLUMN fallback_encoding TEXT')
+  }
+
+  // v1.7 — user highlight rules; channel '' means every buffer (MINOR: backwards-compatible)
+  private migrate_107() {
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS highlights (
+        pattern TEXT NOT NULL,
+        is_regex INTEGER NOT NULL DEFAULT 0,
+        channel TEXT NOT NULL DEFAULT '',
+        created_at INTEGER NOT NULL,
+        PRIMARY KEY (pattern, channel)
+      )
+    `)
+  }
+
+  // v1.8 — per-server ignore list (MINOR: backwards-compatible)
+  private migrate_108() {
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS ignores (
+        server_id TEXT NOT NULL,
+        mask TEXT NOT NULL,
+        types TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        PRIMARY KEY (server_id, mask),
+        FOREIGN KEY (server_id) REFERENCES servers(id) ON DELETE CASCADE
+      )
+    `)
+  }
+
+  // v1.9 — message edits and redactions (MINOR: backwards-compatible)
+  private migrate_109() {
+    this.db.run('ALTER TABLE messages ADD COLUMN original_content TEXT')
+    this.db.run('ALTER TABLE messages ADD COLUMN edited_at INTEGER')
+    this.db.run('ALTER TABLE messages ADD COLUMN redacted INTEGER NOT NULL DEFAULT 0')
+    this.db.run('ALTER TABLE messages ADD COLUMN redact_reason TEXT')
+  }
+
+  // v1.10 — per-server MONITOR watch list (MINOR: backwards-compatible)
+  private migrate_110() {
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS monitors (
+        server_id TEXT NOT NULL,
+        nick TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        PRIMARY KEY (server_id, nick),
+        FOREIGN KEY (server_id) REFERENCES servers(id) ON DELETE CASCADE
+      )
+    `)
+  }
+
+  // v1.11 — the chosen color theme (MINOR: backwards-compatible)
+  private migrate_111() {
+    this.db.run('ALTER TABLE ui_state ADD COLUMN theme TEXT')
+  }
+
+  // v1.12 — display preferences changed with /set, as JSON values (MINOR: backwards-compatible)
+  private migrate_112() {
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS settings (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL
+      )
+    `)
+  }
+
+  // v1.13 — per-buffer notify levels set with /notify (MINOR: backwards-compatible)
+  private migrate_113() {
+    this.db.run('ALTER TABLE channels ADD COLUMN notify_level TEXT')
+  }
+
+  // v1.14 — lines sent from each buffer, for input history (MINOR: backwards-compatible)
+  private migrate_114() {
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS input_history (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        server_id TEXT NOT NULL,
+        buffer TEXT NOT NULL,
+        line TEXT NOT NULL,
+        FOREIGN KEY (server_id) REFERENCES servers(id) ON DELETE CASCADE
+      )
+    `)
+    this.db.run(
+      'CREATE INDEX IF NOT EXISTS idx_input_history_buffer ON input_history(server_id, buffer)'
+    )
+  }
+
   private nextServerSortOrder(): number {
     const row = this.db
       .query('SELECT COALESCE(MAX(sort_order), -1) + 1 AS next FROM servers')
@@ -194,16 +391,21 @@ class DatabaseService {
     const sortOrder = this.nextServerSortOrder()
     this.db.run(
       `INSERT OR REPLACE INTO servers (
-        id, name, host, port, ssl, nickname, username, realname,
-        password, sasl_account, sasl_password, auto_connect,
-        sort_order, created_at, updated_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        id, name, host, port, ssl, accept_invalid_cert, tls_fingerprint, client_cert,
+        client_key, fallback_encoding, nickname, username, realname, password, sasl_account,
+        sasl_password, auto_connect, sort_order, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
       [
         server.id,
         server.name,
         server.host,
         server.port,
         server.ssl ? 1 : 0,
+        server.acceptInvalidCert ? 1 : 0,
+        server.tlsFingerprint || null,
+        server.clientCert || null,
+        server.clientKey || null,
+        server.fallbackEncoding || null,
         server.nickname,
         server.username || null,
         server.realname || null,
@@ -267,9 +469,9 @@ class DatabaseService {
     const sortOrder = this.nextChannelSortOrder(serverId)
     this.db.run(
       `INSERT OR REPLACE INTO channels (
-        id, server_id, name, auto_join, sort_order, created_at
-      ) VALUES (?, ?, ?, ?, ?, ?)`,
-      [channel.id, serverId, channel.name, 1, sortOrder, now]
+        id, server_id, name, auto_join, sort_order, created_at, notify_level
+      ) VALUES (?, ?, ?, ?, ?, ?, (SELECT notify_level FROM channels WHERE id = ?))`,
+      [channel.id, serverId, channel.name, 1, sortOrder, now, channel.id]
     )
   }
 
@@ -296,13 +498,55 @@ class DatabaseService {
   }
 
   deleteChannel(id: string): void {
-    this.db.run('DELETE FROM channels WHERE id = ?', [id])
+    // A channel with a notify level keeps its row so the level survives a rejoin
+    this.db.run('DELETE FROM channels WHERE id = ? AND notify_level IS NULL', [id])
+    this.db.run('UPDATE channels SET auto_join = 0 WHERE id = ?', [id])
   }
 
   setChannelAutoJoin(id: string, autoJoin: boolean): void {
     this.db.run('UPDATE channels SET auto_join = ? WHERE id = ?', [autoJoin ? 1 : 0, id])
   }
 
+  getNotifyLevels(serverId: string): Record<string, BufferNotifyLevel> {
+    const rows = this.db
+      .query(
+        'SELECT name, notify_level FROM channels WHERE server_id = ? AND notify_level IS NOT NULL'
+      )
+      .all(serverId) as Pick<PersistedChannel, 'name' | 'notify_level'>[]
+    return Object.fromEntries(rows.map((row) => [row.name.toLowerCase(), row.notify_level!]))
+  }
+
+  /**
+   * Set or clear (null) a buffer's notify level. Private chats and channels
+   * that aren't saved get a row that isn't auto-joined, keyed by `id`; clearing
+   * the level drops that row again.
+   */
+  saveNotifyLevel(
+    serverId: string,
+    id: string,
+    name: string,
+    level: BufferNotifyLevel | null
+  ): void {
+    const { changes } = this.db.run(
+      'UPDATE channels SET notify_level = ? WHERE server_id = ? AND name = ? COLLATE NOCASE',
+      [level, serverId, name]
+    )
+    if (!level) {
+      this.db.run(
+        'DELETE FROM channels WHERE server_id = ? AND name = ? COLLATE NOCASE AND auto_join = 0',
+        [serverId, name]
+      )
+      return
+    }
+    if (changes > 0) return
+    this.db.run(
+      `INSERT INTO channels (
+        id, server_id, name, auto_join, sort_order, created_at, notify_level
+      ) VALUES (?, ?, ?, 0, ?, ?, ?)`,
+      [id, serverId, name, this.nextChannelSortOrder(serverId), Date.now(), level]
+    )
+  }
+
   // Server state methods
   saveServerState(serverId: string, state: { nickname?: string; connectionState?: string }): void {
     this.db.run(
@@ -317,6 +561,222 @@ class DatabaseService {
     return this.db.query('SELECT * FROM server_state WHERE server_id = ?').get(serverId)
   }
 
+  // Message log methods
+  saveMessage(message: Message): void {
+    this.db.run(
+      `INSERT OR IGNORE INTO messages (
+        id, server_id, buffer_id, msgid, type, sender, content, server_time,
+        tags, reactions, reply_to_id, reply_msgid, lines, multiline_ids,
+        original_content, edited_at, redacted, redact_reason
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        message.id,
+        message.serverId,
+        message.channelId,
+        message.msgid || null,
+        message.type,
+        message.userId,
+        message.content,
+        message.timestamp.getTime(),
+        message.tags ? JSON.stringify(message.tags) : null,
+        JSON.stringify(message.reactions),
+        message.replyMessage?.id ?? null,
+        message.replyMessage?.msgid ?? message.replyTo ?? null,
+        message.lines ? JSON.stringify(message.lines) : null,
+        message.multilineMessageIds ? JSON.stringify(message.multilineMessageIds) : null,
+        message.originalContent ?? null,
+        message.editedAt?.getTime() ?? null,
+        message.redacted ? 1 : 0,
+        message.redactReason ?? null,
+      ]
+    )
+  }
+
+  updateMessage(message: Message): void {
+    this.db.run(
+      `UPDATE messages SET content = ?, tags = ?, reactions = ?, lines = ?, original_content = ?,
+        edited_at = ?, redacted = ?, redact_reason = ? WHERE id = ?`,
+      [
+        message.content,
+        message.tags ? JSON.stringify(message.tags) : null,
+        JSON.stringify(message.reactions),
+        message.lines ? JSON.stringify(message.lines) : null,
+        message.originalContent ?? null,
+        message.editedAt?.getTime() ?? null,
+        message.redacted ? 1 : 0,
+        message.redactReason ?? null,
+        message.id,
+      ]
+    )
+  }
+
+  deleteMessage(id: string): void {
+    this.db.run('DELETE FROM messages WHERE id = ?', [id])
+  }
+
+  // Returns the most recent `limit` messages for a buffer, oldest first
+  getMessages(bufferId: string, limit: number): PersistedMessage[] {
+    return this.db
+      .query(
+        `SELECT * FROM (
+          SELECT * FROM messages WHERE buffer_id = ? ORDER BY server_time DESC LIMIT ?
+        ) ORDER BY server_time ASC`
+      )
+      .all(bufferId, limit) as PersistedMessage[]
+  }
+
+  // Server time of the newest logged message on a server, or null when nothing is logged
+  getLatestMessageTime(serverId: string): number | null {
+    const row = this.db
+      .query('SELECT MAX(server_time) AS latest FROM messages WHERE server_id = ?')
+      .get(serverId) as { latest: number | null } | null
+    return row?.latest ?? null
+  }
+
+  // Drops everything but the newest `keep` messages of a buffer
+  pruneMessages(bufferId: string, keep: number): void {
+    this.db.run(
+      `DELETE FROM messages WHERE buffer_id = ? AND id NOT IN (
+        SELECT id FROM messages WHERE buffer_id = ? ORDER BY server_time DESC LIMIT ?
+      )`,
+      [bufferId, bufferId, keep]
+    )
+  }
+
+  // Input history methods; `buffer` is the lowercased buffer name, '' for the server buffer
+  // Returns the most recent `limit` lines sent from a buffer, oldest first
+  getInputHistory(serverId: string, buffer: string, limit: number): string[] {
+    const rows = this.db
+      .query(
+        `SELECT line FROM (
+          SELECT id, line FROM input_history WHERE server_id = ? AND buffer = ?
+          ORDER BY id DESC LIMIT ?
+        ) ORDER BY id ASC`
+      )
+      .all(serverId, buffer, limit) as { line: string }[]
+    return rows.map((row) => row.line)
+  }
+
+  // Appends a line unless it repeats the previous one, dropping all but the newest `keep`
+  // lines of the buffer
+  addInputHistory(serverId: string, buffer: string, line: string, keep: number): void {
+    const last = this.db
+      .query(
+        'SELECT line FROM input_history WHERE server_id = ? AND buffer = ? ORDER BY id DESC LIMIT 1'
+      )
+      .get(serverId, buffer) as { line: string } | null
+    if (last?.line === line) return
+    this.db.run('INSERT INTO input_history (server_id, buffer, line) VALUES (?, ?, ?)', [
+      serverId,
+      buffer,
+      line,
+    ])
+    this.db.run(
+      `DELETE FROM input_history WHERE server_id = ? AND buffer = ? AND id NOT IN (
+        SELECT id FROM input_history WHERE server_id = ? AND buffer = ? ORDER BY id DESC LIMIT ?
+      )`,
+      [serverId, buffer, serverId, buffer, keep]
+    )
+  }
+
+  // Highlight methods
+  getHighlights(): HighlightRule[] {
+    const rows = this.db
+      .query('SELECT * FROM highlights ORDER BY created_at ASC')
+      .all() as PersistedHighlight[]
+    return rows.map((row) => ({
+      pattern: row.pattern,
+      regex: Boolean(row.is_regex),
+      channel: row.channel || undefined,
+    }))
+  }
+
+  saveHighlight(rule: HighlightRule): void {
+    this.db.run(
+      `INSERT OR REPLACE INTO highlights(pattern, is_regex, channel, created_at)
+       VALUES(?, ?, ?, ?)`,
+      [rule.pattern, rule.regex ? 1 : 0, rule.channel ?? '', Date.now()]
+    )
+  }
+
+  deleteHighlight(pattern: string, channel?: string): void {
+    this.db.run('DELETE FROM highlights WHERE pattern = ? AND channel = ?', [
+      pattern,
+      channel ?? '',
+    ])
+  }
+
+  // Ignore methods
+  getIgnores(serverId: string): IgnoreRule[] {
+    const rows = this.db
+      .query('SELECT * FROM ignores WHERE server_id = ? ORDER BY created_at ASC')
+      .all(serverId) as PersistedIgnore[]
+    return rows.map((row) => ({
+      mask: row.mask,
+      types: row.types.split(',').filter(Boolean) as IgnoreType[],
+    }))
+  }
+
+  saveIgnore(serverId: string, rule: IgnoreRule): void {
+    this.db.run(
+      `INSERT OR REPLACE INTO ignores(server_id, mask, types, created_at)
+       VALUES(?, ?, ?, ?)`,
+      [serverId, rule.mask, rule.types.join(','), Date.now()]
+    )
+  }
+
+  deleteIgnore(serverId: string, mask: string): void {
+    this.db.run('DELETE FROM ignores WHERE server_id = ? AND mask = ?', [serverId, mask])
+  }
+
+  // Monitor methods
+  getMonitors(serverId: string): string[] {
+    const rows = this.db
+      .query('SELECT nick FROM monitors WHERE server_id = ? ORDER BY created_at ASC')
+      .all(serverId) as { nick: string }[]
+    return rows.map((row) => row.nick)
+  }
+
+  saveMonitor(serverId: string, nick: string): void {
+    this.db.run(
+      `INSERT OR IGNORE INTO monitors(server_id, nick, created_at)
+       VALUES(?, ?, ?)`,
+      [serverId, nick, Date.now()]
+    )
+  }
+
+  deleteMonitor(serverId: string, nick: string): void {
+    this.db.run('DELETE FROM monitors WHERE server_id = ? AND nick = ?', [serverId, nick])
+  }
+
+  // Settings methods
+  getSettings(): Record<string, unknown> {
+    const rows = this.db.query('SELECT key, value FROM settings').all() as {
+      key: string
+      value: string
+    }[]
+    const settings: Record<string, unknown> = {}
+    for (const row of rows) {
+      try {
+        settings[row.key] = JSON.parse(row.value)
+      } catch {
+        // A hand-edited value; the default applies
+      }
+    }
+    return settings
+  }
+
+  saveSetting(key: string, value: string | number | boolean): void {
+    this.db.run('INSERT OR REPLACE INTO settings(key, value) VALUES(?, ?)', [
+      key,
+      JSON.stringify(value),
+    ])
+  }
+
+  deleteSetting(key: string): void {
+    this.db.run('DELETE FROM settings WHERE key = ?', [key])
+  }
+
   // UI state methods
   getUIState(): PersistedUIState | null {
     const row = this.db.query('SELECT * FROM ui_state WHERE id = 1').get() as any
@@ -325,14 +785,20 @@ class DatabaseService {
       showServerPane: Boolean(row.show_server_pane),
       showUserPane: Boolean(row.show_user_pane),
       showTimestamps: Boolean(row.show_timestamps),
+      theme: row.theme ?? null,
     }
   }
 
   saveUIState(state: PersistedUIState): void {
     this.db.run(
-      `INSERT OR REPLACE INTO ui_state(id, show_server_pane, show_user_pane, show_timestamps)
-       VALUES(1, ?, ?, ?)`,
-      [state.showServerPane ? 1 : 0, state.showUserPane ? 1 : 0, state.showTimestamps ? 1 : 0]
+      `INSERT OR REPLACE INTO ui_state(id, show_server_pane, show_user_pane, show_timestamps, theme)
+       VALUES(1, ?, ?, ?, ?)`,
+      [
+        state.showServerPane ? 1 : 0,
+        state.showUserPane ? 1 : 0,
+        state.showTimestamps ? 1 : 0,
+        state.theme,
+      ]
     )
   }
 
@@ -342,6 +808,11 @@ class DatabaseService {
   }
 
   clearAll(): void {
+    this.db.run('DELETE FROM highlights')
+    this.db.run('DELETE FROM ignores')
+    this.db.run('DELETE FROM monitors')
+    this.db.run('DELETE FROM messages')
+    this.db.run('DELETE FROM input_history')
     this.db.run('DELETE FROM channels')
     this.db.run('DELETE FROM server_state')
     this.db.run('DELETE FROM servers')
@@ -1,11 +1,17 @@
 import type { StateCreator } from 'zustand'
 import type { IRCClient, EventMap } from '@/utils/ircClient'
 import type { AppStore } from '@/store'
-import type { User } from '@/types'
+import type { IgnoreType, Message, Server, User } from '@/types'
 import { v4 as uuidv4, v5 as uuidv5 } from 'uuid'
 import { stripIrcFormatting } from '@irc/messageFormatter'
 import { getDatabase } from '@/services/database'
 import { createMessage } from '@/utils/messageFactory'
+import { usesTLS } from '@/utils/tls'
+import { isHighlight } from '@/utils/highlights'
+import { bufferNotifyLevel, isSilenced, notify } from '@/utils/notifications'
+import { isIgnored } from '@/utils/ignore'
+import { pickSaslMechanism, ScramClient, type SaslMechanism } from '@/utils/sasl'
+import { createRateLimiter, ctcpReply, formatCtcp, parseCtcp, type CtcpMessage } from '@/utils/ctcp'
 
 // Must match ObsidianIRC/src/lib/ircClient.ts generateDeterministicId and bootstrapServer.ts
 const CHANNEL_NAMESPACE = '6ba7b810-9dad-11d1-80b4-00c04fd430c8'
@@ -13,13 +19,9 @@ function deterministicChannelId(serverId: string, channelName: string): string {
   return uuidv5(`${serverId}:${channelName}`, CHANNEL_NAMESPACE)
 }
 
-function escapeRegExp(s: string): string {
-  return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
-}
-
-function nickMentioned(text: string, nickname: string): boolean {
-  const pattern = new RegExp(`\\b${escapeRegExp(nickname)}\\b`, 'i')
-  return pattern.test(text)
+// SASL EXTERNAL applies when a client certificate is presented, which only happens over TLS
+function usesCertFP(server: Server): boolean {
+  return !!server.clientCert && usesTLS(server)
 }
 
 export interface IRCSlice {
@@ -31,6 +33,22 @@ export interface IRCSlice {
   setupEventHandlers: () => void
   startKeepalive: (serverId: string) => void
   scheduleReconnect: (serverId: string) => void
+  /** CHATHISTORY paging per buffer; 'complete' once the server has nothing older */
+  historyStatus: Record<string, 'loading' | 'complete'>
+  setHistoryStatus: (bufferId: string, status: 'loading' | 'complete' | null) => void
+  requestHistory: (
+    serverId: string,
+    bufferId: string,
+    direction: HistoryDirection,
+    anchor?: string
+  ) => void
+  fetchOlderHistory: (serverId: string, bufferId: string) => void
+  /** Add or drop nicks on the server-side MONITOR list, or poll them with ISON */
+  monitorNicks: (serverId: string, op: '+' | '-', nicks: string[]) => void
+  /** Send a CTCP request; a PING is timed so its reply can report the round trip */
+  sendCtcp: (serverId: string, target: string, command: string, params?: string) => void
+  /** Stop waiting for the echo of our edit after a while; it then counts as done */
+  awaitEditEcho: (bufferId: string, messageId: string) => void
 }
 
 // Module-level timer storage to avoid storing timers in Zustand state
@@ -77,6 +95,15 @@ function stopKeepaliveForServer(serverId: string): void {
   state.pongTimeout = null
 }
 
+interface SaslSession {
+  mechanism: SaslMechanism
+  scram?: ScramClient
+  proofSent?: boolean
+}
+
+// In-flight AUTHENTICATE exchange per server, started on CAP ACK
+const saslSessions = new Map<string, SaslSession>()
+
 interface PendingReaction {
   channelId: string
   emoji: string
@@ -86,9 +113,103 @@ interface PendingReaction {
 // Keyed by target message msgid. Cleared when applied or on batch end.
 const pendingHistoryReactions = new Map<string, PendingReaction[]>()
 
+const HISTORY_PAGE_SIZE = 100
+const HISTORY_TIMEOUT_MS = 15_000
+
+type HistoryDirection = 'before' | 'after' | 'latest'
+
+// CHATHISTORY=<max> from ISUPPORT (005), per server
+const chathistoryLimits = new Map<string, number>()
+
+interface HistoryRequest {
+  bufferId: string
+  direction: HistoryDirection
+  limit: number
+}
+// In-flight CHATHISTORY requests keyed by `${serverId}:${lowercased target}`, matched to
+// the reply batch so BEFORE can detect the start of history and AFTER can keep paging
+const historyRequests = new Map<string, HistoryRequest>()
+
+// Where each buffer's catch-up starts after a reconnect: its newest message when the
+// connection dropped, by buffer id. Live messages may arrive before the gap is filled.
+const historyGapAnchors = new Map<string, string>()
+
+// Lower bound of the CHATHISTORY TARGETS query sent on connect, per server
+const historyTargetsSince = new Map<string, string>()
+
+function supportsChathistory(server: Server): boolean {
+  return !!server.capabilities?.some((c) => c === 'chathistory' || c === 'draft/chathistory')
+}
+
+function historyPageSize(serverId: string): number {
+  const max = chathistoryLimits.get(serverId)
+  return max ? Math.min(HISTORY_PAGE_SIZE, max) : HISTORY_PAGE_SIZE
+}
+
+// MONITOR=<limit> from ISUPPORT (005), per server; 0 when no limit is given.
+// Servers that don't advertise it get the watch list polled with ISON instead.
+const monitorLimits = new Map<string, number>()
+const isonTimers = new Map<string, ReturnType<typeof setInterval>>()
+const ISON_INTERVAL_MS = 60_000
+// Keeps MONITOR and ISON lines well under the 512-byte limit
+const MONITOR_LINE_LENGTH = 400
+
+function chunkNicks(nicks: string[], separator: string): string[] {
+  const chunks: string[] = []
+  let current = ''
+  for (const nick of nicks) {
+    if (current && current.length + separator.length + nick.length > MONITOR_LINE_LENGTH) {
+      chunks.push(current)
+      current = nick
+    } else {
+      current = current ? `${current}${separator}${nick}` : nick
+    }
+  }
+  if (current) chunks.push(current)
+  return chunks
+}
+
+function stopIsonPolling(serverId: string): void {
+  const timer = isonTimers.get(serverId)
+  if (timer) clearInterval(timer)
+  isonTimers.delete(serverId)
+}
+
+// Answer at most this many CTCP requests per server in the window, so a flood of
+// VERSION queries can't get us disconnected for excess output
+const ctcpReplyLimiter = createRateLimiter(4, 10_000)
+// Outstanding /ping requests keyed by serverId + lowercased nick → the token sent
+const pendingPings = new Map<string, string>()
+
+// The nicks each user was seen under this connection, by server and lowercased current
+// nick, so their edits still match what they wrote before a nick change
+const formerNicks = new Map<string, Map<string, Set<string>>>()
+
+// Edits of ours waiting for their echo, by message id
+const editEchoTimers = new Map<string, ReturnType<typeof setTimeout>>()
+const EDIT_ECHO_TIMEOUT_MS = 15_000
+
+// Reference a message the way CHATHISTORY expects: its msgid, or its server time
+function historyAnchor(message: Message): string {
+  return message.msgid ? `msgid=${message.msgid}` : `timestamp=${message.timestamp.toISOString()}`
+}
+
+// The newest message a CHATHISTORY request can start after; our system lines don't count
+function newestHistoryMessage(buffer: Message[] = []): Message | undefined {
+  return [...buffer].reverse().find((m) => m.msgid || m.type !== 'system')
+}
+
+function historyTarget(server: Server, bufferId: string): string | undefined {
+  return (
+    server.channels.find((c) => c.id === bufferId)?.name ??
+    server.privateChats.find((pc) => pc.id === bufferId)?.username
+  )
+}
+
 export const createIRCSlice: StateCreator<AppStore, [], [], IRCSlice> = (set, get) => ({
   ircClient: null,
   typingUsers: {},
+  historyStatus: {},
 
   setTypingUser: (channelId, nick) => {
     const key = `${channelId}:${nick}`
@@ -124,6 +245,103 @@ export const createIRCSlice: StateCreator<AppStore, [], [], IRCSlice> = (set, ge
     })
   },
 
+  setHistoryStatus: (bufferId, status) =>
+    set((state) => {
+      const { [bufferId]: _previous, ...rest } = state.historyStatus
+      return { historyStatus: status ? { ...rest, [bufferId]: status } : rest }
+    }),
+
+  requestHistory: (serverId, bufferId, direction, anchor) => {
+    const { ircClient, getServer, setHistoryStatus } = get()
+    const server = getServer(serverId)
+    if (!ircClient || !server) return
+    const target = historyTarget(server, bufferId)
+    if (!target) return
+
+    const request: HistoryRequest = { bufferId, direction, limit: historyPageSize(serverId) }
+    const key = `${serverId}:${target.toLowerCase()}`
+    historyRequests.set(key, request)
+    ircClient.sendRaw(
+      serverId,
+      `CHATHISTORY ${direction.toUpperCase()} ${target} ${anchor ?? '*'} ${request.limit}`
+    )
+    if (direction === 'before') setHistoryStatus(bufferId, 'loading')
+
+    // A server that drops the request never opens a batch; don't leave the buffer loading
+    setTimeout(() => {
+      if (historyRequests.get(key) !== request) return
+      historyRequests.delete(key)
+      if (get().historyStatus[bufferId] === 'loading') setHistoryStatus(bufferId, null)
+    }, HISTORY_TIMEOUT_MS)
+  },
+
+  fetchOlderHistory: (serverId, bufferId) => {
+    const { getServer, messages, historyStatus, requestHistory } = get()
+    if (historyStatus[bufferId]) return
+    const server = getServer(serverId)
+    if (!server?.isConnected || !supportsChathistory(server)) return
+
+    const buffer = messages.get(bufferId) ?? []
+    const oldest = buffer.find((m) => m.msgid) ?? buffer.find((m) => m.type !== 'system')
+    if (oldest) {
+      requestHistory(serverId, bufferId, 'before', historyAnchor(oldest))
+    } else {
+      requestHistory(serverId, bufferId, 'latest')
+    }
+  },
+
+  monitorNicks: (serverId, op, nicks) => {
+    const { ircClient, getServer } = get()
+    const server = getServer(serverId)
+    if (!ircClient || !server?.isConnected || nicks.length === 0) return
+
+    if (monitorLimits.has(serverId)) {
+      for (const chunk of chunkNicks(nicks, ',')) {
+        ircClient.sendRaw(serverId, `MONITOR ${op} ${chunk}`)
+      }
+      return
+    }
+
+    // ISON fallback: a dropped nick simply leaves the next poll
+    if (op === '-') return
+    const poll = () => {
+      const watched = get().getServer(serverId)
+      if (!watched?.isConnected || !watched.monitors?.length) return
+      for (const chunk of chunkNicks(watched.monitors, ' ')) {
+        ircClient.pollIson(serverId, chunk.split(' '))
+      }
+    }
+    if (!isonTimers.has(serverId)) isonTimers.set(serverId, setInterval(poll, ISON_INTERVAL_MS))
+    poll()
+  },
+
+  sendCtcp: (serverId, target, command, params) => {
+    const { ircClient, getServer } = get()
+    if (!ircClient || !getServer(serverId)?.isConnected) return
+    const upper = command.toUpperCase()
+    let body = params
+    if (upper === 'PING' && !params) {
+      body = String(Date.now())
+      pendingPings.set(`${serverId}:${target.toLowerCase()}`, body)
+    }
+    ircClient.sendRaw(serverId, `PRIVMSG ${target} :${formatCtcp(upper, body)}`)
+  },
+
+  awaitEditEcho: (bufferId, messageId) => {
+    clearTimeout(editEchoTimers.get(messageId))
+    editEchoTimers.set(
+      messageId,
+      setTimeout(() => {
+        editEchoTimers.delete(messageId)
+        const message = get()
+          .messages.get(bufferId)
+          ?.find((m) => m.id === messageId)
+        if (message?.editPending)
+          get().updateMessage(bufferId, messageId, { editPending: undefined })
+      }, EDIT_ECHO_TIMEOUT_MS)
+    )
+  },
+
   initializeIRC: () => {
     // Dynamic import to avoid loading IRC client during module initialization
     const { createIRCClient } = require('@/utils/ircClient')
@@ -141,6 +359,146 @@ export const createIRCSlice: StateCreator<AppStore, [], [], IRCSlice> = (set, ge
       addMessage(serverId, createMessage('system', content, 'server', serverId, serverId))
     }
 
+    // Record MONITOR/ISON presence for watched nicks and announce changes in the server
+    // buffer. Someone already online when we connect is announced; someone offline isn't.
+    const applyPresence = (serverId: string, nicks: string[], online: boolean) => {
+      const server = get().getServer(serverId)
+      if (!server?.monitors?.length) return
+      const changes: Record<string, boolean> = {}
+      for (const nick of nicks) {
+        const key = nick.toLowerCase()
+        if (!server.monitors.some((m) => m.toLowerCase() === key)) continue
+        const known = server.monitorOnline?.[key]
+        if (known === online) continue
+        changes[key] = online
+        if (online) addServerMessage(serverId, `${nick} is online`)
+        else if (known !== undefined) addServerMessage(serverId, `${nick} went offline`)
+      }
+      if (Object.keys(changes).length > 0) get().setMonitorStatus(serverId, changes)
+    }
+
+    // True when the server's ignore list drops this type of traffic from `nick`. The account
+    // comes from the account-tag when the event has one, else from what the member lists know.
+    const ignored = (serverId: string, nick: string, type: IgnoreType, account?: string) => {
+      const server = get().getServer(serverId)
+      if (!server?.ignores?.length) return false
+      if (nick.toLowerCase() === server.nickname.toLowerCase()) return false
+      const knownAccount =
+        account ??
+        server.channels
+          .flatMap((c) => c.users)
+          .find((u) => u.username.toLowerCase() === nick.toLowerCase() && u.account)?.account
+      return isIgnored(
+        server.ignores,
+        { hostmask: ircClient.getHostmask(serverId, nick), account: knownAccount },
+        type
+      )
+    }
+
+    // Rewrite every loaded copy of a msgid on this server (its buffer and the Mentions
+    // buffer), plus the reply previews quoting it. Returns false when it isn't loaded.
+    const reviseMessage = (
+      serverId: string,
+      msgid: string,
+      revise: (message: Message) => Partial<Message> | null
+    ): boolean => {
+      let found = false
+      for (const [bufferId, msgs] of get().messages) {
+        const message = msgs.find((m) => m.serverId === serverId && m.msgid === msgid)
+        if (!message) continue
+        found = true
+        const updates = revise(message)
+        if (updates) get().updateMessage(bufferId, message.id, updates)
+      }
+      for (const [bufferId, msgs] of get().messages) {
+        for (const m of msgs) {
+          if (m.serverId !== serverId || m.replyMessage?.msgid !== msgid) continue
+          const parent = msgs.find((p) => p.msgid === msgid)
+          if (parent && parent !== m.replyMessage) {
+            get().updateMessage(bufferId, m.id, { replyMessage: parent })
+          }
+        }
+      }
+      return found
+    }
+
+    // Whether `sender` wrote `message`: the same account when both carry one, or else the
+    // same nick, including those the sender had earlier on this connection
+    const isAuthor = (serverId: string, message: Message, sender: string, account?: string) => {
+      const written = message.tags?.account
+      if (written && account && written !== '*' && account !== '*') {
+        return written.toLowerCase() === account.toLowerCase()
+      }
+      const nick = sender.toLowerCase()
+      const author = message.userId.toLowerCase()
+      return author === nick || !!formerNicks.get(serverId)?.get(nick)?.has(author)
+    }
+
+    // Apply a `+draft/edit` to the message it names. Only the author's edits count, and a
+    // redacted message stays redacted. Returns false when the original isn't loaded.
+    const applyEdit = (
+      serverId: string,
+      sender: string,
+      account: string | undefined,
+      msgid: string,
+      edit: Pick<Message, 'type' | 'content' | 'lines'>,
+      editedAt: Date
+    ) =>
+      reviseMessage(serverId, msgid, (message) => {
+        if (message.redacted || !isAuthor(serverId, message, sender, account)) return null
+        return {
+          type: edit.type,
+          content: edit.content,
+          lines: edit.lines,
+          isMultiline: edit.lines ? true : undefined,
+          editedAt,
+          editPending: undefined,
+          originalContent: message.originalContent ?? message.content,
+        }
+      })
+
+    // The server refused our edit: put back what it replaced, for the edits whose buffer
+    // name or msgid is among the reply's params
+    const revertPendingEdits = (serverId: string, params: string[]) => {
+      const server = get().getServer(serverId)
+      if (!server) return
+      const named = new Set(params.map((p) => p.toLowerCase()))
+      for (const [bufferId, msgs] of get().messages) {
+        const name =
+          server.channels.find((c) => c.id === bufferId)?.name ??
+          server.privateChats.find((pc) => pc.id === bufferId)?.username
+        if (!name) continue
+        const wholeBuffer = named.has(name.toLowerCase())
+        for (const m of msgs) {
+          const before = m.editPending
+          if (!before || !(wholeBuffer || (m.msgid && params.includes(m.msgid)))) continue
+          clearTimeout(editEchoTimers.get(m.id))
+          editEchoTimers.delete(m.id)
+          get().updateMessage(bufferId, m.id, {
+            content: before.content,
+            lines: before.lines,
+            isMultiline: before.isMultiline,
+            editedAt: before.editedAt,
+            originalContent: before.originalContent,
+            editPending: undefined,
+          })
+        }
+      }
+    }
+
+    // Fetch what was said in a buffer while we were disconnected: after its newest message
+    // from before the drop, or else its newest known one; `since` anchors buffers that have
+    // nothing to go on yet
+    const fillHistoryGap = (serverId: string, bufferId: string, since?: string) => {
+      const server = get().getServer(serverId)
+      if (!server || !supportsChathistory(server)) return
+      const newest = newestHistoryMessage(get().messages.get(bufferId))
+      const anchor =
+        historyGapAnchors.get(bufferId) ?? (newest ? historyAnchor(newest) : undefined) ?? since
+      historyGapAnchors.delete(bufferId)
+      get().requestHistory(serverId, bufferId, anchor ? 'after' : 'latest', anchor)
+    }
+
     // Connection events
     ircClient.on('ready', (data: EventMap['ready']) => {
       const { updateServer, getServer, addChannel } = get()
@@ -162,6 +520,30 @@ export const createIRCSlice: StateCreator<AppStore, [], [], IRCSlice> = (set, ge
       ks.reconnectAttempts = 0
       get().startKeepalive(data.serverId)
 
+      // Requests from the previous connection will never be answered
+      for (const [key, request] of historyRequests) {
+        if (!key.startsWith(`${data.serverId}:`)) continue
+        historyRequests.delete(key)
+        if (get().historyStatus[request.bufferId] === 'loading') {
+          get().setHistoryStatus(request.bufferId, null)
+        }
+      }
+      const connected = getServer(data.serverId)
+      if (connected && supportsChathistory(connected)) {
+        // Open DMs were cleared on disconnect; refill them, then discover DMs that arrived
+        // while we were offline (channels catch up when their JOIN comes back)
+        for (const chat of connected.privateChats) fillHistoryGap(data.serverId, chat.id)
+        const latest = getDatabase().getLatestMessageTime(data.serverId)
+        if (latest) {
+          const since = `timestamp=${new Date(latest).toISOString()}`
+          historyTargetsSince.set(data.serverId, since)
+          ircClient.sendRaw(
+            data.serverId,
+            `CHATHISTORY TARGETS ${since} timestamp=${new Date().toISOString()} ${historyPageSize(data.serverId)}`
+          )
+        }
+      }
+
       // Auto-join channels — same flow as channelActions.ts.
       // Joining here (on IRC 001) is reliable: the socket is open and registered.
       const db = getDatabase()
@@ -220,21 +602,89 @@ export const createIRCSlice: StateCreator<AppStore, [], [], IRCSlice> = (set, ge
       debugLog?.(`[Store] disconnect: ${data.serverId}`)
       stopKeepaliveForServer(data.serverId)
       ircClient.offPong(data.serverId)
+      stopIsonPolling(data.serverId)
+      monitorLimits.delete(data.serverId)
+      formerNicks.delete(data.serverId)
+      get().setMonitorStatus(data.serverId, null)
       if (!noAutoReconnectServers.has(data.serverId)) {
         get().scheduleReconnect(data.serverId)
       }
     })
 
+    // First look at an accepted-but-unverified certificate — pin it for next time
+    ircClient.onCertificate((data) => {
+      get().updateServer(data.serverId, { tlsFingerprint: data.fingerprint })
+      addServerMessage(data.serverId, `Pinned TLS certificate fingerprint ${data.fingerprint}`)
+    })
+
+    // Certificate rejected — reconnecting would fail the same way, so wait for the user.
+    ircClient.onTLSError((data) => {
+      noAutoReconnectServers.add(data.serverId)
+      addServerMessage(data.serverId, data.message)
+      addServerMessage(
+        data.serverId,
+        data.code === 'FINGERPRINT_MISMATCH'
+          ? 'If the new certificate is expected, run "Forget TLS Fingerprint" from Ctrl+K and reconnect.'
+          : 'If you trust this server, run "Accept Invalid TLS Certificate" from Ctrl+K and reconnect.'
+      )
+    })
+
     // Raw server messages (numeric replies, server NOTICEs)
     ;(ircClient as any).on(
       'serverMessage',
-      (data: { serverId: string; command: string; text: string }) => {
+      (data: { serverId: string; command: string; text: string; raw: string }) => {
         // 482: not a channel operator — surface in open modal if applicable
         if (data.command === '482' && get().activeModal) {
           get().setModalError(data.text)
           return
         }
 
+        // A pending edit was refused: standard-replies FAIL on what carried it, naming
+        // its target or msgid, or ERR_NOSUCHNICK / ERR_NOSUCHCHANNEL / ERR_CANNOTSENDTOCHAN
+        // for its target. Edits elsewhere are left to their echo or timeout.
+        const bare = data.raw.startsWith('@') ? data.raw.slice(data.raw.indexOf(' ') + 1) : data.raw
+        if (data.command === 'FAIL' && /^(PRIVMSG|BATCH) /.test(data.text)) {
+          const paramsEnd = bare.indexOf(' :')
+          const context = (paramsEnd !== -1 ? bare.slice(0, paramsEnd) : bare).split(' ').slice(4)
+          revertPendingEdits(data.serverId, context)
+        } else if (['401', '403', '404'].includes(data.command)) {
+          const target = bare.split(' ')[3]
+          if (target) revertPendingEdits(data.serverId, [target])
+        }
+
+        // End of MOTD (or none): ISUPPORT is known by now, so pick MONITOR or ISON
+        if (data.command === '376' || data.command === '422') {
+          get().monitorNicks(data.serverId, '+', get().getServer(data.serverId)?.monitors ?? [])
+        }
+
+        // RPL_MONONLINE / RPL_MONOFFLINE: comma-separated nick!user@host or nick
+        if (data.command === '730' || data.command === '731') {
+          const nicks = data.text.split(',').map((target) => target.split('!')[0] ?? '')
+          applyPresence(data.serverId, nicks.filter(Boolean), data.command === '730')
+          return
+        }
+        // Our own MONITOR L / S output isn't requested; don't echo it
+        if (data.command === '732' || data.command === '733') return
+
+        // RPL_ISON answering our poll: everyone asked about but not listed is offline.
+        // Replies to an ISON sent by hand are shown as they are.
+        const isonQuery =
+          data.command === '303' ? ircClient.isonPollReply(data.serverId) : undefined
+        if (isonQuery) {
+          const online = new Set(data.text.split(' ').map((nick) => nick.toLowerCase()))
+          applyPresence(
+            data.serverId,
+            isonQuery.filter((nick) => online.has(nick.toLowerCase())),
+            true
+          )
+          applyPresence(
+            data.serverId,
+            isonQuery.filter((nick) => !online.has(nick.toLowerCase())),
+            false
+          )
+          return
+        }
+
         addServerMessage(data.serverId, `[${data.command}] ${data.text}`)
       }
     )
@@ -301,6 +751,12 @@ export const createIRCSlice: StateCreator<AppStore, [], [], IRCSlice> = (set, ge
 
     ircClient.on('ISUPPORT', (data: EventMap['ISUPPORT']) => {
       if (data.key === 'WHOX') whoxServers.add(data.serverId)
+      if (data.key === 'CHATHISTORY') {
+        chathistoryLimits.set(data.serverId, parseInt(data.value ?? '', 10) || 0)
+      }
+      if (data.key === 'MONITOR') {
+        monitorLimits.set(data.serverId, parseInt(data.value ?? '', 10) || 0)
+      }
     })
 
     // Sync negotiated capabilities to store and kick off SASL if needed
@@ -317,44 +773,89 @@ export const createIRCSlice: StateCreator<AppStore, [], [], IRCSlice> = (set, ge
       // completes (903/904), so we only need to send the mechanism request here.
       if (caps.some((c) => c.split('=')[0] === 'sasl')) {
         const oauthToken = globalThis.__OAUTH_BEARER_TOKEN__
-        if (oauthToken) {
-          ircClient.sendRaw(data.serverId, 'AUTHENTICATE OAUTHBEARER')
-        } else if (server.saslUsername && server.saslPassword) {
-          ircClient.sendRaw(data.serverId, 'AUTHENTICATE PLAIN')
+        const advertised = ircClient.getSaslMechanisms(data.serverId)
+        const mechanism = pickSaslMechanism(advertised, {
+          oauthToken,
+          certFP: usesCertFP(server),
+          // With an OAuth token the stored saslPassword is only a placeholder
+          password: !oauthToken && !!server.saslUsername && !!server.saslPassword,
+        })
+        if (mechanism) {
+          saslSessions.set(data.serverId, {
+            mechanism,
+            scram:
+              mechanism === 'SCRAM-SHA-256'
+                ? new ScramClient(server.saslUsername!, server.saslPassword!)
+                : undefined,
+          })
+          ircClient.sendRaw(data.serverId, `AUTHENTICATE ${mechanism}`)
+        } else if (advertised.length > 0) {
+          addServerMessage(
+            data.serverId,
+            `SASL: no usable mechanism among ${advertised.join(', ')} for the configured credentials`
+          )
         }
       }
     })
 
-    // Respond to AUTHENTICATE challenges for PLAIN and OAUTHBEARER SASL mechanisms.
+    // Respond to AUTHENTICATE challenges for the mechanism chosen on CAP ACK.
     ircClient.on('AUTHENTICATE', (data: EventMap['AUTHENTICATE']) => {
-      const oauthToken = globalThis.__OAUTH_BEARER_TOKEN__
-
-      if (data.param !== '+') {
-        // A non-'+' challenge during OAUTHBEARER is the RFC 7628 error-channel response
-        // (a base64-encoded JSON error object). Per GS2 the client must reply with a
-        // single 0x01 byte (AQ== in base64) to cleanly terminate the failed exchange.
-        if (oauthToken) {
-          ircClient.sendRaw(data.serverId, 'AUTHENTICATE AQ==')
-        }
-        return
-      }
-
+      const session = saslSessions.get(data.serverId)
       const server = get().getServer(data.serverId)
-      if (!server) return
-
-      if (oauthToken) {
-        const nick = server.nickname || server.saslUsername || ''
-        const gs2 = `n,a=${nick},\x01host=${server.host}\x01port=${server.port}\x01auth=Bearer ${oauthToken}\x01\x01`
-        const payload = Buffer.from(gs2).toString('base64')
-        ircClient.sendRaw(data.serverId, `AUTHENTICATE ${payload}`)
-      } else {
-        if (!server.saslUsername || !server.saslPassword) return
-        const payload = Buffer.from(
-          `${server.saslUsername}\x00${server.saslUsername}\x00${server.saslPassword}`
-        ).toString('base64')
-        ircClient.sendRaw(data.serverId, `AUTHENTICATE ${payload}`)
+      if (!session || !server) return
+
+      const send = (payload: string) => ircClient.sendRaw(data.serverId, `AUTHENTICATE ${payload}`)
+      const encode = (text: string) => Buffer.from(text).toString('base64')
+
+      switch (session.mechanism) {
+        case 'OAUTHBEARER': {
+          if (data.param !== '+') {
+            // A non-'+' challenge during OAUTHBEARER is the RFC 7628 error-channel response
+            // (a base64-encoded JSON error object). Per GS2 the client must reply with a
+            // single 0x01 byte (AQ== in base64) to cleanly terminate the failed exchange.
+            send('AQ==')
+            return
+          }
+          const oauthToken = globalThis.__OAUTH_BEARER_TOKEN__
+          const nick = server.nickname || server.saslUsername || ''
+          send(
+            encode(
+              `n,a=${nick},\x01host=${server.host}\x01port=${server.port}\x01auth=Bearer ${oauthToken}\x01\x01`
+            )
+          )
+          return
+        }
+        case 'EXTERNAL':
+          // Empty authzid: the server derives the account from the certificate fingerprint
+          if (data.param === '+') send('+')
+          return
+        case 'PLAIN':
+          if (data.param !== '+' || !server.saslUsername || !server.saslPassword) return
+          send(encode(`${server.saslUsername}\x00${server.saslUsername}\x00${server.saslPassword}`))
+          return
+        case 'SCRAM-SHA-256': {
+          const scram = session.scram!
+          try {
+            if (data.param === '+') {
+              send(encode(scram.clientFirst()))
+            } else if (!session.proofSent) {
+              session.proofSent = true
+              send(encode(scram.clientFinal(Buffer.from(data.param, 'base64').toString())))
+            } else if (scram.verifyServerFinal(Buffer.from(data.param, 'base64').toString())) {
+              send('+')
+            } else {
+              addServerMessage(data.serverId, 'SASL: server failed SCRAM verification, aborting')
+              send('*')
+            }
+          } catch (error) {
+            addServerMessage(data.serverId, `SASL: ${(error as Error).message}, aborting`)
+            send('*')
+          }
+          return
+        }
       }
     })
+
     // Typing notifications and reactions
     ircClient.on('TAGMSG', (data: EventMap['TAGMSG']) => {
       const { getServer, setTypingUser, clearTypingUser, updateMessage, messages } = get()
@@ -375,6 +876,7 @@ export const createIRCSlice: StateCreator<AppStore, [], [], IRCSlice> = (set, ge
         // Ignore our own typing echoes
         if (server.nickname && data.sender.toLowerCase() === server.nickname.toLowerCase()) return
         if (!bufferTarget) return
+        if (ignored(data.serverId, data.sender, 'typing', data.mtags?.account)) return
 
         if (typingValue === 'done') {
           clearTypingUser(bufferTarget.id, data.sender)
@@ -389,6 +891,7 @@ export const createIRCSlice: StateCreator<AppStore, [], [], IRCSlice> = (set, ge
       const targetMsgId = data.mtags?.['+draft/reply']
 
       if ((reactEmoji || unreactEmoji) && targetMsgId && channel) {
+        if (ignored(data.serverId, data.sender, 'reactions', data.mtags?.account)) return
         const msgs = messages.get(channel.id) ?? []
         const target = msgs.find((m) => m.msgid === targetMsgId)
         if (!target) {
@@ -419,6 +922,25 @@ export const createIRCSlice: StateCreator<AppStore, [], [], IRCSlice> = (set, ge
       }
     })
 
+    // CTCP requests are answered rather than shown as messages, whether sent to us or to a
+    // channel; the reply goes to the sender. Our own echoed requests and ones replayed
+    // from history get no reply.
+    const answerCtcp = (
+      data: { serverId: string; sender: string; mtags?: Record<string, string> },
+      ctcp: CtcpMessage,
+      channelName?: string
+    ) => {
+      const server = get().getServer(data.serverId)
+      if (!server || data.mtags?.batch) return
+      if (data.sender.toLowerCase() === server.nickname.toLowerCase()) return
+      const where = channelName ? ` in ${channelName}` : ''
+      addServerMessage(data.serverId, `CTCP ${ctcp.command} request from ${data.sender}${where}`)
+      const reply = ctcpReply(ctcp)
+      if (reply && ctcpReplyLimiter(data.serverId)) {
+        ircClient.sendRaw(data.serverId, `NOTICE ${data.sender} :${reply}`)
+      }
+    }
+
     // Channel message
     ircClient.on('CHANMSG', (data: EventMap['CHANMSG']) => {
       const { getServer, updateChannel, addMessage, clearTypingUser } = get()
@@ -438,9 +960,34 @@ export const createIRCSlice: StateCreator<AppStore, [], [], IRCSlice> = (set, ge
       if (/\bsent a TAGMSG\b/i.test(data.message)) return
 
       const isAction = data.message.startsWith('\x01ACTION ') && data.message.endsWith('\x01')
+      const isCtcp = !isAction && data.message.startsWith('\x01')
+      if (ignored(data.serverId, data.sender, isCtcp ? 'ctcp' : 'messages', data.mtags?.account)) {
+        return
+      }
+      const ctcp = isCtcp ? parseCtcp(data.message) : null
+      if (ctcp) {
+        answerCtcp(data, ctcp, channel.name)
+        return
+      }
       const content = isAction ? data.message.slice(8, -1) : data.message
       const type = isAction ? 'action' : 'message'
 
+      // An edit replaces the original in place; show it as a new line only if that isn't loaded
+      const editOf = data.mtags?.['+draft/edit']
+      if (
+        editOf &&
+        applyEdit(
+          data.serverId,
+          data.sender,
+          data.mtags?.account,
+          editOf,
+          { type, content },
+          data.timestamp
+        )
+      ) {
+        return
+      }
+
       const replyMsgId = data.mtags?.['+draft/reply']
       const replyMessage = replyMsgId
         ? ((get().messages.get(channel.id) ?? []).find((m) => m.msgid === replyMsgId) ?? null)
@@ -487,18 +1034,34 @@ export const createIRCSlice: StateCreator<AppStore, [], [], IRCSlice> = (set, ge
 
       const isHistorical = !!data.mtags?.batch
       if (!isHistorical) {
-        const { currentChannelId } = get()
-        const mentioned = nickMentioned(data.message, server.nickname)
-
-        if (currentChannelId !== channel.id) {
+        const { currentChannelId, highlights, addMention } = get()
+        const level = bufferNotifyLevel(server, channel.name)
+        const mentioned =
+          data.sender.toLowerCase() !== server.nickname.toLowerCase() &&
+          isHighlight(data.message, server.nickname, highlights, channel.name)
+        if (mentioned && !isSilenced(level)) addMention(message)
+
+        if (currentChannelId !== channel.id && !isSilenced(level)) {
           updateChannel(data.serverId, channel.id, {
             unreadCount: channel.unreadCount + 1,
             ...(mentioned && { isMentioned: true }),
           })
         }
 
-        if (mentioned) {
-          process.stdout.write('\x07')
+        if (data.sender.toLowerCase() !== server.nickname.toLowerCase()) {
+          notify(
+            {
+              bufferId: channel.id,
+              bufferName: channel.name,
+              isPrivate: false,
+              level,
+              mentioned,
+              title: `${data.sender} in ${channel.name}`,
+              body: stripIrcFormatting(content),
+            },
+            get(),
+            currentChannelId
+          )
         }
       }
     })
@@ -509,6 +1072,17 @@ export const createIRCSlice: StateCreator<AppStore, [], [], IRCSlice> = (set, ge
       const server = getServer(data.serverId)
       if (!server) return
 
+      const isCtcp = data.message.startsWith('\x01') && !data.message.startsWith('\x01ACTION ')
+      if (ignored(data.serverId, data.sender, isCtcp ? 'ctcp' : 'messages', data.mtags?.account)) {
+        return
+      }
+
+      const ctcp = isCtcp ? parseCtcp(data.message) : null
+      if (ctcp) {
+        answerCtcp(data, ctcp)
+        return
+      }
+
       const channelContext = data.mtags?.['+draft/channel-context']
       if (channelContext) {
         // Inline whisper — route to the channel it belongs to
@@ -519,7 +1093,7 @@ export const createIRCSlice: StateCreator<AppStore, [], [], IRCSlice> = (set, ge
         // For an echo of our own outgoing whisper, encode the target so the
         // display can show direction (→ target: message). For incoming
         // whispers the sender is shown via userId so content stays clean.
-        const isSentByUs = data.sender === server.nickname
+        const isSentByUs = data.sender.toLowerCase() === server.nickname.toLowerCase()
         const content = isSentByUs ? `→ ${data.target}: ${cleanContent}` : cleanContent
 
         const message = createMessage('whisper', content, data.sender, channel.id, data.serverId, {
@@ -529,14 +1103,30 @@ export const createIRCSlice: StateCreator<AppStore, [], [], IRCSlice> = (set, ge
         })
         addMessage(channel.id, message)
 
-        if (currentChannelId !== channel.id) {
+        const level = bufferNotifyLevel(server, channel.name)
+        if (currentChannelId !== channel.id && !isSilenced(level)) {
           const { updateChannel } = get()
           updateChannel(data.serverId, channel.id, {
             unreadCount: channel.unreadCount + 1,
             isMentioned: true,
           })
         }
-        process.stdout.write('\x07')
+        if (!isSentByUs) {
+          notify(
+            {
+              bufferId: channel.id,
+              bufferName: channel.name,
+              // Shown in the channel, so the channel's level applies; it's addressed to us
+              isPrivate: false,
+              level,
+              mentioned: true,
+              title: `${data.sender} whispers in ${channel.name}`,
+              body: cleanContent,
+            },
+            get(),
+            currentChannelId
+          )
+        }
         return
       }
 
@@ -562,6 +1152,21 @@ export const createIRCSlice: StateCreator<AppStore, [], [], IRCSlice> = (set, ge
       const msgContent = isAction ? data.message.slice(8, -1) : data.message
       const msgType = isAction ? 'action' : 'message'
 
+      const pmEditOf = data.mtags?.['+draft/edit']
+      if (
+        pmEditOf &&
+        applyEdit(
+          data.serverId,
+          data.sender,
+          data.mtags?.account,
+          pmEditOf,
+          { type: msgType, content: msgContent },
+          data.timestamp
+        )
+      ) {
+        return
+      }
+
       const pmReplyMsgId = data.mtags?.['+draft/reply']
       const pmReplyMessage = pmReplyMsgId
         ? ((get().messages.get(privateChat.id) ?? []).find((m) => m.msgid === pmReplyMsgId) ?? null)
@@ -583,16 +1188,36 @@ export const createIRCSlice: StateCreator<AppStore, [], [], IRCSlice> = (set, ge
 
       addMessage(privateChat.id, message)
 
+      // account-tag: update sender's account status when the tag is present
+      if (data.mtags?.['account'] !== undefined) {
+        get().updateUserAccount(data.serverId, data.sender, data.mtags.account || undefined)
+      }
+
       const isHistorical = !!data.mtags?.batch
       if (!isHistorical) {
-        if (currentChannelId !== privateChat.id) {
+        const level = bufferNotifyLevel(server, privateChat.username)
+        if (currentChannelId !== privateChat.id && !isSilenced(level)) {
           updatePrivateChat(data.serverId, privateChat.id, {
             unreadCount: privateChat.unreadCount + 1,
             isMentioned: true,
           })
         }
 
-        process.stdout.write('\x07')
+        if (data.sender.toLowerCase() !== server.nickname.toLowerCase()) {
+          notify(
+            {
+              bufferId: privateChat.id,
+              bufferName: privateChat.username,
+              isPrivate: true,
+              level,
+              mentioned: isHighlight(msgContent, server.nickname, get().highlights),
+              title: data.sender,
+              body: stripIrcFormatting(msgContent),
+            },
+            get(),
+            currentChannelId
+          )
+        }
       }
     })
 
@@ -607,6 +1232,26 @@ export const createIRCSlice: StateCreator<AppStore, [], [], IRCSlice> = (set, ge
       // via serverMessage, so skip them here to avoid duplicates.
       const isServerOrigin = data.sender.includes('.') && !data.sender.includes('!')
       if (isServerOrigin) return
+      // CTCP replies arrive as NOTICEs
+      const noticeType = data.message.startsWith('\x01') ? 'ctcp' : 'notices'
+      if (ignored(data.serverId, data.sender, noticeType, data.mtags?.account)) return
+
+      const ctcp = parseCtcp(data.message)
+      if (ctcp) {
+        const pingKey = `${data.serverId}:${data.sender.toLowerCase()}`
+        if (ctcp.command === 'PING' && pendingPings.get(pingKey) === ctcp.params) {
+          pendingPings.delete(pingKey)
+          const seconds = (Date.now() - Number(ctcp.params)) / 1000
+          addServerMessage(data.serverId, `PING reply from ${data.sender}: ${seconds.toFixed(3)}s`)
+          return
+        }
+        const params = stripIrcFormatting(ctcp.params)
+        addServerMessage(
+          data.serverId,
+          `CTCP ${ctcp.command} reply from ${data.sender}${params ? `: ${params}` : ''}`
+        )
+        return
+      }
 
       // Prefer the sender's open PM window; fall back to whichever buffer is active on this
       // server, or the server buffer itself if the user is currently looking at another network.
@@ -644,6 +1289,7 @@ export const createIRCSlice: StateCreator<AppStore, [], [], IRCSlice> = (set, ge
         (c) => c.name.toLowerCase() === data.channelName.toLowerCase()
       )
       if (!channel) return
+      if (ignored(data.serverId, data.sender, 'notices', data.mtags?.account)) return
 
       addMessage(
         channel.id,
@@ -696,24 +1342,30 @@ export const createIRCSlice: StateCreator<AppStore, [], [], IRCSlice> = (set, ge
 
       if (!channel) return
 
+      // extended-join: '*' means the joining user isn't logged in
+      const joinAccount = data.account && data.account !== '*' ? data.account : undefined
+
       // Historical events (chathistory batch replays) must NOT touch the live user list.
       // A historical self-JOIN would otherwise clear the users that 353 NAMES just populated.
       if (!data.batchTag) {
         if (data.username.toLowerCase() === server.nickname.toLowerCase()) {
           // Real self-join: clear users so the incoming 353/NAMES events populate it cleanly
           updateChannel(data.serverId, channel.id, { users: [] })
+          fillHistoryGap(data.serverId, channel.id)
           // Backfill accounts for all members via WHOX (once per join, if supported)
           if (whoxServers.has(data.serverId)) {
             ircClient.sendRaw(data.serverId, `WHO ${data.channelName} %cuhnfaro`)
           }
         } else {
+          const hostmask = ircClient.getHostmask(data.serverId, data.username)
           const user: User = {
             id: uuidv4(),
             username: data.username,
             isOnline: true,
             status: 'online',
-            account: data.account,
+            account: joinAccount,
             realname: data.realname,
+            hostmask: hostmask.includes('!') ? hostmask : undefined,
           }
           updateChannel(data.serverId, channel.id, {
             users: [...channel.users, user],
@@ -721,7 +1373,8 @@ export const createIRCSlice: StateCreator<AppStore, [], [], IRCSlice> = (set, ge
         }
       }
 
-      // Add system message
+      // Add system message; ignored users still count as members above
+      if (ignored(data.serverId, data.username, 'joins', joinAccount)) return
       const { addMessage } = get()
       addMessage(
         channel.id,
@@ -772,6 +1425,7 @@ export const createIRCSlice: StateCreator<AppStore, [], [], IRCSlice> = (set, ge
         })
 
         // Add system message
+        if (ignored(data.serverId, data.username, 'joins')) return
         addMessage(
           channel.id,
           createMessage(
@@ -792,6 +1446,8 @@ export const createIRCSlice: StateCreator<AppStore, [], [], IRCSlice> = (set, ge
       const server = getServer(data.serverId)
       if (!server) return
 
+      const hideQuit = ignored(data.serverId, data.username, 'joins')
+
       // Historical QUIT events (from chathistory batch) must not touch the live user list
       for (const channel of server.channels) {
         const userInChannel = channel.users.find((u) => u.username === data.username)
@@ -803,7 +1459,7 @@ export const createIRCSlice: StateCreator<AppStore, [], [], IRCSlice> = (set, ge
         }
 
         // Only show the quit message in channels the user was actually in
-        if (userInChannel) {
+        if (userInChannel && !hideQuit) {
           addMessage(
             channel.id,
             createMessage(
@@ -825,6 +1481,37 @@ export const createIRCSlice: StateCreator<AppStore, [], [], IRCSlice> = (set, ge
       updateUserAccount(data.serverId, data.nick, data.account)
     })
 
+    // away-notify: members going away or coming back
+    ircClient.onAway((data) => {
+      get().updateUser(data.serverId, data.nick, {
+        isAway: data.message !== undefined,
+        awayMessage: data.message,
+      })
+    })
+
+    // setname: a member changed their realname
+    ircClient.onSetname((data) => {
+      get().updateUser(data.serverId, data.nick, { realname: data.realname })
+    })
+
+    // chghost: a member's user or host changed without a rejoin
+    ircClient.onChghost((data) => {
+      get().updateUser(data.serverId, data.nick, { hostmask: data.hostmask })
+    })
+
+    // message-redaction: collapse the message to a tombstone wherever it's loaded
+    ircClient.onRedact(({ serverId, msgid, reason }) => {
+      reviseMessage(serverId, msgid, () => ({
+        content: '',
+        lines: undefined,
+        isMultiline: undefined,
+        originalContent: undefined,
+        reactions: [],
+        redacted: true,
+        redactReason: reason,
+      }))
+    })
+
     // Backfill account fields from WHOX (354) replies
     ircClient.on('WHOX_REPLY', (data: EventMap['WHOX_REPLY']) => {
       const { updateUserAccount } = get()
@@ -840,6 +1527,13 @@ export const createIRCSlice: StateCreator<AppStore, [], [], IRCSlice> = (set, ge
       const server = getServer(data.serverId)
       if (!server) return
 
+      const renamed = formerNicks.get(data.serverId) ?? new Map<string, Set<string>>()
+      const oldNick = data.oldNick.toLowerCase()
+      const earlier = renamed.get(oldNick) ?? new Set<string>()
+      renamed.delete(oldNick)
+      renamed.set(data.newNick.toLowerCase(), earlier.add(oldNick))
+      formerNicks.set(data.serverId, renamed)
+
       // If it's our own nick change, update the stored nickname (affects typing/mention checks)
       if (data.oldNick.toLowerCase() === server.nickname.toLowerCase()) {
         updateServer(data.serverId, { nickname: data.newNick })
@@ -993,6 +1687,7 @@ export const createIRCSlice: StateCreator<AppStore, [], [], IRCSlice> = (set, ge
         const { getServer, addMessage, clearTypingUser } = get()
         const server = getServer(data.serverId)
         if (!server) return
+        if (ignored(data.serverId, data.sender, 'messages', data.mtags?.account)) return
 
         const channelName = data.channelName
         const channel = channelName
@@ -1040,6 +1735,21 @@ export const createIRCSlice: StateCreator<AppStore, [], [], IRCSlice> = (set, ge
         const content = isAction ? fullText.slice(8, -1) : fullText
         const type = isAction ? 'action' : 'message'
 
+        const editOf = data.mtags?.['+draft/edit']
+        if (
+          editOf &&
+          applyEdit(
+            data.serverId,
+            data.sender,
+            data.mtags?.account,
+            editOf,
+            { type, content, lines: data.lines },
+            data.timestamp
+          )
+        ) {
+          return
+        }
+
         const replyMsgId = data.mtags?.['+draft/reply']
         const replyMessage = replyMsgId
           ? ((get().messages.get(buffer.id) ?? []).find((m) => m.msgid === replyMsgId) ?? null)
@@ -1057,20 +1767,40 @@ export const createIRCSlice: StateCreator<AppStore, [], [], IRCSlice> = (set, ge
 
         addMessage(buffer.id, message)
 
+        if (data.mtags?.['account'] !== undefined) {
+          get().updateUserAccount(data.serverId, data.sender, data.mtags.account || undefined)
+        }
+
         const isHistorical = !!data.mtags?.batch
         if (!isHistorical) {
-          const { currentChannelId, updateChannel } = get()
-          const mentioned = nickMentioned(fullText, server.nickname)
-
-          if (currentChannelId !== buffer.id) {
+          const { currentChannelId, updateChannel, highlights, addMention } = get()
+          const level = bufferNotifyLevel(server, channel?.name ?? data.sender)
+          const mentioned =
+            data.sender.toLowerCase() !== server.nickname.toLowerCase() &&
+            isHighlight(fullText, server.nickname, highlights, channel?.name)
+          if (mentioned && !isSilenced(level)) addMention(message)
+
+          if (currentChannelId !== buffer.id && !isSilenced(level)) {
             updateChannel(data.serverId, buffer.id, {
               unreadCount: (buffer.unreadCount ?? 0) + 1,
               ...(mentioned && { isMentioned: true }),
             })
           }
 
-          if (mentioned) {
-            process.stdout.write('\x07')
+          if (data.sender.toLowerCase() !== server.nickname.toLowerCase()) {
+            notify(
+              {
+                bufferId: buffer.id,
+                bufferName: channel?.name ?? data.sender,
+                isPrivate: !channel,
+                level,
+                mentioned,
+                title: channel ? `${data.sender} in ${channel.name}` : data.sender,
+                body: stripIrcFormatting(content),
+              },
+              get(),
+              currentChannelId
+            )
           }
         }
       } catch (error) {
@@ -1163,6 +1893,46 @@ export const createIRCSlice: StateCreator<AppStore, [], [], IRCSlice> = (set, ge
       }
     })
 
+    // A CHATHISTORY reply finished: BEFORE pages that come back short mean we reached the
+    // start of the buffer; full AFTER pages mean the gap isn't closed yet
+    ircClient.onHistoryBatch(({ serverId, target, messages, last }) => {
+      const key = `${serverId}:${target.toLowerCase()}`
+      const request = historyRequests.get(key)
+      if (!request) return
+      historyRequests.delete(key)
+      const { setHistoryStatus } = get()
+      if (request.direction === 'before') {
+        setHistoryStatus(request.bufferId, messages < request.limit ? 'complete' : null)
+      } else if (request.direction === 'after' && messages >= request.limit && last) {
+        // Continue from this page, not from whatever arrived live in the meantime
+        get().requestHistory(serverId, request.bufferId, 'after', last)
+      }
+    })
+
+    // CHATHISTORY TARGETS: a conversation had activity while we were away
+    ircClient.onHistoryTarget(({ serverId, target }) => {
+      const server = get().getServer(serverId)
+      if (!server || /^[#&+!]/.test(target)) return
+      if (target.toLowerCase() === server.nickname.toLowerCase()) return
+      let chat = server.privateChats.find(
+        (pc) => pc.username.toLowerCase() === target.toLowerCase()
+      )
+      if (!chat) {
+        chat = {
+          id: uuidv4(),
+          username: target,
+          serverId,
+          unreadCount: 0,
+          isMentioned: false,
+        }
+        get().addPrivateChat(serverId, chat)
+      }
+      // Open chats were already refilled on connect
+      if (!historyRequests.has(`${serverId}:${target.toLowerCase()}`)) {
+        fillHistoryGap(serverId, chat.id, historyTargetsSince.get(serverId))
+      }
+    })
+
     ircClient.on('BATCH_END', (_data: EventMap['BATCH_END']) => {
       if (pendingHistoryReactions.size === 0) return
       const { messages, updateMessage } = get()
@@ -1224,7 +1994,7 @@ export const createIRCSlice: StateCreator<AppStore, [], [], IRCSlice> = (set, ge
     // Don't double-schedule
     if (state.reconnectTimeout) return
 
-    const { servers, clearMessages, updateServer, addMessage } = get()
+    const { servers, clearMessages, loadPersistedMessages, updateServer, addMessage } = get()
     const server = servers.find((s) => s.id === serverId)
     if (!server) return
 
@@ -1232,8 +2002,17 @@ export const createIRCSlice: StateCreator<AppStore, [], [], IRCSlice> = (set, ge
       RECONNECT_DELAYS_MS[Math.min(state.reconnectAttempts, RECONNECT_DELAYS_MS.length - 1)]!
     state.reconnectAttempts++
 
-    // Clear channel buffers so chathistory loads fresh after reconnect
-    for (const ch of server.channels) clearMessages(ch.id)
+    // Remember where each buffer stood, so its catch-up starts there
+    for (const buffer of [...server.channels, ...server.privateChats]) {
+      const newest = newestHistoryMessage(get().messages.get(buffer.id))
+      if (newest) historyGapAnchors.set(buffer.id, historyAnchor(newest))
+    }
+    // Clear channel buffers so chathistory loads fresh after reconnect; the logged
+    // backlog is restored right away so the buffer isn't blank on servers without it.
+    for (const ch of server.channels) {
+      clearMessages(ch.id)
+      loadPersistedMessages(ch.id)
+    }
     for (const pc of server.privateChats) clearMessages(pc.id)
     clearMessages(serverId)
 
@@ -1266,7 +2045,8 @@ export const createIRCSlice: StateCreator<AppStore, [], [], IRCSlice> = (set, ge
           srv.password,
           srv.saslUsername,
           srv.saslPassword,
-          srv.id
+          srv.id,
+          srv
         )
       } catch {
         get().scheduleReconnect(serverId)
@@ -1,5 +1,14 @@
 import type { Message } from '@/types'
 import type { StateCreator } from 'zustand'
+import { getDatabase, type PersistedMessage } from '@/services/database'
+import { MENTIONS_BUFFER_ID } from '@/utils/highlights'
+
+// Keep only the most recent messages per buffer in memory; the on-disk log keeps more.
+export const MAX_BUFFER_MESSAGES = 1000
+// How far paging back through chat history may grow a buffer past that.
+export const MAX_SCROLLBACK_MESSAGES = 5000
+// Per-buffer retention of the on-disk message log.
+export const MAX_LOGGED_MESSAGES = 10_000
 
 export interface MessagesSlice {
   messages: Map<string, Message[]>
@@ -8,34 +17,65 @@ export interface MessagesSlice {
   removeMessage: (channelId: string, messageId: string) => void
   getMessages: (channelId: string) => Message[]
   clearMessages: (channelId: string) => void
+  loadPersistedMessages: (channelId: string) => void
+  /** Highlighted lines received since the Mentions buffer was last viewed */
+  unreadMentions: number
+  addMention: (message: Message) => void
+}
+
+// Server buffers only hold MOTD/numeric noise that is regenerated on every connect,
+// so they are kept out of the log.
+function isLogged(message: Message): boolean {
+  return message.channelId !== message.serverId
+}
+
+function persist(write: () => void): void {
+  try {
+    write()
+  } catch (error) {
+    debugLog?.('Failed to persist message:', error)
+  }
 }
 
 export const createMessagesSlice: StateCreator<MessagesSlice> = (set, get) => ({
   messages: new Map(),
+  unreadMentions: 0,
 
-  addMessage: (channelId, message) =>
-    set((state) => {
-      const newMessages = new Map(state.messages)
-      const existing = newMessages.get(channelId) || []
+  addMessage: (channelId, message) => {
+    const existing = get().messages.get(channelId) || []
 
-      // Deduplicate by msgid — repeated /history calls bring the same messages
-      // back with the same msgid, so we skip them instead of double-inserting.
-      // Messages without a msgid (system events, old servers) are always inserted.
-      if (message.msgid && existing.some((m) => m.msgid === message.msgid)) {
-        return state
-      }
+    // Deduplicate by msgid — repeated /history calls bring the same messages
+    // back with the same msgid, so we skip them instead of double-inserting.
+    // Messages without a msgid (system events, old servers) are always inserted.
+    if (message.msgid && existing.some((m) => m.msgid === message.msgid)) {
+      return
+    }
 
-      const merged = [...existing, message]
+    set((state) => {
+      const newMessages = new Map(state.messages)
+      const merged = [...(newMessages.get(channelId) || []), message]
       // Sort by server-time timestamp so history blocks slot into the correct
       // chronological position relative to live messages and each other.
       merged.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
-      // Keep only the most recent 1000 messages per channel to bound memory usage.
-      const capped = merged.length > 1000 ? merged.slice(merged.length - 1000) : merged
+      // Lines that slot in before the newest come from chat history: they grow the buffer
+      // up to the scroll-back limit and then evict the newest lines instead of being capped
+      // straight back out. New lines evict the oldest and keep a grown buffer's size.
+      const live = merged.at(-1) === message
+      const limit = live
+        ? Math.max(MAX_BUFFER_MESSAGES, Math.min(merged.length - 1, MAX_SCROLLBACK_MESSAGES))
+        : MAX_SCROLLBACK_MESSAGES
+      let capped = merged
+      if (merged.length > limit) capped = live ? merged.slice(-limit) : merged.slice(0, limit)
       newMessages.set(channelId, capped)
       return { messages: newMessages }
-    }),
+    })
+
+    if (isLogged(message)) {
+      persist(() => getDatabase().saveMessage(message))
+    }
+  },
 
-  updateMessage: (channelId, messageId, updates) =>
+  updateMessage: (channelId, messageId, updates) => {
     set((state) => {
       const newMessages = new Map(state.messages)
       const existing = newMessages.get(channelId) || []
@@ -44,9 +84,17 @@ export const createMessagesSlice: StateCreator<MessagesSlice> = (set, get) => ({
         existing.map((m) => (m.id === messageId ? { ...m, ...updates } : m))
       )
       return { messages: newMessages }
-    }),
+    })
+
+    const updated = get()
+      .messages.get(channelId)
+      ?.find((m) => m.id === messageId)
+    if (updated && isLogged(updated)) {
+      persist(() => getDatabase().updateMessage(updated))
+    }
+  },
 
-  removeMessage: (channelId, messageId) =>
+  removeMessage: (channelId, messageId) => {
     set((state) => {
       const newMessages = new Map(state.messages)
       const existing = newMessages.get(channelId) || []
@@ -55,17 +103,91 @@ export const createMessagesSlice: StateCreator<MessagesSlice> = (set, get) => ({
         existing.filter((m) => m.id !== messageId)
       )
       return { messages: newMessages }
-    }),
+    })
+
+    persist(() => getDatabase().deleteMessage(messageId))
+  },
 
   getMessages: (channelId) => {
     const state = get()
     return state.messages.get(channelId) || []
   },
 
+  // The Mentions buffer shares message objects with their source buffers and is never
+  // logged; the source buffer's log already holds every line. It starts empty each run.
+  addMention: (message) =>
+    set((state) => {
+      const existing = state.messages.get(MENTIONS_BUFFER_ID) || []
+      if (existing.some((m) => m.id === message.id)) return {}
+      const newMessages = new Map(state.messages)
+      newMessages.set(MENTIONS_BUFFER_ID, [...existing, message].slice(-MAX_BUFFER_MESSAGES))
+      return { messages: newMessages, unreadMentions: state.unreadMentions + 1 }
+    }),
+
+  // Only drops the in-memory buffer; the on-disk log is left untouched.
   clearMessages: (channelId) =>
     set((state) => {
       const newMessages = new Map(state.messages)
       newMessages.delete(channelId)
       return { messages: newMessages }
     }),
+
+  loadPersistedMessages: (channelId) => {
+    let rows: PersistedMessage[]
+    try {
+      const db = getDatabase()
+      db.pruneMessages(channelId, MAX_LOGGED_MESSAGES)
+      rows = db.getMessages(channelId, MAX_BUFFER_MESSAGES)
+    } catch (error) {
+      debugLog?.('Failed to load persisted messages:', error)
+      return
+    }
+    if (rows.length === 0) return
+
+    const restored: Message[] = rows.map((row) => ({
+      id: row.id,
+      msgid: row.msgid ?? undefined,
+      channelId: row.buffer_id,
+      serverId: row.server_id,
+      userId: row.sender,
+      content: row.content,
+      timestamp: new Date(row.server_time),
+      type: row.type,
+      tags: row.tags ? JSON.parse(row.tags) : undefined,
+      replyTo: row.reply_msgid ?? undefined,
+      replyMessage: null,
+      reactions: JSON.parse(row.reactions),
+      mentioned: [],
+      isMultiline: row.lines ? true : undefined,
+      lines: row.lines ? JSON.parse(row.lines) : undefined,
+      multilineMessageIds: row.multiline_ids ? JSON.parse(row.multiline_ids) : undefined,
+      editedAt: row.edited_at ? new Date(row.edited_at) : undefined,
+      originalContent: row.original_content ?? undefined,
+      redacted: row.redacted ? true : undefined,
+      redactReason: row.redact_reason ?? undefined,
+    }))
+
+    // Re-link replies to the parent messages that were restored alongside them
+    for (const [i, row] of rows.entries()) {
+      if (!row.reply_to_id && !row.reply_msgid) continue
+      const parent =
+        restored.find((m) => m.id === row.reply_to_id) ??
+        restored.find((m) => row.reply_msgid && m.msgid === row.reply_msgid)
+      if (parent) restored[i]!.replyMessage = parent
+    }
+
+    set((state) => {
+      const newMessages = new Map(state.messages)
+      const live = newMessages.get(channelId) || []
+      const knownIds = new Set(live.map((m) => m.id))
+      const knownMsgids = new Set(live.map((m) => m.msgid).filter(Boolean))
+      const merged = [
+        ...restored.filter((m) => !knownIds.has(m.id) && !(m.msgid && knownMsgids.has(m.msgid))),
+        ...live,
+      ]
+      merged.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+      newMessages.set(channelId, merged.slice(-MAX_BUFFER_MESSAGES))
+      return { messages: newMessages }
+    })
+  },
 })
@@ -1,7 +1,10 @@
-import type { Channel, PrivateChat, Server } from '@/types'
+import type { BufferNotifyLevel, Channel, IgnoreRule, PrivateChat, Server, User } from '@/types'
 import type { StateCreator } from 'zustand'
 import { getDatabase } from '../../services/database'
 import { keyManager } from '../../services/keyManager'
+import { parseFallbackEncoding } from '../../lib/nodeTcpSocket'
+import { deterministicChannelId } from '../../utils/bootstrapServer'
+import { isSilenced } from '../../utils/notifications'
 import type { AppStore } from '@/store'
 
 export interface ServersSlice {
@@ -22,10 +25,29 @@ export interface ServersSlice {
   reorderServer: (serverId: string, direction: 'up' | 'down') => void
   reorderChannel: (serverId: string, channelId: string, direction: 'up' | 'down') => void
   updateUserAccount: (serverId: string, nick: string, account: string | undefined) => void
+  /** Patch a nick's entry in every channel member list of the server */
+  updateUser: (serverId: string, nick: string, updates: Partial<User>) => void
+  addIgnore: (serverId: string, rule: IgnoreRule) => void
+  removeIgnore: (serverId: string, mask: string) => boolean
+  /** Returns false when the nick is already watched */
+  addMonitor: (serverId: string, nick: string) => boolean
+  removeMonitor: (serverId: string, nick: string) => boolean
+  /** Merge presence updates for watched nicks; null forgets all of them */
+  setMonitorStatus: (serverId: string, status: Record<string, boolean> | null) => void
+  /**
+   * Channel names from the last LIST reply per server, busiest first; completes /join.
+   * Each front end keeps its own, as it's the one that asked.
+   */
+  listedChannels: Record<string, string[]>
+  /** Remember the channels a LIST reply named */
+  setListedChannels: (serverId: string, channels: string[]) => void
+  /** Set the notify level of a channel or private chat by name; null goes back to the default */
+  setNotifyLevel: (serverId: string, name: string, level: BufferNotifyLevel | null) => void
 }
 
 export const createServersSlice: StateCreator<AppStore, [], [], ServersSlice> = (set, get) => ({
   servers: [],
+  listedChannels: {},
 
   addServer: (server, persist = true) => {
     set((state) => ({
@@ -69,13 +91,28 @@ export const createServersSlice: StateCreator<AppStore, [], [], ServersSlice> =
         channels: _ch,
         privateChats: _pc,
         capabilities: _caps,
+        ignores: _ignores,
+        monitors: _monitors,
+        monitorOnline: _monitorOnline,
+        notifyLevels: _notifyLevels,
         saslPassword,
         saslUsername,
+        acceptInvalidCert,
+        tlsFingerprint,
+        clientCert,
+        clientKey,
+        fallbackEncoding,
         ...rest
       } = updates as any
       const dbUpdates: Record<string, unknown> = { ...rest }
       // Remap camelCase fields to their snake_case column names
       if (saslUsername !== undefined) dbUpdates.sasl_account = saslUsername
+      if (acceptInvalidCert !== undefined) dbUpdates.accept_invalid_cert = acceptInvalidCert ? 1 : 0
+      if (tlsFingerprint !== undefined) dbUpdates.tls_fingerprint = tlsFingerprint || null
+      if (clientCert !== undefined) dbUpdates.client_cert = clientCert || null
+      if (clientKey !== undefined) dbUpdates.client_key = clientKey || null
+      // An explicit undefined clears the charset (no empty-string sentinel for a union type)
+      if ('fallbackEncoding' in updates) dbUpdates.fallback_encoding = fallbackEncoding ?? null
       if (saslPassword !== undefined && !globalThis.__DO_NOT_STORE_PASSWORD__) {
         dbUpdates.sasl_password =
           keyManager.isAvailable() && saslPassword ? keyManager.encrypt(saslPassword) : saslPassword
@@ -99,9 +136,10 @@ export const createServersSlice: StateCreator<AppStore, [], [], ServersSlice> =
   },
 
   removeServer: (id) => {
-    set((state) => ({
-      servers: state.servers.filter((s) => s.id !== id),
-    }))
+    set((state) => {
+      const { [id]: _listed, ...listedChannels } = state.listedChannels
+      return { servers: state.servers.filter((s) => s.id !== id), listedChannels }
+    })
 
     try {
       const db = getDatabase()
@@ -272,7 +310,9 @@ export const createServersSlice: StateCreator<AppStore, [], [], ServersSlice> =
     }
   },
 
-  updateUserAccount: (serverId, nick, account) => {
+  updateUserAccount: (serverId, nick, account) => get().updateUser(serverId, nick, { account }),
+
+  updateUser: (serverId, nick, updates) => {
     const lowerNick = nick.toLowerCase()
     set((state) => ({
       servers: state.servers.map((s) => {
@@ -287,7 +327,7 @@ export const createServersSlice: StateCreator<AppStore, [], [], ServersSlice> =
             return {
               ...c,
               users: c.users.map((u) =>
-                (u.nickname ?? u.username).toLowerCase() === lowerNick ? { ...u, account } : u
+                (u.nickname ?? u.username).toLowerCase() === lowerNick ? { ...u, ...updates } : u
               ),
             }
           }),
@@ -334,6 +374,11 @@ export const createServersSlice: StateCreator<AppStore, [], [], ServersSlice> =
           host: ps.host,
           port: ps.port,
           ssl: Boolean(ps.ssl),
+          acceptInvalidCert: Boolean(ps.accept_invalid_cert),
+          tlsFingerprint: ps.tls_fingerprint || undefined,
+          clientCert: ps.client_cert || undefined,
+          clientKey: ps.client_key || undefined,
+          fallbackEncoding: parseFallbackEncoding(ps.fallback_encoding),
           nickname: ps.nickname,
           username: ps.username || undefined,
           realname: ps.realname || undefined,
@@ -343,11 +388,20 @@ export const createServersSlice: StateCreator<AppStore, [], [], ServersSlice> =
           connectionState: 'disconnected' as const,
           channels,
           privateChats: [],
+          ignores: db.getIgnores(ps.id),
+          monitors: db.getMonitors(ps.id),
+          notifyLevels: db.getNotifyLevels(ps.id),
         }
       })
 
       set({ servers })
 
+      // Restore each channel's backlog from the message log
+      const { loadPersistedMessages } = get()
+      for (const server of servers) {
+        for (const channel of server.channels) loadPersistedMessages(channel.id)
+      }
+
       // Auto-focus the first server/channel so the app never lands on the blank screen
       const { currentServerId, setCurrentServer, setCurrentChannel } = get()
       if (!currentServerId && servers.length > 0) {
@@ -359,4 +413,125 @@ export const createServersSlice: StateCreator<AppStore, [], [], ServersSlice> =
       console.error('Failed to load persisted servers:', error)
     }
   },
+
+  addIgnore: (serverId, rule) => {
+    const sameMask = (r: IgnoreRule) => r.mask.toLowerCase() === rule.mask.toLowerCase()
+    set((state) => ({
+      servers: state.servers.map((s) =>
+        s.id === serverId
+          ? { ...s, ignores: [...(s.ignores ?? []).filter((r) => !sameMask(r)), rule] }
+          : s
+      ),
+    }))
+    try {
+      getDatabase().saveIgnore(serverId, rule)
+    } catch (error) {
+      debugLog?.('Failed to persist ignore:', error)
+    }
+  },
+
+  removeIgnore: (serverId, mask) => {
+    const existing = get()
+      .getServer(serverId)
+      ?.ignores?.find((r) => r.mask.toLowerCase() === mask.toLowerCase())
+    if (!existing) return false
+    set((state) => ({
+      servers: state.servers.map((s) =>
+        s.id === serverId ? { ...s, ignores: s.ignores?.filter((r) => r !== existing) } : s
+      ),
+    }))
+    try {
+      getDatabase().deleteIgnore(serverId, existing.mask)
+    } catch (error) {
+      debugLog?.('Failed to remove ignore:', error)
+    }
+    return true
+  },
+
+  addMonitor: (serverId, nick) => {
+    const server = get().getServer(serverId)
+    if (!server || server.monitors?.some((m) => m.toLowerCase() === nick.toLowerCase())) {
+      return false
+    }
+    set((state) => ({
+      servers: state.servers.map((s) =>
+        s.id === serverId ? { ...s, monitors: [...(s.monitors ?? []), nick] } : s
+      ),
+    }))
+    try {
+      getDatabase().saveMonitor(serverId, nick)
+    } catch (error) {
+      debugLog?.('Failed to persist monitor:', error)
+    }
+    return true
+  },
+
+  removeMonitor: (serverId, nick) => {
+    const existing = get()
+      .getServer(serverId)
+      ?.monitors?.find((m) => m.toLowerCase() === nick.toLowerCase())
+    if (!existing) return false
+    set((state) => ({
+      servers: state.servers.map((s) => {
+        if (s.id !== serverId) return s
+        const { [existing.toLowerCase()]: _dropped, ...monitorOnline } = s.monitorOnline ?? {}
+        return { ...s, monitors: s.monitors?.filter((m) => m !== existing), monitorOnline }
+      }),
+    }))
+    try {
+      getDatabase().deleteMonitor(serverId, existing)
+    } catch (error) {
+      debugLog?.('Failed to remove monitor:', error)
+    }
+    return true
+  },
+
+  setMonitorStatus: (serverId, status) =>
+    set((state) => ({
+      servers: state.servers.map((s) =>
+        s.id === serverId
+          ? { ...s, monitorOnline: status ? { ...s.monitorOnline, ...status } : undefined }
+          : s
+      ),
+    })),
+
+  setListedChannels: (serverId, channels) =>
+    set((state) => ({ listedChannels: { ...state.listedChannels, [serverId]: channels } })),
+
+  setNotifyLevel: (serverId, name, level) => {
+    const server = get().getServer(serverId)
+    if (!server) return
+    const key = name.toLowerCase()
+    const { [key]: _previous, ...rest } = server.notifyLevels ?? {}
+    const notifyLevels = level ? { ...rest, [key]: level } : rest
+    // Silencing also clears what the buffer has already piled up
+    const clear = isSilenced(level) ? { unreadCount: 0, isMentioned: false } : {}
+    set((state) => ({
+      servers: state.servers.map((s) =>
+        s.id === serverId
+          ? {
+              ...s,
+              notifyLevels,
+              channels: s.channels.map((c) =>
+                c.name.toLowerCase() === key ? { ...c, ...clear } : c
+              ),
+              privateChats: s.privateChats.map((pc) =>
+                pc.username.toLowerCase() === key ? { ...pc, ...clear } : pc
+              ),
+            }
+          : s
+      ),
+    }))
+    const channel = server.channels.find((c) => c.name.toLowerCase() === key)
+    try {
+      getDatabase().saveNotifyLevel(
+        serverId,
+        channel?.id ?? deterministicChannelId(serverId, name),
+        channel?.name ?? name,
+        level
+      )
+    } catch (error) {
+      debugLog?.('Failed to persist notify level:', error)
+    }
+  },
 })
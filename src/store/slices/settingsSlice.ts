@@ -1,26 +1,140 @@
-import type { Settings } from '@/types'
+import type { HighlightRule, NotifyLevel, NotifyMethod, Settings } from '@/types'
 import type { StateCreator } from 'zustand'
+import { getDatabase } from '../../services/database'
+import { DEFAULT_TIMESTAMP_FORMAT, validateTimeFormat } from '@/utils/timeFormat'
+import { NOTIFY_LEVELS, NOTIFY_METHODS, validateQuietHours } from '@/utils/notifications'
+
+interface StoredSetting<T> {
+  defaultValue: T
+  /** Rejects values hand-edited into the table that the code can't use */
+  isValid?: (value: T) => boolean
+}
+
+/** Settings kept in the settings table, keyed by their name in the store */
+export const STORED_SETTINGS = {
+  timestampFormat: {
+    defaultValue: DEFAULT_TIMESTAMP_FORMAT,
+    isValid: (format) => !validateTimeFormat(format),
+  } as StoredSetting<string>,
+  compactMode: { defaultValue: false } as StoredSetting<boolean>,
+  notifyMethod: {
+    defaultValue: 'auto',
+    isValid: (method) => NOTIFY_METHODS.includes(method),
+  } as StoredSetting<NotifyMethod>,
+  notifyCommand: { defaultValue: '' } as StoredSetting<string>,
+  notifyQuietHours: {
+    defaultValue: '',
+    isValid: (text) => !text || !validateQuietHours(text),
+  } as StoredSetting<string>,
+  notifyChannels: {
+    defaultValue: 'mentions',
+    isValid: (level) => NOTIFY_LEVELS.includes(level),
+  } as StoredSetting<NotifyLevel>,
+  notifyPrivate: {
+    defaultValue: 'all',
+    isValid: (level) => NOTIFY_LEVELS.includes(level),
+  } as StoredSetting<NotifyLevel>,
+  markdownInput: { defaultValue: true } as StoredSetting<boolean>,
+  spellCheck: { defaultValue: false } as StoredSetting<boolean>,
+  spellLanguage: { defaultValue: '' } as StoredSetting<string>,
+}
+
+export type StoredSettingKey = keyof typeof STORED_SETTINGS
 
 export interface SettingsSlice extends Settings {
   updateSettings: (settings: Partial<Settings>) => void
-  addHighlight: (term: string) => void
-  removeHighlight: (term: string) => void
+  /** Change a stored setting and remember it */
+  setSetting: <K extends StoredSettingKey>(key: K, value: Settings[K]) => void
+  /** Go back to a stored setting's default */
+  resetSetting: (key: StoredSettingKey) => void
+  loadSettings: () => void
+  addHighlight: (rule: HighlightRule) => void
+  removeHighlight: (pattern: string, channel?: string) => boolean
+  loadHighlights: () => void
 }
 
-export const createSettingsSlice: StateCreator<SettingsSlice> = (set) => ({
+const sameRule = (rule: HighlightRule, pattern: string, channel?: string) =>
+  rule.pattern === pattern && (rule.channel ?? '') === (channel ?? '')
+
+export const createSettingsSlice: StateCreator<SettingsSlice> = (set, get) => ({
   theme: 'dark',
-  compactMode: false,
+  compactMode: STORED_SETTINGS.compactMode.defaultValue,
   showTimestamps: true,
-  timestampFormat: 'HH:mm:ss',
+  timestampFormat: STORED_SETTINGS.timestampFormat.defaultValue,
   highlights: [],
+  notifyMethod: STORED_SETTINGS.notifyMethod.defaultValue,
+  notifyCommand: STORED_SETTINGS.notifyCommand.defaultValue,
+  notifyQuietHours: STORED_SETTINGS.notifyQuietHours.defaultValue,
+  notifyChannels: STORED_SETTINGS.notifyChannels.defaultValue,
+  notifyPrivate: STORED_SETTINGS.notifyPrivate.defaultValue,
+  markdownInput: STORED_SETTINGS.markdownInput.defaultValue,
+  spellCheck: STORED_SETTINGS.spellCheck.defaultValue,
+  spellLanguage: STORED_SETTINGS.spellLanguage.defaultValue,
 
   updateSettings: (settings) => set(settings),
-  addHighlight: (term) =>
+  setSetting: (key, value) => {
+    set({ [key]: value })
+    try {
+      getDatabase().saveSetting(key, value)
+    } catch (error) {
+      debugLog?.('Failed to persist setting:', error)
+    }
+  },
+  resetSetting: (key) => {
+    set({ [key]: STORED_SETTINGS[key].defaultValue })
+    try {
+      getDatabase().deleteSetting(key)
+    } catch (error) {
+      debugLog?.('Failed to reset setting:', error)
+    }
+  },
+  loadSettings: () => {
+    try {
+      const saved = getDatabase().getSettings()
+      const loaded: Partial<Settings> = {}
+      for (const [key, setting] of Object.entries(STORED_SETTINGS)) {
+        const value = saved[key]
+        if (typeof value !== typeof setting.defaultValue) continue
+        const isValid = setting.isValid as ((v: unknown) => boolean) | undefined
+        if (isValid && !isValid(value)) continue
+        Object.assign(loaded, { [key]: value })
+      }
+      set(loaded)
+    } catch (error) {
+      debugLog?.('Failed to load settings:', error)
+    }
+  },
+  addHighlight: (rule) => {
+    // Re-adding a pattern for the same scope replaces it (e.g. switching to regex)
     set((state) => ({
-      highlights: [...state.highlights, term],
-    })),
-  removeHighlight: (term) =>
+      highlights: [
+        ...state.highlights.filter((h) => !sameRule(h, rule.pattern, rule.channel)),
+        rule,
+      ],
+    }))
+    try {
+      getDatabase().saveHighlight(rule)
+    } catch (error) {
+      debugLog?.('Failed to persist highlight:', error)
+    }
+  },
+  removeHighlight: (pattern, channel) => {
+    if (!get().highlights.some((h) => sameRule(h, pattern, channel))) return false
     set((state) => ({
-      highlights: state.highlights.filter((h) => h !== term),
-    })),
+      highlights: state.highlights.filter((h) => !sameRule(h, pattern, channel)),
+    }))
+    try {
+      getDatabase().deleteHighlight(pattern, channel)
+    } catch (error) {
+      debugLog?.('Failed to remove highlight:', error)
+    }
+    return true
+  },
+  loadHighlights: () => {
+    try {
+      set({ highlights: getDatabase().getHighlights() })
+    } catch (error) {
+      debugLog?.('Failed to load highlights:', error)
+    }
+  },
 })
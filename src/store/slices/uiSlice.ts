@@ -1,7 +1,10 @@
-import type { Message, UIState } from '@/types'
+import type { InputDraft, Message, UIState } from '@/types'
 import type { StateCreator } from 'zustand'
 import type { AppStore } from '@/store'
 import { getDatabase } from '@/services/database'
+import { MENTIONS_BUFFER_ID } from '@/utils/highlights'
+import { historyKey, INPUT_HISTORY_LIMIT, isSecretInput, pushHistory } from '@/utils/inputHistory'
+import { applyTheme, DEFAULT_THEME, getTheme } from '@/utils/themes'
 
 export interface UISlice extends UIState {
   openModal: (modalId: string) => void
@@ -11,17 +14,38 @@ export interface UISlice extends UIState {
   toggleServerPane: () => void
   toggleUserPane: () => void
   toggleShowTimestamps: () => void
+  /** Switch to a theme by name and remember it; false if there's no such theme */
+  setTheme: (name: string) => boolean
   loadPersistedUIState: () => void
   setSelectedMessage: (message: Message | null) => void
   setReplyingTo: (message: Message | null) => void
   setTerminalDimensions: (width: number, height: number) => void
   setCurrentServer: (serverId: string | null) => void
   setCurrentChannel: (channelId: string | null) => void
+  /** Switch to the message's own buffer and select it there */
+  jumpToMessage: (message: Message) => void
   setQuitWarning: (msg: string | null) => void
   setInputLineCount: (n: number) => void
+  setFormatPreview: (text: string | null) => void
+  setCompletion: (completion: UIState['completion']) => void
   toggleExpandMultilines: () => void
   setModalError: (error: string | null) => void
   setMessageSearch: (s: UIState['messageSearch']) => void
+  /** Keep a buffer's unsent input while another is shown; an empty draft is dropped */
+  saveDraft: (bufferId: string, draft: InputDraft) => void
+  /** Remove and return a buffer's draft */
+  takeDraft: (bufferId: string) => InputDraft | undefined
+  /** Read a buffer's input history from the database the first time it's needed */
+  loadInputHistory: (serverId: string, bufferName?: string) => void
+  /** Remember a sent line; lines carrying passwords aren't written to disk */
+  addInputHistory: (serverId: string, bufferName: string | undefined, line: string) => void
+}
+
+function persistUIState(state: AppStore) {
+  const { showServerPane, showUserPane, showTimestamps } = state
+  // The default theme isn't stored, so a saved choice always means one away from it
+  const theme = state.theme === DEFAULT_THEME ? null : state.theme
+  getDatabase().saveUIState({ showServerPane, showUserPane, showTimestamps, theme })
 }
 
 export const createUISlice: StateCreator<AppStore, [], [], UISlice> = (set, get) => ({
@@ -42,6 +66,10 @@ export const createUISlice: StateCreator<AppStore, [], [], UISlice> = (set, get)
   expandMultilines: false,
   modalError: null,
   messageSearch: null,
+  drafts: new Map(),
+  inputHistory: new Map(),
+  formatPreview: null,
+  completion: null,
 
   openModal: (modalId) => set({ activeModal: modalId }),
   closeModal: () => set({ activeModal: null }),
@@ -49,22 +77,30 @@ export const createUISlice: StateCreator<AppStore, [], [], UISlice> = (set, get)
   setFocusedChannel: (channelId) => set({ focusedChannel: channelId }),
   toggleServerPane: () => {
     set((state) => ({ showServerPane: !state.showServerPane }))
-    const { showServerPane, showUserPane, showTimestamps } = get()
-    getDatabase().saveUIState({ showServerPane, showUserPane, showTimestamps })
+    persistUIState(get())
   },
   toggleUserPane: () => {
     set((state) => ({ showUserPane: !state.showUserPane }))
-    const { showServerPane, showUserPane, showTimestamps } = get()
-    getDatabase().saveUIState({ showServerPane, showUserPane, showTimestamps })
+    persistUIState(get())
   },
   toggleShowTimestamps: () => {
     set((state) => ({ showTimestamps: !state.showTimestamps }))
-    const { showServerPane, showUserPane, showTimestamps } = get()
-    getDatabase().saveUIState({ showServerPane, showUserPane, showTimestamps })
+    persistUIState(get())
+  },
+  setTheme: (name) => {
+    const theme = getTheme(name)
+    if (!theme) return false
+    applyTheme(theme)
+    set({ theme: theme.name })
+    persistUIState(get())
+    return true
   },
   loadPersistedUIState: () => {
-    const saved = getDatabase().getUIState()
-    if (saved) set(saved)
+    const { theme: savedTheme, ...saved } = getDatabase().getUIState() ?? {}
+    // A saved user theme may since have been deleted
+    const theme = getTheme(savedTheme ?? DEFAULT_THEME) ?? getTheme(DEFAULT_THEME)!
+    applyTheme(theme)
+    set({ ...saved, theme: theme.name })
   },
   setSelectedMessage: (message) =>
     set(
@@ -73,15 +109,71 @@ export const createUISlice: StateCreator<AppStore, [], [], UISlice> = (set, get)
         : { selectedMessage: message }
     ),
   setReplyingTo: (message) => set({ replyingTo: message }),
+  jumpToMessage: (message) => {
+    const { setCurrentServer, setCurrentChannel } = get()
+    setCurrentServer(message.serverId)
+    setCurrentChannel(message.channelId)
+    const target = (get().messages.get(message.channelId) ?? []).find(
+      (m) => m.id === message.id || (!!message.msgid && m.msgid === message.msgid)
+    )
+    if (target) set({ selectedMessage: target })
+  },
   setQuitWarning: (msg) => set({ quitWarning: msg }),
   setInputLineCount: (n) => set({ inputLineCount: n }),
+  setFormatPreview: (text) => set({ formatPreview: text }),
+  setCompletion: (completion) => set({ completion }),
   toggleExpandMultilines: () => set((state) => ({ expandMultilines: !state.expandMultilines })),
   setModalError: (error) => set({ modalError: error }),
   setMessageSearch: (s) => set({ messageSearch: s }),
+  saveDraft: (bufferId, draft) => {
+    const drafts = new Map(get().drafts)
+    if (draft.text || draft.replyingTo) drafts.set(bufferId, draft)
+    else drafts.delete(bufferId)
+    set({ drafts })
+  },
+  takeDraft: (bufferId) => {
+    const draft = get().drafts.get(bufferId)
+    if (draft) {
+      const drafts = new Map(get().drafts)
+      drafts.delete(bufferId)
+      set({ drafts })
+    }
+    return draft
+  },
+  loadInputHistory: (serverId, bufferName) => {
+    const key = historyKey(serverId, bufferName)
+    if (get().inputHistory.has(key)) return
+    // Nothing is stored before a server is picked
+    const buffer = bufferName?.toLowerCase() ?? ''
+    let lines: string[] = []
+    try {
+      if (serverId) lines = getDatabase().getInputHistory(serverId, buffer, INPUT_HISTORY_LIMIT)
+    } catch (error) {
+      debugLog?.('Failed to load input history:', error)
+    }
+    set({ inputHistory: new Map(get().inputHistory).set(key, lines) })
+  },
+  addInputHistory: (serverId, bufferName, line) => {
+    const key = historyKey(serverId, bufferName)
+    const history = pushHistory(get().inputHistory.get(key) ?? [], line)
+    set({ inputHistory: new Map(get().inputHistory).set(key, history) })
+    if (serverId && !isSecretInput(line, bufferName)) {
+      const buffer = bufferName?.toLowerCase() ?? ''
+      try {
+        getDatabase().addInputHistory(serverId, buffer, line, INPUT_HISTORY_LIMIT)
+      } catch (error) {
+        debugLog?.('Failed to persist input history:', error)
+      }
+    }
+  },
   setTerminalDimensions: (width, height) => set({ terminalWidth: width, terminalHeight: height }),
   setCurrentServer: (serverId) => set({ currentServerId: serverId }),
   setCurrentChannel: (channelId) => {
     set({ currentChannelId: channelId, selectedMessage: null, messageSearch: null })
+    if (channelId === MENTIONS_BUFFER_ID) {
+      set({ unreadMentions: 0 })
+      return
+    }
     if (channelId) {
       const { servers, updateChannel, updatePrivateChat } = get()
       for (const server of servers) {
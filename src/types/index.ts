@@ -1,12 +1,33 @@
 import type { CliRenderer } from '@opentui/core'
 import type { IRCClient } from '../../ObsidianIRC/src/lib/ircClient'
 
+/** Charsets tried for incoming lines that aren't valid UTF-8 */
+export type FallbackEncoding = 'latin1' | 'cp1252'
+
+export type IgnoreType = 'messages' | 'notices' | 'ctcp' | 'joins' | 'reactions' | 'typing'
+
+export interface IgnoreRule {
+  /** nick!user@host glob, or $a:account to match a services account */
+  mask: string
+  types: IgnoreType[]
+}
+
 export interface Server {
   id: string
   name: string
   host: string
   port: number
   ssl?: boolean
+  /** Connect even when the TLS certificate fails verification */
+  acceptInvalidCert?: boolean
+  /** SHA-256 fingerprint pinned on first use when acceptInvalidCert is set */
+  tlsFingerprint?: string
+  /** Path to a PEM client certificate presented for SASL EXTERNAL (CertFP) */
+  clientCert?: string
+  /** Path to the certificate's private key; defaults to clientCert for combined PEMs */
+  clientKey?: string
+  /** Decode non-UTF-8 lines with this charset instead of replacement characters */
+  fallbackEncoding?: FallbackEncoding
   nickname: string
   username?: string
   realname?: string
@@ -18,6 +39,13 @@ export interface Server {
   channels: Channel[]
   privateChats: PrivateChat[]
   capabilities?: string[]
+  ignores?: IgnoreRule[]
+  /** Nicks watched with MONITOR (or polled with ISON) */
+  monitors?: string[]
+  /** Presence of watched nicks by lowercased nick; absent until the server has told us */
+  monitorOnline?: Record<string, boolean>
+  /** Levels set with /notify, by lowercased channel name or nick */
+  notifyLevels?: Record<string, BufferNotifyLevel>
 }
 
 export interface PrivateChat {
@@ -52,6 +80,8 @@ export interface User {
   status?: string
   account?: string
   realname?: string
+  /** nick!user@host, once seen in a JOIN or CHGHOST */
+  hostmask?: string
 }
 
 export interface Message {
@@ -83,6 +113,14 @@ export interface Message {
   mentioned: string[]
   isMultiline?: boolean
   lines?: string[]
+  /** Set when a `+draft/edit` replaced the content; originalContent keeps the first version */
+  editedAt?: Date
+  originalContent?: string
+  /** Our own edit is shown but the server hasn't echoed it back yet; holds what it replaced */
+  editPending?: Pick<Message, 'content' | 'lines' | 'isMultiline' | 'editedAt' | 'originalContent'>
+  /** REDACTed messages keep only a tombstone; content and reactions are cleared */
+  redacted?: boolean
+  redactReason?: string
 }
 
 export interface ActionContext<TStore = unknown> {
@@ -136,12 +174,57 @@ export interface UIState {
   expandMultilines: boolean
   modalError: string | null
   messageSearch: { query: string; matchIds: string[]; currentIndex: number; typing: boolean } | null
+  /** Unsent input of the buffers not being shown, by buffer id */
+  drafts: Map<string, InputDraft>
+  /** Lines sent from each buffer, oldest first, by `historyKey` */
+  inputHistory: Map<string, string[]>
+  /** The input as it will be sent, while it carries any formatting */
+  formatPreview: string | null
+  /** Tab completion candidates shown above the input, and the one inserted */
+  completion: { choices: string[]; index: number } | null
+}
+
+/** What was being typed in a buffer when another one was switched to */
+export interface InputDraft {
+  text: string
+  replyingTo: Message | null
+}
+
+export interface HighlightRule {
+  pattern: string
+  /** Treat pattern as a regular expression instead of a whole-word term */
+  regex: boolean
+  /** Channel name the rule is limited to; unset applies to every buffer */
+  channel?: string
 }
 
+/** Which messages in a buffer raise a desktop notification */
+export type NotifyLevel = 'all' | 'mentions' | 'none'
+
+/** A level set on one buffer with /notify; muted also hides its unread and mention markers */
+export type BufferNotifyLevel = NotifyLevel | 'muted'
+
+/** How notifications reach the terminal; 'auto' picks one from the environment */
+export type NotifyMethod = 'auto' | 'bell' | 'osc9' | 'osc777' | 'osc99' | 'none'
+
 export interface Settings {
-  theme: 'dark' | 'light'
+  /** Name of a built-in or user theme (utils/themes) */
+  theme: string
   compactMode: boolean
   showTimestamps: boolean
   timestampFormat: string
-  highlights: string[]
+  highlights: HighlightRule[]
+  notifyMethod: NotifyMethod
+  /** External program run for each notification; empty for none */
+  notifyCommand: string
+  /** `HH:MM-HH:MM` window with no notifications; empty for none */
+  notifyQuietHours: string
+  notifyChannels: NotifyLevel
+  notifyPrivate: NotifyLevel
+  /** Send *bold*, _italic_ and `code` as IRC formatting */
+  markdownInput: boolean
+  /** Underline misspelled words in the input */
+  spellCheck: boolean
+  /** Dictionary name (e.g. en_GB) or path to a .dic file; empty for the locale's */
+  spellLanguage: string
 }
@@ -20,7 +20,8 @@ export async function autoConnectServers(ircClient: IRCClient) {
         server.password,
         server.saslUsername,
         server.saslPassword,
-        server.id
+        server.id,
+        server
       )
 
       debugLog?.(`Connect call completed for ${server.name}`)
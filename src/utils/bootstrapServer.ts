@@ -28,11 +28,15 @@ export function bootstrapServer(args: CliServerArgs): void {
   const existing = db.getAllServers().find((s) => s.host === args.host && s.port === args.port)
 
   if (existing) {
+    // --ssl upgrades a server that was saved as plaintext; it never downgrades
+    if (args.ssl && !existing.ssl) db.updateServer(existing.id, { ssl: true })
+
     // Server already in DB — only add channels that aren't there yet
     const persisted = db.getChannelsForServer(existing.id)
     for (const ch of args.channels) {
       const name = ch.startsWith('#') ? ch : `#${ch}`
-      if (!persisted.find((c) => c.name === name)) {
+      // A parted channel may still have a row, kept for its notify level
+      if (!persisted.find((c) => c.name === name && c.auto_join)) {
         const id = deterministicChannelId(existing.id, name)
         db.saveChannel({ id, name, serverId: existing.id } as Channel, existing.id)
       }
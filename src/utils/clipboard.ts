@@ -1,5 +1,6 @@
 import { spawnSync } from 'child_process'
 import clipboard from 'clipboardy'
+import { wrapForTmux } from './terminal'
 
 function writePlatformClipboard(text: string): boolean {
   let cmd: string
@@ -26,11 +27,7 @@ function writePlatformClipboard(text: string): boolean {
 
 function writeOSC52(text: string): void {
   const base64 = Buffer.from(text).toString('base64')
-  if (process.env.TMUX) {
-    process.stderr.write(`\x1bPtmux;\x1b\x1b]52;c;${base64}\x07\x1b\\`)
-  } else {
-    process.stderr.write(`\x1b]52;c;${base64}\x07`)
-  }
+  process.stderr.write(wrapForTmux(`\x1b]52;c;${base64}\x07`))
 }
 
 export function copyToClipboard(text: string): boolean {
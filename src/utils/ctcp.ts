@@ -0,0 +1,70 @@
+/**
+ * CTCP (Client-To-Client Protocol) helpers.
+ *
+ * CTCP messages are PRIVMSGs (requests) or NOTICEs (replies) whose text is
+ * wrapped in \x01 delimiters: `\x01VERSION\x01`, `\x01PING 1700000000000\x01`.
+ */
+
+/** Requests we answer, advertised verbatim in the CLIENTINFO reply */
+export const CTCP_COMMANDS = ['ACTION', 'CLIENTINFO', 'PING', 'SOURCE', 'TIME', 'VERSION']
+
+export const SOURCE_URL = 'https://github.com/ObsidianIRC/tobby'
+
+export interface CtcpMessage {
+  command: string
+  params: string
+}
+
+/** Split a CTCP message into its command and parameters; null for ordinary text */
+export function parseCtcp(text: string): CtcpMessage | null {
+  if (!text.startsWith('\x01')) return null
+  // The closing delimiter is optional in practice
+  const body = text.endsWith('\x01') && text.length > 1 ? text.slice(1, -1) : text.slice(1)
+  const space = body.indexOf(' ')
+  const command = (space === -1 ? body : body.slice(0, space)).toUpperCase()
+  if (!command) return null
+  return { command, params: space === -1 ? '' : body.slice(space + 1) }
+}
+
+export function formatCtcp(command: string, params?: string): string {
+  return params ? `\x01${command.toUpperCase()} ${params}\x01` : `\x01${command.toUpperCase()}\x01`
+}
+
+/**
+ * The reply body for a request we answer, or null when we stay silent.
+ * ACTION is never answered — it's a message, not a query.
+ */
+export function ctcpReply(request: CtcpMessage, now = new Date()): string | null {
+  switch (request.command) {
+    case 'VERSION':
+      return formatCtcp('VERSION', `tobby ${globalThis.__APP_VERSION__ ?? 'dev'}`)
+    case 'PING':
+      return formatCtcp('PING', request.params)
+    case 'TIME':
+      return formatCtcp('TIME', now.toString())
+    case 'CLIENTINFO':
+      return formatCtcp('CLIENTINFO', CTCP_COMMANDS.join(' '))
+    case 'SOURCE':
+      return formatCtcp('SOURCE', SOURCE_URL)
+    default:
+      return null
+  }
+}
+
+/**
+ * Allow at most `limit` events per `windowMs` for each key. Returns a check
+ * that records the event and reports whether it's within the limit.
+ */
+export function createRateLimiter(limit: number, windowMs: number) {
+  const events = new Map<string, number[]>()
+  return (key: string, now = Date.now()): boolean => {
+    const recent = (events.get(key) ?? []).filter((t) => now - t < windowMs)
+    if (recent.length >= limit) {
+      events.set(key, recent)
+      return false
+    }
+    recent.push(now)
+    events.set(key, recent)
+    return true
+  }
+}
@@ -0,0 +1,329 @@
+/**
+ * Wire protocol between `tobby --daemon` and `tobby --attach`.
+ *
+ * Frames are newline-delimited JSON over a Unix socket. The daemon owns the
+ * IRC connections and the network half of the store; attached front ends get
+ * a full snapshot on connect and then patches of whatever changed. Front ends
+ * never mutate that state themselves — store actions and IRC client calls are
+ * forwarded to the daemon and come back as patches.
+ */
+import type { AppStore } from '@/store'
+import type { Message, Server } from '@/types'
+import type { NotificationEvent } from './notifications'
+
+/** Store keys owned by the daemon and mirrored into every attached front end */
+export const SYNCED_KEYS = [
+  'servers',
+  'messages',
+  'unreadMentions',
+  'typingUsers',
+  'historyStatus',
+  'highlights',
+] as const
+
+export type SyncedKey = (typeof SYNCED_KEYS)[number]
+export type SyncedState = Pick<AppStore, SyncedKey>
+
+/** Store actions an attached front end runs on the daemon instead of locally */
+export const REMOTE_ACTIONS = [
+  'addServer',
+  'updateServer',
+  'removeServer',
+  'addChannel',
+  'updateChannel',
+  'removeChannel',
+  'addPrivateChat',
+  'updatePrivateChat',
+  'removePrivateChat',
+  'reorderServer',
+  'reorderChannel',
+  'updateUserAccount',
+  'updateUser',
+  'addIgnore',
+  'removeIgnore',
+  'addMonitor',
+  'removeMonitor',
+  'setMonitorStatus',
+  'setNotifyLevel',
+  'addMessage',
+  'updateMessage',
+  'removeMessage',
+  'clearMessages',
+  'loadPersistedMessages',
+  'addMention',
+  'addHighlight',
+  'removeHighlight',
+  'setTypingUser',
+  'clearTypingUser',
+  'setHistoryStatus',
+  'requestHistory',
+  'fetchOlderHistory',
+  'monitorNicks',
+  'sendCtcp',
+  'awaitEditEcho',
+] as const satisfies readonly (keyof AppStore)[]
+
+/**
+ * Actions run both locally and on the daemon. The daemon counts unread lines
+ * against the buffer being looked at, so it needs to know which one that is.
+ */
+export const MIRRORED_ACTIONS = [
+  'setCurrentServer',
+  'setCurrentChannel',
+] as const satisfies readonly (keyof AppStore)[]
+
+export type RemoteAction = (typeof REMOTE_ACTIONS)[number] | (typeof MIRRORED_ACTIONS)[number]
+
+/**
+ * A changed buffer, in order: runs of its previous version as [start, count] and the
+ * messages that are new or changed. Messages are never patched in place, so one new
+ * line costs one message and a run. Null drops the buffer.
+ */
+export type BufferPatch = [
+  bufferId: string,
+  parts: (Message | [start: number, count: number])[] | null,
+]
+
+/** A record's changed fields, and the names of those it no longer has */
+export type RecordPatch = [id: string, fields: Record<string, unknown>, removed?: string[]]
+
+/**
+ * A list of records with ids: the ids in their new order and a patch for each record
+ * that changed. A record new to the list comes whole in its patch.
+ */
+export interface ListPatch {
+  ids: string[]
+  changed: RecordPatch[]
+}
+
+/** The servers as a whole in a snapshot, and patched field by field after that */
+type StateFields = Partial<Omit<SyncedState, 'messages' | 'servers'>> & {
+  servers?: Server[] | ListPatch
+}
+
+export type ClientFrame =
+  | { type: 'call'; id: number; target: 'store' | 'irc'; method: string; args: unknown[] }
+  | { type: 'subscribe'; event: string }
+
+export type DaemonFrame =
+  | { type: 'state'; state: StateFields; buffers: BufferPatch[] }
+  | { type: 'result'; id: number; value?: unknown; error?: string }
+  | { type: 'event'; event: string; data: unknown }
+  // A notification that passed the daemon's rules, for each front end's terminal
+  | { type: 'notify'; event: NotificationEvent }
+
+// Dates and Maps don't survive JSON on their own; tag them so the reviver can rebuild them
+function replacer(this: Record<string, unknown>, key: string, value: unknown): unknown {
+  const raw = this[key]
+  if (raw instanceof Date) return { $date: raw.toISOString() }
+  if (raw instanceof Map) return { $map: [...raw] }
+  return value
+}
+
+function reviver(_key: string, value: unknown): unknown {
+  if (value && typeof value === 'object') {
+    if ('$date' in value) return new Date((value as { $date: string }).$date)
+    if ('$map' in value) return new Map((value as { $map: [unknown, unknown][] }).$map)
+  }
+  return value
+}
+
+export function encodeFrame(frame: ClientFrame | DaemonFrame): string {
+  return `${JSON.stringify(frame, replacer)}\n`
+}
+
+/** Throws on a line that isn't a JSON object with a `type` */
+export function decodeFrame<T extends ClientFrame | DaemonFrame>(line: string): T {
+  const frame: unknown = JSON.parse(line, reviver)
+  if (
+    !frame ||
+    typeof frame !== 'object' ||
+    typeof (frame as { type?: unknown }).type !== 'string'
+  ) {
+    throw new Error('Frame is not an object with a type')
+  }
+  return frame as T
+}
+
+/**
+ * Split a socket stream into frames. Returns a feeder that takes each chunk
+ * and calls `onFrame` for every complete line. Lines that don't decode go to
+ * `onInvalid`, or are dropped without one.
+ */
+export function createFrameReader<T extends ClientFrame | DaemonFrame>(
+  onFrame: (frame: T) => void,
+  onInvalid?: (error: Error) => void
+): (chunk: Buffer | string) => void {
+  let pending = ''
+  return (chunk) => {
+    pending += chunk.toString()
+    let newline = pending.indexOf('\n')
+    while (newline !== -1) {
+      const line = pending.slice(0, newline)
+      pending = pending.slice(newline + 1)
+      newline = pending.indexOf('\n')
+      if (!line.trim()) continue
+      let frame: T
+      try {
+        frame = decodeFrame<T>(line)
+      } catch (error) {
+        onInvalid?.(error as Error)
+        continue
+      }
+      onFrame(frame)
+    }
+  }
+}
+
+export function pickSynced(state: AppStore): SyncedState {
+  return Object.fromEntries(SYNCED_KEYS.map((key) => [key, state[key]])) as SyncedState
+}
+
+type Nested = Record<string, (prev: unknown, next: unknown) => unknown>
+
+// The fields of `next` that aren't the very same as in `prev`. Fields listed in `nested`
+// are lists that are patched in turn when both versions have them.
+function diffRecord(
+  prev: object | undefined,
+  next: object,
+  nested: Nested = {}
+): [fields: Record<string, unknown>, removed: string[]] {
+  const before = (prev ?? {}) as Record<string, unknown>
+  const fields: Record<string, unknown> = {}
+  const removed: string[] = []
+  for (const [key, value] of Object.entries(next)) {
+    if (before[key] === value) continue
+    // JSON has no undefined; a field set to it is dropped on the other side
+    if (value === undefined) removed.push(key)
+    else if (nested[key] && before[key] !== undefined) fields[key] = nested[key](before[key], value)
+    else fields[key] = value
+  }
+  for (const key of Object.keys(before)) {
+    if (!(key in next) && before[key] !== undefined) removed.push(key)
+  }
+  return [fields, removed]
+}
+
+function diffList(prev: { id: string }[], next: { id: string }[], nested?: Nested): ListPatch {
+  const byId = new Map(prev.map((item) => [item.id, item]))
+  const changed: RecordPatch[] = []
+  for (const item of next) {
+    const before = byId.get(item.id)
+    if (before === item) continue
+    const [fields, removed] = diffRecord(before, item, nested)
+    changed.push(removed.length > 0 ? [item.id, fields, removed] : [item.id, fields])
+  }
+  return { ids: next.map((item) => item.id), changed }
+}
+
+function applyRecord<T>(prev: T | undefined, [, fields, removed]: RecordPatch, nested: Nested): T {
+  const next: Record<string, unknown> = { ...prev, ...fields }
+  for (const [key, apply] of Object.entries(nested)) {
+    const value = fields[key]
+    if (value !== undefined && !Array.isArray(value)) {
+      next[key] = apply((prev as Record<string, unknown> | undefined)?.[key] ?? [], value)
+    }
+  }
+  for (const key of removed ?? []) delete next[key]
+  return next as T
+}
+
+function applyList<T extends { id: string }>(
+  prev: T[],
+  patch: ListPatch,
+  nested: Nested = {}
+): T[] {
+  const byId = new Map(prev.map((item) => [item.id, item]))
+  const changed = new Map(patch.changed.map((item) => [item[0], item]))
+  return patch.ids.flatMap((id) => {
+    const item = changed.get(id)
+    const before = byId.get(id)
+    if (item) return [applyRecord(before, item, nested)]
+    return before ? [before] : []
+  })
+}
+
+// A server's channels and private chats are patched per record as well
+const serverDiffs: Nested = {
+  channels: (prev, next) => diffList(prev as { id: string }[], next as { id: string }[]),
+  privateChats: (prev, next) => diffList(prev as { id: string }[], next as { id: string }[]),
+}
+const serverPatches: Nested = {
+  channels: (prev, patch) => applyList(prev as { id: string }[], patch as ListPatch),
+  privateChats: (prev, patch) => applyList(prev as { id: string }[], patch as ListPatch),
+}
+
+function diffBuffer(prev: Message[] | undefined, next: Message[]): NonNullable<BufferPatch[1]> {
+  const index = new Map(prev?.map((message, i) => [message, i]))
+  const parts: NonNullable<BufferPatch[1]> = []
+  for (const message of next) {
+    const i = index.get(message)
+    const run = parts.at(-1)
+    if (i === undefined) parts.push(message)
+    else if (Array.isArray(run) && run[0] + run[1] === i) run[1]++
+    else parts.push([i, 1])
+  }
+  return parts
+}
+
+/**
+ * The state frame that turns `prev` into `next`, or null when nothing changed.
+ * Without `prev` every key and buffer is included whole (a snapshot).
+ */
+export function diffState(
+  prev: SyncedState | null,
+  next: SyncedState
+): Extract<DaemonFrame, { type: 'state' }> | null {
+  const state: Record<string, unknown> = {}
+  for (const key of SYNCED_KEYS) {
+    if (key === 'messages' || prev?.[key] === next[key]) continue
+    state[key] =
+      key === 'servers' && prev ? diffList(prev.servers, next.servers, serverDiffs) : next[key]
+  }
+
+  const buffers: BufferPatch[] = []
+  if (prev?.messages !== next.messages) {
+    for (const [bufferId, messages] of next.messages) {
+      const before = prev?.messages.get(bufferId)
+      if (before !== messages) buffers.push([bufferId, diffBuffer(before, messages)])
+    }
+    for (const bufferId of prev?.messages.keys() ?? []) {
+      if (!next.messages.has(bufferId)) buffers.push([bufferId, null])
+    }
+  }
+
+  if (Object.keys(state).length === 0 && buffers.length === 0) return null
+  return { type: 'state', state: state as StateFields, buffers }
+}
+
+/** Fold a state frame into the state it was diffed against */
+export function applyStateFrame(
+  current: Pick<SyncedState, 'servers' | 'messages'>,
+  frame: Extract<DaemonFrame, { type: 'state' }>
+): Partial<SyncedState> {
+  const { servers, ...rest } = frame.state
+  const next: Partial<SyncedState> = { ...rest }
+  if (servers) {
+    next.servers = Array.isArray(servers)
+      ? servers
+      : applyList(current.servers, servers, serverPatches)
+  }
+  if (frame.buffers.length > 0) {
+    const messages = new Map(current.messages)
+    for (const [bufferId, parts] of frame.buffers) {
+      if (!parts) {
+        messages.delete(bufferId)
+        continue
+      }
+      const before = current.messages.get(bufferId) ?? []
+      messages.set(
+        bufferId,
+        parts.flatMap((part) =>
+          Array.isArray(part) ? before.slice(part[0], part[0] + part[1]) : [part]
+        )
+      )
+    }
+    next.messages = messages
+  }
+  return next
+}
@@ -11,3 +11,19 @@ export const EMOJI_LIST: EmojiEntry[] = Object.entries(emojilib).map(([char, key
   name: keywords[0] ?? char,
   keywords: keywords.slice(1),
 }))
+
+/**
+ * Emoji for a `:shortcode` being typed: exact names and keywords first
+ * (`:thumbsup`, `:+1`), then names and keywords starting with it.
+ */
+export function findEmoji(query: string, limit = 20): EmojiEntry[] {
+  const wanted = query.toLowerCase().replace(/[\s-]/g, '_')
+  const tiers: EmojiEntry[][] = [[], [], [], []]
+  for (const entry of EMOJI_LIST) {
+    if (entry.name === wanted) tiers[0]!.push(entry)
+    else if (entry.keywords.includes(wanted)) tiers[1]!.push(entry)
+    else if (entry.name.startsWith(wanted)) tiers[2]!.push(entry)
+    else if (entry.keywords.some((k) => k.startsWith(wanted))) tiers[3]!.push(entry)
+  }
+  return tiers.flat().slice(0, limit)
+}
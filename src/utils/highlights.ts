@@ -0,0 +1,71 @@
+import type { HighlightRule } from '@/types'
+
+// Virtual buffer (keyed in the messages map like a channel) collecting highlighted lines
+export const MENTIONS_BUFFER_ID = 'mentions'
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/** Returns an error message when the pattern can't be used as a highlight, otherwise null */
+export function validateHighlightPattern(pattern: string, regex: boolean): string | null {
+  if (!pattern.trim()) return 'Highlight pattern cannot be empty'
+  if (!regex) return null
+  try {
+    // Patterns that can match the empty string would highlight every line
+    if (new RegExp(pattern, 'i').test('')) return 'Regex must not match an empty string'
+  } catch (error) {
+    return `Invalid regex: ${(error as Error).message}`
+  }
+  return null
+}
+
+function ruleApplies(rule: HighlightRule, channelName?: string): boolean {
+  return !rule.channel || rule.channel.toLowerCase() === channelName?.toLowerCase()
+}
+
+/**
+ * Combine the rules that apply to `channelName` into one case-insensitive global pattern.
+ * Plain terms match whole words; regex rules are used as written. Returns null when
+ * nothing applies.
+ */
+export function compileHighlights(rules: HighlightRule[], channelName?: string): RegExp | null {
+  const sources: string[] = []
+  for (const rule of rules) {
+    if (!ruleApplies(rule, channelName)) continue
+    if (!rule.regex) {
+      sources.push(`(?<![\\w])${escapeRegExp(rule.pattern)}(?![\\w])`)
+      continue
+    }
+    try {
+      new RegExp(rule.pattern)
+      sources.push(rule.pattern)
+    } catch {
+      // Rules are validated on add; skip anything that slipped through rather than throw
+    }
+  }
+  if (sources.length === 0) return null
+  try {
+    return new RegExp(sources.map((s) => `(?:${s})`).join('|'), 'gi')
+  } catch {
+    // Valid on their own but not together, e.g. two rules reusing a named group
+    return null
+  }
+}
+
+/** True when `text` mentions our nickname or matches a highlight rule for the channel */
+export function isHighlight(
+  text: string,
+  nickname: string,
+  rules: HighlightRule[],
+  channelName?: string
+): boolean {
+  if (nickname && new RegExp(`\\b${escapeRegExp(nickname)}\\b`, 'i').test(text)) return true
+  const pattern = compileHighlights(rules, channelName)
+  return !!pattern && new RegExp(pattern.source, 'i').test(text)
+}
+
+export function formatHighlightRule(rule: HighlightRule): string {
+  const pattern = rule.regex ? `/${rule.pattern}/` : rule.pattern
+  return rule.channel ? `${pattern} (in ${rule.channel})` : pattern
+}
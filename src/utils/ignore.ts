@@ -0,0 +1,81 @@
+import type { IgnoreRule, IgnoreType } from '@/types'
+
+export const IGNORE_TYPES: IgnoreType[] = [
+  'messages',
+  'notices',
+  'ctcp',
+  'joins',
+  'reactions',
+  'typing',
+]
+
+const TYPE_ALIASES: Record<string, IgnoreType> = {
+  msgs: 'messages',
+  privmsg: 'messages',
+  notice: 'notices',
+  parts: 'joins',
+  quits: 'joins',
+  react: 'reactions',
+}
+
+/**
+ * Parse the type words after the mask. No words (or `all`) means every type.
+ * Returns null when a word isn't a known type.
+ */
+export function parseIgnoreTypes(words: string[]): IgnoreType[] | null {
+  if (words.length === 0) return [...IGNORE_TYPES]
+  const types = new Set<IgnoreType>()
+  for (const word of words.flatMap((w) => w.toLowerCase().split(','))) {
+    if (!word) continue
+    if (word === 'all') return [...IGNORE_TYPES]
+    const type = TYPE_ALIASES[word] ?? IGNORE_TYPES.find((t) => t === word)
+    if (!type) return null
+    types.add(type)
+  }
+  return IGNORE_TYPES.filter((t) => types.has(t))
+}
+
+/** Expand shorthand into a full mask: `nick` → `nick!*@*`, `user@host` → `*!user@host` */
+export function normalizeIgnoreMask(input: string): string {
+  const mask = input.trim()
+  if (/^\$a:/i.test(mask)) return `$a:${mask.slice(3)}`
+  if (mask.includes('!')) return mask.includes('@') ? mask : `${mask}@*`
+  if (mask.includes('@')) return `*!${mask}`
+  return `${mask}!*@*`
+}
+
+function globToRegExp(glob: string): RegExp {
+  const source = glob
+    .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*/g, '.*')
+    .replace(/\?/g, '.')
+  return new RegExp(`^${source}$`, 'i')
+}
+
+export interface IgnoreSubject {
+  /** nick!user@host, or just the nick when user and host aren't known */
+  hostmask: string
+  account?: string
+}
+
+function matchesRule(rule: IgnoreRule, subject: IgnoreSubject): boolean {
+  if (rule.mask.startsWith('$a:')) {
+    return !!subject.account && globToRegExp(rule.mask.slice(3)).test(subject.account)
+  }
+  // An unknown user@host only matches masks that don't constrain it
+  const hostmask = subject.hostmask.includes('!') ? subject.hostmask : `${subject.hostmask}!*@*`
+  return globToRegExp(rule.mask).test(hostmask)
+}
+
+export function isIgnored(
+  rules: IgnoreRule[] | undefined,
+  subject: IgnoreSubject,
+  type: IgnoreType
+): boolean {
+  return !!rules?.some((rule) => rule.types.includes(type) && matchesRule(rule, subject))
+}
+
+export function formatIgnoreRule(rule: IgnoreRule): string {
+  const types = rule.types.length === IGNORE_TYPES.length ? 'all' : rule.types.join(', ')
+  return `${rule.mask} (${types})`
+}
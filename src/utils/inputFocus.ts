@@ -1,6 +1,7 @@
 import type { TextareaRenderable } from '@opentui/core'
 
 let _input: TextareaRenderable | null = null
+let _historySearch: (() => void) | null = null
 
 export function registerInputRef(ref: TextareaRenderable | null) {
   _input = ref
@@ -9,3 +10,17 @@ export function registerInputRef(ref: TextareaRenderable | null) {
 export function focusInput() {
   _input?.focus()
 }
+
+/** Type text into the input at the cursor */
+export function insertIntoInput(text: string) {
+  _input?.insertText(text)
+}
+
+export function registerHistorySearch(handler: (() => void) | null) {
+  _historySearch = handler
+}
+
+/** Start a reverse search of the input history, or step to an older match */
+export function startHistorySearch() {
+  _historySearch?.()
+}
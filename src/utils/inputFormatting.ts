@@ -0,0 +1,92 @@
+import { splitUrls } from './urls'
+
+/** IRC formatting codes the composer inserts */
+export const FORMAT_CODES = {
+  bold: '\x02',
+  italic: '\x1d',
+  underline: '\x1f',
+  strikethrough: '\x1e',
+  monospace: '\x11',
+  color: '\x03',
+  reset: '\x0f',
+} as const
+
+/** Names of the 16 standard IRC colors, by code */
+export const IRC_COLOR_NAMES = [
+  'white',
+  'black',
+  'blue',
+  'green',
+  'red',
+  'brown',
+  'magenta',
+  'orange',
+  'yellow',
+  'light green',
+  'cyan',
+  'light cyan',
+  'light blue',
+  'pink',
+  'grey',
+  'light grey',
+] as const
+
+// eslint-disable-next-line no-control-regex -- IRC formatting uses control codes by design
+const FORMATTING_RE = /[\x02\x03\x0f\x11\x16\x1d\x1e\x1f]/u
+
+// Markers need a non-space just inside and no word character just outside,
+// so snake_case, 2*3*4 and "a * b" stay as typed
+const CODE_RE = /`([^`\n]+)`/g
+const BOLD_RE = /(?<![\w*])\*(?=\S)([^*\n]*?\S)\*(?![\w*])/g
+const ITALIC_RE = /(?<![\w_])_(?=\S)([^_\n]*?\S)_(?![\w_])/g
+
+/**
+ * A color code: two-digit numbers so a digit right after it isn't read as
+ * part of the color; no foreground ends coloring.
+ */
+export function colorCode(fg?: number, bg?: number): string {
+  if (fg === undefined) return FORMAT_CODES.color
+  const pad = (n: number) => String(n).padStart(2, '0')
+  return `${FORMAT_CODES.color}${pad(fg)}${bg === undefined ? '' : `,${pad(bg)}`}`
+}
+
+export function hasFormatting(text: string): boolean {
+  return FORMATTING_RE.test(text)
+}
+
+function emphasize(text: string): string {
+  return text
+    .replace(BOLD_RE, `${FORMAT_CODES.bold}$1${FORMAT_CODES.bold}`)
+    .replace(ITALIC_RE, `${FORMAT_CODES.italic}$1${FORMAT_CODES.italic}`)
+}
+
+/**
+ * Translate `*bold*`, `_italic_` and `` `mono` `` into IRC codes. Code spans
+ * and URLs are left alone inside.
+ */
+export function markdownToIrc(text: string): string {
+  let result = ''
+  let last = 0
+  const outside = (part: string) =>
+    splitUrls(part)
+      .map((piece, i) => (i % 2 === 1 ? piece : emphasize(piece)))
+      .join('')
+  for (const m of text.matchAll(CODE_RE)) {
+    result += outside(text.slice(last, m.index))
+    result += `${FORMAT_CODES.monospace}${m[1]}${FORMAT_CODES.monospace}`
+    last = m.index! + m[0].length
+  }
+  return result + outside(text.slice(last))
+}
+
+/**
+ * The message text a line of input sends, for the preview: plain messages and
+ * /me get markdown, other commands (/plain among them) send their text as typed.
+ */
+export function outgoingText(input: string, markdown: boolean): string {
+  const translate = (text: string) => (markdown ? markdownToIrc(text) : text)
+  if (/^\s/.test(input) || !input.startsWith('/')) return translate(input.trim())
+  const action = /^\/(?:me|action)\s+/i.exec(input)
+  if (action) return translate(input.slice(action[0].length))
+  return input.replace(/^\/\S*\s*/, '')
+}
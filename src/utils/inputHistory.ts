@@ -0,0 +1,58 @@
+/** Lines of input history kept per buffer, in memory and in the database */
+export const INPUT_HISTORY_LIMIT = 200
+
+// Commands whose arguments are passwords; they stay in this session's history only
+const SECRET_COMMANDS = new Set(['oper', 'pass', 'ns', 'nickserv'])
+// Services and bouncer control buffers: whatever is typed to them may be a password
+const SECRET_TARGETS = new Set(['nickserv', '*status'])
+const SECRET_TARGET_RE = /^\/(?:msg|query|quote|raw)\s+(?:privmsg\s+)?(\S+)/i
+// NickServ verbs that take a password, however they're sent
+const SECRET_WORDS_RE = /\b(?:identify|register|ghost)\b/i
+// A channel key after the channel names
+const JOIN_KEY_RE = /^\/(?:join|j)\s+\S+\s+\S/i
+
+/**
+ * The key a buffer's history is stored under. Private chat ids change between
+ * runs, so buffers are told apart by server and name instead.
+ */
+export function historyKey(serverId: string, bufferName?: string): string {
+  return bufferName ? `${serverId}:${bufferName.toLowerCase()}` : serverId
+}
+
+/** History with `line` added last, skipping a repeat of the last line and capped */
+export function pushHistory(history: readonly string[], line: string): string[] {
+  if (history[history.length - 1] === line) return [...history]
+  return [...history, line].slice(-INPUT_HISTORY_LIMIT)
+}
+
+/**
+ * Whether a line may hold a password and so shouldn't be written to disk:
+ * anything typed in a services or bouncer buffer, password commands, channel
+ * keys and NickServ verbs wherever they appear.
+ */
+export function isSecretInput(line: string, bufferName?: string): boolean {
+  if (bufferName && SECRET_TARGETS.has(bufferName.toLowerCase())) return true
+  if (SECRET_WORDS_RE.test(line) || JOIN_KEY_RE.test(line)) return true
+  const command = /^\/(\S+)/.exec(line)?.[1]?.toLowerCase()
+  if (!command) return false
+  const target = SECRET_TARGET_RE.exec(line)?.[1]?.toLowerCase()
+  return (
+    SECRET_COMMANDS.has(command) || (!!target && (SECRET_TARGETS.has(target) || target === 'pass'))
+  )
+}
+
+/**
+ * Reverse incremental search: the index of the newest line before `before`
+ * containing `query` (ignoring case), or -1.
+ */
+export function searchHistory(
+  history: readonly string[],
+  query: string,
+  before: number = history.length
+): number {
+  const wanted = query.toLowerCase()
+  for (let i = Math.min(before, history.length) - 1; i >= 0; i--) {
+    if (history[i]!.toLowerCase().includes(wanted)) return i
+  }
+  return -1
+}
@@ -1,6 +1,45 @@
+import fs from 'fs'
 import { IRCClient as BaseIRCClient, type EventMap } from '@irc/ircClient'
-import { NodeTCPSocket } from '../lib/nodeTcpSocket'
+import { NodeTCPSocket, TLSCertificateError } from '../lib/nodeTcpSocket'
 import { getRestrictions } from './restrictions'
+import { expandUserPath } from './paths'
+import { usesTLS } from './tls'
+import type { Server } from '../types'
+
+/** Per-server transport settings accepted by IRCClient.connect */
+export type ConnectOptions = Pick<
+  Server,
+  'ssl' | 'acceptInvalidCert' | 'tlsFingerprint' | 'clientCert' | 'clientKey' | 'fallbackEncoding'
+>
+
+function readPemFile(kind: string, filePath: string): Buffer {
+  try {
+    return fs.readFileSync(expandUserPath(filePath))
+  } catch (error) {
+    throw new Error(`Cannot read client ${kind} ${filePath}: ${(error as Error).message}`)
+  }
+}
+
+// Capabilities tobby tracks itself; folded into the CAP REQ whenever the server offers them
+const TRACKED_CAPS = ['away-notify', 'chghost', 'setname', 'account-tag', 'extended-join']
+
+// Value of the message tag `name`, if the line carries one
+function tagOf(line: string, name: string): string | undefined {
+  if (!line.startsWith('@')) return undefined
+  const tag = line
+    .slice(1, line.indexOf(' '))
+    .split(';')
+    .find((t) => t.startsWith(`${name}=`))
+  return tag?.slice(name.length + 1)
+}
+
+// Reference a line the way CHATHISTORY expects: its msgid, or its server time
+function historyAnchorOf(line: string): string | undefined {
+  const msgid = tagOf(line, 'msgid')
+  if (msgid) return `msgid=${msgid}`
+  const time = tagOf(line, 'time')
+  return time ? `timestamp=${time}` : undefined
+}
 
 /**
  * Extended IRC client with Node.js TCP socket support
@@ -22,10 +61,209 @@ export class IRCClient extends BaseIRCClient {
     account: string | undefined
   }) => void)[] = []
 
+  // TLS trust callbacks: a fingerprint to pin on first use, and verification failures.
+  private _certificateCallbacks: ((data: { serverId: string; fingerprint: string }) => void)[] = []
+  private _tlsErrorCallbacks: ((data: {
+    serverId: string
+    code: string
+    message: string
+  }) => void)[] = []
+
+  // Mechanisms listed in the `sasl=` value of CAP LS / CAP NEW, per server
+  private _saslMechanisms = new Map<string, string[]>()
+
+  // TRACKED_CAPS the server offered that haven't been requested yet, and those that have
+  private _offeredCaps = new Map<string, Set<string>>()
+  private _requestedCaps = new Map<string, Set<string>>()
+
+  // Last nick!user@host seen in a message prefix, per server and lowercased nick.
+  // ObsidianIRC's events only carry the nick; ignore masks need the rest.
+  private _hostmasks = new Map<string, Map<string, string>>()
+  // Lowercased channels we share with each lowercased nick, per server. A nick's hostmask
+  // is forgotten once none is left; those only seen in private stay until disconnect.
+  private _sharedChannels = new Map<string, Map<string, Set<string>>>()
+  // ISONs awaiting their reply (303) per server, oldest first: the nicks a poll asked
+  // about, or null for one sent by hand. Replies come back in the order asked.
+  private _isonQueries = new Map<string, (string[] | null)[]>()
+  // The poll answered by the 303 being forwarded as a serverMessage, while it is
+  private _isonReply = new Map<string, string[]>()
+
+  // Open `chathistory` batches by reference tag, counting the messages they carry and
+  // remembering the last one, where the next AFTER page starts
+  private _historyBatches = new Map<
+    string,
+    { serverId: string; target: string; messages: number; last?: string }
+  >()
+  private _historyBatchCallbacks: ((data: {
+    serverId: string
+    target: string
+    messages: number
+    last?: string
+  }) => void)[] = []
+  private _historyTargetCallbacks: ((data: {
+    serverId: string
+    target: string
+    timestamp: Date
+  }) => void)[] = []
+
+  // away-notify and setname callbacks (AWAY / SETNAME commands)
+  private _awayCallbacks: ((data: { serverId: string; nick: string; message?: string }) => void)[] =
+    []
+  private _setnameCallbacks: ((data: {
+    serverId: string
+    nick: string
+    realname: string
+  }) => void)[] = []
+  private _chghostCallbacks: ((data: {
+    serverId: string
+    nick: string
+    hostmask: string
+  }) => void)[] = []
+
+  // message-redaction callbacks (REDACT command)
+  private _redactCallbacks: ((data: {
+    serverId: string
+    sender: string
+    target: string
+    msgid: string
+    reason?: string
+  }) => void)[] = []
+
   getLastMessageTime(serverId: string): Date {
     return this._lastMsgTime.get(serverId) ?? new Date()
   }
 
+  getSaslMechanisms(serverId: string): string[] {
+    return this._saslMechanisms.get(serverId) ?? []
+  }
+
+  /** Full hostmask for a nick, or the bare nick when no prefix from it has been seen */
+  getHostmask(serverId: string, nick: string): string {
+    return this._hostmasks.get(serverId)?.get(nick.toLowerCase()) ?? nick
+  }
+
+  private rememberHostmask(serverId: string, bare: string): void {
+    if (!bare.startsWith(':')) return
+    const prefix = bare.slice(1, bare.indexOf(' '))
+    const bang = prefix.indexOf('!')
+    if (bang <= 0 || !prefix.includes('@')) return
+    let masks = this._hostmasks.get(serverId)
+    if (!masks) {
+      masks = new Map()
+      this._hostmasks.set(serverId, masks)
+    }
+    masks.set(prefix.slice(0, bang).toLowerCase(), prefix)
+  }
+
+  // Follow JOIN, NAMES, PART, KICK, QUIT and NICK to know who still shares a channel with us
+  private trackMembership(serverId: string, bare: string): void {
+    const parts = bare.split(' ')
+    const command = parts[1]
+    const nick = (parts[0] ?? '').slice(1).split('!')[0]!.toLowerCase()
+    const members = this._sharedChannels.get(serverId) ?? new Map<string, Set<string>>()
+    this._sharedChannels.set(serverId, members)
+    const join = (who: string, channel: string) => {
+      const channels = members.get(who) ?? new Set<string>()
+      channels.add(channel.toLowerCase())
+      members.set(who, channels)
+    }
+    // Without `channel` the nick is gone from all of them
+    const leave = (who: string, channel?: string) => {
+      const channels = members.get(who)
+      if (channel) channels?.delete(channel.toLowerCase())
+      if (channel && channels?.size) return
+      members.delete(who)
+      this._hostmasks.get(serverId)?.delete(who)
+    }
+    // We left: everyone else there only stays if we meet them elsewhere
+    const leaveSelf = (channel: string) => {
+      for (const who of [...members.keys()]) leave(who, channel)
+    }
+    const own = ((this as any).nicks.get(serverId) as string | undefined)?.toLowerCase()
+
+    if (command === 'JOIN' && parts[2]) {
+      join(nick, parts[2].replace(/^:/, ''))
+    } else if (command === '353' && parts[4]) {
+      // :server 353 <me> <type> <channel> :[prefixes]nick[!user@host] ...
+      const textStart = bare.indexOf(' :', 1)
+      const names = textStart !== -1 ? bare.slice(textStart + 2).split(' ') : []
+      for (const name of names) {
+        const who = name
+          .replace(/^[~&@%+!]+/, '')
+          .split('!')[0]!
+          .toLowerCase()
+        if (who) join(who, parts[4])
+      }
+    } else if (command === 'PART' && parts[2]) {
+      const channel = parts[2].replace(/^:/, '')
+      if (nick === own) leaveSelf(channel)
+      else leave(nick, channel)
+    } else if (command === 'KICK' && parts[2] && parts[3]) {
+      const kicked = parts[3].toLowerCase()
+      if (kicked === own) leaveSelf(parts[2])
+      else leave(kicked, parts[2])
+    } else if (command === 'QUIT') {
+      leave(nick)
+    } else if (command === 'NICK' && parts[2]) {
+      const newNick = parts[2].replace(/^:/, '')
+      const masks = this._hostmasks.get(serverId)
+      const mask = masks?.get(nick)
+      const channels = members.get(nick)
+      leave(nick)
+      if (channels) members.set(newNick.toLowerCase(), channels)
+      if (mask) masks!.set(newNick.toLowerCase(), newNick + mask.slice(mask.indexOf('!')))
+    }
+  }
+
+  // Record the tracked caps a CAP LS / CAP NEW / CAP DEL line offers or withdraws.
+  // Runs before the base class sees the line, so its CAP REQ can pick them up.
+  private noteCaps(serverId: string, bare: string): void {
+    const parts = bare.split(' ')
+    if (parts[1] !== 'CAP') return
+    const sub = parts[3]
+    if (sub !== 'LS' && sub !== 'NEW' && sub !== 'DEL') return
+    const textStart = bare.indexOf(' :')
+    const caps = textStart !== -1 ? bare.slice(textStart + 2).split(' ') : []
+    const names = caps.map((c) => c.split('=')[0]!).filter((c) => TRACKED_CAPS.includes(c))
+    const offered = this._offeredCaps.get(serverId) ?? new Set<string>()
+    const requested = this._requestedCaps.get(serverId) ?? new Set<string>()
+    this._offeredCaps.set(serverId, offered)
+    this._requestedCaps.set(serverId, requested)
+    if (sub === 'DEL') {
+      for (const name of names) {
+        offered.delete(name)
+        requested.delete(name)
+      }
+      return
+    }
+    const sasl = caps.find((c) => c.startsWith('sasl='))
+    if (sasl) this._saslMechanisms.set(serverId, sasl.slice(5).toUpperCase().split(','))
+    for (const name of names) {
+      if (!requested.has(name)) offered.add(name)
+    }
+  }
+
+  // Offered tracked caps not yet requested; marks them requested
+  private takeOfferedCaps(serverId: string, exclude: string[] = []): string[] {
+    const offered = this._offeredCaps.get(serverId)
+    if (!offered?.size) return []
+    const requested = this._requestedCaps.get(serverId)!
+    const caps = [...offered].filter((c) => !exclude.includes(c))
+    offered.clear()
+    for (const cap of caps) requested.add(cap)
+    for (const cap of exclude) requested.add(cap)
+    return caps
+  }
+
+  /**
+   * Hook an event whose name is only known at runtime (relayed for attached front ends).
+   * Returns the matching unhook.
+   */
+  relayEvent(event: string, cb: (data: unknown) => void): () => void {
+    this.on(event as keyof EventMap, cb)
+    return () => this.deleteHook(event as keyof EventMap, cb)
+  }
+
   onPong(serverId: string, cb: () => void): void {
     this._pongCallbacks.set(serverId, cb)
   }
@@ -40,6 +278,67 @@ export class IRCClient extends BaseIRCClient {
     this._accountCallbacks.push(cb)
   }
 
+  onAway(cb: (data: { serverId: string; nick: string; message?: string }) => void): void {
+    this._awayCallbacks.push(cb)
+  }
+
+  onSetname(cb: (data: { serverId: string; nick: string; realname: string }) => void): void {
+    this._setnameCallbacks.push(cb)
+  }
+
+  onChghost(cb: (data: { serverId: string; nick: string; hostmask: string }) => void): void {
+    this._chghostCallbacks.push(cb)
+  }
+
+  onCertificate(cb: (data: { serverId: string; fingerprint: string }) => void): void {
+    this._certificateCallbacks.push(cb)
+  }
+
+  onTLSError(cb: (data: { serverId: string; code: string; message: string }) => void): void {
+    this._tlsErrorCallbacks.push(cb)
+  }
+
+  /** Fires when a CHATHISTORY reply batch closes, after its messages have been dispatched */
+  onHistoryBatch(
+    cb: (data: { serverId: string; target: string; messages: number; last?: string }) => void
+  ): void {
+    this._historyBatchCallbacks.push(cb)
+  }
+
+  /** Fires for each conversation listed in a CHATHISTORY TARGETS reply */
+  onHistoryTarget(cb: (data: { serverId: string; target: string; timestamp: Date }) => void): void {
+    this._historyTargetCallbacks.push(cb)
+  }
+
+  onRedact(
+    cb: (data: {
+      serverId: string
+      sender: string
+      target: string
+      msgid: string
+      reason?: string
+    }) => void
+  ): void {
+    this._redactCallbacks.push(cb)
+  }
+
+  /** Ask which of `nicks` are online; isonPollReply() picks out the 303 that answers */
+  pollIson(serverId: string, nicks: string[]): void {
+    this.queueIson(serverId, nicks)
+    super.sendRaw(serverId, `ISON ${nicks.join(' ')}`)
+  }
+
+  /** While a 303 is dispatched: the nicks of the poll it answers, unless sent by hand */
+  isonPollReply(serverId: string): string[] | undefined {
+    return this._isonReply.get(serverId)
+  }
+
+  private queueIson(serverId: string, nicks: string[] | null): void {
+    const queries = this._isonQueries.get(serverId) ?? []
+    queries.push(nicks)
+    this._isonQueries.set(serverId, queries)
+  }
+
   override sendRaw(serverId: string, command: string): void {
     const restrictions = getRestrictions()
     // Block NICK changes to anything other than the restricted nick
@@ -52,6 +351,17 @@ export class IRCClient extends BaseIRCClient {
         if (base !== allowed) return
       }
     }
+    // Fold the tracked caps into the single negotiation request, or request them just
+    // before negotiation ends if the base class had nothing of its own to ask for
+    const cap = command.trim().match(/^CAP (REQ :?(.*)|END)$/i)
+    if (cap?.[2] !== undefined) {
+      const extra = this.takeOfferedCaps(serverId, cap[2].split(' ').filter(Boolean))
+      if (extra.length > 0) command = `CAP REQ :${[cap[2].trim(), ...extra].join(' ').trim()}`
+    } else if (cap) {
+      const extra = this.takeOfferedCaps(serverId)
+      if (extra.length > 0) super.sendRaw(serverId, `CAP REQ :${extra.join(' ')}`)
+    }
+    if (/^ISON /i.test(command.trimStart())) this.queueIson(serverId, null)
     super.sendRaw(serverId, command)
   }
 
@@ -63,7 +373,8 @@ export class IRCClient extends BaseIRCClient {
     password?: string,
     saslAccountName?: string,
     saslPassword?: string,
-    serverId?: string
+    serverId?: string,
+    options: ConnectOptions = {}
   ): Promise<any> {
     // Don't call super.connect() at all - it tries to use Tauri sockets which don't exist
     // Directly implement the connection using Node.js sockets
@@ -78,13 +389,29 @@ export class IRCClient extends BaseIRCClient {
       if (!saslAccountName) saslAccountName = restrictions.nick
     }
 
-    const url = `${port === 6697 || port === 6679 ? 'ircs' : 'irc'}://${host}:${port}`
+    const useTLS = usesTLS({ ssl: options.ssl, port })
+    const url = `${useTLS ? 'ircs' : 'irc'}://${host}:${port}`
+    const id = serverId || `${host}:${port}`
+
+    // A client certificate can only be presented over TLS; the key may live in the same PEM
+    const certPath = useTLS ? options.clientCert : undefined
+    const cert = certPath ? readPemFile('certificate', certPath) : undefined
+    const key = certPath ? readPemFile('key', options.clientKey || certPath) : undefined
 
-    const nodeSocket = new NodeTCPSocket(url)
+    const nodeSocket = new NodeTCPSocket(url, {
+      acceptInvalidCert: options.acceptInvalidCert,
+      cert,
+      key,
+      fingerprint: options.tlsFingerprint || undefined,
+      encoding: options.fallbackEncoding,
+      onFingerprint: (fingerprint) => {
+        for (const cb of this._certificateCallbacks) cb({ serverId: id, fingerprint })
+      },
+    })
 
     const finalName = name?.trim() || host
     const server: any = {
-      id: serverId || `${host}:${port}`,
+      id,
       name: finalName,
       host: host,
       port,
@@ -96,6 +423,16 @@ export class IRCClient extends BaseIRCClient {
       capabilities: [],
     }
 
+    this._saslMechanisms.delete(id)
+    this._offeredCaps.delete(id)
+    this._requestedCaps.delete(id)
+    this._hostmasks.delete(id)
+    this._sharedChannels.delete(id)
+    this._isonQueries.delete(id)
+    for (const [ref, batch] of this._historyBatches) {
+      if (batch.serverId === id) this._historyBatches.delete(ref)
+    }
+
     // Store the server and socket
     ;(this as any).servers.set(server.id, server)
     ;(this as any).sockets.set(server.id, nodeSocket)
@@ -116,6 +453,9 @@ export class IRCClient extends BaseIRCClient {
         username: saslAccountName,
         password: saslPassword,
       })
+    } else if (cert) {
+      // SASL EXTERNAL needs no credentials — the certificate is the proof of identity
+      ;(this as any).saslEnabled.set(server.id, true)
     }
 
     // Set up socket handlers to match BaseIRCClient behavior
@@ -138,6 +478,11 @@ export class IRCClient extends BaseIRCClient {
           // Extract the IRC `time` tag before the base class fires any events.
           // The base class calls triggerEvent() synchronously inside handleMessage(),
           // so _lastMsgTime will hold the correct value when ircSlice handlers run.
+          const bareLine = rawLine.startsWith('@')
+            ? rawLine.slice(rawLine.indexOf(' ') + 1)
+            : rawLine
+          this.rememberHostmask(server.id, bareLine)
+          this.noteCaps(server.id, bareLine)
           if (rawLine.startsWith('@')) {
             const tagEnd = rawLine.indexOf(' ')
             const timeTag = rawLine
@@ -185,18 +530,34 @@ export class IRCClient extends BaseIRCClient {
           }
         }
 
+        // Replayed history says nothing about who is around now
+        if (!this._historyBatches.has(tagOf(line, 'batch') ?? '')) {
+          this.trackMembership(server.id, bare)
+        }
+
         // Forward numeric replies and server NOTICEs as serverMessage events
         const parts = bare.split(' ')
         const command = parts[1]
+
+        if (command === 'PRIVMSG' || command === 'NOTICE') {
+          const batch = this._historyBatches.get(tagOf(line, 'batch') ?? '')
+          if (batch) {
+            batch.messages++
+            batch.last = historyAnchorOf(line) ?? batch.last
+          }
+        }
         if (command && /^\d{3}$/.test(command)) {
           const textStart = bare.indexOf(':', 1)
           const text = textStart !== -1 ? bare.slice(textStart + 1) : parts.slice(3).join(' ')
+          const poll = command === '303' ? this._isonQueries.get(server.id)?.shift() : null
+          if (poll) this._isonReply.set(server.id, poll)
           ;(this as any).triggerEvent('serverMessage', {
             serverId: server.id,
             command,
             text,
             raw: line,
           })
+          this._isonReply.delete(server.id)
         } else if (command === 'NOTICE' && !parts[2]?.startsWith('#') && !parts[0]?.includes('!')) {
           // Only route server-originated NOTICEs (source is a hostname, not nick!user@host)
           // to serverMessage. User/service NOTICEs are handled via USERNOTICE event.
@@ -208,6 +569,96 @@ export class IRCClient extends BaseIRCClient {
             text,
             raw: line,
           })
+        } else if (command === 'FAIL') {
+          // standard-replies: :server FAIL <command> <code> [context...] :description
+          const textStart = bare.indexOf(' :', 1)
+          const params = (textStart !== -1 ? bare.slice(0, textStart) : bare).split(' ').slice(2)
+          const description = textStart !== -1 ? bare.slice(textStart + 2) : ''
+          ;(this as any).triggerEvent('serverMessage', {
+            serverId: server.id,
+            command: 'FAIL',
+            text: [...params, description].join(' ').trim(),
+            raw: line,
+          })
+        } else if (command === 'CAP' && parts[3] === 'NEW' && server.isConnected) {
+          // cap-notify after registration: ask for whatever the base class didn't fold in
+          const wanted = this.takeOfferedCaps(server.id)
+          if (wanted.length > 0) this.sendRaw(server.id, `CAP REQ :${wanted.join(' ')}`)
+        } else if (command === 'BATCH') {
+          // :server BATCH +ref chathistory <target>  …  :server BATCH -ref
+          const ref = parts[2] ?? ''
+          const parent = this._historyBatches.get(tagOf(line, 'batch') ?? '')
+          // A multiline message inside a history batch counts as one message
+          if (parent && ref.startsWith('+')) {
+            parent.messages++
+            parent.last = historyAnchorOf(line) ?? parent.last
+          }
+          if (ref.startsWith('+') && /(^|\/)chathistory$/.test(parts[3] ?? '') && parts[4]) {
+            this._historyBatches.set(ref.slice(1), {
+              serverId: server.id,
+              target: parts[4],
+              messages: 0,
+            })
+          } else if (ref.startsWith('-')) {
+            const batch = this._historyBatches.get(ref.slice(1))
+            if (batch) {
+              this._historyBatches.delete(ref.slice(1))
+              for (const cb of this._historyBatchCallbacks) cb(batch)
+            }
+          }
+        } else if (command === 'CHATHISTORY' && parts[2] === 'TARGETS') {
+          // :server CHATHISTORY TARGETS <target> <timestamp>
+          const target = parts[3]
+          const timestamp = new Date((parts[4] ?? '').replace(/^:/, '').replace(/^timestamp=/, ''))
+          if (target && !isNaN(timestamp.getTime())) {
+            for (const cb of this._historyTargetCallbacks) {
+              cb({ serverId: server.id, target, timestamp })
+            }
+          }
+        } else if (command === 'REDACT' && parts[2] && parts[3]) {
+          // :nick!user@host REDACT <target> <msgid> [:reason]
+          // The msgid may itself be sent as the trailing parameter when there's no reason
+          const reasonStart = parts[3].startsWith(':') ? -1 : bare.indexOf(' :', 1)
+          const redactData = {
+            serverId: server.id,
+            sender: parts[0]?.slice(1).split('!')[0] ?? '',
+            target: parts[2],
+            msgid: parts[3].replace(/^:/, ''),
+            reason: reasonStart !== -1 ? bare.slice(reasonStart + 2) || undefined : undefined,
+          }
+          for (const cb of this._redactCallbacks) {
+            cb(redactData)
+          }
+        } else if (command === 'AWAY') {
+          // away-notify: :nick!user@host AWAY [:message] — no message means back
+          const textStart = bare.indexOf(' :', 1)
+          const awayData = {
+            serverId: server.id,
+            nick: parts[0]?.slice(1).split('!')[0] ?? '',
+            message: textStart !== -1 ? bare.slice(textStart + 2) || undefined : parts[2],
+          }
+          for (const cb of this._awayCallbacks) {
+            cb(awayData)
+          }
+        } else if (command === 'CHGHOST' && parts[2] && parts[3]) {
+          // chghost: :nick!olduser@oldhost CHGHOST <newuser> <newhost>
+          const nick = parts[0]?.slice(1).split('!')[0] ?? ''
+          const hostmask = `${nick}!${parts[2]}@${parts[3].replace(/^:/, '')}`
+          this._hostmasks.get(server.id)?.set(nick.toLowerCase(), hostmask)
+          for (const cb of this._chghostCallbacks) {
+            cb({ serverId: server.id, nick, hostmask })
+          }
+        } else if (command === 'SETNAME') {
+          // setname: :nick!user@host SETNAME :realname
+          const textStart = bare.indexOf(' :', 1)
+          const setnameData = {
+            serverId: server.id,
+            nick: parts[0]?.slice(1).split('!')[0] ?? '',
+            realname: textStart !== -1 ? bare.slice(textStart + 2) : (parts[2] ?? ''),
+          }
+          for (const cb of this._setnameCallbacks) {
+            cb(setnameData)
+          }
         } else if (command === 'PONG') {
           this._pongCallbacks.get(server.id)?.()
         } else if (command === 'ACCOUNT') {
@@ -228,6 +679,11 @@ export class IRCClient extends BaseIRCClient {
 
     nodeSocket.onerror = (err) => {
       debugLog?.(`[IRC] Socket error for ${host}:`, err.message)
+      if (err instanceof TLSCertificateError) {
+        for (const cb of this._tlsErrorCallbacks) {
+          cb({ serverId: server.id, code: err.code, message: err.message })
+        }
+      }
       ;(this as any).triggerEvent('error', {
         serverId: server.id,
         error: err.message,
@@ -238,6 +694,10 @@ export class IRCClient extends BaseIRCClient {
       debugLog?.(`[IRC] Socket closed for ${host}`)
       server.isConnected = false
       server.connectionState = 'disconnected'
+      // Hostmasks are learned again from the next connection's JOINs and NAMES
+      this._hostmasks.delete(server.id)
+      this._sharedChannels.delete(server.id)
+      this._isonQueries.delete(server.id)
       ;(this as any).triggerEvent('disconnect', { serverId: server.id })
     }
 
@@ -4,6 +4,7 @@ import { ircColors } from '@irc/ircUtils'
 import { stripIrcFormatting } from '@irc/messageFormatter'
 import { THEME } from '../constants/theme'
 import { getNicknameColor } from './nickColors'
+import { splitUrls, urlHref } from './urls'
 
 export { stripIrcFormatting }
 
@@ -24,7 +25,8 @@ function escapeRegExp(s: string): string {
   return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
 }
 
-function resolveColor(index: number): string | undefined {
+/** The color for an IRC color code, or undefined for none or the default */
+export function resolveColor(index: number): string | undefined {
   if (index < 0 || index >= ircColors.length) return undefined
   const color = ircColors[index]
   if (color === 'inherit') return undefined
@@ -98,10 +100,19 @@ export function parseIrcFormatting(text: string): IrcSegment[] {
   return segments
 }
 
-// Splits a text segment by the set of known nicks using word boundaries.
-// Returns alternating [plainText, nick, plainText, nick, ...] parts.
+// Splits a text segment by the nick/highlight pattern.
+// Returns alternating [plainText, match, plainText, match, ...] parts. matchAll is used
+// instead of split() so capture groups inside user highlight regexes don't leak in.
 function splitByNicks(text: string, nickPattern: RegExp): string[] {
-  return text.split(nickPattern)
+  const parts: string[] = []
+  let last = 0
+  for (const m of text.matchAll(nickPattern)) {
+    if (!m[0]) continue
+    parts.push(text.slice(last, m.index), m[0])
+    last = m.index! + m[0].length
+  }
+  parts.push(text.slice(last))
+  return parts
 }
 
 export function renderIrcText(
@@ -110,7 +121,11 @@ export function renderIrcText(
   // Our own nickname — highlighted with mention style (background + color)
   nickname?: string,
   // All channel members — colored with their consistent nick color
-  channelUsers?: string[]
+  channelUsers?: string[],
+  // Compiled highlight rules — matches get the same style as our own nickname
+  highlight?: RegExp | null,
+  // Emit URLs as OSC 8 hyperlinks (when the terminal supports them)
+  hyperlinks?: boolean
 ): React.ReactNode {
   const segments = parseIrcFormatting(text)
 
@@ -125,75 +140,110 @@ export function renderIrcText(
     }
   }
 
-  // Fast path: no nick coloring needed, single plain segment
-  if (segments.length === 1 && allNicks.length === 0) {
+  // Fast path: no nick coloring, highlighting or links needed, single plain segment
+  if (segments.length === 1 && allNicks.length === 0 && !highlight) {
     const seg = segments[0]!
-    if (!seg.fg && !seg.bg && !seg.bold && !seg.italic && !seg.underline && !seg.strikethrough) {
+    if (
+      !seg.fg &&
+      !seg.bg &&
+      !seg.bold &&
+      !seg.italic &&
+      !seg.underline &&
+      !seg.strikethrough &&
+      splitUrls(seg.text).length === 1
+    ) {
       return seg.text
     }
   }
 
-  const nickPattern =
-    allNicks.length > 0
-      ? new RegExp(`(\\b(?:${allNicks.map(escapeRegExp).join('|')})\\b)`, 'gi')
-      : null
+  // Highlight terms come first so they win over a member nick that matches the same text
+  const alternatives: string[] = []
+  if (highlight) alternatives.push(`(?:${highlight.source})`)
+  if (allNicks.length > 0) {
+    alternatives.push(`\\b(?:${allNicks.map(escapeRegExp).join('|')})\\b`)
+  }
+  const nickPattern = alternatives.length > 0 ? new RegExp(alternatives.join('|'), 'gi') : null
+  const highlightPattern = highlight ? new RegExp(`^(?:${highlight.source})$`, 'i') : null
 
   const elements: React.ReactNode[] = []
   let key = 0
+  const nextKey = () => (keyPrefix ? `${keyPrefix}-${key++}` : key++)
 
-  for (const seg of segments) {
-    let attrs = TextAttributes.NONE
-    if (seg.bold) attrs |= TextAttributes.BOLD
-    if (seg.italic) attrs |= TextAttributes.ITALIC
-    if (seg.underline) attrs |= TextAttributes.UNDERLINE
-    if (seg.strikethrough) attrs |= TextAttributes.STRIKETHROUGH
+  const pushText = (text: string, seg: IrcSegment, attrs: number) => {
+    if (!nickPattern) {
+      elements.push(
+        <span key={nextKey()} fg={seg.fg} bg={seg.bg} attributes={attrs || undefined}>
+          {text}
+        </span>
+      )
+      return
+    }
 
-    if (nickPattern) {
-      // split() with a capture group puts the captured (nick) parts at odd indices
-      const parts = splitByNicks(seg.text, nickPattern)
-      for (let i = 0; i < parts.length; i++) {
-        const part = parts[i]
-        if (!part) continue
-        const k = keyPrefix ? `${keyPrefix}-${key}` : key
-        key++
+    // Matched (nick or highlight) parts sit at odd indices
+    const parts = splitByNicks(text, nickPattern)
+    for (let i = 0; i < parts.length; i++) {
+      const part = parts[i]
+      if (!part) continue
+      const k = nextKey()
 
-        const isNickPart = i % 2 === 1
-        if (isNickPart) {
-          const isOwnNick = nickname && part.toLowerCase() === nickname.toLowerCase()
-          if (isOwnNick) {
-            elements.push(
-              <span
-                key={k}
-                fg={THEME.mention}
-                bg={THEME.backgroundMention}
-                attributes={attrs || undefined}
-              >
-                {part}
-              </span>
-            )
-          } else {
-            // Other channel member — use their consistent nick color, keep IRC bg if any
-            elements.push(
-              <span key={k} fg={getNicknameColor(part)} bg={seg.bg} attributes={attrs || undefined}>
-                {part}
-              </span>
-            )
-          }
+      const isNickPart = i % 2 === 1
+      if (isNickPart) {
+        const isOwnNick = nickname && part.toLowerCase() === nickname.toLowerCase()
+        if (isOwnNick || highlightPattern?.test(part)) {
+          elements.push(
+            <span
+              key={k}
+              fg={THEME.mention}
+              bg={THEME.backgroundMention}
+              attributes={attrs || undefined}
+            >
+              {part}
+            </span>
+          )
         } else {
+          // Other channel member — use their consistent nick color, keep IRC bg if any
           elements.push(
-            <span key={k} fg={seg.fg} bg={seg.bg} attributes={attrs || undefined}>
+            <span key={k} fg={getNicknameColor(part)} bg={seg.bg} attributes={attrs || undefined}>
               {part}
             </span>
           )
         }
+      } else {
+        elements.push(
+          <span key={k} fg={seg.fg} bg={seg.bg} attributes={attrs || undefined}>
+            {part}
+          </span>
+        )
       }
-    } else {
-      const k = keyPrefix ? `${keyPrefix}-${key}` : key
-      key++
+    }
+  }
+
+  for (const seg of segments) {
+    let attrs = TextAttributes.NONE
+    if (seg.bold) attrs |= TextAttributes.BOLD
+    if (seg.italic) attrs |= TextAttributes.ITALIC
+    if (seg.underline) attrs |= TextAttributes.UNDERLINE
+    if (seg.strikethrough) attrs |= TextAttributes.STRIKETHROUGH
+
+    // URLs sit at odd indices and are never searched for nicks
+    const parts = splitUrls(seg.text)
+    for (let i = 0; i < parts.length; i++) {
+      const part = parts[i]!
+      if (i % 2 === 0) {
+        if (part) pushText(part, seg, attrs)
+        continue
+      }
+      const linkAttrs = attrs | TextAttributes.UNDERLINE
       elements.push(
-        <span key={k} fg={seg.fg} bg={seg.bg} attributes={attrs || undefined}>
-          {seg.text}
-        </span>
+        hyperlinks ? (
+          <a key={nextKey()} href={urlHref(part)} fg={THEME.accentBlue} attributes={linkAttrs}>
+            {part}
+          </a>
+        ) : (
+          <span key={nextKey()} fg={THEME.accentBlue} bg={seg.bg} attributes={linkAttrs}>
+            {part}
+          </span>
+        )
       )
     }
   }
@@ -0,0 +1,225 @@
+import fs from 'node:fs'
+import { getKeymapPath } from './paths'
+
+/**
+ * Key chords are written `ctrl+alt+shift+key`, lowercase, modifiers in that
+ * order: `ctrl+g`, `alt+1`, `shift+up`, `ctrl+space`. User-written chords are
+ * normalised to this form, and so are incoming key events, so both compare
+ * as plain strings.
+ */
+
+/** Bindings used when the keymap file doesn't override them */
+export const DEFAULT_KEYMAP: Record<string, string> = {
+  'ctrl+k': 'ui.quickActions',
+  'ctrl+l': 'buffer.clear',
+  'ctrl+g': 'ui.toggleUserPane',
+  'ctrl+o': 'ui.toggleExpandMultilines',
+  'alt+n': 'buffer.next',
+  'alt+p': 'buffer.prev',
+  'alt+[': 'buffer.moveUp',
+  'alt+]': 'buffer.moveDown',
+  'ctrl+space': 'message.toggleSelection',
+  'alt+up': 'message.toggleSelection',
+  'shift+up': 'message.toggleSelection',
+  'alt+k': 'message.toggleSelection',
+  'ctrl+b': 'format.bold',
+  'ctrl+]': 'format.italic',
+  'ctrl+_': 'format.underline',
+  'ctrl+^': 'format.strikethrough',
+  'ctrl+c': 'format.color',
+  'ctrl+r': 'input.historySearch',
+  'alt+r': 'channel.markAsRead',
+  ...Object.fromEntries(
+    ['1', '2', '3', '4', '5', '6', '7', '8', '9', '0'].map((n) => [`alt+${n}`, `buffer.goto.${n}`])
+  ),
+}
+
+// Keys the input and the quit confirmation depend on; binding them would break typing or quitting
+const RESERVED_CHORDS = new Set([
+  'return',
+  'shift+return',
+  'ctrl+return',
+  'tab',
+  'backspace',
+  'escape',
+  'up',
+  'down',
+  'left',
+  'right',
+  'ctrl+d',
+  'ctrl+escape',
+])
+
+const MODIFIER_ALIASES: Record<string, 'ctrl' | 'alt' | 'shift'> = {
+  ctrl: 'ctrl',
+  control: 'ctrl',
+  alt: 'alt',
+  meta: 'alt',
+  option: 'alt',
+  shift: 'shift',
+}
+
+const KEY_ALIASES: Record<string, string> = {
+  esc: 'escape',
+  enter: 'return',
+  ' ': 'space',
+  del: 'delete',
+  pgup: 'pageup',
+  pgdn: 'pagedown',
+}
+
+// Ctrl with these punctuation keys arrives as a bare control byte in legacy terminals
+const CONTROL_PUNCTUATION: Record<string, string> = {
+  '\x1c': 'ctrl+\\',
+  '\x1d': 'ctrl+]',
+  '\x1e': 'ctrl+^',
+  '\x1f': 'ctrl+_',
+}
+
+function buildChord(mods: { ctrl?: boolean; alt?: boolean; shift?: boolean }, key: string) {
+  return [mods.ctrl && 'ctrl', mods.alt && 'alt', mods.shift && 'shift', key]
+    .filter(Boolean)
+    .join('+')
+}
+
+/** Normalise a user-written chord such as `Meta+N` or `control+Space`; null if malformed */
+export function parseChord(text: string): string | null {
+  const lower = text.trim().toLowerCase()
+  // A trailing "++" means the key is "+" itself
+  const parts = lower.endsWith('++') ? [...lower.slice(0, -2).split('+'), '+'] : lower.split('+')
+  const key = parts.pop()
+  if (!key) return null
+  const mods: { ctrl?: boolean; alt?: boolean; shift?: boolean } = {}
+  for (const part of parts) {
+    const mod = MODIFIER_ALIASES[part]
+    if (!mod) return null
+    mods[mod] = true
+  }
+  return buildChord(mods, KEY_ALIASES[key] ?? key)
+}
+
+/** Display form of a chord: `ctrl+space` → `Ctrl+Space` */
+export function formatChord(chord: string): string {
+  return chord
+    .split(/\+(?=.)/)
+    .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+    .join('+')
+}
+
+export interface KeyLike {
+  name: string
+  sequence?: string
+  ctrl?: boolean
+  meta?: boolean
+  option?: boolean
+  shift?: boolean
+}
+
+/** The chord for a key event, in the same form `parseChord` produces */
+export function chordFromKey(key: KeyLike): string | null {
+  // Non-alphanumeric Alt combos don't get meta from the parser; recognise their raw sequences
+  if (key.sequence === '\x1b[') return 'alt+['
+  if (key.sequence === '\x1b]') return 'alt+]'
+  const punctuation = key.sequence && CONTROL_PUNCTUATION[key.sequence]
+  if (punctuation) return punctuation
+  // Ctrl+Space is 'space' via legacy/tmux (NUL byte) or ' ' via the Kitty keyboard protocol
+  const name = KEY_ALIASES[key.name] ?? key.name?.toLowerCase()
+  if (!name) return null
+  return buildChord({ ctrl: key.ctrl, alt: key.meta || key.option, shift: key.shift }, name)
+}
+
+/** Would a chord be swallowed while typing in the input (a printable key with at most Shift)? */
+function isTypingKey(chord: string): boolean {
+  if (chord.startsWith('ctrl+') || chord.startsWith('alt+')) return false
+  const key = chord.replace(/^shift\+/, '')
+  return key.length === 1 || key === 'space'
+}
+
+export interface KeymapResult {
+  /** chord → action id */
+  keymap: Map<string, string>
+  warnings: string[]
+}
+
+/**
+ * Merge user bindings over the defaults. `config` maps chords to action ids;
+ * a null or empty id unbinds the chord. Invalid entries are skipped with a
+ * warning, as are two spellings of the same chord bound to different actions.
+ */
+export function buildKeymap(config: unknown, actionIds: Iterable<string>): KeymapResult {
+  const known = new Set(actionIds)
+  const keymap = new Map(Object.entries(DEFAULT_KEYMAP))
+  const warnings: string[] = []
+
+  if (config === null || typeof config !== 'object' || Array.isArray(config)) {
+    if (config !== undefined) warnings.push('Keymap must be an object of "chord": "action.id"')
+    return { keymap, warnings }
+  }
+
+  const seen = new Map<string, { spelling: string; actionId: string | null }>()
+  for (const [spelling, value] of Object.entries(config)) {
+    const chord = parseChord(spelling)
+    if (!chord) {
+      warnings.push(`"${spelling}" is not a valid key chord`)
+      continue
+    }
+    if (RESERVED_CHORDS.has(chord)) {
+      warnings.push(`${chord} is reserved and can't be rebound`)
+      continue
+    }
+    if (isTypingKey(chord)) {
+      warnings.push(`${chord} would be swallowed while typing; add ctrl or alt`)
+      continue
+    }
+    if (value !== null && typeof value !== 'string') {
+      warnings.push(`${chord}: expected an action id or null`)
+      continue
+    }
+    const actionId = value || null
+    if (actionId && !known.has(actionId)) {
+      warnings.push(`${chord}: unknown action "${actionId}"`)
+      continue
+    }
+
+    const previous = seen.get(chord)
+    if (previous && previous.actionId !== actionId) {
+      warnings.push(
+        `"${previous.spelling}" and "${spelling}" are both ${chord}; using ${actionId ?? 'unbound'}`
+      )
+    }
+    seen.set(chord, { spelling, actionId })
+
+    if (actionId) keymap.set(chord, actionId)
+    else keymap.delete(chord)
+  }
+
+  return { keymap, warnings }
+}
+
+// Warnings from the last load, for /help keys and the status bar
+let lastWarnings: string[] = []
+
+export function getKeymapWarnings(): readonly string[] {
+  return lastWarnings
+}
+
+/** Read the keymap file (JSON) if there is one and merge it over the defaults */
+export function loadKeymap(
+  actionIds: Iterable<string>,
+  path: string = getKeymapPath()
+): KeymapResult {
+  let config: unknown
+  const readWarnings: string[] = []
+  if (fs.existsSync(path)) {
+    try {
+      config = JSON.parse(fs.readFileSync(path, 'utf8'))
+    } catch (error) {
+      readWarnings.push(`Couldn't read ${path}: ${(error as Error).message}`)
+    }
+  }
+  const result = buildKeymap(config, actionIds)
+  result.warnings.unshift(...readWarnings)
+  lastWarnings = result.warnings
+  for (const warning of result.warnings) debugLog?.('[keymap]', warning)
+  return result
+}
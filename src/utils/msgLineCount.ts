@@ -13,6 +13,8 @@ export function msgLineCount(msg: Message, isSelected: boolean, expandMultilines
   if (msg.replyMessage) h += 1
   if (msg.reactions.length > 0) h += 1
   if (isSelected) h += 1
+  // The pre-edit text is shown under a selected edited message
+  if (isSelected && msg.originalContent !== undefined) h += 1
   return h
 }
 
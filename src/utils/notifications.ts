@@ -0,0 +1,202 @@
+import { spawn } from 'child_process'
+import type { BufferNotifyLevel, NotifyLevel, NotifyMethod, Server, Settings } from '@/types'
+import { wrapForTmux } from './terminal'
+
+export const NOTIFY_LEVELS: readonly NotifyLevel[] = ['all', 'mentions', 'none']
+export const BUFFER_NOTIFY_LEVELS: readonly BufferNotifyLevel[] = [...NOTIFY_LEVELS, 'muted']
+export const NOTIFY_METHODS: readonly NotifyMethod[] = [
+  'auto',
+  'bell',
+  'osc9',
+  'osc777',
+  'osc99',
+  'none',
+]
+
+export type NotifySettings = Pick<
+  Settings,
+  'notifyMethod' | 'notifyCommand' | 'notifyQuietHours' | 'notifyChannels' | 'notifyPrivate'
+>
+
+export interface NotificationEvent {
+  /** Buffer the message landed in */
+  bufferId: string
+  /** Channel name, or the nick of a private chat */
+  bufferName: string
+  isPrivate: boolean
+  /** Set on the buffer with /notify; the channel or private default otherwise */
+  level?: BufferNotifyLevel
+  /** The message matched a highlight */
+  mentioned: boolean
+  title: string
+  body: string
+}
+
+// Longest body handed to the terminal or the command hook
+const MAX_BODY = 200
+
+/** Minutes since midnight for the start and end of a `HH:MM-HH:MM` window */
+export function parseQuietHours(text: string): { start: number; end: number } | null {
+  const match = /^(\d{1,2}):(\d{2})\s*-\s*(\d{1,2}):(\d{2})$/.exec(text.trim())
+  if (!match) return null
+  const [startH, startM, endH, endM] = match.slice(1).map(Number) as [
+    number,
+    number,
+    number,
+    number,
+  ]
+  if (startH > 23 || endH > 23 || startM > 59 || endM > 59) return null
+  return { start: startH * 60 + startM, end: endH * 60 + endM }
+}
+
+export function validateQuietHours(text: string): string | null {
+  return parseQuietHours(text) ? null : 'Quiet hours look like 23:00-07:00'
+}
+
+/** Whether `now` falls in the quiet window; windows may wrap past midnight */
+export function isQuietTime(text: string, now: Date = new Date()): boolean {
+  const window = text ? parseQuietHours(text) : null
+  if (!window || window.start === window.end) return false
+  const minute = now.getHours() * 60 + now.getMinutes()
+  return window.start < window.end
+    ? minute >= window.start && minute < window.end
+    : minute >= window.start || minute < window.end
+}
+
+/** The level set on a buffer with /notify, if any */
+export function bufferNotifyLevel(
+  server: Pick<Server, 'notifyLevels'> | undefined,
+  name: string
+): BufferNotifyLevel | undefined {
+  return server?.notifyLevels?.[name.toLowerCase()]
+}
+
+/**
+ * Whether a buffer's level keeps its messages from counting as unread, marking
+ * it mentioned or reaching the Mentions buffer
+ */
+export function isSilenced(level: BufferNotifyLevel | null | undefined): boolean {
+  return level === 'none' || level === 'muted'
+}
+
+export function notifyLevelFor(
+  event: Pick<NotificationEvent, 'isPrivate' | 'level'>,
+  settings: NotifySettings
+): BufferNotifyLevel {
+  return event.level ?? (event.isPrivate ? settings.notifyPrivate : settings.notifyChannels)
+}
+
+/**
+ * Whether a message should raise a notification: its buffer's level allows
+ * it, it isn't the buffer being looked at, and it isn't quiet hours.
+ */
+export function shouldNotify(
+  event: NotificationEvent,
+  settings: NotifySettings,
+  focusedBufferId: string | null,
+  now: Date = new Date()
+): boolean {
+  if (event.bufferId === focusedBufferId) return false
+  const level = notifyLevelFor(event, settings)
+  if (isSilenced(level)) return false
+  if (level === 'mentions' && !event.mentioned) return false
+  return !isQuietTime(settings.notifyQuietHours, now)
+}
+
+/** The escape sequence the terminal most likely understands */
+export function detectNotifyMethod(
+  env: Record<string, string | undefined> = process.env
+): Exclude<NotifyMethod, 'auto'> {
+  const term = env.TERM?.toLowerCase() ?? ''
+  const program = env.TERM_PROGRAM?.toLowerCase() ?? ''
+  if (env.KITTY_WINDOW_ID || term.includes('kitty')) return 'osc99'
+  if (env.ITERM_SESSION_ID || ['iterm.app', 'wezterm', 'ghostty'].includes(program)) return 'osc9'
+  if (env.VTE_VERSION || term.startsWith('foot') || term.startsWith('rxvt')) return 'osc777'
+  return 'bell'
+}
+
+// Control characters would end the escape sequence early
+const clean = (text: string) => text.replace(/\p{Cc}/gu, ' ').slice(0, MAX_BODY)
+
+export function notificationSequence(
+  method: Exclude<NotifyMethod, 'auto'>,
+  title: string,
+  body: string
+): string | null {
+  switch (method) {
+    case 'bell':
+      return '\x07'
+    case 'osc9':
+      // No title field; iTerm2 and friends show the one line
+      return `\x1b]9;${clean(`${title}: ${body}`)}\x07`
+    case 'osc777':
+      return `\x1b]777;notify;${clean(title).replaceAll(';', ',')};${clean(body)}\x07`
+    case 'osc99':
+      return (
+        `\x1b]99;i=tobby:d=0:p=title;${clean(title)}\x1b\\` +
+        `\x1b]99;i=tobby:d=1:p=body;${clean(body)}\x1b\\`
+      )
+    case 'none':
+      return null
+  }
+}
+
+/**
+ * Run the notification hook. The command line is split on spaces and the
+ * title and body are appended as two more arguments, so `notify-send` works
+ * as is; they're also in TOBBY_NOTIFY_* for scripts.
+ */
+function runNotifyCommand(command: string, event: NotificationEvent): void {
+  const [program, ...args] = command.trim().split(/\s+/)
+  if (!program) return
+  const title = clean(event.title)
+  const body = clean(event.body)
+  try {
+    const child = spawn(program, [...args, title, body], {
+      stdio: 'ignore',
+      detached: true,
+      env: {
+        ...process.env,
+        TOBBY_NOTIFY_TITLE: title,
+        TOBBY_NOTIFY_BODY: body,
+        TOBBY_NOTIFY_BUFFER: event.bufferName,
+      },
+    })
+    child.on('error', (error) => debugLog?.('Notification command failed:', error))
+    child.unref()
+  } catch (error) {
+    debugLog?.('Notification command failed:', error)
+  }
+}
+
+/** Write the notification escape for this terminal, using its own notifyMethod */
+export function showTerminalNotification(
+  event: Pick<NotificationEvent, 'title' | 'body'>,
+  settings: Pick<NotifySettings, 'notifyMethod'>
+): void {
+  // Escapes only mean something on a terminal (not, say, a daemon's log file)
+  if (!process.stdout.isTTY) return
+  const method = settings.notifyMethod === 'auto' ? detectNotifyMethod() : settings.notifyMethod
+  const sequence = notificationSequence(method, event.title, event.body)
+  if (sequence) process.stdout.write(method === 'bell' ? sequence : wrapForTmux(sequence))
+}
+
+// Takes over the terminal half of notify(); the daemon relays to attached front ends
+let terminalNotifier: ((event: NotificationEvent) => void) | null = null
+
+export function setTerminalNotifier(handler: ((event: NotificationEvent) => void) | null): void {
+  terminalNotifier = handler
+}
+
+/** Send a notification through the configured backends, if the rules allow it */
+export function notify(
+  event: NotificationEvent,
+  settings: NotifySettings,
+  focusedBufferId: string | null
+): void {
+  if (!shouldNotify(event, settings, focusedBufferId)) return
+
+  if (terminalNotifier) terminalNotifier(event)
+  else showTerminalNotification(event, settings)
+  if (settings.notifyCommand) runNotifyCommand(settings.notifyCommand, event)
+}
@@ -34,6 +34,37 @@ export function getDatabasePath(): string {
   return path.join(getDataPath(), 'obbytty.db')
 }
 
+// Optional JSON keymap: { "chord": "action.id" } merged over the default bindings
+export function getKeymapPath(): string {
+  return path.join(getDataPath(), 'keys.json')
+}
+
+// Directory of user theme files (*.json), listed by /theme alongside the built-ins
+export function getThemesDir(): string {
+  return path.join(getDataPath(), 'themes')
+}
+
+// Hunspell dictionaries (*.aff + *.dic) of your own, searched before the system ones
+export function getDictionariesDir(): string {
+  return path.join(getDataPath(), 'dictionaries')
+}
+
+// Words the spell checker accepts on top of the dictionary, one per line
+export function getPersonalDictionaryPath(): string {
+  return path.join(getDataPath(), 'words.txt')
+}
+
+// Unix socket that `--daemon` listens on and `--attach` connects to
+export function getDaemonSocketPath(): string {
+  return path.join(getDataPath(), 'tobby.sock')
+}
+
+// Resolve a user-supplied file path, expanding a leading ~ to the home directory
+export function expandUserPath(p: string): string {
+  if (p === '~' || p.startsWith('~/')) return path.join(os.homedir(), p.slice(1))
+  return path.resolve(p)
+}
+
 export function resolveDatabasePath(customPath: string): string {
   if (customPath === ':memory:') return ':memory:'
   const resolved = path.resolve(customPath)
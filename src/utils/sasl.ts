@@ -0,0 +1,101 @@
+import crypto from 'crypto'
+
+export type SaslMechanism = 'OAUTHBEARER' | 'EXTERNAL' | 'SCRAM-SHA-256' | 'PLAIN'
+
+interface SaslCredentials {
+  oauthToken?: string
+  certFP?: boolean
+  password?: boolean
+}
+
+/**
+ * Pick the strongest mechanism we can satisfy. `advertised` is the `sasl=` value from
+ * CAP LS 302; servers that only send a bare `sasl` (CAP 301) get an empty list, in
+ * which case no mechanism is ruled out.
+ */
+export function pickSaslMechanism(
+  advertised: string[],
+  creds: SaslCredentials
+): SaslMechanism | null {
+  const offered = (m: SaslMechanism) => advertised.length === 0 || advertised.includes(m)
+  if (creds.oauthToken && offered('OAUTHBEARER')) return 'OAUTHBEARER'
+  if (creds.certFP && offered('EXTERNAL')) return 'EXTERNAL'
+  if (creds.password) {
+    // Without a mechanism list we can't know SCRAM is supported; PLAIN is the safe default
+    if (advertised.includes('SCRAM-SHA-256')) return 'SCRAM-SHA-256'
+    if (offered('PLAIN')) return 'PLAIN'
+  }
+  return null
+}
+
+const hmac = (key: Buffer, data: string) => crypto.createHmac('sha256', key).update(data).digest()
+const sha256 = (data: Buffer) => crypto.createHash('sha256').update(data).digest()
+
+function parseAttributes(message: string): Map<string, string> {
+  const attrs = new Map<string, string>()
+  for (const part of message.split(',')) {
+    const eq = part.indexOf('=')
+    if (eq > 0) attrs.set(part.slice(0, eq), part.slice(eq + 1))
+  }
+  return attrs
+}
+
+/**
+ * Client side of SCRAM-SHA-256 (RFC 5802 / RFC 7677), without channel binding.
+ * Messages are plain strings; the caller handles the base64 AUTHENTICATE framing.
+ */
+export class ScramClient {
+  private readonly clientFirstBare: string
+  private serverSignature: Buffer | null = null
+
+  constructor(
+    username: string,
+    private readonly password: string,
+    private readonly clientNonce = crypto.randomBytes(18).toString('base64')
+  ) {
+    const saslname = username.replace(/=/g, '=3D').replace(/,/g, '=2C')
+    this.clientFirstBare = `n=${saslname},r=${this.clientNonce}`
+  }
+
+  clientFirst(): string {
+    return `n,,${this.clientFirstBare}`
+  }
+
+  /** Answer the server-first-message with the client proof */
+  clientFinal(serverFirst: string): string {
+    const attrs = parseAttributes(serverFirst)
+    const nonce = attrs.get('r')
+    const salt = attrs.get('s')
+    const iterations = Number(attrs.get('i'))
+    if (!nonce || !salt || !iterations || !nonce.startsWith(this.clientNonce)) {
+      throw new Error('Invalid SCRAM server-first-message')
+    }
+
+    const salted = crypto.pbkdf2Sync(
+      this.password.normalize('NFKC'),
+      Buffer.from(salt, 'base64'),
+      iterations,
+      32,
+      'sha256'
+    )
+    const clientKey = hmac(salted, 'Client Key')
+    const withoutProof = `c=biws,r=${nonce}`
+    const authMessage = `${this.clientFirstBare},${serverFirst},${withoutProof}`
+    const clientSignature = hmac(sha256(clientKey), authMessage)
+    const proof = Buffer.from(clientKey.map((b, i) => b ^ clientSignature[i]!))
+
+    this.serverSignature = hmac(hmac(salted, 'Server Key'), authMessage)
+    return `${withoutProof},p=${proof.toString('base64')}`
+  }
+
+  /** True when the server-final-message proves the server knows the password too */
+  verifyServerFinal(serverFinal: string): boolean {
+    const signature = parseAttributes(serverFinal).get('v')
+    if (!signature || !this.serverSignature) return false
+    const received = Buffer.from(signature, 'base64')
+    return (
+      received.length === this.serverSignature.length &&
+      crypto.timingSafeEqual(received, this.serverSignature)
+    )
+  }
+}
@@ -0,0 +1,174 @@
+import type { AppStore } from '@/store'
+import type { StoredSettingKey } from '@/store/slices/settingsSlice'
+import { DEFAULT_THEME, listThemes } from './themes'
+import { validateTimeFormat } from './timeFormat'
+import { NOTIFY_LEVELS, NOTIFY_METHODS, validateQuietHours } from './notifications'
+import { findDictionary } from './spellcheck'
+
+/**
+ * A setting as /set, /unset and the settings modal see it. Values cross this
+ * boundary as text; each setting parses and stores them in its own type.
+ */
+export interface SettingSpec {
+  /** Name used by /set and /unset */
+  key: string
+  description: string
+  /** Values completion and the settings modal cycle through; unset for free text */
+  choices?: () => string[]
+  get: (store: AppStore) => string
+  /** Apply a typed-in value; returns why it was rejected, or null */
+  set: (store: AppStore, value: string) => string | null
+  reset: (store: AppStore) => void
+}
+
+const ON = ['on', 'true', 'yes', '1']
+const OFF = ['off', 'false', 'no', '0']
+
+export function parseBoolean(text: string): boolean | null {
+  const lower = text.trim().toLowerCase()
+  if (ON.includes(lower)) return true
+  if (OFF.includes(lower)) return false
+  return null
+}
+
+// Stored settings whose value is a T
+type StoredKeyOf<T> = {
+  [K in StoredSettingKey]: AppStore[K] extends T ? K : never
+}[StoredSettingKey]
+
+const onOff = (value: boolean) => (value ? 'on' : 'off')
+
+function storedBoolean(key: string, field: StoredKeyOf<boolean>, description: string): SettingSpec {
+  return {
+    key,
+    description,
+    choices: () => ['on', 'off'],
+    get: (store) => onOff(store[field]),
+    set: (store, value) => {
+      const parsed = parseBoolean(value)
+      if (parsed === null) return `${key} is on or off`
+      store.setSetting(field, parsed)
+      return null
+    },
+    reset: (store) => store.resetSetting(field),
+  }
+}
+
+function storedText(
+  key: string,
+  field: StoredKeyOf<string>,
+  description: string,
+  validate: (value: string) => string | null
+): SettingSpec {
+  return {
+    key,
+    description,
+    get: (store) => store[field],
+    set: (store, value) => {
+      const error = validate(value)
+      if (error) return error
+      store.setSetting(field, value)
+      return null
+    },
+    reset: (store) => store.resetSetting(field),
+  }
+}
+
+function storedChoice(
+  key: string,
+  field: StoredKeyOf<string>,
+  description: string,
+  values: readonly string[]
+): SettingSpec {
+  return {
+    ...storedText(key, field, description, (value) =>
+      values.includes(value) ? null : `${key} is one of ${values.join(', ')}`
+    ),
+    choices: () => [...values],
+  }
+}
+
+// Empty clears a setting that is off by default
+const orEmpty = (validate: (value: string) => string | null) => (value: string) =>
+  value ? validate(value) : null
+
+export const SETTINGS: readonly SettingSpec[] = [
+  {
+    key: 'theme',
+    description: 'Color theme (see /theme)',
+    choices: () => listThemes().map((theme) => theme.name),
+    get: (store) => store.theme,
+    set: (store, value) => (store.setTheme(value) ? null : `Unknown theme: ${value}`),
+    reset: (store) => {
+      // Back on the default, which leaves nothing stored
+      store.setTheme(DEFAULT_THEME)
+    },
+  },
+  {
+    key: 'show_timestamps',
+    description: 'Show a timestamp before each message',
+    choices: () => ['on', 'off'],
+    get: (store) => onOff(store.showTimestamps),
+    set: (store, value) => {
+      const parsed = parseBoolean(value)
+      if (parsed === null) return 'show_timestamps is on or off'
+      if (parsed !== store.showTimestamps) store.toggleShowTimestamps()
+      return null
+    },
+    reset: (store) => {
+      if (!store.showTimestamps) store.toggleShowTimestamps()
+    },
+  },
+  storedText(
+    'timestamp_format',
+    'timestampFormat',
+    'strftime-style format, e.g. %H:%M:%S',
+    validateTimeFormat
+  ),
+  storedBoolean('compact_mode', 'compactMode', 'Right-align nicks in a fixed column'),
+  storedChoice(
+    'notify_method',
+    'notifyMethod',
+    'Terminal notification escape (auto detects the terminal)',
+    NOTIFY_METHODS
+  ),
+  storedText(
+    'notify_command',
+    'notifyCommand',
+    'Program run with title and message, e.g. notify-send',
+    () => null
+  ),
+  storedText(
+    'notify_quiet_hours',
+    'notifyQuietHours',
+    'No notifications in this window, e.g. 23:00-07:00',
+    orEmpty(validateQuietHours)
+  ),
+  storedChoice('notify_channels', 'notifyChannels', 'Which channel messages notify', NOTIFY_LEVELS),
+  storedChoice('notify_private', 'notifyPrivate', 'Which private messages notify', NOTIFY_LEVELS),
+  storedBoolean(
+    'markdown_input',
+    'markdownInput',
+    'Send *bold*, _italic_ and `code` as formatting'
+  ),
+  storedBoolean('spell_check', 'spellCheck', 'Underline misspelled words in the input'),
+  storedText(
+    'spell_language',
+    'spellLanguage',
+    'Dictionary name, e.g. en_GB, or path to a .dic file',
+    orEmpty((value) => (findDictionary(value) ? null : `No dictionary found for ${value}`))
+  ),
+]
+
+export function getSettingSpec(key: string): SettingSpec | undefined {
+  const wanted = key.toLowerCase()
+  return SETTINGS.find((spec) => spec.key === wanted)
+}
+
+/** The value after `current` in a setting's choices, wrapping around */
+export function nextChoice(spec: SettingSpec, current: string): string | null {
+  const choices = spec.choices?.()
+  if (!choices || choices.length === 0) return null
+  const index = choices.findIndex((c) => c.toLowerCase() === current.toLowerCase())
+  return choices[(index + 1) % choices.length]!
+}
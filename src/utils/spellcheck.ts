@@ -0,0 +1,471 @@
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import { expandUserPath, getDictionariesDir, getPersonalDictionaryPath } from './paths'
+import { splitUrls } from './urls'
+
+/**
+ * A spell checker over a Hunspell dictionary (`.aff` rules plus `.dic` word
+ * list). Only what plain word lookup needs is read: prefixes and suffixes
+ * (with one level of continuation), NEEDAFFIX, FORBIDDENWORD, NOSUGGEST,
+ * ONLYINCOMPOUND, TRY and REP. Affixes are indexed by the text they add, so
+ * checking a word strips the ones it ends or starts with and looks up the stem.
+ */
+
+type FlagMode = 'char' | 'long' | 'num'
+
+interface AffixEntry {
+  /** Flag of the rule the entry belongs to */
+  flag: string
+  /** Whether the rule combines with affixes of the other kind */
+  cross: boolean
+  strip: string
+  add: string
+  condition: RegExp | null
+  continuation: string[]
+}
+
+interface Affixes {
+  flagMode: FlagMode
+  // Rule headers by flag, then entries by the text they add
+  rules: Map<string, { kind: 'PFX' | 'SFX'; cross: boolean }>
+  prefixes: Map<string, AffixEntry[]>
+  suffixes: Map<string, AffixEntry[]>
+  needAffix?: string
+  forbidden?: string
+  noSuggest?: string
+  onlyInCompound?: string
+  tryChars: string
+  replacements: [string, string][]
+}
+
+export interface Misspelling {
+  start: number
+  end: number
+  word: string
+}
+
+const DEFAULT_TRY = 'esianrtolcdugmphbyfvkwzxjq'
+const MAX_SUGGESTIONS = 5
+// Words checked at most when looking two edits away, so a long word can't stall typing
+const MAX_SECOND_EDITS = 5000
+
+// Punctuation, markdown markers and IRC codes around a word aren't part of it
+const EDGE_RE = /^[^\p{L}]+|[^\p{L}]+$/gu
+// Anything that makes a token code, a path, an address or a handle rather than prose
+const NOT_PROSE_RE = /[\d_@/\\:=<>{}[\]|~^$%+*#&]/u
+const CODE_SPAN_RE = /`[^`\n]*`/g
+// Commands whose first argument is a nick or channel
+const TARGET_COMMAND_RE = /^\/(?:msg|query|notice|describe)\s+\S+/i
+
+function parseFlags(text: string | undefined, mode: FlagMode): string[] {
+  if (!text) return []
+  if (mode === 'num') return text.split(',').filter(Boolean)
+  if (mode === 'long') return text.match(/../gu) ?? []
+  return [...text]
+}
+
+function parseAffixes(aff: string): Affixes {
+  const affixes: Affixes = {
+    flagMode: 'char',
+    rules: new Map(),
+    prefixes: new Map(),
+    suffixes: new Map(),
+    tryChars: '',
+    replacements: [],
+  }
+  for (const line of aff.split(/\r?\n/)) {
+    const fields = line.trim().split(/\s+/)
+    const [keyword, ...args] = fields
+    switch (keyword) {
+      case 'FLAG':
+        if (args[0] === 'long') affixes.flagMode = 'long'
+        else if (args[0] === 'num') affixes.flagMode = 'num'
+        break
+      case 'NEEDAFFIX':
+        affixes.needAffix = args[0]
+        break
+      case 'FORBIDDENWORD':
+        affixes.forbidden = args[0]
+        break
+      case 'NOSUGGEST':
+        affixes.noSuggest = args[0]
+        break
+      case 'ONLYINCOMPOUND':
+        affixes.onlyInCompound = args[0]
+        break
+      case 'TRY':
+        affixes.tryChars = args[0] ?? ''
+        break
+      case 'REP':
+        // The first REP line only gives the count
+        if (args.length >= 2) affixes.replacements.push([args[0]!, args[1]!.replace(/_/g, ' ')])
+        break
+      case 'PFX':
+      case 'SFX': {
+        const [flag, strip, add, condition] = args
+        if (!flag || strip === undefined || add === undefined) break
+        const rule = affixes.rules.get(flag)
+        if (!rule) {
+          affixes.rules.set(flag, { kind: keyword, cross: strip === 'Y' })
+          break
+        }
+        const [affix, continuation] = add.split('/')
+        let pattern: RegExp | null = null
+        if (condition && condition !== '.') {
+          try {
+            pattern = new RegExp(keyword === 'SFX' ? `(?:${condition})$` : `^(?:${condition})`, 'u')
+          } catch {
+            break
+          }
+        }
+        const entry: AffixEntry = {
+          flag,
+          cross: rule.cross,
+          strip: strip === '0' ? '' : strip,
+          add: affix === '0' ? '' : affix!,
+          condition: pattern,
+          continuation: parseFlags(continuation, affixes.flagMode),
+        }
+        const index = rule.kind === 'PFX' ? affixes.prefixes : affixes.suffixes
+        index.set(entry.add, [...(index.get(entry.add) ?? []), entry])
+        break
+      }
+    }
+  }
+  return affixes
+}
+
+const capitalize = (word: string) => word.charAt(0).toUpperCase() + word.slice(1)
+
+/** Give suggestions the case pattern of the word they replace */
+function matchCase(original: string, suggestion: string): string {
+  if (original.length > 1 && original === original.toUpperCase()) return suggestion.toUpperCase()
+  if (original.charAt(0) !== original.charAt(0).toLowerCase()) return capitalize(suggestion)
+  return suggestion
+}
+
+export class SpellChecker {
+  // Flag sets of each stem; a word listed twice (homonyms) has two
+  private stems = new Map<string, string[][]>()
+  private personal = new Set<string>()
+  private forbidden = new Set<string>()
+  private affixes: Affixes
+
+  constructor(aff: string, dic: string, personal: Iterable<string> = []) {
+    this.affixes = parseAffixes(aff)
+    const lines = dic.split(/\r?\n/)
+    // The first line is the word count
+    for (const line of lines.slice(/^\d+\s*$/.test(lines[0] ?? '') ? 1 : 0)) {
+      const entry = line.split(/\s/)[0]
+      if (!entry) continue
+      const slash = entry.search(/(?<!\\)\//)
+      const word = (slash === -1 ? entry : entry.slice(0, slash)).replace(/\\\//g, '/')
+      const flags = slash === -1 ? [] : parseFlags(entry.slice(slash + 1), this.affixes.flagMode)
+      const { forbidden } = this.affixes
+      if (forbidden && flags.includes(forbidden)) this.forbidden.add(word)
+      else this.stems.set(word, [...(this.stems.get(word) ?? []), flags])
+    }
+    for (const word of personal) this.addWord(word)
+  }
+
+  // Whether `stem` is listed with every flag in `need`; a bare stem (no flags
+  // needed) mustn't require an affix. NOSUGGEST stems are skipped when suggesting.
+  private hasStem(stem: string, need: string[], suggesting: boolean): boolean {
+    const { needAffix, onlyInCompound, noSuggest } = this.affixes
+    return (this.stems.get(stem) ?? []).some(
+      (flags) =>
+        need.every((flag) => flags.includes(flag)) &&
+        (need.length > 0 ||
+          !(
+            (needAffix && flags.includes(needAffix)) ||
+            (onlyInCompound && flags.includes(onlyInCompound))
+          )) &&
+        !(suggesting && noSuggest && flags.includes(noSuggest))
+    )
+  }
+
+  // Try every suffix the word ends with; `test` gets the stem it leaves
+  private stripSuffix(word: string, test: (stem: string, entry: AffixEntry) => boolean): boolean {
+    for (let i = 1; i <= word.length; i++) {
+      for (const entry of this.affixes.suffixes.get(word.slice(i)) ?? []) {
+        const stem = word.slice(0, i) + entry.strip
+        if ((!entry.condition || entry.condition.test(stem)) && test(stem, entry)) return true
+      }
+    }
+    return false
+  }
+
+  private stripPrefix(word: string, test: (stem: string, entry: AffixEntry) => boolean): boolean {
+    for (let i = 0; i < word.length; i++) {
+      for (const entry of this.affixes.prefixes.get(word.slice(0, i)) ?? []) {
+        const stem = entry.strip + word.slice(i)
+        if ((!entry.condition || entry.condition.test(stem)) && test(stem, entry)) return true
+      }
+    }
+    return false
+  }
+
+  // The word as written is a stem, or a stem with a suffix (possibly followed by one
+  // its continuation allows), a prefix, or both
+  private accepts(word: string, suggesting = false): boolean {
+    if (this.personal.has(word) || this.hasStem(word, [], suggesting)) return true
+    const suffixed = this.stripSuffix(
+      word,
+      (form, outer) =>
+        this.hasStem(form, [outer.flag], suggesting) ||
+        this.stripSuffix(
+          form,
+          (stem, inner) =>
+            inner.continuation.includes(outer.flag) && this.hasStem(stem, [inner.flag], suggesting)
+        )
+    )
+    return (
+      suffixed ||
+      this.stripPrefix(
+        word,
+        (form, prefix) =>
+          this.hasStem(form, [prefix.flag], suggesting) ||
+          (prefix.cross &&
+            this.stripSuffix(
+              form,
+              (stem, suffix) =>
+                suffix.cross && this.hasStem(stem, [suffix.flag, prefix.flag], suggesting)
+            ))
+      )
+    )
+  }
+
+  /** Accept a word from the personal dictionary */
+  addWord(word: string) {
+    const trimmed = word.trim()
+    if (!trimmed) return
+    this.personal.add(trimmed)
+    this.forbidden.delete(trimmed)
+  }
+
+  /** Whether a word is spelled right; capitalized and all-caps forms of listed words count */
+  check(word: string): boolean {
+    const normalized = word.replace(/’/g, "'")
+    if (this.forbidden.has(normalized)) return false
+    if (this.accepts(normalized)) return true
+    const lower = normalized.toLowerCase()
+    if (normalized === capitalize(lower)) return this.accepts(lower)
+    if (normalized === normalized.toUpperCase()) {
+      return this.accepts(lower) || this.accepts(capitalize(lower))
+    }
+    return false
+  }
+
+  private isSuggestible(word: string): boolean {
+    return !this.forbidden.has(word) && this.accepts(word, true)
+  }
+
+  // Swapped, replaced, dropped and inserted letters; `cheap` keeps to swaps and drops
+  private edits(word: string, cheap = false): string[] {
+    const letters = [...new Set(this.affixes.tryChars.toLowerCase() || DEFAULT_TRY)]
+    const out: string[] = []
+    for (let i = 0; i < word.length - 1; i++) {
+      out.push(word.slice(0, i) + word[i + 1] + word[i] + word.slice(i + 2))
+    }
+    if (cheap) {
+      for (let i = 0; i < word.length; i++) out.push(word.slice(0, i) + word.slice(i + 1))
+      return out
+    }
+    for (let i = 0; i < word.length; i++) {
+      for (const c of letters) if (c !== word[i]) out.push(word.slice(0, i) + c + word.slice(i + 1))
+    }
+    for (let i = 0; i < word.length; i++) out.push(word.slice(0, i) + word.slice(i + 1))
+    for (let i = 0; i <= word.length; i++) {
+      for (const c of letters) out.push(word.slice(0, i) + c + word.slice(i))
+    }
+    return out
+  }
+
+  /** Likely corrections, best first */
+  suggest(word: string, limit = MAX_SUGGESTIONS): string[] {
+    const lower = word.replace(/’/g, "'").toLowerCase()
+    const found = new Set<string>()
+    const consider = (candidate: string) => {
+      const words = candidate.split(' ')
+      if (found.size < limit && candidate !== lower && words.every((w) => this.isSuggestible(w))) {
+        found.add(candidate)
+      }
+    }
+
+    for (const [from, to] of this.affixes.replacements) {
+      for (let at = lower.indexOf(from); at !== -1; at = lower.indexOf(from, at + 1)) {
+        consider(lower.slice(0, at) + to + lower.slice(at + from.length))
+      }
+    }
+    const near = this.edits(lower)
+    near.forEach(consider)
+    // Two run-together words
+    for (let i = 1; i < lower.length; i++) {
+      const [a, b] = [lower.slice(0, i), lower.slice(i)]
+      if (a.length > 1 && b.length > 1) consider(`${a} ${b}`)
+    }
+    // Two edits away: any edit followed by a swap or a dropped letter, within a budget
+    if (found.size === 0 && lower.length <= 12) {
+      const seen = new Set(near)
+      let checked = 0
+      for (const once of near) {
+        for (const twice of this.edits(once, true)) {
+          if (seen.has(twice)) continue
+          seen.add(twice)
+          consider(twice)
+          checked++
+        }
+        if (found.size >= limit || checked >= MAX_SECOND_EDITS) break
+      }
+    }
+    return [...found].map((s) => matchCase(word, s))
+  }
+}
+
+/**
+ * The misspelled words in a line of input. A leading /command, code spans,
+ * URLs, #channels, nicks in `ignore` (lowercased) and anything that doesn't
+ * look like prose are skipped.
+ */
+export function findMisspellings(
+  text: string,
+  checker: Pick<SpellChecker, 'check'>,
+  ignore: ReadonlySet<string> = new Set()
+): Misspelling[] {
+  // Blank out what isn't prose, keeping offsets
+  let masked = text.replace(CODE_SPAN_RE, (code) => ' '.repeat(code.length))
+  masked = splitUrls(masked)
+    .map((part, i) => (i % 2 === 1 ? ' '.repeat(part.length) : part))
+    .join('')
+  if (masked.startsWith('/')) {
+    const blank = (cmd: string) => ' '.repeat(cmd.length)
+    masked = masked.replace(TARGET_COMMAND_RE, blank).replace(/^\/\S*/, blank)
+  }
+
+  const found: Misspelling[] = []
+  for (const token of masked.matchAll(/\S+/g)) {
+    // "#chan," and "nick:" as written, before punctuation is dropped
+    const handle = token[0].replace(/^\(/, '').replace(/[,:;.!?)]+$/, '')
+    if (/^[#&@]/.test(handle) || ignore.has(handle.toLowerCase())) continue
+    const bare = token[0].replace(EDGE_RE, '')
+    if (!bare || NOT_PROSE_RE.test(bare) || ignore.has(bare.toLowerCase())) continue
+    const offset = token.index! + token[0].search(/\p{L}/u)
+    for (const part of bare.matchAll(/[^-]+/g)) {
+      const word = part[0].replace(/^'+|'+$/g, '')
+      if ([...word].length < 2 || ignore.has(word.toLowerCase()) || checker.check(word)) continue
+      const start = offset + part.index! + part[0].indexOf(word)
+      found.push({ start, end: start + word.length, word })
+    }
+  }
+  return found
+}
+
+/** Replacements for a misspelled token, with its punctuation kept around them */
+export function spellingCandidates(token: string, checker: SpellChecker): string[] {
+  const match = /^([^\p{L}]*)(.*?)([^\p{L}]*)$/u.exec(token)
+  const [, before = '', word = '', after = ''] = match ?? []
+  if ([...word].length < 2 || NOT_PROSE_RE.test(word) || checker.check(word)) return []
+  return checker.suggest(word).map((s) => `${before}${s}${after}`)
+}
+
+/** `en_US` from `LANG=en_US.UTF-8`; English when the locale says nothing useful */
+export function defaultSpellLanguage(
+  env: Record<string, string | undefined> = process.env
+): string {
+  const locale = env.LC_ALL || env.LC_MESSAGES || env.LANG || ''
+  const language = locale.split(/[.@]/)[0]
+  return language && language !== 'C' && language !== 'POSIX' ? language : 'en_US'
+}
+
+function dictionaryDirs(): string[] {
+  const home = os.homedir()
+  return [
+    getDictionariesDir(),
+    '/usr/share/hunspell',
+    '/usr/share/myspell',
+    '/usr/share/myspell/dicts',
+    '/usr/local/share/hunspell',
+    '/opt/homebrew/share/hunspell',
+    path.join(home, 'Library', 'Spelling'),
+    '/Library/Spelling',
+  ]
+}
+
+/**
+ * The `.dic` file for a language such as `en_US` (or `en-US`), or for a path
+ * to a `.dic` file; null when there's none with an `.aff` next to it.
+ */
+export function findDictionary(language: string): string | null {
+  const candidates = language.includes('/')
+    ? [expandUserPath(language.endsWith('.dic') ? language : `${language}.dic`)]
+    : dictionaryDirs().flatMap((dir) =>
+        [language, language.replace('-', '_')].map((name) => path.join(dir, `${name}.dic`))
+      )
+  return (
+    candidates.find((dic) => fs.existsSync(dic) && fs.existsSync(dic.replace(/\.dic$/, '.aff'))) ??
+    null
+  )
+}
+
+async function readPersonalWords(): Promise<string[]> {
+  try {
+    return (await fs.promises.readFile(getPersonalDictionaryPath(), 'utf8'))
+      .split(/\r?\n/)
+      .filter(Boolean)
+  } catch {
+    return []
+  }
+}
+
+// The checker for the last language asked for; reading a dictionary takes a moment
+let loading: { language: string; checker: Promise<SpellChecker | null> } | null = null
+
+async function readSpellChecker(dictionary: string): Promise<SpellChecker | null> {
+  try {
+    const [aff, dic, personal] = await Promise.all([
+      fs.promises.readFile(dictionary.replace(/\.dic$/, '.aff'), 'utf8'),
+      fs.promises.readFile(dictionary, 'utf8'),
+      readPersonalWords(),
+    ])
+    return new SpellChecker(aff, dic, personal)
+  } catch (error) {
+    debugLog?.('Failed to load dictionary:', error)
+    return null
+  }
+}
+
+/** The checker for a language (empty for the locale's), or null without a dictionary */
+export function loadSpellChecker(language: string): Promise<SpellChecker | null> {
+  const wanted = language || defaultSpellLanguage()
+  if (loading?.language !== wanted) {
+    const dictionary = findDictionary(wanted)
+    loading = {
+      language: wanted,
+      checker: dictionary ? readSpellChecker(dictionary) : Promise.resolve(null),
+    }
+  }
+  return loading.checker
+}
+
+/** The dictionary file for a language (empty for the locale's), for /spell */
+export function getDictionaryPath(language: string): string | null {
+  return findDictionary(language || defaultSpellLanguage())
+}
+
+/**
+ * Remember a word in the personal dictionary and accept it from now on.
+ * Returns why it couldn't be saved, or null.
+ */
+export async function addPersonalWord(word: string): Promise<string | null> {
+  const file = getPersonalDictionaryPath()
+  if ((await readPersonalWords()).includes(word)) return null
+  try {
+    await fs.promises.appendFile(file, `${word}\n`)
+  } catch (error) {
+    return `Couldn't save to ${file}: ${(error as Error).message}`
+  }
+  const checker = await loading?.checker
+  checker?.addWord(word)
+  return null
+}
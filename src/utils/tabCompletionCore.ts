@@ -1,8 +1,10 @@
-import type { User, Channel } from '../types'
+import type { User, Channel, Message } from '../types'
 
 export interface TabState {
   isActive: boolean
   matches: string[]
+  /** How the popup shows each match, when that isn't the text it inserts */
+  labels?: string[]
   currentIndex: number
   originalText: string
   completionStart: number
@@ -18,10 +20,48 @@ export const RESET: TabState = {
   originalWord: '',
 }
 
+// `:name` with at least two letters; one is too often just a smiley
+const EMOJI_SHORTCODE_RE = /^:([\w+-]{2,}):?$/
+const RECENT_SPEAKERS_LIMIT = 50
+
 export interface TabCompletionOptions {
   users: User[]
   channels: Channel[]
   commands: string[]
+  /** Candidates for a command's next argument, given the arguments before it */
+  commandArguments?: (command: string, args: string[]) => string[]
+  /** Corrections for a misspelled word, tried when no nick matches */
+  spelling?: (word: string) => string[]
+  /** Nicks that spoke in the buffer, most recent first; they complete before the rest */
+  recentSpeakers?: string[]
+  /** Emoji for a `:shortcode` being typed, best first */
+  emoji?: (name: string) => { char: string; name: string }[]
+}
+
+/** Who spoke last in a buffer, most recent first, leaving out `self` */
+export function recentSpeakers(messages: Message[], self: string): string[] {
+  const seen = new Set([self.toLowerCase()])
+  const speakers: string[] = []
+  for (let i = messages.length - 1; i >= 0 && speakers.length < RECENT_SPEAKERS_LIMIT; i--) {
+    const message = messages[i]!
+    if (message.type !== 'message' && message.type !== 'action') continue
+    const key = message.userId.toLowerCase()
+    if (seen.has(key)) continue
+    seen.add(key)
+    speakers.push(message.userId)
+  }
+  return speakers
+}
+
+// Recent speakers by recency, then everyone else alphabetically
+function byRecency(recent: string[] = []) {
+  const rank = new Map(recent.map((nick, i) => [nick.toLowerCase(), i]))
+  return (a: string, b: string) => {
+    const ra = rank.get(a.toLowerCase()) ?? Infinity
+    const rb = rank.get(b.toLowerCase()) ?? Infinity
+    if (ra !== rb) return ra - rb
+    return a.toLowerCase().localeCompare(b.toLowerCase())
+  }
 }
 
 /**
@@ -56,17 +96,36 @@ export function computeTabCompletion(
   const completionStart = cursorPosition - currentWord.length
 
   if (!state.isActive) {
-    if (currentWord.length === 0) return null
+    // Arguments of commands that know their own, e.g. `/set <Tab>` cycles setting names
+    const [first = '', ...args] = textBeforeCursor.trimStart().split(/\s+/)
+    const argCandidates = (
+      first.startsWith('/') && args.length > 0
+        ? (opts.commandArguments?.(first.slice(1), args.slice(0, -1)) ?? [])
+        : []
+    ).filter((c) => {
+      const lower = c.toLowerCase()
+      return lower.startsWith(currentWord.toLowerCase()) && lower !== currentWord.toLowerCase()
+    })
+
+    if (currentWord.length === 0 && argCandidates.length === 0) return null
 
     const isAtMessageStart = textBeforeCursor.trim() === currentWord
+    const shortcode = EMOJI_SHORTCODE_RE.exec(currentWord)
     let candidates: string[]
+    let labels: string[] | undefined
 
-    if (currentWord.startsWith('/')) {
+    if (argCandidates.length > 0) {
+      candidates = argCandidates.map((c) => `${c} `)
+    } else if (currentWord.startsWith('/')) {
       const partial = currentWord.slice(1).toLowerCase()
       candidates = opts.commands
         .filter((cmd) => cmd.startsWith(partial) && cmd !== partial)
         .sort((a, b) => a.localeCompare(b))
         .map((cmd) => `/${cmd} `)
+    } else if (shortcode && opts.emoji) {
+      const found = opts.emoji(shortcode[1]!)
+      candidates = found.map((e) => `${e.char} `)
+      labels = found.map((e) => `${e.char} :${e.name}:`)
     } else if (currentWord.startsWith('#')) {
       const partial = currentWord.toLowerCase()
       candidates = opts.channels
@@ -83,8 +142,13 @@ export function computeTabCompletion(
           (username) =>
             username.toLowerCase().startsWith(partial) && username.toLowerCase() !== partial
         )
-        .sort((a, b) => a.toLowerCase().localeCompare(b.toLowerCase()))
+        .sort(byRecency(opts.recentSpeakers))
         .map((nick) => `${nick}${suffix}`)
+      if (candidates.length === 0) {
+        const corrections = opts.spelling?.(currentWord) ?? []
+        // The word as typed comes round again after the suggestions
+        if (corrections.length > 0) candidates = [...corrections, currentWord].map((w) => `${w} `)
+      }
     }
 
     if (candidates.length === 0) return null
@@ -99,6 +163,7 @@ export function computeTabCompletion(
       newState: {
         isActive: true,
         matches: candidates,
+        labels,
         currentIndex: 0,
         originalText: currentText,
         completionStart,
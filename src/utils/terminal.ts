@@ -0,0 +1,11 @@
+/**
+ * Wrap an escape sequence so tmux hands it to the outer terminal instead of
+ * swallowing it. Outside tmux the sequence is returned unchanged.
+ */
+export function wrapForTmux(
+  sequence: string,
+  env: Record<string, string | undefined> = process.env
+): string {
+  if (!env.TMUX) return sequence
+  return `\x1bPtmux;${sequence.replaceAll('\x1b', '\x1b\x1b')}\x1b\\`
+}
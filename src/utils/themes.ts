@@ -0,0 +1,213 @@
+import fs from 'node:fs'
+import path from 'node:path'
+import {
+  ANSI16_COLORS,
+  ANSI16_NICKNAME_COLORS,
+  ANSI16_THEME,
+  COLORS,
+  DARK_COLORS,
+  DARK_NICKNAME_COLORS,
+  DARK_THEME,
+  HIGH_CONTRAST_COLORS,
+  HIGH_CONTRAST_NICKNAME_COLORS,
+  HIGH_CONTRAST_THEME,
+  LIGHT_COLORS,
+  LIGHT_NICKNAME_COLORS,
+  LIGHT_THEME,
+  NICKNAME_COLORS,
+  THEME,
+  type IrcColors,
+  type ThemeColors,
+} from '@/constants/theme'
+import { getThemesDir } from './paths'
+
+export interface Theme {
+  name: string
+  description: string
+  colors: ThemeColors
+  irc: IrcColors
+  nicknames: string[]
+  /** File the theme was loaded from; unset for built-ins */
+  file?: string
+}
+
+export const BUILTIN_THEMES: readonly Theme[] = [
+  {
+    name: 'dark',
+    description: 'The default dark palette',
+    colors: DARK_THEME,
+    irc: DARK_COLORS,
+    nicknames: DARK_NICKNAME_COLORS,
+  },
+  {
+    name: 'light',
+    description: 'Dark text on a white background',
+    colors: LIGHT_THEME,
+    irc: LIGHT_COLORS,
+    nicknames: LIGHT_NICKNAME_COLORS,
+  },
+  {
+    name: 'high-contrast',
+    description: 'Black and white with saturated accents',
+    colors: HIGH_CONTRAST_THEME,
+    irc: HIGH_CONTRAST_COLORS,
+    nicknames: HIGH_CONTRAST_NICKNAME_COLORS,
+  },
+  {
+    name: 'ansi16',
+    description: 'Only the 16 standard colors, for terminals without truecolor',
+    colors: ANSI16_THEME,
+    irc: ANSI16_COLORS,
+    nicknames: ANSI16_NICKNAME_COLORS,
+  },
+]
+
+const HEX_COLOR = /^#[0-9a-f]{6}([0-9a-f]{2})?$/i
+
+let userThemes: Theme[] = []
+// Warnings from the last load, for /theme
+let lastWarnings: string[] = []
+
+export function listThemes(): Theme[] {
+  return [...BUILTIN_THEMES, ...userThemes]
+}
+
+export function getTheme(name: string): Theme | undefined {
+  const wanted = name.toLowerCase()
+  return listThemes().find((theme) => theme.name.toLowerCase() === wanted)
+}
+
+export function getThemeWarnings(): readonly string[] {
+  return lastWarnings
+}
+
+function mergeColors<T extends Record<string, string>>(
+  base: T,
+  overrides: unknown,
+  section: string,
+  warnings: string[]
+): T {
+  const merged = { ...base }
+  if (overrides === undefined) return merged
+  if (overrides === null || typeof overrides !== 'object' || Array.isArray(overrides)) {
+    warnings.push(`"${section}" must be an object of "key": "#rrggbb"`)
+    return merged
+  }
+  for (const [key, value] of Object.entries(overrides)) {
+    if (!(key in base)) {
+      warnings.push(`${section}.${key} is not a theme color`)
+    } else if (typeof value !== 'string' || !HEX_COLOR.test(value)) {
+      warnings.push(`${section}.${key}: expected #rrggbb or #rrggbbaa`)
+    } else {
+      ;(merged as Record<string, string>)[key] = value
+    }
+  }
+  return merged
+}
+
+export interface ThemeResult {
+  theme: Theme | null
+  warnings: string[]
+}
+
+/**
+ * Build a theme from a user theme file's JSON:
+ * `{ name?, description?, extends?, colors?, irc?, nicknames? }`.
+ * Anything left out comes from `extends` (a built-in theme, `dark` by
+ * default); invalid colors are skipped with a warning.
+ */
+export function buildTheme(config: unknown, fallbackName: string): ThemeResult {
+  const warnings: string[] = []
+  if (config === null || typeof config !== 'object' || Array.isArray(config)) {
+    return { theme: null, warnings: ['A theme must be a JSON object'] }
+  }
+  const spec = config as Record<string, unknown>
+
+  const name = typeof spec.name === 'string' && spec.name.trim() ? spec.name.trim() : fallbackName
+  if (/\s/.test(name)) {
+    return { theme: null, warnings: [`Theme name "${name}" can't contain spaces`] }
+  }
+  if (BUILTIN_THEMES.some((theme) => theme.name === name.toLowerCase())) {
+    return { theme: null, warnings: [`"${name}" is a built-in theme; pick another name`] }
+  }
+
+  const baseName = typeof spec.extends === 'string' ? spec.extends.toLowerCase() : 'dark'
+  let base = BUILTIN_THEMES.find((theme) => theme.name === baseName)
+  if (!base) {
+    warnings.push(`extends: unknown built-in theme "${String(spec.extends)}", using dark`)
+    base = BUILTIN_THEMES[0]!
+  }
+
+  let nicknames = base.nicknames
+  if (spec.nicknames !== undefined) {
+    const list = Array.isArray(spec.nicknames) ? spec.nicknames : []
+    if (list.length > 0 && list.every((c) => typeof c === 'string' && HEX_COLOR.test(c))) {
+      nicknames = list as string[]
+    } else {
+      warnings.push('nicknames must be a non-empty list of #rrggbb colors')
+    }
+  }
+
+  return {
+    theme: {
+      name,
+      description:
+        typeof spec.description === 'string' ? spec.description : `Based on ${base.name}`,
+      colors: mergeColors(base.colors, spec.colors, 'colors', warnings),
+      irc: mergeColors(base.irc, spec.irc, 'irc', warnings),
+      nicknames: [...nicknames],
+    },
+    warnings,
+  }
+}
+
+/** Load every `*.json` in the themes directory, replacing previously loaded user themes */
+export function loadUserThemes(dir: string = getThemesDir()): string[] {
+  const loaded: Theme[] = []
+  const warnings: string[] = []
+
+  let files: string[] = []
+  if (fs.existsSync(dir)) {
+    try {
+      files = fs
+        .readdirSync(dir)
+        .filter((f) => f.endsWith('.json'))
+        .sort()
+    } catch (error) {
+      warnings.push(`Couldn't read ${dir}: ${(error as Error).message}`)
+    }
+  }
+
+  for (const file of files) {
+    const filePath = path.join(dir, file)
+    let config: unknown
+    try {
+      config = JSON.parse(fs.readFileSync(filePath, 'utf8'))
+    } catch (error) {
+      warnings.push(`${file}: ${(error as Error).message}`)
+      continue
+    }
+    const result = buildTheme(config, path.basename(file, '.json'))
+    warnings.push(...result.warnings.map((w) => `${file}: ${w}`))
+    if (!result.theme) continue
+    if (loaded.some((t) => t.name.toLowerCase() === result.theme!.name.toLowerCase())) {
+      warnings.push(`${file}: another file already defines "${result.theme.name}"`)
+      continue
+    }
+    loaded.push({ ...result.theme, file: filePath })
+  }
+
+  userThemes = loaded
+  lastWarnings = warnings
+  return warnings
+}
+
+/** Overwrite the active palettes in place; components re-render through useTheme */
+export function applyTheme(theme: Theme): void {
+  Object.assign(THEME, theme.colors)
+  Object.assign(COLORS, theme.irc)
+  NICKNAME_COLORS.splice(0, NICKNAME_COLORS.length, ...theme.nicknames)
+}
+
+/** The theme used until another is picked; terminals without truecolor can pick `ansi16` */
+export const DEFAULT_THEME = 'dark'
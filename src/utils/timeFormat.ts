@@ -0,0 +1,73 @@
+const DAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+const MONTHS = [
+  'January',
+  'February',
+  'March',
+  'April',
+  'May',
+  'June',
+  'July',
+  'August',
+  'September',
+  'October',
+  'November',
+  'December',
+]
+
+export const DEFAULT_TIMESTAMP_FORMAT = '%H:%M'
+
+const pad = (n: number) => String(n).padStart(2, '0')
+
+// strftime directives, in the C locale
+const DIRECTIVES: Record<string, (date: Date) => string> = {
+  H: (d) => pad(d.getHours()),
+  I: (d) => pad(d.getHours() % 12 || 12),
+  M: (d) => pad(d.getMinutes()),
+  S: (d) => pad(d.getSeconds()),
+  p: (d) => (d.getHours() < 12 ? 'AM' : 'PM'),
+  d: (d) => pad(d.getDate()),
+  e: (d) => String(d.getDate()).padStart(2, ' '),
+  m: (d) => pad(d.getMonth() + 1),
+  y: (d) => pad(d.getFullYear() % 100),
+  Y: (d) => String(d.getFullYear()),
+  a: (d) => DAYS[d.getDay()]!.slice(0, 3),
+  A: (d) => DAYS[d.getDay()]!,
+  b: (d) => MONTHS[d.getMonth()]!.slice(0, 3),
+  B: (d) => MONTHS[d.getMonth()]!,
+  '%': () => '%',
+}
+
+/** Format a date with strftime-style `%` directives; unknown ones are left as written */
+export function formatTime(date: Date, format: string): string {
+  return format.replace(/%(.)/g, (match, directive: string) =>
+    DIRECTIVES[directive] ? DIRECTIVES[directive](date) : match
+  )
+}
+
+/** Why a timestamp format can't be used, or null if it's fine */
+export function validateTimeFormat(format: string): string | null {
+  if (!format) return 'The format is empty'
+  for (const [, directive] of format.matchAll(/%(.?)/g)) {
+    if (!directive) return 'The format ends with a lone %'
+    if (!DIRECTIVES[directive]) {
+      return `Unknown directive %${directive} (use ${Object.keys(DIRECTIVES)
+        .map((d) => '%' + d)
+        .join(' ')})`
+    }
+  }
+  return null
+}
+
+export function isSameDay(a: Date, b: Date): boolean {
+  return (
+    a.getFullYear() === b.getFullYear() &&
+    a.getMonth() === b.getMonth() &&
+    a.getDate() === b.getDate()
+  )
+}
+
+/** The label of a date separator: `Monday 19 Oct`, with the year if it isn't this one */
+export function formatDay(date: Date, now: Date = new Date()): string {
+  const label = `${formatTime(date, '%A')} ${date.getDate()} ${formatTime(date, '%b')}`
+  return date.getFullYear() === now.getFullYear() ? label : `${label} ${date.getFullYear()}`
+}
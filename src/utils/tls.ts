@@ -0,0 +1,8 @@
+import type { Server } from '../types'
+
+// Well-known TLS ports, used when a server was saved before its ssl flag was honoured
+const TLS_PORTS = new Set([6697, 6679])
+
+export function usesTLS(server: Pick<Server, 'ssl' | 'port'>): boolean {
+  return server.ssl ?? TLS_PORTS.has(server.port)
+}
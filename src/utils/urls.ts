@@ -0,0 +1,86 @@
+import { spawn } from 'child_process'
+import type { Message } from '@/types'
+
+// Scheme URLs, or bare www. hosts. Control characters end a URL so IRC
+// formatting codes around one stay out of it.
+const URL_RE = /(?:(?:https?|ftp):\/\/|(?<![\w./])www\.)[^\s<>"\p{Cc}]+/giu
+
+// Message types whose text is worth collecting links from
+const LINK_TYPES: Message['type'][] = ['message', 'action', 'notice', 'whisper']
+
+export interface CaughtUrl {
+  url: string
+  nick: string
+  timestamp: Date
+  messageId: string
+}
+
+/** Drop sentence punctuation after a URL, and closing brackets it didn't open */
+function trimUrl(candidate: string): string {
+  let url = candidate.replace(/[.,:;!?'*]+$/, '')
+  for (const [open, close] of [
+    ['(', ')'],
+    ['[', ']'],
+  ] as const) {
+    while (url.endsWith(close) && url.split(open).length < url.split(close).length) {
+      url = url.slice(0, -1).replace(/[.,:;!?'*]+$/, '')
+    }
+  }
+  return url
+}
+
+/**
+ * Split text around the URLs in it: `[text, url, text, url, ..., text]`,
+ * so URLs sit at odd indices.
+ */
+export function splitUrls(text: string): string[] {
+  const parts: string[] = []
+  let last = 0
+  for (const m of text.matchAll(URL_RE)) {
+    const url = trimUrl(m[0])
+    if (!url.includes('.')) continue
+    parts.push(text.slice(last, m.index), url)
+    last = m.index! + url.length
+  }
+  parts.push(text.slice(last))
+  return parts
+}
+
+export function findUrls(text: string): string[] {
+  return splitUrls(text).filter((_, i) => i % 2 === 1)
+}
+
+/** What a link points at; bare www. hosts get https:// */
+export function urlHref(url: string): string {
+  return /^www\./i.test(url) ? `https://${url}` : url
+}
+
+/** The links posted in a buffer, newest first, each URL once */
+export function collectUrls(messages: Message[]): CaughtUrl[] {
+  const seen = new Set<string>()
+  const caught: CaughtUrl[] = []
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const msg = messages[i]!
+    if (!LINK_TYPES.includes(msg.type) || msg.redacted) continue
+    for (const url of findUrls(msg.content).reverse()) {
+      if (seen.has(url)) continue
+      seen.add(url)
+      caught.push({ url, nick: msg.userId, timestamp: msg.timestamp, messageId: msg.id })
+    }
+  }
+  return caught
+}
+
+/** Open a URL with $BROWSER, or the desktop's opener */
+export function openUrl(url: string): boolean {
+  const href = urlHref(url)
+  const command = process.env.BROWSER || (process.platform === 'darwin' ? 'open' : 'xdg-open')
+  try {
+    const child = spawn(command, [href], { stdio: 'ignore', detached: true })
+    child.on('error', (error) => debugLog?.('Failed to open URL:', error))
+    child.unref()
+    return true
+  } catch {
+    return false
+  }
+}
@@ -287,5 +287,22 @@ describe('ActionRegistry', () => {
       const found = registry.findByKeybinding('ctrl+unknown')
       expect(found).toBeUndefined()
     })
+
+    it('should use the keymap once one is set', () => {
+      const action: Action = {
+        id: 'test.action',
+        label: 'Test Action',
+        category: 'system',
+        keybinding: 'ctrl+k',
+        execute: () => {},
+      }
+
+      registry.register(action)
+      registry.setKeymap(new Map([['alt+t', 'test.action']]))
+
+      expect(registry.findByKeybinding('alt+t')).toBe(action)
+      expect(registry.findByKeybinding('ctrl+k')).toBeUndefined()
+      expect(registry.getKeymap()).toEqual([['alt+t', action]])
+    })
   })
 })
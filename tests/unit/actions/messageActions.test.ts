@@ -0,0 +1,97 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { ActionRegistry } from '@/actions'
+import { registerMessageActions } from '@/actions/messageActions'
+import { MockIRCClient } from '../mocks/mockIRCClient'
+import type { ActionContext, Message, Server } from '@/types'
+import type { AppStore } from '@/store'
+
+const server: Server = {
+  id: 'server-1',
+  name: 'Test Server',
+  host: 'irc.test.com',
+  port: 6667,
+  nickname: 'TestUser',
+  isConnected: true,
+  connectionState: 'connected',
+  capabilities: ['draft/edit', 'echo-message'],
+  channels: [
+    {
+      id: 'channel-1',
+      name: '#test',
+      serverId: 'server-1',
+      topic: '',
+      isPrivate: false,
+      unreadCount: 0,
+      isMentioned: false,
+      messages: [],
+      users: [],
+    },
+  ],
+  privateChats: [],
+}
+
+const message: Message = {
+  id: 'message-1',
+  msgid: 'abc',
+  type: 'message',
+  content: 'helo',
+  timestamp: new Date(),
+  userId: 'testuser',
+  channelId: 'channel-1',
+  serverId: 'server-1',
+  reactions: [],
+  replyMessage: null,
+  mentioned: [],
+}
+
+describe('Message Actions', () => {
+  let registry: ActionRegistry<AppStore>
+  let ircClient: MockIRCClient
+  let store: Pick<AppStore, 'getServer' | 'updateMessage' | 'awaitEditEcho' | 'openModal'>
+  let context: ActionContext<AppStore>
+
+  beforeEach(() => {
+    registry = new ActionRegistry<AppStore>()
+    registerMessageActions(registry)
+    ircClient = new MockIRCClient()
+    ircClient.sendRaw = vi.fn()
+    store = {
+      getServer: (id) => (id === server.id ? server : undefined),
+      updateMessage: vi.fn(),
+      awaitEditEcho: vi.fn(),
+      openModal: vi.fn(),
+    }
+    // Selected from the Mentions buffer: no current server or channel
+    context = {
+      store: store as AppStore,
+      ircClient: ircClient as any,
+      renderer: {} as any,
+      selectedMessage: message,
+    }
+  })
+
+  it('edits our own message whatever the case of our nick', () => {
+    const edit = registry.get('message.edit')!
+    expect(edit.isEnabled!(context)).toBe(true)
+    expect(
+      edit.isEnabled!({ ...context, selectedMessage: { ...message, userId: 'someone' } })
+    ).toBe(false)
+  })
+
+  it('sends the edit to the message buffer and waits for its echo', async () => {
+    await registry.execute('message.edit', context, 'hello')
+    expect(ircClient.sendRaw).toHaveBeenCalledWith(
+      'server-1',
+      '@+draft/edit=abc PRIVMSG #test :hello'
+    )
+    expect(store.updateMessage).toHaveBeenCalledWith(
+      'channel-1',
+      'message-1',
+      expect.objectContaining({
+        content: 'hello',
+        editPending: expect.objectContaining({ content: 'helo' }),
+      })
+    )
+    expect(store.awaitEditEcho).toHaveBeenCalledWith('channel-1', 'message-1')
+  })
+})
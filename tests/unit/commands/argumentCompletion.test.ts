@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest'
+import { ActionRegistry } from '@/actions'
+import { CommandParser, type CompletionContext } from '@/services/commands'
+import type { Channel, Message, Server, User } from '@/types'
+
+const user = (username: string): User => ({ id: username, username, isOnline: true })
+const said = (userId: string, at: number) =>
+  ({ userId, type: 'message', timestamp: new Date(at) }) as Message
+
+const general = {
+  id: 'ch-general',
+  name: '#general',
+  users: [user('alice'), user('bob'), user('me')],
+} as Channel
+const server = {
+  id: 'srv-1',
+  nickname: 'me',
+  channels: [general, { id: 'ch-dev', name: '#dev', users: [] } as unknown as Channel],
+  privateChats: [
+    { id: 'pm-carol', username: 'carol' },
+    { id: 'pm-dave', username: 'dave' },
+  ],
+} as unknown as Server
+
+const ctx = (channel?: Channel): CompletionContext => ({
+  store: {
+    listedChannels: { 'srv-1': ['#busy', '#dev', '#quiet'] },
+    messages: new Map([
+      ['ch-general', [said('alice', 1), said('bob', 2)]],
+      ['pm-carol', [said('carol', 1)]],
+      ['pm-dave', [said('dave', 5)]],
+    ]),
+  } as unknown as CompletionContext['store'],
+  server,
+  channel,
+})
+
+describe('argument completion', () => {
+  const parser = new CommandParser(new ActionRegistry())
+
+  it('offers LIST results, then joined channels, for /join', () => {
+    expect(parser.getArgumentCompletions('join', [], ctx(general))).toEqual([
+      '#busy',
+      '#dev',
+      '#quiet',
+      '#general',
+    ])
+  })
+
+  it('offers recent private chats, then channel members, for /msg', () => {
+    expect(parser.getArgumentCompletions('msg', [], ctx(general))).toEqual([
+      'dave',
+      'carol',
+      'bob',
+      'alice',
+      'me',
+      '#general',
+      '#dev',
+    ])
+    expect(parser.getArgumentCompletions('msg', ['dave'], ctx(general))).toEqual([])
+  })
+
+  it('walks /mode through target, mode change and nick', () => {
+    expect(parser.getArgumentCompletions('mode', [], ctx(general))).toContain('+o')
+    expect(parser.getArgumentCompletions('mode', [], ctx(general))[0]).toBe('#general')
+    expect(parser.getArgumentCompletions('mode', ['#general'], ctx())).toContain('-v')
+    expect(parser.getArgumentCompletions('mode', ['#general', '+o'], ctx())).toEqual([
+      'bob',
+      'alice',
+      'me',
+    ])
+    expect(parser.getArgumentCompletions('mode', ['+v'], ctx(general))[0]).toBe('bob')
+  })
+})
@@ -42,6 +42,12 @@ describe('msgLineCount — single-line messages', () => {
     }
     expect(msgLineCount(msg, true)).toBe(4)
   })
+
+  it('edited + selected adds the original-text row', () => {
+    const msg: Message = { ...base, editedAt: new Date(), originalContent: 'helo' }
+    expect(msgLineCount(msg, false)).toBe(1)
+    expect(msgLineCount(msg, true)).toBe(3)
+  })
 })
 
 describe('msgLineCount — multiline messages (collapsed)', () => {
@@ -7,7 +7,7 @@ describe('DB migrations', () => {
     vi.resetModules()
   })
 
-  it('fresh DB initializes to user_version 102 and ui_state is readable', async () => {
+  it('fresh DB initializes to user_version 114 and ui_state is readable', async () => {
     // Track PRAGMA user_version state across run() and query() calls
     let storedVersion = 0
     const ranSqls: string[] = []
@@ -40,8 +40,8 @@ describe('DB migrations', () => {
     closeDatabase()
     const db = getDatabase()
 
-    // Migration 102 should have been applied
-    expect(storedVersion).toBe(102)
+    // Migration 114 should have been applied
+    expect(storedVersion).toBe(114)
 
     // ui_state table should be readable
     const uiState = db.getUIState()
@@ -53,7 +53,7 @@ describe('DB migrations', () => {
     closeDatabase()
   })
 
-  it('DB at v1.0 (user_version=100) is migrated to 102', async () => {
+  it('DB at v1.0 (user_version=100) is migrated to 114', async () => {
     let storedVersion = 100
 
     vi.doMock('bun:sqlite', () => ({
@@ -77,7 +77,86 @@ describe('DB migrations', () => {
     closeDatabase()
     getDatabase()
 
-    expect(storedVersion).toBe(102)
+    expect(storedVersion).toBe(114)
+    closeDatabase()
+  })
+
+  it('DB at v1.2 (user_version=102) gains the messages log table', async () => {
+    let storedVersion = 102
+    const ranSqls: string[] = []
+
+    vi.doMock('bun:sqlite', () => ({
+      Database: class {
+        run(sql: string) {
+          ranSqls.push(sql.trim())
+          const m = sql.match(/PRAGMA user_version\s*=\s*(\d+)/i)
+          if (m) storedVersion = parseInt(m[1]!, 10)
+        }
+        query(sql: string) {
+          const s = sql.toLowerCase().trim()
+          if (s.includes('pragma user_version')) {
+            return { get: () => ({ user_version: storedVersion }), all: () => [] }
+          }
+          return { get: () => null, all: () => [] }
+        }
+        close() {}
+      },
+    }))
+
+    const { getDatabase, closeDatabase } = await import('@/services/database')
+    closeDatabase()
+    getDatabase()
+
+    expect(storedVersion).toBe(114)
+    expect(ranSqls.some((s) => s.includes('CREATE TABLE IF NOT EXISTS messages'))).toBe(true)
+    // ui_state belongs to 101 and must not be re-created
+    expect(ranSqls.some((s) => s.includes('CREATE TABLE IF NOT EXISTS ui_state'))).toBe(false)
+    closeDatabase()
+  })
+
+  it('DB at v1.3 (user_version=103) gains the per-server TLS, CertFP and charset columns, highlights, ignores, edit columns, monitors, the theme column and settings', async () => {
+    let storedVersion = 103
+    const ranSqls: string[] = []
+
+    vi.doMock('bun:sqlite', () => ({
+      Database: class {
+        run(sql: string) {
+          ranSqls.push(sql.trim())
+          const m = sql.match(/PRAGMA user_version\s*=\s*(\d+)/i)
+          if (m) storedVersion = parseInt(m[1]!, 10)
+        }
+        query(sql: string) {
+          const s = sql.toLowerCase().trim()
+          if (s.includes('pragma user_version')) {
+            return { get: () => ({ user_version: storedVersion }), all: () => [] }
+          }
+          return { get: () => null, all: () => [] }
+        }
+        close() {}
+      },
+    }))
+
+    const { getDatabase, closeDatabase } = await import('@/services/database')
+    closeDatabase()
+    getDatabase()
+
+    expect(storedVersion).toBe(114)
+    expect(ranSqls).toContain(
+      'ALTER TABLE servers ADD COLUMN accept_invalid_cert INTEGER NOT NULL DEFAULT 0'
+    )
+    expect(ranSqls).toContain('ALTER TABLE servers ADD COLUMN tls_fingerprint TEXT')
+    expect(ranSqls).toContain('UPDATE servers SET ssl = 1 WHERE port IN (6697, 6679)')
+    expect(ranSqls.some((s) => s.includes('CREATE TABLE IF NOT EXISTS messages'))).toBe(false)
+    expect(ranSqls).toContain('ALTER TABLE servers ADD COLUMN client_cert TEXT')
+    expect(ranSqls).toContain('ALTER TABLE servers ADD COLUMN client_key TEXT')
+    expect(ranSqls).toContain('ALTER TABLE servers ADD COLUMN fallback_encoding TEXT')
+    expect(ranSqls.some((s) => s.includes('CREATE TABLE IF NOT EXISTS highlights'))).toBe(true)
+    expect(ranSqls.some((s) => s.includes('CREATE TABLE IF NOT EXISTS ignores'))).toBe(true)
+    expect(ranSqls).toContain('ALTER TABLE messages ADD COLUMN original_content TEXT')
+    expect(ranSqls).toContain('ALTER TABLE messages ADD COLUMN redacted INTEGER NOT NULL DEFAULT 0')
+    expect(ranSqls.some((s) => s.includes('CREATE TABLE IF NOT EXISTS monitors'))).toBe(true)
+    expect(ranSqls).toContain('ALTER TABLE ui_state ADD COLUMN theme TEXT')
+    expect(ranSqls.some((s) => s.includes('CREATE TABLE IF NOT EXISTS settings'))).toBe(true)
     closeDatabase()
   })
 
@@ -9,8 +9,8 @@
  * to silently do nothing (computeTabCompletion(RESET, '', opts) → null).
  */
 import { describe, it, expect } from 'vitest'
-import type { User, Channel } from '@/types'
-import { RESET, computeTabCompletion } from '@/utils/tabCompletionCore'
+import type { User, Channel, Message } from '@/types'
+import { RESET, computeTabCompletion, recentSpeakers } from '@/utils/tabCompletionCore'
 import type { TabState } from '@/utils/tabCompletionCore'
 
 const makeUser = (username: string): User => ({ id: username, username, isOnline: true })
@@ -120,3 +120,90 @@ describe('tab completion — external edit resets session', () => {
     expect(result).toBeNull()
   })
 })
+
+describe('tab completion — command arguments', () => {
+  const withArgs = {
+    ...opts,
+    commandArguments: (command: string, args: string[]) =>
+      command === 'set' ? (args.length === 0 ? ['compact_mode', 'theme'] : ['on', 'off']) : [],
+  }
+
+  it('offers every candidate for an empty argument and cycles through them', () => {
+    const first = computeTabCompletion(RESET, '/set ', withArgs)!
+    expect(first.newText).toBe('/set compact_mode ')
+    const second = computeTabCompletion(first.newState, first.newText, withArgs)!
+    expect(second.newText).toBe('/set theme ')
+  })
+
+  it('passes the earlier arguments along', () => {
+    expect(computeTabCompletion(RESET, '/set compact_mode o', withArgs)?.newText).toMatch(
+      /^\/set compact_mode (on|off) $/
+    )
+  })
+
+  it('falls back to nicks when the command has nothing to offer', () => {
+    expect(computeTabCompletion(RESET, '/msg al', withArgs)?.newText).toMatch(
+      /^\/msg al(ice|icia) $/
+    )
+    expect(computeTabCompletion(RESET, '/msg ', withArgs)).toBeNull()
+  })
+})
+
+describe('tab completion — spelling', () => {
+  const withSpelling = {
+    ...opts,
+    spelling: (word: string) => (word === 'wrold' ? ['world', 'would'] : []),
+  }
+
+  it('cycles corrections, then the word as typed', () => {
+    const first = computeTabCompletion(RESET, 'hello wrold', withSpelling)!
+    expect(first.newText).toBe('hello world ')
+    const second = computeTabCompletion(first.newState, first.newText, withSpelling)!
+    expect(second.newText).toBe('hello would ')
+    const third = computeTabCompletion(second.newState, second.newText, withSpelling)!
+    expect(third.newText).toBe('hello wrold ')
+  })
+
+  it('prefers nicks', () => {
+    expect(computeTabCompletion(RESET, 'al', withSpelling)?.newText).toMatch(/^al(ice|icia): $/)
+  })
+})
+
+describe('tab completion — recent speakers', () => {
+  it('puts whoever spoke last first, at line start with a colon', () => {
+    const first = computeTabCompletion(RESET, 'al', { ...opts, recentSpeakers: ['alicia'] })!
+    expect(first.newText).toBe('alicia: ')
+    expect(first.newState.matches).toEqual(['alicia: ', 'alice: '])
+  })
+
+  it('lists speakers newest first, once each, without yourself', () => {
+    const said = (userId: string, type: Message['type'] = 'message') =>
+      ({ userId, type }) as Message
+    const messages = [said('bob'), said('alice'), said('me'), said('Bob'), said('carol', 'join')]
+    expect(recentSpeakers(messages, 'me')).toEqual(['Bob', 'alice'])
+  })
+})
+
+describe('tab completion — emoji', () => {
+  const withEmoji = {
+    ...opts,
+    emoji: (name: string) =>
+      name === 'thu'
+        ? [
+            { char: '👍', name: 'thumbs_up' },
+            { char: '👎', name: 'thumbs_down' },
+          ]
+        : [],
+  }
+
+  it('replaces a :shortcode with the emoji and labels the choices', () => {
+    const first = computeTabCompletion(RESET, 'nice :thu', withEmoji)!
+    expect(first.newText).toBe('nice 👍 ')
+    expect(first.newState.labels).toEqual(['👍 :thumbs_up:', '👎 :thumbs_down:'])
+    expect(computeTabCompletion(first.newState, first.newText, withEmoji)!.newText).toBe('nice 👎 ')
+  })
+
+  it('needs two letters after the colon', () => {
+    expect(computeTabCompletion(RESET, ':t', withEmoji)).toBeNull()
+  })
+})
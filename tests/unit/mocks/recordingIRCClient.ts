@@ -0,0 +1,19 @@
+export type Handler = (data: object) => void
+
+/**
+ * Stands in for the IRC client when the store wires up its event handlers. Handlers
+ * are recorded by event name, or by method name for `onX(callback)` hooks, so tests
+ * can fire events directly. `methods` are used as given; any other call does nothing.
+ */
+export function recordingIRCClient(methods: Record<string, unknown>) {
+  const handlers = new Map<string, Handler>()
+  const client = new Proxy(methods, {
+    get: (target, prop: string) =>
+      target[prop] ??
+      ((event: unknown, handler?: unknown) => {
+        if (prop === 'on') handlers.set(event as string, handler as Handler)
+        else if (typeof event === 'function') handlers.set(prop, event as Handler)
+      }),
+  })
+  return { client, handlers }
+}
@@ -0,0 +1,177 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { useStore } from '@/store'
+import { MAX_BUFFER_MESSAGES } from '@/store/slices/messagesSlice'
+import type { Message, Server } from '@/types'
+import { recordingIRCClient, type Handler } from '../mocks/recordingIRCClient'
+
+const makeMessage = (overrides: Partial<Message> = {}): Message => ({
+  id: 'msg-1',
+  msgid: 'abc123',
+  channelId: 'ch-1',
+  serverId: 'srv-1',
+  userId: 'alice',
+  content: 'hello',
+  timestamp: new Date('2024-01-01T12:00:00Z'),
+  type: 'message',
+  reactions: [],
+  replyMessage: null,
+  mentioned: [],
+  ...overrides,
+})
+
+const makeServer = (overrides: Partial<Server> = {}): Server => ({
+  id: 'srv-1',
+  name: 'Test',
+  host: 'irc.example.com',
+  port: 6697,
+  nickname: 'me',
+  isConnected: true,
+  connectionState: 'connected',
+  capabilities: ['draft/chathistory'],
+  channels: [
+    {
+      id: 'ch-1',
+      name: '#test',
+      serverId: 'srv-1',
+      topic: '',
+      users: [],
+      messages: [],
+      unreadCount: 0,
+      isPrivate: false,
+      isMentioned: false,
+    },
+  ],
+  privateChats: [],
+  ...overrides,
+})
+
+describe('fetchOlderHistory', () => {
+  const sendRaw = vi.fn()
+
+  beforeEach(() => {
+    sendRaw.mockClear()
+    useStore.setState({
+      ircClient: { sendRaw } as any,
+      servers: [makeServer()],
+      messages: new Map([['ch-1', [makeMessage()]]]),
+      historyStatus: {},
+    })
+  })
+
+  it('requests the page before the oldest msgid and marks the buffer loading', () => {
+    useStore.getState().fetchOlderHistory('srv-1', 'ch-1')
+    expect(sendRaw).toHaveBeenCalledWith('srv-1', 'CHATHISTORY BEFORE #test msgid=abc123 100')
+    expect(useStore.getState().historyStatus['ch-1']).toBe('loading')
+  })
+
+  it('falls back to a timestamp anchor when messages have no msgid', () => {
+    useStore.setState({ messages: new Map([['ch-1', [makeMessage({ msgid: undefined })]]]) })
+    useStore.getState().fetchOlderHistory('srv-1', 'ch-1')
+    expect(sendRaw).toHaveBeenCalledWith(
+      'srv-1',
+      'CHATHISTORY BEFORE #test timestamp=2024-01-01T12:00:00.000Z 100'
+    )
+  })
+
+  it('does not send a second request while one is in flight', () => {
+    const { fetchOlderHistory } = useStore.getState()
+    fetchOlderHistory('srv-1', 'ch-1')
+    fetchOlderHistory('srv-1', 'ch-1')
+    expect(sendRaw).toHaveBeenCalledTimes(1)
+  })
+
+  it('stops once the start of history was reached', () => {
+    useStore.setState({ historyStatus: { 'ch-1': 'complete' } })
+    useStore.getState().fetchOlderHistory('srv-1', 'ch-1')
+    expect(sendRaw).not.toHaveBeenCalled()
+  })
+
+  it('keeps paging back once the buffer is full', () => {
+    const full = Array.from({ length: MAX_BUFFER_MESSAGES }, (_, i) =>
+      makeMessage({ id: `m${i}`, msgid: `id${i}`, timestamp: new Date(Date.UTC(2024, 0, 2, 0, i)) })
+    )
+    useStore.setState({ messages: new Map([['ch-1', full]]) })
+    useStore.getState().fetchOlderHistory('srv-1', 'ch-1')
+    expect(sendRaw).toHaveBeenCalledWith('srv-1', 'CHATHISTORY BEFORE #test msgid=id0 100')
+
+    // The page grows the buffer instead of being capped straight back out
+    const { addMessage } = useStore.getState()
+    addMessage('ch-1', makeMessage({ id: 'old-1', msgid: 'old-1' }))
+    addMessage(
+      'ch-1',
+      makeMessage({ id: 'old-2', msgid: 'old-2', timestamp: new Date('2024-01-01T12:01:00Z') })
+    )
+    const buffer = useStore.getState().messages.get('ch-1')!
+    expect(buffer).toHaveLength(MAX_BUFFER_MESSAGES + 2)
+    expect(buffer.slice(0, 2).map((m) => m.id)).toEqual(['old-1', 'old-2'])
+
+    // A live line then evicts the oldest and keeps the grown size
+    addMessage('ch-1', makeMessage({ id: 'new', msgid: 'new', timestamp: new Date('2024-02-01') }))
+    const after = useStore.getState().messages.get('ch-1')!
+    expect(after).toHaveLength(MAX_BUFFER_MESSAGES + 2)
+    expect(after[0]!.id).toBe('old-2')
+  })
+
+  it('does nothing without the chathistory capability', () => {
+    useStore.setState({ servers: [makeServer({ capabilities: [] })] })
+    useStore.getState().fetchOlderHistory('srv-1', 'ch-1')
+    expect(sendRaw).not.toHaveBeenCalled()
+  })
+})
+
+describe('catching up after a reconnect', () => {
+  const sendRaw = vi.fn()
+  let handlers: Map<string, Handler>
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    sendRaw.mockClear()
+    const getLastMessageTime = () => new Date('2024-01-01T13:01:00Z')
+    const recording = recordingIRCClient({ sendRaw, getLastMessageTime })
+    handlers = recording.handlers
+    useStore.setState({
+      ircClient: recording.client as any,
+      servers: [makeServer()],
+      messages: new Map([['ch-1', [makeMessage({ msgid: 'before-drop' })]]]),
+      historyStatus: {},
+    })
+    useStore.getState().setupEventHandlers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('fills the gap from the last message before the drop, page by page', () => {
+    useStore.getState().scheduleReconnect('srv-1')
+    // Said after we were back, before our JOIN went through
+    useStore
+      .getState()
+      .addMessage(
+        'ch-1',
+        makeMessage({ id: 'msg-2', msgid: 'live', timestamp: new Date('2024-01-01T13:00:00Z') })
+      )
+    handlers.get('JOIN')!({ serverId: 'srv-1', channelName: '#test', username: 'me' })
+    expect(sendRaw).toHaveBeenCalledWith('srv-1', 'CHATHISTORY AFTER #test msgid=before-drop 100')
+
+    // A full page: the gap may go on, so continue after its last message, not after 'live'
+    sendRaw.mockClear()
+    handlers.get('onHistoryBatch')!({
+      serverId: 'srv-1',
+      target: '#test',
+      messages: 100,
+      last: 'msgid=gap-100',
+    })
+    expect(sendRaw).toHaveBeenCalledWith('srv-1', 'CHATHISTORY AFTER #test msgid=gap-100 100')
+
+    // A short page closes the gap
+    sendRaw.mockClear()
+    handlers.get('onHistoryBatch')!({
+      serverId: 'srv-1',
+      target: '#test',
+      messages: 12,
+      last: 'msgid=gap-112',
+    })
+    expect(sendRaw).not.toHaveBeenCalled()
+  })
+})
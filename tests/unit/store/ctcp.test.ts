@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { useStore } from '@/store'
+import type { Server } from '@/types'
+import { recordingIRCClient, type Handler } from '../mocks/recordingIRCClient'
+
+const server: Server = {
+  id: 'srv-1',
+  name: 'Test',
+  host: 'irc.example.com',
+  port: 6697,
+  nickname: 'me',
+  isConnected: true,
+  connectionState: 'connected',
+  channels: [
+    {
+      id: 'ch-1',
+      name: '#test',
+      serverId: 'srv-1',
+      topic: '',
+      users: [],
+      messages: [],
+      unreadCount: 0,
+      isPrivate: false,
+      isMentioned: false,
+    },
+  ],
+  privateChats: [],
+}
+
+// A separate server per test, as replies are rate-limited per server
+let serverCount = 0
+
+describe('CTCP requests', () => {
+  const sendRaw = vi.fn()
+  let handlers: Map<string, Handler>
+  let serverId: string
+
+  beforeEach(() => {
+    sendRaw.mockClear()
+    serverId = `srv-${++serverCount}`
+    const recording = recordingIRCClient({ sendRaw })
+    handlers = recording.handlers
+    useStore.setState({
+      ircClient: recording.client as any,
+      servers: [{ ...server, id: serverId }],
+      messages: new Map(),
+    })
+    useStore.getState().setupEventHandlers()
+  })
+
+  const chanmsg = (message: string, sender = 'alice') =>
+    handlers.get('CHANMSG')!({
+      serverId,
+      sender,
+      channelName: '#test',
+      message,
+      timestamp: new Date(),
+    })
+
+  it('answers a request sent to a channel and keeps it out of the channel', () => {
+    chanmsg('\x01VERSION\x01')
+    expect(sendRaw).toHaveBeenCalledWith(serverId, 'NOTICE alice :\x01VERSION tobby 0.1.0-test\x01')
+    expect(useStore.getState().messages.get('ch-1') ?? []).toHaveLength(0)
+  })
+
+  it('rate-limits channel requests', () => {
+    for (let i = 0; i < 10; i++) chanmsg(`\x01PING ${i}\x01`, `nick${i}`)
+    expect(sendRaw).toHaveBeenCalledTimes(4)
+  })
+
+  it('does not answer our own request echoed back', () => {
+    chanmsg('\x01VERSION\x01', 'me')
+    expect(sendRaw).not.toHaveBeenCalled()
+  })
+
+  it('still shows actions as messages', () => {
+    chanmsg('\x01ACTION waves\x01')
+    expect(sendRaw).not.toHaveBeenCalled()
+    expect(useStore.getState().messages.get('ch-1')?.[0]?.type).toBe('action')
+  })
+})
@@ -0,0 +1,52 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { create } from 'zustand'
+import { createUISlice } from '@/store/slices/uiSlice'
+import type { AppStore } from '@/store'
+
+// Lines written to the input_history table
+const persisted = vi.hoisted(() => [] as { buffer: string; line: string }[])
+const database = vi.hoisted(() => ({ failing: false }))
+
+vi.mock('@/services/database', () => ({
+  getDatabase: () => ({
+    getInputHistory: () => [],
+    addInputHistory: (_serverId: string, buffer: string, line: string) => {
+      if (database.failing) throw new Error('disk full')
+      persisted.push({ buffer, line })
+    },
+  }),
+}))
+
+const newStore = () =>
+  create<AppStore>()((...args) => createUISlice(...args) as unknown as AppStore)
+
+describe('input history persistence', () => {
+  beforeEach(() => {
+    persisted.length = 0
+    database.failing = false
+  })
+
+  it('keeps secrets in memory only', () => {
+    const store = newStore()
+    const { addInputHistory } = store.getState()
+    addInputHistory('srv-1', 'NickServ', 'identify hunter2')
+    addInputHistory('srv-1', '#dev', '/quote PRIVMSG NickServ :IDENTIFY hunter2')
+    addInputHistory('srv-1', '*status', 'hunter2')
+    addInputHistory('srv-1', undefined, '/join #secret hunter2')
+
+    expect(persisted).toEqual([])
+    expect(store.getState().inputHistory.get('srv-1:nickserv')).toEqual(['identify hunter2'])
+  })
+
+  it('writes ordinary lines', () => {
+    newStore().getState().addInputHistory('srv-1', '#dev', 'hello')
+    expect(persisted).toEqual([{ buffer: '#dev', line: 'hello' }])
+  })
+
+  it('keeps the history in memory when the database fails', () => {
+    const store = newStore()
+    database.failing = true
+    expect(() => store.getState().addInputHistory('srv-1', '#dev', 'hello')).not.toThrow()
+    expect(store.getState().inputHistory.get('srv-1:#dev')).toEqual(['hello'])
+  })
+})
@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { create } from 'zustand'
+import type { Message } from '@/types'
+import { createMessagesSlice } from '@/store/slices/messagesSlice'
+
+// In-memory stand-in for the messages table, keyed by message id
+const rows = vi.hoisted(() => new Map<string, Record<string, unknown>>())
+
+vi.mock('@/services/database', () => ({
+  getDatabase: () => ({
+    saveMessage: (m: Message) => {
+      if (rows.has(m.id)) return
+      rows.set(m.id, {
+        id: m.id,
+        server_id: m.serverId,
+        buffer_id: m.channelId,
+        msgid: m.msgid ?? null,
+        type: m.type,
+        sender: m.userId,
+        content: m.content,
+        server_time: m.timestamp.getTime(),
+        tags: m.tags ? JSON.stringify(m.tags) : null,
+        reactions: JSON.stringify(m.reactions),
+        reply_to_id: m.replyMessage?.id ?? null,
+        reply_msgid: m.replyMessage?.msgid ?? null,
+        lines: m.lines ? JSON.stringify(m.lines) : null,
+        multiline_ids: null,
+      })
+    },
+    updateMessage: (m: Message) => {
+      const row = rows.get(m.id)
+      if (row) row.reactions = JSON.stringify(m.reactions)
+    },
+    deleteMessage: (id: string) => rows.delete(id),
+    pruneMessages: () => {},
+    getMessages: (bufferId: string, limit: number) =>
+      [...rows.values()]
+        .filter((r) => r.buffer_id === bufferId)
+        .sort((a, b) => (a.server_time as number) - (b.server_time as number))
+        .slice(-limit),
+  }),
+}))
+
+const newStore = () => create(createMessagesSlice)
+
+const makeMessage = (overrides: Partial<Message> = {}): Message => ({
+  id: 'msg-1',
+  msgid: 'abc',
+  channelId: 'ch-1',
+  serverId: 'srv-1',
+  userId: 'alice',
+  content: 'hello',
+  timestamp: new Date(1_000),
+  type: 'message',
+  reactions: [],
+  replyMessage: null,
+  mentioned: [],
+  ...overrides,
+})
+
+describe('message log write-through', () => {
+  let store: ReturnType<typeof newStore>
+
+  beforeEach(() => {
+    rows.clear()
+    store = newStore()
+  })
+
+  it('logs channel messages as they are added', () => {
+    store.getState().addMessage('ch-1', makeMessage())
+    expect(rows.get('msg-1')?.content).toBe('hello')
+  })
+
+  it('does not log server buffer messages', () => {
+    store.getState().addMessage('srv-1', makeMessage({ channelId: 'srv-1', msgid: undefined }))
+    expect(rows.size).toBe(0)
+  })
+
+  it('does not log a msgid that is already in the buffer', () => {
+    store.getState().addMessage('ch-1', makeMessage())
+    store.getState().addMessage('ch-1', makeMessage({ id: 'msg-2' }))
+    expect(rows.size).toBe(1)
+  })
+
+  it('writes reaction updates through to the log', () => {
+    store.getState().addMessage('ch-1', makeMessage())
+    store.getState().updateMessage('ch-1', 'msg-1', { reactions: [{ emoji: '👍', userId: 'bob' }] })
+    expect(JSON.parse(rows.get('msg-1')!.reactions as string)).toEqual([
+      { emoji: '👍', userId: 'bob' },
+    ])
+  })
+
+  it('restores the backlog of a buffer with reply links', () => {
+    const parent = makeMessage()
+    store.getState().addMessage('ch-1', parent)
+    store
+      .getState()
+      .addMessage(
+        'ch-1',
+        makeMessage({ id: 'msg-2', msgid: 'def', timestamp: new Date(2_000), replyMessage: parent })
+      )
+
+    const fresh = newStore()
+    fresh.getState().loadPersistedMessages('ch-1')
+
+    const restored = fresh.getState().getMessages('ch-1')
+    expect(restored.map((m) => m.id)).toEqual(['msg-1', 'msg-2'])
+    expect(restored[0]!.timestamp).toEqual(new Date(1_000))
+    expect(restored[1]!.replyMessage?.id).toBe('msg-1')
+  })
+
+  it('merges the backlog with live messages without duplicating msgids', () => {
+    store.getState().addMessage('ch-1', makeMessage())
+
+    const fresh = newStore()
+    fresh.getState().addMessage('ch-1', makeMessage({ id: 'live-1', timestamp: new Date(5_000) }))
+    fresh.getState().loadPersistedMessages('ch-1')
+
+    expect(fresh.getState().getMessages('ch-1')).toHaveLength(1)
+  })
+})
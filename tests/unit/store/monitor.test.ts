@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { useStore } from '@/store'
+import type { Server } from '@/types'
+
+const makeServer = (overrides: Partial<Server> = {}): Server => ({
+  id: 'srv-1',
+  name: 'Test',
+  host: 'irc.example.com',
+  port: 6697,
+  nickname: 'me',
+  isConnected: true,
+  connectionState: 'connected',
+  channels: [],
+  privateChats: [],
+  ...overrides,
+})
+
+const server = () => useStore.getState().getServer('srv-1')!
+
+describe('MONITOR watch list', () => {
+  const sendRaw = vi.fn()
+  const pollIson = vi.fn()
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    sendRaw.mockClear()
+    pollIson.mockClear()
+    useStore.setState({
+      ircClient: { sendRaw, pollIson } as any,
+      servers: [makeServer()],
+    })
+  })
+
+  afterEach(() => {
+    useStore.setState({ servers: [makeServer({ isConnected: false })] })
+    vi.useRealTimers()
+  })
+
+  it('adds nicks once, case-insensitively', () => {
+    const { addMonitor } = useStore.getState()
+    expect(addMonitor('srv-1', 'Alice')).toBe(true)
+    expect(addMonitor('srv-1', 'alice')).toBe(false)
+    expect(server().monitors).toEqual(['Alice'])
+  })
+
+  it('forgets presence along with the nick', () => {
+    const { addMonitor, setMonitorStatus, removeMonitor } = useStore.getState()
+    addMonitor('srv-1', 'alice')
+    setMonitorStatus('srv-1', { alice: true })
+    expect(removeMonitor('srv-1', 'ALICE')).toBe(true)
+    expect(server().monitors).toEqual([])
+    expect(server().monitorOnline).toEqual({})
+    expect(useStore.getState().removeMonitor('srv-1', 'alice')).toBe(false)
+  })
+
+  it('merges presence updates and clears them on null', () => {
+    const { setMonitorStatus } = useStore.getState()
+    setMonitorStatus('srv-1', { alice: true })
+    setMonitorStatus('srv-1', { bob: false })
+    expect(server().monitorOnline).toEqual({ alice: true, bob: false })
+    setMonitorStatus('srv-1', null)
+    expect(server().monitorOnline).toBeUndefined()
+  })
+
+  it('polls with ISON when the server has no MONITOR support', () => {
+    const { addMonitor, monitorNicks } = useStore.getState()
+    addMonitor('srv-1', 'alice')
+    addMonitor('srv-1', 'bob')
+    monitorNicks('srv-1', '+', ['alice', 'bob'])
+    expect(pollIson).toHaveBeenCalledWith('srv-1', ['alice', 'bob'])
+
+    pollIson.mockClear()
+    monitorNicks('srv-1', '-', ['bob'])
+    expect(pollIson).not.toHaveBeenCalled()
+  })
+
+  it('sends nothing while disconnected', () => {
+    useStore.setState({ servers: [makeServer({ isConnected: false })] })
+    useStore.getState().monitorNicks('srv-1', '+', ['alice'])
+    expect(sendRaw).not.toHaveBeenCalled()
+    expect(pollIson).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,148 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { useStore } from '@/store'
+import type { Channel, Message, Server } from '@/types'
+import { recordingIRCClient, type Handler } from '../mocks/recordingIRCClient'
+
+const channel = (id: string, name: string): Channel => ({
+  id,
+  name,
+  serverId: 'srv-1',
+  topic: '',
+  users: [],
+  messages: [],
+  unreadCount: 0,
+  isPrivate: false,
+  isMentioned: false,
+})
+
+const server: Server = {
+  id: 'srv-1',
+  name: 'Test',
+  host: 'irc.example.com',
+  port: 6697,
+  nickname: 'me',
+  isConnected: true,
+  connectionState: 'connected',
+  channels: [channel('ch-1', '#one'), channel('ch-2', '#two')],
+  privateChats: [],
+}
+
+// A message of ours with an edit sent but not yet echoed
+const pending = (id: string, channelId: string, msgid: string): Message => ({
+  id,
+  msgid,
+  channelId,
+  serverId: 'srv-1',
+  userId: 'me',
+  content: 'edited',
+  timestamp: new Date('2024-01-01T12:00:00Z'),
+  type: 'message',
+  reactions: [],
+  replyMessage: null,
+  mentioned: [],
+  editPending: { content: 'original' },
+})
+
+describe('refused edits', () => {
+  let handlers: Map<string, Handler>
+
+  beforeEach(() => {
+    const recording = recordingIRCClient({})
+    handlers = recording.handlers
+    useStore.setState({
+      ircClient: recording.client as any,
+      servers: [server],
+      messages: new Map([
+        ['ch-1', [pending('m1', 'ch-1', 'aaa'), pending('m2', 'ch-1', 'bbb')]],
+        ['ch-2', [pending('m3', 'ch-2', 'ccc')]],
+      ]),
+    })
+    useStore.getState().setupEventHandlers()
+  })
+
+  const serverMessage = (command: string, raw: string) =>
+    handlers.get('serverMessage')!({ serverId: 'srv-1', command, text: '', raw })
+
+  const contents = () =>
+    ['ch-1', 'ch-2'].flatMap((id) =>
+      useStore
+        .getState()
+        .messages.get(id)!
+        .map((m) => m.content)
+    )
+
+  it('revert only the edit a FAIL names by msgid', () => {
+    handlers.get('serverMessage')!({
+      serverId: 'srv-1',
+      command: 'FAIL',
+      text: 'PRIVMSG INVALID_EDIT #one bbb Cannot edit',
+      raw: ':irc.example.com FAIL PRIVMSG INVALID_EDIT #one-alias bbb :Cannot edit',
+    })
+    expect(contents()).toEqual(['edited', 'original', 'edited'])
+  })
+
+  it('revert the edits in the buffer an error names', () => {
+    serverMessage('404', ':irc.example.com 404 me #two :Cannot send to channel')
+    expect(contents()).toEqual(['edited', 'edited', 'original'])
+  })
+
+  it('leave edits alone when a FAIL names neither', () => {
+    handlers.get('serverMessage')!({
+      serverId: 'srv-1',
+      command: 'FAIL',
+      text: 'PRIVMSG TOO_FAST Slow down',
+      raw: ':irc.example.com FAIL PRIVMSG TOO_FAST :Slow down',
+    })
+    expect(contents()).toEqual(['edited', 'edited', 'edited'])
+  })
+})
+
+describe('edits from others', () => {
+  let handlers: Map<string, Handler>
+
+  beforeEach(() => {
+    const recording = recordingIRCClient({})
+    handlers = recording.handlers
+    const original: Message = {
+      ...pending('m1', 'ch-1', 'aaa'),
+      userId: 'alice',
+      content: 'helo',
+      editPending: undefined,
+      tags: { msgid: 'aaa', account: 'alice' },
+    }
+    useStore.setState({
+      ircClient: recording.client as any,
+      servers: [server],
+      messages: new Map([['ch-1', [original]]]),
+    })
+    useStore.getState().setupEventHandlers()
+  })
+
+  const edit = (sender: string, mtags: Record<string, string> = {}) =>
+    handlers.get('CHANMSG')!({
+      serverId: 'srv-1',
+      sender,
+      channelName: '#one',
+      message: 'hello',
+      timestamp: new Date('2024-01-01T12:05:00Z'),
+      mtags: { '+draft/edit': 'aaa', ...mtags },
+    })
+
+  const content = () => useStore.getState().messages.get('ch-1')![0]!.content
+
+  it('follow the author through a nick change', () => {
+    handlers.get('NICK')!({ serverId: 'srv-1', oldNick: 'alice', newNick: 'alice_' })
+    edit('alice_')
+    expect(content()).toBe('hello')
+  })
+
+  it('match on the account when both lines carry one', () => {
+    edit('someone', { account: 'alice' })
+    expect(content()).toBe('hello')
+  })
+
+  it('ignore another account under the same nick', () => {
+    edit('alice', { account: 'mallory' })
+    expect(content()).toBe('helo')
+  })
+})
@@ -0,0 +1,36 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { create } from 'zustand'
+import { createUISlice } from '@/store/slices/uiSlice'
+import type { AppStore } from '@/store'
+
+// Rows written to the ui_state table
+const saved = vi.hoisted(() => [] as { theme: string | null }[])
+
+vi.mock('@/services/database', () => ({
+  getDatabase: () => ({
+    getUIState: () => null,
+    saveUIState: (state: { theme: string | null }) => saved.push(state),
+  }),
+}))
+
+const newStore = () =>
+  create<AppStore>()((...args) => createUISlice(...args) as unknown as AppStore)
+
+describe('theme persistence', () => {
+  beforeEach(() => {
+    saved.length = 0
+  })
+
+  it('starts on dark when nothing is stored', () => {
+    const store = newStore()
+    store.getState().loadPersistedUIState()
+    expect(store.getState().theme).toBe('dark')
+  })
+
+  it('stores a picked theme and clears it on going back to the default', () => {
+    const { setTheme } = newStore().getState()
+    setTheme('ansi16')
+    setTheme('dark')
+    expect(saved.map((row) => row.theme)).toEqual(['ansi16', null])
+  })
+})
@@ -0,0 +1,64 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { useStore } from '@/store'
+import type { Channel, Server, User } from '@/types'
+
+const makeUser = (username: string): User => ({ id: username, username, isOnline: true })
+
+const makeChannel = (id: string, users: User[]): Channel => ({
+  id,
+  name: `#${id}`,
+  serverId: 'srv-1',
+  topic: '',
+  users,
+  messages: [],
+  unreadCount: 0,
+  isPrivate: false,
+  isMentioned: false,
+})
+
+const makeServer = (): Server => ({
+  id: 'srv-1',
+  name: 'Test',
+  host: 'irc.example.com',
+  port: 6697,
+  nickname: 'me',
+  connectionState: 'connected',
+  channels: [
+    makeChannel('a', [makeUser('alice'), makeUser('bob')]),
+    makeChannel('b', [makeUser('Alice')]),
+  ],
+  privateChats: [],
+})
+
+const usersNamed = (nick: string) =>
+  useStore
+    .getState()
+    .getServer('srv-1')!
+    .channels.flatMap((c) => c.users)
+    .filter((u) => u.username.toLowerCase() === nick)
+
+describe('updateUser', () => {
+  beforeEach(() => {
+    useStore.setState({ servers: [makeServer()] })
+  })
+
+  it('patches the nick in every channel, case-insensitively', () => {
+    useStore.getState().updateUser('srv-1', 'ALICE', { isAway: true, awayMessage: 'lunch' })
+    const alices = usersNamed('alice')
+    expect(alices).toHaveLength(2)
+    expect(alices.every((u) => u.isAway && u.awayMessage === 'lunch')).toBe(true)
+    expect(usersNamed('bob')[0]!.isAway).toBeUndefined()
+  })
+
+  it('clears away state when the user comes back', () => {
+    const { updateUser } = useStore.getState()
+    updateUser('srv-1', 'alice', { isAway: true, awayMessage: 'lunch' })
+    updateUser('srv-1', 'alice', { isAway: false, awayMessage: undefined })
+    expect(usersNamed('alice').every((u) => !u.isAway && !u.awayMessage)).toBe(true)
+  })
+
+  it('keeps updateUserAccount working on top of it', () => {
+    useStore.getState().updateUserAccount('srv-1', 'bob', 'bobacct')
+    expect(usersNamed('bob')[0]!.account).toBe('bobacct')
+  })
+})
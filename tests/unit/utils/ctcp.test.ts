@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest'
+import { createRateLimiter, ctcpReply, formatCtcp, parseCtcp, SOURCE_URL } from '@/utils/ctcp'
+
+describe('parseCtcp', () => {
+  it('splits the command from its parameters', () => {
+    expect(parseCtcp('\x01PING 12345\x01')).toEqual({ command: 'PING', params: '12345' })
+    expect(parseCtcp('\x01version\x01')).toEqual({ command: 'VERSION', params: '' })
+  })
+
+  it('tolerates a missing closing delimiter', () => {
+    expect(parseCtcp('\x01TIME')).toEqual({ command: 'TIME', params: '' })
+  })
+
+  it('returns null for ordinary text and empty requests', () => {
+    expect(parseCtcp('hello')).toBeNull()
+    expect(parseCtcp('\x01\x01')).toBeNull()
+  })
+})
+
+describe('ctcpReply', () => {
+  it('echoes PING parameters back', () => {
+    expect(ctcpReply({ command: 'PING', params: '12345' })).toBe('\x01PING 12345\x01')
+  })
+
+  it('answers VERSION with the client name and CLIENTINFO with what we support', () => {
+    const version = ctcpReply({ command: 'VERSION', params: '' })
+    expect(version?.startsWith('\x01VERSION tobby ')).toBe(true)
+    expect(ctcpReply({ command: 'CLIENTINFO', params: '' })).toContain('PING SOURCE TIME VERSION')
+  })
+
+  it('answers TIME and SOURCE', () => {
+    const now = new Date('2024-01-01T12:00:00Z')
+    expect(ctcpReply({ command: 'TIME', params: '' }, now)).toBe(formatCtcp('TIME', now.toString()))
+    expect(ctcpReply({ command: 'SOURCE', params: '' })).toBe(`\x01SOURCE ${SOURCE_URL}\x01`)
+  })
+
+  it('stays silent for ACTION and unknown requests', () => {
+    expect(ctcpReply({ command: 'ACTION', params: 'waves' })).toBeNull()
+    expect(ctcpReply({ command: 'DCC', params: 'SEND x' })).toBeNull()
+  })
+})
+
+describe('createRateLimiter', () => {
+  it('allows up to the limit within the window, per key', () => {
+    const allow = createRateLimiter(2, 1000)
+    expect(allow('a', 0)).toBe(true)
+    expect(allow('a', 10)).toBe(true)
+    expect(allow('a', 20)).toBe(false)
+    expect(allow('b', 20)).toBe(true)
+  })
+
+  it('frees up once earlier events leave the window', () => {
+    const allow = createRateLimiter(1, 1000)
+    expect(allow('a', 0)).toBe(true)
+    expect(allow('a', 999)).toBe(false)
+    expect(allow('a', 1000)).toBe(true)
+  })
+})
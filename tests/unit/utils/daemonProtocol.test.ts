@@ -0,0 +1,224 @@
+import { describe, it, expect } from 'vitest'
+import {
+  applyStateFrame,
+  createFrameReader,
+  decodeFrame,
+  diffState,
+  encodeFrame,
+  type DaemonFrame,
+  type SyncedState,
+} from '@/utils/daemonProtocol'
+import type { Message, Server } from '@/types'
+
+const message = (id: string): Message => ({
+  id,
+  channelId: 'ch-1',
+  serverId: 'srv-1',
+  userId: 'alice',
+  content: 'hello',
+  timestamp: new Date('2024-01-01T12:00:00Z'),
+  type: 'message',
+  reactions: [],
+  replyMessage: null,
+  mentioned: [],
+})
+
+const server = (id: string, overrides: Partial<Server> = {}): Server => ({
+  id,
+  name: id,
+  host: 'irc.example.com',
+  port: 6697,
+  nickname: 'alice',
+  isConnected: true,
+  connectionState: 'connected',
+  channels: [],
+  privateChats: [],
+  ...overrides,
+})
+
+const state = (overrides: Partial<SyncedState> = {}): SyncedState => ({
+  servers: [],
+  messages: new Map(),
+  unreadMentions: 0,
+  typingUsers: {},
+  historyStatus: {},
+  highlights: [],
+  ...overrides,
+})
+
+describe('frame encoding', () => {
+  it('round-trips dates and maps', () => {
+    const frame: DaemonFrame = {
+      type: 'event',
+      event: 'x',
+      data: { at: new Date('2024-01-01T12:00:00Z'), byId: new Map([['a', 1]]) },
+    }
+    const decoded = decodeFrame<DaemonFrame>(encodeFrame(frame).trimEnd())
+    const data = (decoded as { data: { at: Date; byId: Map<string, number> } }).data
+    expect(data.at).toBeInstanceOf(Date)
+    expect(data.at.toISOString()).toBe('2024-01-01T12:00:00.000Z')
+    expect(data.byId.get('a')).toBe(1)
+  })
+
+  it('emits one line per frame', () => {
+    expect(encodeFrame({ type: 'subscribe', event: 'a\nb' }).split('\n')).toHaveLength(2)
+  })
+
+  it('reassembles frames split across chunks', () => {
+    const frames: unknown[] = []
+    const feed = createFrameReader((frame) => frames.push(frame))
+    const wire = encodeFrame({ type: 'result', id: 1 }) + encodeFrame({ type: 'result', id: 2 })
+    feed(wire.slice(0, 10))
+    expect(frames).toHaveLength(0)
+    feed(wire.slice(10))
+    expect(frames).toEqual([
+      { type: 'result', id: 1 },
+      { type: 'result', id: 2 },
+    ])
+  })
+
+  it('reports malformed lines and keeps reading', () => {
+    const frames: unknown[] = []
+    const errors: Error[] = []
+    const feed = createFrameReader(
+      (frame) => frames.push(frame),
+      (error) => errors.push(error)
+    )
+    feed('{"type":"result",\n42\n' + encodeFrame({ type: 'result', id: 3 }))
+    expect(errors).toHaveLength(2)
+    expect(frames).toEqual([{ type: 'result', id: 3 }])
+  })
+
+  it('drops malformed lines without an error handler', () => {
+    const frames: unknown[] = []
+    const feed = createFrameReader((frame) => frames.push(frame))
+    expect(() => feed('not json\n')).not.toThrow()
+    expect(frames).toEqual([])
+  })
+})
+
+describe('diffState', () => {
+  it('sends everything without a previous state', () => {
+    const next = state({ messages: new Map([['ch-1', [message('m1')]]]) })
+    const frame = diffState(null, next)!
+    expect(Object.keys(frame.state).sort()).toEqual(
+      ['highlights', 'historyStatus', 'servers', 'typingUsers', 'unreadMentions'].sort()
+    )
+    expect(frame.buffers).toEqual([['ch-1', [message('m1')]]])
+  })
+
+  it('returns null when nothing changed', () => {
+    const prev = state()
+    expect(diffState(prev, { ...prev })).toBeNull()
+  })
+
+  it('only includes changed keys and buffers', () => {
+    const untouched = [message('m1')]
+    const prev = state({ messages: new Map([['a', untouched]]) })
+    const next = {
+      ...prev,
+      unreadMentions: 2,
+      messages: new Map([
+        ['a', untouched],
+        ['b', [message('m2')]],
+      ]),
+    }
+    const frame = diffState(prev, next)!
+    expect(frame.state).toEqual({ unreadMentions: 2 })
+    expect(frame.buffers.map(([id]) => id)).toEqual(['b'])
+  })
+
+  it('marks dropped buffers with null', () => {
+    const prev = state({ messages: new Map([['a', [message('m1')]]]) })
+    const frame = diffState(prev, { ...prev, messages: new Map() })!
+    expect(frame.buffers).toEqual([['a', null]])
+  })
+})
+
+describe('incremental patches', () => {
+  // Through JSON, as the front end receives it
+  const roundTrip = (prev: SyncedState, next: SyncedState) =>
+    applyStateFrame(prev, decodeFrame(encodeFrame(diffState(prev, next)!).trimEnd()))
+
+  it('sends an appended message and a run of the ones already there', () => {
+    const history = [message('m1'), message('m2'), message('m3')]
+    const prev = state({ messages: new Map([['a', history]]) })
+    const next = { ...prev, messages: new Map([['a', [...history.slice(1), message('m4')]]]) }
+    expect(diffState(prev, next)!.buffers).toEqual([['a', [[1, 2], message('m4')]]])
+    expect(
+      roundTrip(prev, next)
+        .messages!.get('a')!
+        .map((m) => m.id)
+    ).toEqual(['m2', 'm3', 'm4'])
+  })
+
+  it('sends only the server fields that changed', () => {
+    const channel = {
+      id: 'ch-1',
+      name: '#a',
+      serverId: 's1',
+      topic: 'old',
+      isPrivate: false,
+      unreadCount: 0,
+      isMentioned: false,
+      messages: [],
+      users: [],
+    }
+    const [s1, s2] = [server('s1', { channels: [channel] }), server('s2')]
+    const prev = state({ servers: [s1, s2] })
+    const next = {
+      ...prev,
+      servers: [{ ...s1, nickname: 'bob', channels: [{ ...channel, unreadCount: 3 }] }, s2],
+    }
+    expect(diffState(prev, next)!.state.servers).toEqual({
+      ids: ['s1', 's2'],
+      changed: [
+        [
+          's1',
+          {
+            nickname: 'bob',
+            channels: { ids: ['ch-1'], changed: [['ch-1', { unreadCount: 3 }]] },
+          },
+        ],
+      ],
+    })
+    expect(roundTrip(prev, next).servers).toEqual(next.servers)
+  })
+
+  it('adds, removes and reorders servers and drops cleared fields', () => {
+    const s1 = server('s1', { realname: 'Alice' })
+    const prev = state({ servers: [s1, server('s2')] })
+    const next = { ...prev, servers: [server('s3'), { ...s1, realname: undefined }] }
+    const servers = roundTrip(prev, next).servers!
+    expect(servers.map((s) => s.id)).toEqual(['s3', 's1'])
+    expect(servers[1]).not.toHaveProperty('realname')
+    expect(servers[0]).toEqual(server('s3'))
+  })
+})
+
+describe('applyStateFrame', () => {
+  it('replaces, adds and drops buffers without touching the original map', () => {
+    const original = new Map([
+      ['a', [message('m1')]],
+      ['b', [message('m2')]],
+    ])
+    const next = applyStateFrame(
+      { servers: [], messages: original },
+      {
+        type: 'state',
+        state: {},
+        buffers: [
+          ['a', null],
+          ['c', [message('m3')]],
+        ],
+      }
+    )
+    expect([...next.messages!.keys()]).toEqual(['b', 'c'])
+    expect(original.size).toBe(2)
+  })
+
+  it('takes the servers whole from a snapshot', () => {
+    const next = state({ servers: [server('s1')] })
+    expect(applyStateFrame(state(), diffState(null, next)!).servers).toEqual(next.servers)
+  })
+})
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest'
-import { EMOJI_LIST } from '@/utils/emojiData'
+import { EMOJI_LIST, findEmoji } from '@/utils/emojiData'
 
 describe('EMOJI_LIST', () => {
   it('is non-empty', () => {
@@ -27,3 +27,18 @@ describe('EMOJI_LIST', () => {
     }
   })
 })
+
+describe('findEmoji', () => {
+  it('ranks exact names and keywords before prefixes', () => {
+    expect(findEmoji('thumbs_up')[0]!.char).toBe('👍')
+    expect(findEmoji('thumbsup')[0]!.char).toBe('👍')
+    expect(findEmoji('+1')[0]!.char).toBe('👍')
+  })
+
+  it('matches the start of names and keywords', () => {
+    const found = findEmoji('smiling_face')
+    expect(found.length).toBeGreaterThan(1)
+    expect(found.every((e) => e.name.startsWith('smiling_face'))).toBe(true)
+    expect(findEmoji('smi', 5)).toHaveLength(5)
+  })
+})
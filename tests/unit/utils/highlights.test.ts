@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest'
+import {
+  compileHighlights,
+  formatHighlightRule,
+  isHighlight,
+  validateHighlightPattern,
+} from '@/utils/highlights'
+import type { HighlightRule } from '@/types'
+
+describe('isHighlight', () => {
+  const rules: HighlightRule[] = [
+    { pattern: 'tobby', regex: false },
+    { pattern: 'deploy(ed|ing)?', regex: true },
+    { pattern: 'release', regex: false, channel: '#dev' },
+  ]
+
+  it('matches our nickname without any rules', () => {
+    expect(isHighlight('hey alice, ping', 'alice', [])).toBe(true)
+    expect(isHighlight('malice aforethought', 'alice', [])).toBe(false)
+  })
+
+  it('matches plain terms as whole words, case-insensitively', () => {
+    expect(isHighlight('Tobby is great', 'alice', rules)).toBe(true)
+    expect(isHighlight('tobbyfication', 'alice', rules)).toBe(false)
+  })
+
+  it('matches regex rules', () => {
+    expect(isHighlight('we are deploying now', 'alice', rules)).toBe(true)
+  })
+
+  it('only applies channel-scoped rules in that channel', () => {
+    expect(isHighlight('release is out', 'alice', rules, '#DEV')).toBe(true)
+    expect(isHighlight('release is out', 'alice', rules, '#general')).toBe(false)
+    expect(isHighlight('release is out', 'alice', rules)).toBe(false)
+  })
+
+  it('treats plain terms literally', () => {
+    const literal: HighlightRule[] = [{ pattern: 'c++', regex: false }]
+    expect(isHighlight('I like c++ a lot', 'alice', literal)).toBe(true)
+    expect(isHighlight('I like c a lot', 'alice', literal)).toBe(false)
+  })
+})
+
+describe('compileHighlights', () => {
+  it('returns null when no rule applies', () => {
+    expect(compileHighlights([])).toBeNull()
+    expect(compileHighlights([{ pattern: 'x', regex: false, channel: '#a' }], '#b')).toBeNull()
+  })
+
+  it('skips rules that are not valid regexes', () => {
+    const pattern = compileHighlights([
+      { pattern: '(unclosed', regex: true },
+      { pattern: 'ok', regex: false },
+    ])
+    expect(pattern?.test('ok')).toBe(true)
+  })
+})
+
+describe('validateHighlightPattern', () => {
+  it('rejects empty, invalid and always-matching patterns', () => {
+    expect(validateHighlightPattern('  ', false)).not.toBeNull()
+    expect(validateHighlightPattern('(oops', true)).toMatch(/Invalid regex/)
+    expect(validateHighlightPattern('a*', true)).not.toBeNull()
+  })
+
+  it('accepts plain terms and sound regexes', () => {
+    expect(validateHighlightPattern('(oops', false)).toBeNull()
+    expect(validateHighlightPattern('bugs?', true)).toBeNull()
+  })
+})
+
+describe('formatHighlightRule', () => {
+  it('marks regexes and channel scope', () => {
+    expect(formatHighlightRule({ pattern: 'x+', regex: true, channel: '#a' })).toBe('/x+/ (in #a)')
+    expect(formatHighlightRule({ pattern: 'word', regex: false })).toBe('word')
+  })
+})
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest'
+import {
+  IGNORE_TYPES,
+  isIgnored,
+  normalizeIgnoreMask,
+  parseIgnoreTypes,
+  formatIgnoreRule,
+} from '@/utils/ignore'
+import type { IgnoreRule } from '@/types'
+
+describe('normalizeIgnoreMask', () => {
+  it('expands a bare nick', () => {
+    expect(normalizeIgnoreMask('spammer')).toBe('spammer!*@*')
+  })
+
+  it('expands user@host and nick!user', () => {
+    expect(normalizeIgnoreMask('*@bad.host')).toBe('*!*@bad.host')
+    expect(normalizeIgnoreMask('nick!~ident')).toBe('nick!~ident@*')
+  })
+
+  it('keeps full masks and account masks', () => {
+    expect(normalizeIgnoreMask('a!b@c')).toBe('a!b@c')
+    expect(normalizeIgnoreMask('$A:troll')).toBe('$a:troll')
+  })
+})
+
+describe('parseIgnoreTypes', () => {
+  it('defaults to every type', () => {
+    expect(parseIgnoreTypes([])).toEqual(IGNORE_TYPES)
+    expect(parseIgnoreTypes(['all'])).toEqual(IGNORE_TYPES)
+  })
+
+  it('accepts aliases and comma lists in canonical order', () => {
+    expect(parseIgnoreTypes(['typing,parts', 'messages'])).toEqual(['messages', 'joins', 'typing'])
+  })
+
+  it('rejects unknown words', () => {
+    expect(parseIgnoreTypes(['messages', 'bogus'])).toBeNull()
+  })
+})
+
+describe('isIgnored', () => {
+  const rules: IgnoreRule[] = [
+    { mask: '*!*@spam.example', types: ['messages', 'joins'] },
+    { mask: 'Noisy!*@*', types: ['typing'] },
+    { mask: '$a:troll*', types: [...IGNORE_TYPES] },
+  ]
+
+  it('matches host globs against the full hostmask', () => {
+    expect(isIgnored(rules, { hostmask: 'bot1!x@spam.example' }, 'messages')).toBe(true)
+    expect(isIgnored(rules, { hostmask: 'bot1!x@spam.example' }, 'notices')).toBe(false)
+    expect(isIgnored(rules, { hostmask: 'bot1!x@ham.example' }, 'messages')).toBe(false)
+  })
+
+  it('matches nicks case-insensitively, even without a known hostmask', () => {
+    expect(isIgnored(rules, { hostmask: 'noisy' }, 'typing')).toBe(true)
+  })
+
+  it('does not guess user@host when only the nick is known', () => {
+    expect(isIgnored(rules, { hostmask: 'bot1' }, 'messages')).toBe(false)
+  })
+
+  it('matches services accounts', () => {
+    expect(isIgnored(rules, { hostmask: 'anyone', account: 'Troll42' }, 'reactions')).toBe(true)
+    expect(isIgnored(rules, { hostmask: 'anyone' }, 'reactions')).toBe(false)
+  })
+
+  it('ignores nobody without rules', () => {
+    expect(isIgnored(undefined, { hostmask: 'a!b@c' }, 'messages')).toBe(false)
+  })
+})
+
+describe('formatIgnoreRule', () => {
+  it('summarises the types', () => {
+    expect(formatIgnoreRule({ mask: 'a!*@*', types: [...IGNORE_TYPES] })).toBe('a!*@* (all)')
+    expect(formatIgnoreRule({ mask: 'a!*@*', types: ['typing'] })).toBe('a!*@* (typing)')
+  })
+})
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest'
+import { colorCode, hasFormatting, markdownToIrc, outgoingText } from '@/utils/inputFormatting'
+
+describe('colorCode', () => {
+  it('pads colors to two digits', () => {
+    expect(colorCode(4)).toBe('\x0304')
+    expect(colorCode(4, 12)).toBe('\x0304,12')
+    expect(colorCode()).toBe('\x03')
+  })
+})
+
+describe('markdownToIrc', () => {
+  it('turns markers into IRC codes', () => {
+    expect(markdownToIrc('a *bold* move')).toBe('a \x02bold\x02 move')
+    expect(markdownToIrc('_so_ true')).toBe('\x1dso\x1d true')
+    expect(markdownToIrc('run `ls -l` now')).toBe('run \x11ls -l\x11 now')
+    expect(markdownToIrc('*_both_*')).toBe('\x02\x1dboth\x1d\x02')
+  })
+
+  it('leaves words, arithmetic and loose markers alone', () => {
+    for (const text of ['snake_case_name', '2*3*4', 'a * b * c', '* not *', '_ nope _']) {
+      expect(markdownToIrc(text)).toBe(text)
+    }
+  })
+
+  it('keeps code spans and URLs as typed', () => {
+    expect(markdownToIrc('`*x*`')).toBe('\x11*x*\x11')
+    expect(markdownToIrc('see https://x.org/_a_/b')).toBe('see https://x.org/_a_/b')
+  })
+})
+
+describe('outgoingText', () => {
+  it('applies markdown to messages and actions only', () => {
+    expect(outgoingText('hi *there*', true)).toBe('hi \x02there\x02')
+    expect(outgoingText('/me *waves*', true)).toBe('\x02waves\x02')
+    expect(outgoingText('/plain *as is*', true)).toBe('*as is*')
+    expect(outgoingText('hi *there*', false)).toBe('hi *there*')
+  })
+
+  it('treats a leading space as a message', () => {
+    expect(outgoingText(' /not *a* command', true)).toBe('/not \x02a\x02 command')
+  })
+})
+
+describe('hasFormatting', () => {
+  it('spots IRC codes', () => {
+    expect(hasFormatting('\x02hi')).toBe(true)
+    expect(hasFormatting('plain')).toBe(false)
+  })
+})
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest'
+import {
+  historyKey,
+  INPUT_HISTORY_LIMIT,
+  isSecretInput,
+  pushHistory,
+  searchHistory,
+} from '@/utils/inputHistory'
+
+describe('historyKey', () => {
+  it('keys buffers by server and lowercased name', () => {
+    expect(historyKey('srv', '#Dev')).toBe('srv:#dev')
+    expect(historyKey('srv')).toBe('srv')
+  })
+})
+
+describe('pushHistory', () => {
+  it('appends, skipping an immediate repeat', () => {
+    expect(pushHistory(['a'], 'b')).toEqual(['a', 'b'])
+    expect(pushHistory(['a', 'b'], 'b')).toEqual(['a', 'b'])
+    expect(pushHistory(['b', 'a'], 'b')).toEqual(['b', 'a', 'b'])
+  })
+
+  it('keeps only the newest lines', () => {
+    const full = Array.from({ length: INPUT_HISTORY_LIMIT }, (_, i) => `line ${i}`)
+    const pushed = pushHistory(full, 'new')
+    expect(pushed).toHaveLength(INPUT_HISTORY_LIMIT)
+    expect(pushed[0]).toBe('line 1')
+    expect(pushed[pushed.length - 1]).toBe('new')
+  })
+})
+
+describe('isSecretInput', () => {
+  it('flags commands that carry passwords', () => {
+    expect(isSecretInput('/msg NickServ IDENTIFY hunter2')).toBe(true)
+    expect(isSecretInput('/ns identify hunter2')).toBe(true)
+    expect(isSecretInput('/oper admin hunter2')).toBe(true)
+    expect(isSecretInput('/quote PASS hunter2')).toBe(true)
+  })
+
+  it('flags NickServ verbs anywhere, bouncer control and channel keys', () => {
+    expect(isSecretInput('/quote PRIVMSG NickServ :IDENTIFY hunter2')).toBe(true)
+    expect(isSecretInput('/msg *status SetPass hunter2')).toBe(true)
+    expect(isSecretInput('/join #secret hunter2')).toBe(true)
+    expect(isSecretInput('register me hunter2')).toBe(true)
+  })
+
+  it('flags anything typed in a services buffer', () => {
+    expect(isSecretInput('hunter2', 'NickServ')).toBe(true)
+    expect(isSecretInput('hunter2', '*status')).toBe(true)
+    expect(isSecretInput('hunter2', '#dev')).toBe(false)
+  })
+
+  it('lets everything else through', () => {
+    expect(isSecretInput('hello nickserv')).toBe(false)
+    expect(isSecretInput('/msg alice hi')).toBe(false)
+    expect(isSecretInput('/join #dev')).toBe(false)
+  })
+})
+
+describe('searchHistory', () => {
+  const history = ['/join #dev', 'hello there', 'Hello again', 'bye']
+
+  it('finds the newest match, ignoring case', () => {
+    expect(searchHistory(history, 'hello')).toBe(2)
+  })
+
+  it('continues past the current match', () => {
+    expect(searchHistory(history, 'hello', 2)).toBe(1)
+    expect(searchHistory(history, 'hello', 1)).toBe(-1)
+  })
+
+  it('matches the newest line for an empty query', () => {
+    expect(searchHistory(history, '')).toBe(3)
+    expect(searchHistory([], '')).toBe(-1)
+  })
+})
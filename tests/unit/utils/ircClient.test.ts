@@ -0,0 +1,219 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { IRCClient } from '@/utils/ircClient'
+
+const { sockets, FakeSocket } = vi.hoisted(() => {
+  const sockets: InstanceType<typeof FakeSocket>[] = []
+  class FakeSocket {
+    readyState = 1
+    sent: string[] = []
+    onopen?: () => void
+    onmessage?: (event: { data: string }) => void
+    onerror?: (err: Error) => void
+    onclose?: () => void
+    constructor() {
+      sockets.push(this)
+    }
+    send(data: string) {
+      this.sent.push(data.replace(/\r\n$/, ''))
+    }
+    close() {}
+  }
+  return { sockets, FakeSocket }
+})
+
+vi.mock('@/lib/nodeTcpSocket', () => ({
+  NodeTCPSocket: FakeSocket,
+  TLSCertificateError: class extends Error {},
+}))
+
+const SERVER = 'irc.example.com:6667'
+
+async function connected() {
+  const client = new IRCClient()
+  await client.connect(
+    'Example',
+    'irc.example.com',
+    6667,
+    'me',
+    undefined,
+    undefined,
+    undefined,
+    SERVER
+  )
+  const socket = sockets.at(-1)!
+  socket.onopen?.()
+  const receive = (...lines: string[]) => socket.onmessage?.({ data: lines.join('\r\n') + '\r\n' })
+  return { client, socket, receive }
+}
+
+const capReqs = (socket: InstanceType<typeof FakeSocket>) =>
+  socket.sent.filter((l) => l.startsWith('CAP REQ')).map((l) => l.replace(/^CAP REQ :?/, ''))
+
+describe('IRCClient line handling', () => {
+  beforeEach(() => {
+    sockets.length = 0
+  })
+
+  describe('CAP negotiation', () => {
+    it('asks for each tracked cap once, across CAP LS continuation lines', async () => {
+      const { socket, receive } = await connected()
+      receive(
+        ':srv CAP * LS * :multi-prefix away-notify sasl=PLAIN',
+        ':srv CAP * LS :chghost setname server-time'
+      )
+      const requested = capReqs(socket).flatMap((l) => l.split(' '))
+      for (const cap of ['away-notify', 'chghost', 'setname']) {
+        expect(requested.filter((c) => c === cap)).toHaveLength(1)
+      }
+      expect(requested).not.toContain('account-tag')
+      const end = socket.sent.indexOf('CAP END')
+      if (end !== -1) {
+        expect(socket.sent.slice(end).some((l) => l.startsWith('CAP REQ'))).toBe(false)
+      }
+    })
+
+    it('folds the tracked caps into an outgoing request', async () => {
+      const { client, socket, receive } = await connected()
+      receive(':srv CAP * LS * :away-notify extended-join')
+      socket.sent.length = 0
+      client.sendRaw(SERVER, 'CAP REQ :sasl extended-join')
+      expect(socket.sent).toEqual(['CAP REQ :sasl extended-join away-notify'])
+    })
+
+    it('requests leftover tracked caps just before CAP END', async () => {
+      const { client, socket, receive } = await connected()
+      receive(':srv CAP * LS * :setname')
+      socket.sent.length = 0
+      client.sendRaw(SERVER, 'CAP END')
+      expect(socket.sent).toEqual(['CAP REQ :setname', 'CAP END'])
+    })
+
+    it('requests a cap offered again after CAP DEL', async () => {
+      const { client, socket, receive } = await connected()
+      receive(':srv CAP * LS * :chghost')
+      client.sendRaw(SERVER, 'CAP END')
+      receive(':srv 001 me :Welcome', ':srv CAP me DEL :chghost', ':srv CAP me NEW :chghost')
+      expect(capReqs(socket).filter((l) => l.split(' ').includes('chghost'))).toHaveLength(2)
+    })
+  })
+
+  it('reports CHGHOST and updates the known hostmask', async () => {
+    const { client, receive } = await connected()
+    const changes: unknown[] = []
+    client.onChghost((data) => changes.push(data))
+    receive(':alice!old@old.host CHGHOST new :new.host')
+    expect(changes).toEqual([{ serverId: SERVER, nick: 'alice', hostmask: 'alice!new@new.host' }])
+    expect(client.getHostmask(SERVER, 'Alice')).toBe('alice!new@new.host')
+  })
+
+  describe('hostmask pruning', () => {
+    it('keeps a hostmask while a channel is still shared', async () => {
+      const { client, receive } = await connected()
+      receive(':alice!a@host JOIN #one', ':alice!a@host JOIN #two', ':alice!a@host PART #one :bye')
+      expect(client.getHostmask(SERVER, 'alice')).toBe('alice!a@host')
+      receive(':alice!a@host PART #two')
+      expect(client.getHostmask(SERVER, 'alice')).toBe('alice')
+    })
+
+    it('forgets a nick that quits or is kicked', async () => {
+      const { client, receive } = await connected()
+      receive(
+        ':alice!a@host JOIN #one',
+        ':bob!b@host JOIN #one',
+        ':alice!a@host QUIT :gone',
+        ':op!o@host KICK #one bob :out'
+      )
+      expect(client.getHostmask(SERVER, 'alice')).toBe('alice')
+      expect(client.getHostmask(SERVER, 'bob')).toBe('bob')
+    })
+
+    it('forgets the members of a channel we leave unless we meet them elsewhere', async () => {
+      const { client, receive } = await connected()
+      receive(
+        ':srv 353 me = #one :@alice bob',
+        ':srv 353 me = #two :bob',
+        ':alice!a@host PRIVMSG #one :hi',
+        ':bob!b@host PRIVMSG #one :hi',
+        ':me!m@host PART #one'
+      )
+      expect(client.getHostmask(SERVER, 'alice')).toBe('alice')
+      expect(client.getHostmask(SERVER, 'bob')).toBe('bob!b@host')
+    })
+
+    it('follows a nick change', async () => {
+      const { client, receive } = await connected()
+      receive(':alice!a@host JOIN #one', ':alice!a@host NICK :alicia')
+      expect(client.getHostmask(SERVER, 'alicia')).toBe('alicia!a@host')
+      expect(client.getHostmask(SERVER, 'alice')).toBe('alice')
+      receive(':alicia!a@host PART #one')
+      expect(client.getHostmask(SERVER, 'alicia')).toBe('alicia')
+    })
+
+    it('forgets everything on disconnect', async () => {
+      const { client, socket, receive } = await connected()
+      receive(':alice!a@host JOIN #one')
+      socket.onclose?.()
+      expect(client.getHostmask(SERVER, 'alice')).toBe('alice')
+    })
+  })
+
+  it('reports SETNAME with a realname containing spaces', async () => {
+    const { client, receive } = await connected()
+    const names: unknown[] = []
+    client.onSetname((data) => names.push(data))
+    receive(':alice!a@host SETNAME :Alice Liddell')
+    expect(names).toEqual([{ serverId: SERVER, nick: 'alice', realname: 'Alice Liddell' }])
+  })
+
+  it('reports away-notify going away and coming back', async () => {
+    const { client, receive } = await connected()
+    const away: unknown[] = []
+    client.onAway((data) => away.push(data))
+    receive(':alice!a@host AWAY :gone fishing', ':alice!a@host AWAY')
+    expect(away).toEqual([
+      { serverId: SERVER, nick: 'alice', message: 'gone fishing' },
+      { serverId: SERVER, nick: 'alice', message: undefined },
+    ])
+  })
+
+  it('reports the last message of a chathistory batch', async () => {
+    const { client, receive } = await connected()
+    const batches: unknown[] = []
+    client.onHistoryBatch((data) => batches.push(data))
+    receive(
+      ':srv BATCH +h1 chathistory #chan',
+      '@batch=h1;msgid=m1;time=2024-01-01T12:00:00.000Z :alice!a@host PRIVMSG #chan :one',
+      '@batch=h1;time=2024-01-01T12:01:00.000Z :bob!b@host PRIVMSG #chan :two',
+      ':srv BATCH -h1'
+    )
+    expect(batches).toEqual([
+      {
+        serverId: SERVER,
+        target: '#chan',
+        messages: 2,
+        last: 'timestamp=2024-01-01T12:01:00.000Z',
+      },
+    ])
+  })
+
+  it('tells replies to its ISON polls from those to an ISON sent by hand', async () => {
+    const { client, socket, receive } = await connected()
+    const polls: (string[] | undefined)[] = []
+    ;(client as any).on('serverMessage', (data: { command: string }) => {
+      if (data.command === '303') polls.push(client.isonPollReply(SERVER))
+    })
+    client.sendRaw(SERVER, 'ISON carol')
+    client.pollIson(SERVER, ['alice', 'bob'])
+    expect(socket.sent.slice(-2)).toEqual(['ISON carol', 'ISON alice bob'])
+    receive(':srv 303 me :carol', ':srv 303 me :alice')
+    expect(polls).toEqual([undefined, ['alice', 'bob']])
+  })
+
+  it('passes the account tag through on channel messages', async () => {
+    const { client, receive } = await connected()
+    const accounts: (string | undefined)[] = []
+    client.on('CHANMSG', (data) => accounts.push(data.mtags?.account))
+    receive('@account=alicea :alice!a@host PRIVMSG #chan :hi')
+    expect(accounts).toEqual(['alicea'])
+  })
+})
@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest'
+import {
+  buildKeymap,
+  chordFromKey,
+  DEFAULT_KEYMAP,
+  formatChord,
+  loadKeymap,
+  parseChord,
+} from '@/utils/keymap'
+
+const actionIds = new Set(Object.values(DEFAULT_KEYMAP))
+
+describe('parseChord', () => {
+  it('normalises case, modifier aliases and order', () => {
+    expect(parseChord('Ctrl+G')).toBe('ctrl+g')
+    expect(parseChord('shift+meta+N')).toBe('alt+shift+n')
+    expect(parseChord('control+Space')).toBe('ctrl+space')
+    expect(parseChord('alt+enter')).toBe('alt+return')
+  })
+
+  it('accepts "+" as the key itself', () => {
+    expect(parseChord('ctrl++')).toBe('ctrl++')
+  })
+
+  it('rejects unknown modifiers and empty keys', () => {
+    expect(parseChord('hyper+x')).toBeNull()
+    expect(parseChord('ctrl+')).toBeNull()
+    expect(parseChord('')).toBeNull()
+  })
+})
+
+describe('chordFromKey', () => {
+  it('builds the same form parseChord produces', () => {
+    expect(chordFromKey({ name: 'g', ctrl: true })).toBe('ctrl+g')
+    expect(chordFromKey({ name: 'n', option: true })).toBe('alt+n')
+    expect(chordFromKey({ name: 'up', shift: true })).toBe('shift+up')
+  })
+
+  it('treats the Kitty-protocol space like the legacy one', () => {
+    expect(chordFromKey({ name: ' ', ctrl: true })).toBe('ctrl+space')
+    expect(chordFromKey({ name: 'space', ctrl: true })).toBe('ctrl+space')
+  })
+
+  it('recognises Alt+[ and Alt+] from their raw sequences', () => {
+    expect(chordFromKey({ name: '', sequence: '\x1b[' })).toBe('alt+[')
+    expect(chordFromKey({ name: '', sequence: '\x1b]' })).toBe('alt+]')
+  })
+
+  it('recognises Ctrl with punctuation from its control byte', () => {
+    expect(chordFromKey({ name: '\x1f', sequence: '\x1f' })).toBe('ctrl+_')
+    expect(chordFromKey({ name: '\x1d', sequence: '\x1d' })).toBe('ctrl+]')
+  })
+})
+
+describe('formatChord', () => {
+  it('capitalises each part for display', () => {
+    expect(formatChord('ctrl+space')).toBe('Ctrl+Space')
+    expect(formatChord('alt+[')).toBe('Alt+[')
+  })
+})
+
+describe('buildKeymap', () => {
+  it('uses the defaults without a config', () => {
+    const { keymap, warnings } = buildKeymap(undefined, actionIds)
+    expect(keymap.get('ctrl+k')).toBe('ui.quickActions')
+    expect(keymap.get('ctrl+r')).toBe('input.historySearch')
+    expect(keymap.get('alt+r')).toBe('channel.markAsRead')
+    expect(warnings).toEqual([])
+  })
+
+  it('adds, overrides and unbinds chords', () => {
+    const { keymap, warnings } = buildKeymap(
+      { 'Ctrl+B': 'message.toggleSelection', 'alt+n': 'buffer.prev', 'ctrl+space': null },
+      actionIds
+    )
+    expect(keymap.get('ctrl+b')).toBe('message.toggleSelection')
+    expect(keymap.get('alt+n')).toBe('buffer.prev')
+    expect(keymap.has('ctrl+space')).toBe(false)
+    expect(warnings).toEqual([])
+  })
+
+  it('warns about two spellings of one chord bound to different actions', () => {
+    const { keymap, warnings } = buildKeymap(
+      { 'meta+x': 'buffer.next', 'alt+x': 'buffer.prev' },
+      actionIds
+    )
+    expect(keymap.get('alt+x')).toBe('buffer.prev')
+    expect(warnings).toHaveLength(1)
+    expect(warnings[0]).toContain('alt+x')
+  })
+
+  it('skips invalid chords, reserved and typing keys, and unknown actions', () => {
+    const { keymap, warnings } = buildKeymap(
+      {
+        'hyper+x': 'buffer.next',
+        return: 'buffer.next',
+        x: 'buffer.next',
+        'ctrl+x': 'no.such.action',
+        'ctrl+y': 42,
+      },
+      actionIds
+    )
+    expect(warnings).toHaveLength(5)
+    expect(keymap.has('x')).toBe(false)
+    expect(keymap.has('ctrl+x')).toBe(false)
+  })
+
+  it('rejects a config that is not an object', () => {
+    const { keymap, warnings } = buildKeymap(['ctrl+x'], actionIds)
+    expect(warnings).toHaveLength(1)
+    expect(keymap.size).toBe(Object.keys(DEFAULT_KEYMAP).length)
+  })
+})
+
+describe('loadKeymap', () => {
+  it('falls back to the defaults when there is no file', () => {
+    const { keymap, warnings } = loadKeymap(actionIds, '/nonexistent/tobby-keys.json')
+    expect(keymap.get('alt+1')).toBe('buffer.goto.1')
+    expect(warnings).toEqual([])
+  })
+})
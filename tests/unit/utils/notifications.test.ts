@@ -0,0 +1,154 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import {
+  bufferNotifyLevel,
+  detectNotifyMethod,
+  isQuietTime,
+  isSilenced,
+  notificationSequence,
+  notify,
+  notifyLevelFor,
+  parseQuietHours,
+  setTerminalNotifier,
+  shouldNotify,
+  type NotificationEvent,
+  type NotifySettings,
+} from '@/utils/notifications'
+import { wrapForTmux } from '@/utils/terminal'
+
+const settings: NotifySettings = {
+  notifyMethod: 'auto',
+  notifyCommand: '',
+  notifyQuietHours: '',
+  notifyChannels: 'mentions',
+  notifyPrivate: 'all',
+}
+
+const event: NotificationEvent = {
+  bufferId: 'chan-1',
+  bufferName: '#dev',
+  isPrivate: false,
+  mentioned: false,
+  title: 'alice in #dev',
+  body: 'hello',
+}
+
+const at = (hours: number, minutes = 0) => new Date(2026, 9, 19, hours, minutes)
+
+describe('quiet hours', () => {
+  it('parse HH:MM-HH:MM into minutes', () => {
+    expect(parseQuietHours('23:00-07:30')).toEqual({ start: 1380, end: 450 })
+    expect(parseQuietHours('9:00 - 17:00')).toEqual({ start: 540, end: 1020 })
+    expect(parseQuietHours('25:00-07:00')).toBeNull()
+    expect(parseQuietHours('night')).toBeNull()
+  })
+
+  it('wrap past midnight', () => {
+    expect(isQuietTime('23:00-07:00', at(23, 30))).toBe(true)
+    expect(isQuietTime('23:00-07:00', at(3))).toBe(true)
+    expect(isQuietTime('23:00-07:00', at(7))).toBe(false)
+    expect(isQuietTime('12:00-13:00', at(12, 59))).toBe(true)
+    expect(isQuietTime('', at(3))).toBe(false)
+  })
+})
+
+describe('notify levels', () => {
+  it('default to mentions in channels and everything in private', () => {
+    expect(notifyLevelFor(event, settings)).toBe('mentions')
+    expect(notifyLevelFor({ isPrivate: true }, settings)).toBe('all')
+  })
+
+  it('take the level set on the buffer first', () => {
+    expect(notifyLevelFor({ ...event, level: 'none' }, settings)).toBe('none')
+  })
+
+  it('are looked up by buffer name regardless of case', () => {
+    const server = { notifyLevels: { '#dev': 'muted' as const } }
+    expect(bufferNotifyLevel(server, '#Dev')).toBe('muted')
+    expect(bufferNotifyLevel(server, '#ops')).toBeUndefined()
+    expect(bufferNotifyLevel(undefined, '#dev')).toBeUndefined()
+  })
+
+  it('silence unread counts only when set to none or muted', () => {
+    expect(isSilenced('none')).toBe(true)
+    expect(isSilenced('muted')).toBe(true)
+    expect(isSilenced('mentions')).toBe(false)
+    expect(isSilenced(undefined)).toBe(false)
+  })
+})
+
+describe('shouldNotify', () => {
+  it('follows the buffer level', () => {
+    expect(shouldNotify(event, settings, null, at(12))).toBe(false)
+    expect(shouldNotify({ ...event, mentioned: true }, settings, null, at(12))).toBe(true)
+    expect(shouldNotify(event, { ...settings, notifyChannels: 'all' }, null, at(12))).toBe(true)
+  })
+
+  it('never fires for none or muted buffers, even on a mention', () => {
+    for (const level of ['none', 'muted'] as const) {
+      expect(shouldNotify({ ...event, mentioned: true, level }, settings, null, at(12))).toBe(false)
+    }
+  })
+
+  it('stays quiet for the focused buffer and during quiet hours', () => {
+    const mention = { ...event, mentioned: true }
+    expect(shouldNotify(mention, settings, 'chan-1', at(12))).toBe(false)
+    expect(
+      shouldNotify(mention, { ...settings, notifyQuietHours: '22:00-08:00' }, null, at(2))
+    ).toBe(false)
+  })
+})
+
+describe('terminal backends', () => {
+  it('pick an escape the terminal understands', () => {
+    expect(detectNotifyMethod({ TERM: 'xterm-kitty' })).toBe('osc99')
+    expect(detectNotifyMethod({ TERM_PROGRAM: 'WezTerm' })).toBe('osc9')
+    expect(detectNotifyMethod({ TERM: 'foot' })).toBe('osc777')
+    expect(detectNotifyMethod({ TERM: 'xterm-256color' })).toBe('bell')
+  })
+
+  it('build each escape sequence', () => {
+    expect(notificationSequence('bell', 't', 'b')).toBe('\x07')
+    expect(notificationSequence('osc9', 'alice', 'hi')).toBe('\x1b]9;alice: hi\x07')
+    expect(notificationSequence('osc777', 'a;b', 'hi')).toBe('\x1b]777;notify;a,b;hi\x07')
+    expect(notificationSequence('osc99', 'alice', 'hi')).toBe(
+      '\x1b]99;i=tobby:d=0:p=title;alice\x1b\\\x1b]99;i=tobby:d=1:p=body;hi\x1b\\'
+    )
+    expect(notificationSequence('none', 't', 'b')).toBeNull()
+  })
+
+  it('keep control characters out of the payload', () => {
+    expect(notificationSequence('osc9', 'alice', 'a\x07b\x1bc')).toBe('\x1b]9;alice: a b c\x07')
+  })
+
+  it('pass through tmux only inside tmux', () => {
+    expect(wrapForTmux('\x1b]9;hi\x07', {})).toBe('\x1b]9;hi\x07')
+    expect(wrapForTmux('\x1b]9;hi\x07', { TMUX: '/tmp/tmux' })).toBe(
+      '\x1bPtmux;\x1b\x1b]9;hi\x07\x1b\\'
+    )
+  })
+})
+
+describe('notify', () => {
+  afterEach(() => {
+    setTerminalNotifier(null)
+    vi.restoreAllMocks()
+  })
+
+  it('hands the terminal half to a notifier instead of stdout', () => {
+    const write = vi.spyOn(process.stdout, 'write').mockImplementation(() => true)
+    const relayed: NotificationEvent[] = []
+    setTerminalNotifier((e) => relayed.push(e))
+    const dm = { ...event, isPrivate: true }
+    notify(dm, settings, null)
+    expect(relayed).toEqual([dm])
+    expect(write).not.toHaveBeenCalled()
+  })
+
+  it('relays nothing the rules filter out', () => {
+    const relayed: NotificationEvent[] = []
+    setTerminalNotifier((e) => relayed.push(e))
+    notify(event, settings, null)
+    notify({ ...event, isPrivate: true }, settings, event.bufferId)
+    expect(relayed).toEqual([])
+  })
+})
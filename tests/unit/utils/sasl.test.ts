@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest'
+import { pickSaslMechanism, ScramClient } from '@/utils/sasl'
+
+describe('pickSaslMechanism', () => {
+  it('prefers SCRAM-SHA-256 over PLAIN when both are advertised', () => {
+    expect(pickSaslMechanism(['PLAIN', 'SCRAM-SHA-256'], { password: true })).toBe('SCRAM-SHA-256')
+  })
+
+  it('falls back to PLAIN when SCRAM is not advertised', () => {
+    expect(pickSaslMechanism(['PLAIN', 'EXTERNAL'], { password: true })).toBe('PLAIN')
+  })
+
+  it('uses PLAIN when the server sends no mechanism list', () => {
+    expect(pickSaslMechanism([], { password: true })).toBe('PLAIN')
+  })
+
+  it('prefers EXTERNAL when a client certificate is configured', () => {
+    expect(
+      pickSaslMechanism(['PLAIN', 'SCRAM-SHA-256', 'EXTERNAL'], { certFP: true, password: true })
+    ).toBe('EXTERNAL')
+  })
+
+  it('skips mechanisms the server does not offer', () => {
+    expect(pickSaslMechanism(['PLAIN'], { certFP: true, password: true })).toBe('PLAIN')
+    expect(pickSaslMechanism(['EXTERNAL'], { password: true })).toBeNull()
+  })
+
+  it('prefers OAUTHBEARER when a token is present', () => {
+    expect(pickSaslMechanism([], { oauthToken: 'tok', password: true })).toBe('OAUTHBEARER')
+  })
+})
+
+describe('ScramClient', () => {
+  // Test vector from RFC 7677 §3
+  const serverFirst =
+    'r=rOprNGfwEbeRWgbNEkqO%hvYDpWUa2RaTCAfuxFIlj)hNlF$k0,s=W22ZaJ0SNY7soEsUEjb6gQ==,i=4096'
+
+  it('produces the RFC 7677 client messages', () => {
+    const scram = new ScramClient('user', 'pencil', 'rOprNGfwEbeRWgbNEkqO')
+
+    expect(scram.clientFirst()).toBe('n,,n=user,r=rOprNGfwEbeRWgbNEkqO')
+    expect(scram.clientFinal(serverFirst)).toBe(
+      'c=biws,r=rOprNGfwEbeRWgbNEkqO%hvYDpWUa2RaTCAfuxFIlj)hNlF$k0,' +
+        'p=dHzbZapWIk4jUhN+Ute9ytag9zjfMHgsqmmiz7AndVQ='
+    )
+  })
+
+  it('verifies the server signature', () => {
+    const scram = new ScramClient('user', 'pencil', 'rOprNGfwEbeRWgbNEkqO')
+    scram.clientFinal(serverFirst)
+
+    expect(scram.verifyServerFinal('v=6rriTRBi23WpRR/wtup+mMhUZUn/dB5nLTJRsjl95G4=')).toBe(true)
+    expect(scram.verifyServerFinal('v=AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA=')).toBe(false)
+  })
+
+  it('rejects a server nonce that does not extend ours', () => {
+    const scram = new ScramClient('user', 'pencil', 'clientnonce')
+    expect(() => scram.clientFinal('r=othernonce,s=QSXCR+Q6sek8bf92,i=4096')).toThrow(
+      /server-first/
+    )
+  })
+
+  it('escapes = and , in the username', () => {
+    const scram = new ScramClient('a=b,c', 'pw', 'n0nce')
+    expect(scram.clientFirst()).toBe('n,,n=a=3Db=2Cc,r=n0nce')
+  })
+})
@@ -0,0 +1,82 @@
+import { describe, it, expect, vi } from 'vitest'
+import type { AppStore } from '@/store'
+import { getSettingSpec, nextChoice, parseBoolean, SETTINGS } from '@/utils/settings'
+
+// Just enough of the store for the settings to read and write
+const fakeStore = (overrides: Partial<AppStore> = {}) =>
+  ({
+    theme: 'dark',
+    showTimestamps: true,
+    timestampFormat: '%H:%M',
+    compactMode: false,
+    setSetting: vi.fn(),
+    resetSetting: vi.fn(),
+    setTheme: vi.fn((name: string) => name === 'light'),
+    toggleShowTimestamps: vi.fn(),
+    ...overrides,
+  }) as unknown as AppStore
+
+describe('parseBoolean', () => {
+  it('accepts the usual spellings', () => {
+    expect(parseBoolean('On')).toBe(true)
+    expect(parseBoolean('yes')).toBe(true)
+    expect(parseBoolean('0')).toBe(false)
+    expect(parseBoolean('maybe')).toBeNull()
+  })
+})
+
+describe('settings', () => {
+  it('have unique names that getSettingSpec finds regardless of case', () => {
+    const keys = SETTINGS.map((spec) => spec.key)
+    expect(new Set(keys).size).toBe(keys.length)
+    expect(getSettingSpec('Compact_Mode')?.key).toBe('compact_mode')
+    expect(getSettingSpec('nope')).toBeUndefined()
+  })
+
+  it('store parsed values and reject invalid ones', () => {
+    const store = fakeStore()
+    const compact = getSettingSpec('compact_mode')!
+    expect(compact.set(store, 'yes')).toBeNull()
+    expect(store.setSetting).toHaveBeenCalledWith('compactMode', true)
+    expect(compact.set(store, 'sometimes')).not.toBeNull()
+
+    const format = getSettingSpec('timestamp_format')!
+    expect(format.set(store, '%H:%M:%S')).toBeNull()
+    expect(store.setSetting).toHaveBeenCalledWith('timestampFormat', '%H:%M:%S')
+    expect(format.set(store, '%Q')).toContain('%Q')
+    expect(store.setSetting).toHaveBeenCalledTimes(2)
+  })
+
+  it('reset stored settings through the store', () => {
+    const store = fakeStore()
+    getSettingSpec('timestamp_format')!.reset(store)
+    expect(store.resetSetting).toHaveBeenCalledWith('timestampFormat')
+  })
+
+  it('only toggle timestamps when the value changes', () => {
+    const store = fakeStore()
+    const spec = getSettingSpec('show_timestamps')!
+    spec.set(store, 'on')
+    expect(store.toggleShowTimestamps).not.toHaveBeenCalled()
+    spec.set(store, 'off')
+    expect(store.toggleShowTimestamps).toHaveBeenCalledTimes(1)
+  })
+
+  it('report unknown themes', () => {
+    const spec = getSettingSpec('theme')!
+    expect(spec.set(fakeStore(), 'light')).toBeNull()
+    expect(spec.set(fakeStore(), 'sepia')).toContain('sepia')
+  })
+})
+
+describe('nextChoice', () => {
+  it('cycles through the choices and wraps around', () => {
+    const spec = getSettingSpec('compact_mode')!
+    expect(nextChoice(spec, 'on')).toBe('off')
+    expect(nextChoice(spec, 'off')).toBe('on')
+  })
+
+  it('has nothing for free-text settings', () => {
+    expect(nextChoice(getSettingSpec('timestamp_format')!, '%H:%M')).toBeNull()
+  })
+})
@@ -0,0 +1,171 @@
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import { afterEach, beforeEach, describe, it, expect } from 'vitest'
+import {
+  SpellChecker,
+  addPersonalWord,
+  defaultSpellLanguage,
+  findMisspellings,
+  loadSpellChecker,
+  spellingCandidates,
+} from '@/utils/spellcheck'
+
+const AFF = `SET UTF-8
+TRY esiarntolcdugmphbyfvkwz
+NOSUGGEST !
+NEEDAFFIX ?
+REP 1
+REP f ph
+
+SFX S Y 2
+SFX S 0 s [^sxy]
+SFX S y ies [^aeiou]y
+
+SFX D Y 2
+SFX D 0 ed [^ey]
+SFX D 0 d e
+
+SFX F N 1
+SFX F 0 ful/Y .
+
+SFX Y N 1
+SFX Y 0 ly .
+
+SFX M N 1
+SFX M 0 ing .
+
+PFX U Y 1
+PFX U 0 un .
+`
+
+const DIC = `11
+hello
+world
+the
+phone
+do/UD
+tie/DS
+pony/S
+damn/!
+lock/UDS
+hope/F
+walk/M?
+`
+
+const checker = () => new SpellChecker(AFF, DIC)
+
+describe('SpellChecker', () => {
+  it('accepts listed words and their affixed forms', () => {
+    const spell = checker()
+    for (const word of ['hello', 'ponies', 'tied', 'undo', 'unlocked', 'locks']) {
+      expect(spell.check(word)).toBe(true)
+    }
+    expect(spell.check('helo')).toBe(false)
+    expect(spell.check('ponys')).toBe(false)
+  })
+
+  it('applies a suffix allowed after another and needs an affix where asked', () => {
+    const spell = checker()
+    expect(spell.check('hopefully')).toBe(true)
+    expect(spell.check('hopely')).toBe(false)
+    expect(spell.check('walking')).toBe(true)
+    expect(spell.check('walk')).toBe(false)
+  })
+
+  it('follows the case of the word', () => {
+    const spell = checker()
+    expect(spell.check('Hello')).toBe(true)
+    expect(spell.check('HELLO')).toBe(true)
+    expect(spell.check('hELLO')).toBe(false)
+  })
+
+  it('suggests near words in their original case', () => {
+    const spell = checker()
+    expect(spell.suggest('wrold')).toContain('world')
+    expect(spell.suggest('Helo')[0]).toBe('Hello')
+    expect(spell.suggest('fone')).toContain('phone')
+    expect(spell.suggest('helloworld')).toContain('hello world')
+  })
+
+  it('looks two edits away when nothing is closer', () => {
+    expect(checker().suggest('wrlod')).toContain('world')
+  })
+
+  it('never suggests NOSUGGEST words', () => {
+    expect(checker().suggest('dammn')).not.toContain('damn')
+  })
+
+  it('learns personal words', () => {
+    const spell = new SpellChecker(AFF, DIC, ['tobby'])
+    expect(spell.check('tobby')).toBe(true)
+    spell.addWord('weechat')
+    expect(spell.check('weechat')).toBe(true)
+  })
+})
+
+describe('findMisspellings', () => {
+  const spell = checker()
+
+  it('finds words with their offsets', () => {
+    expect(findMisspellings('hello wrold, the fone', spell)).toEqual([
+      { start: 6, end: 11, word: 'wrold' },
+      { start: 17, end: 21, word: 'fone' },
+    ])
+  })
+
+  it('skips commands, URLs, code, channels and nicks', () => {
+    const text = '/msg alice hello https://exmple.org `wrold` #chanel bob_ x2 bobb'
+    expect(findMisspellings(text, spell, new Set(['bob_', 'bobb']))).toEqual([])
+  })
+
+  it('checks each part of a hyphenated word', () => {
+    expect(findMisspellings('hello-wrold', spell).map((m) => m.word)).toEqual(['wrold'])
+  })
+})
+
+describe('spellingCandidates', () => {
+  it('keeps the punctuation around the word', () => {
+    expect(spellingCandidates('wrold!', checker())[0]).toBe('world!')
+    expect(spellingCandidates('hello,', checker())).toEqual([])
+  })
+})
+
+describe('defaultSpellLanguage', () => {
+  it('reads the locale', () => {
+    expect(defaultSpellLanguage({ LANG: 'de_DE.UTF-8' })).toBe('de_DE')
+    expect(defaultSpellLanguage({ LANG: 'C' })).toBe('en_US')
+    expect(defaultSpellLanguage({})).toBe('en_US')
+  })
+})
+
+describe('dictionary files', () => {
+  let dir: string
+  const xdg = process.env.XDG_DATA_HOME
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'tobby-spell-'))
+    process.env.XDG_DATA_HOME = dir
+  })
+
+  afterEach(() => {
+    if (xdg === undefined) delete process.env.XDG_DATA_HOME
+    else process.env.XDG_DATA_HOME = xdg
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('load in the background with the personal words', async () => {
+    fs.writeFileSync(path.join(dir, 'test.aff'), AFF)
+    fs.writeFileSync(path.join(dir, 'test.dic'), DIC)
+    expect(await addPersonalWord('tobby')).toBeNull()
+    const spell = await loadSpellChecker(path.join(dir, 'test'))
+    expect(spell?.check('ponies')).toBe(true)
+    expect(spell?.check('tobby')).toBe(true)
+    expect(await loadSpellChecker(path.join(dir, 'nope'))).toBeNull()
+  })
+
+  it('report a personal dictionary that cannot be written', async () => {
+    fs.mkdirSync(path.join(dir, 'obbytty', 'words.txt'), { recursive: true })
+    expect(await addPersonalWord('tobby')).toContain('words.txt')
+  })
+})
@@ -0,0 +1,114 @@
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import { afterEach, describe, it, expect } from 'vitest'
+import { DARK_THEME, LIGHT_THEME, NICKNAME_COLORS, THEME } from '@/constants/theme'
+import {
+  applyTheme,
+  BUILTIN_THEMES,
+  buildTheme,
+  DEFAULT_THEME,
+  getTheme,
+  getThemeWarnings,
+  listThemes,
+  loadUserThemes,
+} from '@/utils/themes'
+
+describe('built-in themes', () => {
+  it('define every color the dark theme does', () => {
+    const keys = Object.keys(DARK_THEME).sort()
+    for (const theme of BUILTIN_THEMES) {
+      expect(Object.keys(theme.colors).sort()).toEqual(keys)
+      expect(theme.nicknames.length).toBeGreaterThan(0)
+    }
+  })
+
+  it('are found by name regardless of case', () => {
+    expect(getTheme('Light')?.colors).toBe(LIGHT_THEME)
+    expect(getTheme('nope')).toBeUndefined()
+  })
+})
+
+describe('buildTheme', () => {
+  it('fills in what the file leaves out from the theme it extends', () => {
+    const { theme, warnings } = buildTheme(
+      { extends: 'light', colors: { background: '#102030' }, nicknames: ['#abcdef'] },
+      'mine'
+    )
+    expect(warnings).toEqual([])
+    expect(theme!.name).toBe('mine')
+    expect(theme!.colors.background).toBe('#102030')
+    expect(theme!.colors.foreground).toBe(LIGHT_THEME.foreground)
+    expect(theme!.nicknames).toEqual(['#abcdef'])
+  })
+
+  it('skips unknown keys and malformed colors with a warning', () => {
+    const { theme, warnings } = buildTheme(
+      { colors: { background: 'red', nope: '#000000' }, irc: { green: '#00ff0080' } },
+      'mine'
+    )
+    expect(warnings).toHaveLength(2)
+    expect(theme!.colors.background).toBe(DARK_THEME.background)
+    expect(theme!.irc.green).toBe('#00ff0080')
+  })
+
+  it('falls back to dark for an unknown base theme', () => {
+    const { theme, warnings } = buildTheme({ extends: 'solarized' }, 'mine')
+    expect(warnings).toHaveLength(1)
+    expect(theme!.colors).toEqual(DARK_THEME)
+  })
+
+  it('refuses to shadow a built-in theme', () => {
+    expect(buildTheme({ name: 'Dark' }, 'x').theme).toBeNull()
+    expect(buildTheme([], 'x').theme).toBeNull()
+  })
+})
+
+describe('loadUserThemes', () => {
+  let dir: string | null = null
+
+  afterEach(() => {
+    if (dir) fs.rmSync(dir, { recursive: true, force: true })
+    dir = null
+    loadUserThemes('/nonexistent/tobby-themes')
+  })
+
+  it('adds themes from JSON files and reports broken ones', () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'tobby-themes-'))
+    fs.writeFileSync(path.join(dir, 'paper.json'), JSON.stringify({ extends: 'light' }))
+    fs.writeFileSync(path.join(dir, 'broken.json'), '{ nope')
+    fs.writeFileSync(path.join(dir, 'notes.txt'), 'ignored')
+
+    const warnings = loadUserThemes(dir)
+    expect(warnings).toHaveLength(1)
+    expect(warnings[0]).toMatch(/^broken\.json:/)
+    expect(getThemeWarnings()).toEqual(warnings)
+    expect(listThemes().map((t) => t.name)).toContain('paper')
+    expect(getTheme('paper')?.file).toBe(path.join(dir, 'paper.json'))
+  })
+
+  it('has no user themes without a directory', () => {
+    expect(loadUserThemes('/nonexistent/tobby-themes')).toEqual([])
+    expect(listThemes()).toHaveLength(BUILTIN_THEMES.length)
+  })
+})
+
+describe('applyTheme', () => {
+  afterEach(() => applyTheme(getTheme('dark')!))
+
+  it('swaps the active palettes in place', () => {
+    const light = getTheme('light')!
+    applyTheme(light)
+    expect(THEME).toEqual(light.colors)
+    expect(NICKNAME_COLORS).toEqual(light.nicknames)
+    // The built-in definitions themselves are left alone
+    expect(DARK_THEME.background).toBe('#0d1117')
+  })
+})
+
+describe('DEFAULT_THEME', () => {
+  it('is the full dark palette; ansi16 is opt-in', () => {
+    expect(DEFAULT_THEME).toBe('dark')
+    expect(getTheme(DEFAULT_THEME)).toBeDefined()
+  })
+})
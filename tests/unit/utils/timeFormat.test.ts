@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest'
+import {
+  DEFAULT_TIMESTAMP_FORMAT,
+  formatDay,
+  formatTime,
+  isSameDay,
+  validateTimeFormat,
+} from '@/utils/timeFormat'
+
+// Local time, so the expectations hold in any timezone
+const date = new Date(2026, 9, 5, 14, 7, 9)
+
+describe('formatTime', () => {
+  it('keeps the old [HH:MM] look by default', () => {
+    expect(formatTime(date, DEFAULT_TIMESTAMP_FORMAT)).toBe('14:07')
+  })
+
+  it('expands strftime directives', () => {
+    expect(formatTime(date, '%H:%M:%S')).toBe('14:07:09')
+    expect(formatTime(date, '%I:%M %p')).toBe('02:07 PM')
+    expect(formatTime(date, '%a %e %b %Y')).toBe('Mon  5 Oct 2026')
+    expect(formatTime(date, '%d/%m/%y 100%%')).toBe('05/10/26 100%')
+  })
+
+  it('shows midnight as 12 AM on the 12-hour clock', () => {
+    expect(formatTime(new Date(2026, 0, 1, 0, 30), '%I %p')).toBe('12 AM')
+  })
+
+  it('leaves unknown directives alone', () => {
+    expect(formatTime(date, '%Q')).toBe('%Q')
+  })
+})
+
+describe('validateTimeFormat', () => {
+  it('accepts known directives and literal text', () => {
+    expect(validateTimeFormat('%H:%M:%S')).toBeNull()
+    expect(validateTimeFormat('at %H')).toBeNull()
+  })
+
+  it('rejects empty formats, unknown directives and a trailing %', () => {
+    expect(validateTimeFormat('')).not.toBeNull()
+    expect(validateTimeFormat('%H %Q')).toContain('%Q')
+    expect(validateTimeFormat('%H%')).not.toBeNull()
+  })
+})
+
+describe('day separators', () => {
+  it('compare calendar days, not 24-hour spans', () => {
+    expect(isSameDay(new Date(2026, 9, 5, 0, 1), new Date(2026, 9, 5, 23, 59))).toBe(true)
+    expect(isSameDay(new Date(2026, 9, 5, 23, 59), new Date(2026, 9, 6, 0, 1))).toBe(false)
+  })
+
+  it('label the day, adding the year only when it differs', () => {
+    const now = new Date(2026, 9, 19)
+    expect(formatDay(new Date(2026, 9, 19), now)).toBe('Monday 19 Oct')
+    expect(formatDay(new Date(2025, 11, 31), now)).toBe('Wednesday 31 Dec 2025')
+  })
+})
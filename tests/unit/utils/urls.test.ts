@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest'
+import type { Message } from '@/types'
+import { collectUrls, findUrls, splitUrls, urlHref } from '@/utils/urls'
+
+const message = (id: string, content: string, type: Message['type'] = 'message'): Message => ({
+  id,
+  channelId: 'chan',
+  serverId: 'srv',
+  userId: `nick-${id}`,
+  content,
+  timestamp: new Date(2026, 9, 19, 12, Number(id)),
+  type,
+  replyMessage: null,
+  reactions: [],
+  mentioned: [],
+})
+
+describe('findUrls', () => {
+  it('finds scheme and www. links', () => {
+    expect(findUrls('see https://example.com/a?b=1 and www.example.org')).toEqual([
+      'https://example.com/a?b=1',
+      'www.example.org',
+    ])
+  })
+
+  it('leaves trailing punctuation and unopened brackets out', () => {
+    expect(findUrls('go to https://example.com.')).toEqual(['https://example.com'])
+    expect(findUrls('(https://example.com/x)')).toEqual(['https://example.com/x'])
+    expect(findUrls('https://en.wikipedia.org/wiki/Tobby_(dog)!')).toEqual([
+      'https://en.wikipedia.org/wiki/Tobby_(dog)',
+    ])
+  })
+
+  it('stops at IRC formatting codes', () => {
+    expect(findUrls('\x02https://example.com\x02 bold')).toEqual(['https://example.com'])
+  })
+
+  it('ignores a scheme with no host', () => {
+    expect(findUrls('http:// is a prefix')).toEqual([])
+  })
+})
+
+describe('splitUrls', () => {
+  it('puts URLs at odd indices', () => {
+    expect(splitUrls('a http://x.io b')).toEqual(['a ', 'http://x.io', ' b'])
+    expect(splitUrls('no links')).toEqual(['no links'])
+  })
+})
+
+describe('urlHref', () => {
+  it('adds https:// to bare www. hosts only', () => {
+    expect(urlHref('www.example.org')).toBe('https://www.example.org')
+    expect(urlHref('http://example.org')).toBe('http://example.org')
+  })
+})
+
+describe('collectUrls', () => {
+  it('lists links newest first, once each, with who posted them', () => {
+    const caught = collectUrls([
+      message('1', 'https://a.example and https://b.example'),
+      message('2', 'joined https://c.example', 'join'),
+      message('3', 'again https://a.example'),
+    ])
+    expect(caught.map((c) => c.url)).toEqual(['https://a.example', 'https://b.example'])
+    expect(caught[0]!.nick).toBe('nick-3')
+    expect(caught[1]!.messageId).toBe('1')
+  })
+})
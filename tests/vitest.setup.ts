@@ -1,6 +1,8 @@
 import { vi } from 'vitest'
 
 globalThis.__APP_VERSION__ = '0.1.0-test'
+// Set by src/index.tsx in the app; debug logging stays off in tests
+globalThis.debugLog = undefined
 
 vi.mock('bun:sqlite', () => ({
   Database: class {